@@ -0,0 +1,70 @@
+import axios from 'axios';
+import { randomUUID } from 'crypto';
+import { JwtService } from '@nestjs/jwt';
+
+/**
+ * 租户隔离端到端测试
+ *
+ * @description 以服务端相同的密钥签发访问令牌，验证租户用户无法通过 `X-Tenant-Id` 请求头访问其他租户，
+ * 需要服务端开启 `features.multiTenant`
+ */
+describe('Tenant isolation', () => {
+  const jwt = new JwtService({ secret: process.env.JWT_SECRET || 'secretKey' });
+  const operatorToken = jwt.sign({
+    sub: randomUUID(),
+    username: 'e2e-operator',
+    type: 'platform_user',
+    role: 'admin',
+    permissions: ['*'],
+  });
+  let acmeId: string;
+  let globexId: string;
+  let tenantUserToken: string;
+
+  const createTenant = async (name: string) => {
+    const res = await axios.post(
+      '/api/tenants',
+      { name: `${name} ${randomUUID()}` },
+      { headers: { authorization: `Bearer ${operatorToken}` } },
+    );
+    return res.data.data.id as string;
+  };
+
+  const listUsers = (token: string, tenantId: string) =>
+    axios.get('/api/users', {
+      headers: { authorization: `Bearer ${token}`, 'x-tenant-id': tenantId },
+      validateStatus: () => true,
+    });
+
+  beforeAll(async () => {
+    acmeId = await createTenant('Acme');
+    globexId = await createTenant('Globex');
+    tenantUserToken = jwt.sign({
+      sub: randomUUID(),
+      username: 'e2e-member',
+      type: 'tenant_user',
+      tenantId: acmeId,
+      role: 'member',
+      permissions: [],
+    });
+  });
+
+  it('should reject a tenant user switching tenants with the X-Tenant-Id header', async () => {
+    const res = await listUsers(tenantUserToken, globexId);
+
+    expect(res.status).toBe(403);
+    expect(res.data.error.code).toBe('TENANT_MISMATCH');
+  });
+
+  it('should let a tenant user name their own tenant', async () => {
+    const res = await listUsers(tenantUserToken, acmeId);
+
+    expect(res.status).toBe(200);
+  });
+
+  it('should let a platform operator switch tenants with the X-Tenant-Id header', async () => {
+    const res = await listUsers(operatorToken, globexId);
+
+    expect(res.status).toBe(200);
+  });
+});
@@ -1,6 +1,8 @@
 import { Controller, Get } from '@nestjs/common';
+import { Public } from '@hl8/common';
 import { AppService } from './app.service';
 
+@Public()
 @Controller()
 export class AppController {
   constructor(private readonly appService: AppService) {}
@@ -1,9 +1,20 @@
 import { Module } from '@nestjs/common';
+import { APP_FILTER, APP_INTERCEPTOR } from '@nestjs/core';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
+import { HttpExceptionFilter } from './http-exception.filter';
+import { ResponseEnvelopeInterceptor } from './response-envelope.interceptor';
+import { AuthModule } from '../modules/auth/auth.module';
+import { TenancyModule } from '../modules/tenancy/tenancy.module';
 import { UsersModule } from '../modules/users/users.module';
 import { TenantsModule } from '../modules/tenants/tenants.module';
 import { OrganizationsModule } from '../modules/organizations/organizations.module';
+import { DepartmentsModule } from '../modules/departments/departments.module';
+import { InvitationsModule } from '../modules/invitations/invitations.module';
+import { RegistrationModule } from '../modules/registration/registration.module';
+import { ImpersonationModule } from '../modules/impersonation/impersonation.module';
+import { AuditLogsModule } from '../modules/audit-logs/audit-logs.module';
+import { DataRetentionModule } from '../modules/data-retention/data-retention.module';
 import { ConfigModule } from '../../../../packages/config/src';
 import { DatabaseModule } from '../../../../packages/database/src';
 
@@ -22,13 +33,26 @@ import { DatabaseModule } from '../../../../packages/database/src';
     ConfigModule,
     DatabaseModule,
     // 业务模块集成
+    AuthModule,
+    TenancyModule,
     UsersModule,
     TenantsModule,
     OrganizationsModule,
+    DepartmentsModule,
+    InvitationsModule,
+    RegistrationModule,
+    ImpersonationModule,
+    AuditLogsModule,
+    DataRetentionModule,
     // TODO: 逐步集成其他核心库
     // LoggerModule,
   ],
   controllers: [AppController],
-  providers: [AppService],
+  providers: [
+    AppService,
+    // 统一成功响应与错误响应结构
+    { provide: APP_INTERCEPTOR, useClass: ResponseEnvelopeInterceptor },
+    { provide: APP_FILTER, useClass: HttpExceptionFilter },
+  ],
 })
 export class AppModule {}
@@ -0,0 +1,22 @@
+import { BadRequestException } from '@nestjs/common';
+import { formatEntityTag, parseIfMatch } from './entity-tag';
+
+describe('entity tags', () => {
+  it('should round-trip versions through ETag and If-Match', () => {
+    expect(formatEntityTag(3)).toBe('"3"');
+    expect(parseIfMatch(formatEntityTag(3))).toBe(3);
+    expect(parseIfMatch(' "3" ')).toBe(3);
+  });
+
+  it('should not constrain the version without a specific entity tag', () => {
+    expect(parseIfMatch(undefined)).toBeUndefined();
+    expect(parseIfMatch('')).toBeUndefined();
+    expect(parseIfMatch('*')).toBeUndefined();
+  });
+
+  it('should reject weak, unquoted or multiple entity tags', () => {
+    for (const header of ['W/"3"', '3', '"3", "4"', '"abc"']) {
+      expect(() => parseIfMatch(header)).toThrow(BadRequestException);
+    }
+  });
+});
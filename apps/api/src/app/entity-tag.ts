@@ -0,0 +1,55 @@
+import { BadRequestException, createParamDecorator, ExecutionContext } from '@nestjs/common';
+
+/**
+ * 实体标签格式
+ *
+ * @description 以实体版本号作为强校验 ETag，如 `"3"`
+ */
+const ENTITY_TAG_PATTERN = /^"(\d+)"$/;
+
+/**
+ * 生成实体标签
+ *
+ * @param version - 实体版本号
+ * @returns ETag 响应头的值
+ */
+export function formatEntityTag(version: number): string {
+  return `"${version}"`;
+}
+
+/**
+ * 解析 If-Match 请求头
+ *
+ * @description 未携带或为 `*` 时不限定版本；否则须为单个由 formatEntityTag 生成的实体标签
+ * @param header - If-Match 请求头的值
+ * @returns 期望的实体版本，不限定版本时为 undefined
+ * @throws {BadRequestException} 请求头不是单个实体标签
+ */
+export function parseIfMatch(header: string | string[] | undefined): number | undefined {
+  const value = Array.isArray(header) ? header.join(',') : header?.trim();
+  if (!value || value === '*') {
+    return undefined;
+  }
+
+  const match = ENTITY_TAG_PATTERN.exec(value);
+  if (!match) {
+    throw new BadRequestException(`If-Match must be a single entity tag such as ${formatEntityTag(1)}`);
+  }
+  return Number(match[1]);
+}
+
+/**
+ * If-Match 参数装饰器
+ *
+ * @description 注入 If-Match 请求头中的期望版本，服务据此以 assertVersion 校验，版本不一致时返回 412
+ *
+ * @example
+ * ```typescript
+ * @Put(':id')
+ * updateTenant(@Param('id') id: string, @Body() dto: UpdateTenantDto, @IfMatch() expectedVersion?: number) {}
+ * ```
+ */
+export const IfMatch = createParamDecorator((_data: unknown, context: ExecutionContext) => {
+  const request = context.switchToHttp().getRequest<{ headers: Record<string, string | string[] | undefined> }>();
+  return parseIfMatch(request.headers['if-match']);
+});
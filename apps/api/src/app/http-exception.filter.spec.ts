@@ -0,0 +1,102 @@
+import {
+  ArgumentsHost,
+  BadRequestException,
+  ForbiddenException,
+  Logger,
+  NotFoundException,
+  PreconditionFailedException,
+} from '@nestjs/common';
+import {
+  ForeignKeyConstraintViolationException,
+  NotFoundError,
+  OptimisticLockError,
+  UniqueConstraintViolationException,
+} from '@mikro-orm/core';
+import { ErrorCode } from '@hl8/constants';
+import { getCurrentRequestId } from '@hl8/logger';
+import { HttpExceptionFilter } from './http-exception.filter';
+
+// 日志包在加载时会初始化 pino，单元测试中以轻量替身隔离
+jest.mock('@hl8/logger', () => ({ getCurrentRequestId: jest.fn() }));
+
+describe('HttpExceptionFilter', () => {
+  const filter = new HttpExceptionFilter();
+  let reply: { status: jest.Mock; send: jest.Mock };
+
+  const handle = (exception: unknown) => {
+    filter.catch(exception, {
+      switchToHttp: () => ({ getRequest: () => ({ id: 'req-fastify' }), getResponse: () => reply }),
+    } as unknown as ArgumentsHost);
+    return { status: reply.status.mock.calls[0][0], body: reply.send.mock.calls[0][0] };
+  };
+
+  beforeEach(() => {
+    reply = { status: jest.fn(), send: jest.fn() };
+    reply.status.mockReturnValue(reply);
+    jest.mocked(getCurrentRequestId).mockReturnValue('req-1');
+  });
+
+  it('should keep the code of structured exceptions and expose the remaining fields as details', () => {
+    const errors = [{ field: 'email', constraints: { isEmail: 'email must be an email' } }];
+
+    expect(handle(new BadRequestException({ code: ErrorCode.VALIDATION_FAILED, message: 'Validation failed', errors }))).toEqual({
+      status: 400,
+      body: { error: { code: 'VALIDATION_FAILED', message: 'Validation failed', details: { errors }, requestId: 'req-1' } },
+    });
+  });
+
+  it('should derive the code from the status when the exception carries none', () => {
+    expect(handle(new NotFoundException('User with ID u-1 not found')).body).toEqual({
+      error: { code: 'NOT_FOUND', message: 'User with ID u-1 not found', details: undefined, requestId: 'req-1' },
+    });
+    reply.status.mockClear();
+    reply.send.mockClear();
+    expect(handle(new ForbiddenException()).body.error).toMatchObject({ code: 'FORBIDDEN', message: 'Forbidden' });
+  });
+
+  it('should report version mismatches with the current version as details', () => {
+    const exception = new PreconditionFailedException({ message: 'Tenant has been modified by another request', currentVersion: 3 });
+
+    expect(handle(exception)).toEqual({
+      status: 412,
+      body: {
+        error: {
+          code: 'ENTITY_VERSION_MISMATCH',
+          message: 'Tenant has been modified by another request',
+          details: { currentVersion: 3 },
+          requestId: 'req-1',
+        },
+      },
+    });
+  });
+
+  it('should map MikroORM errors to stable statuses and codes', () => {
+    const cases: [unknown, number, string][] = [
+      [new UniqueConstraintViolationException(new Error('duplicate key')), 409, ErrorCode.UNIQUE_CONSTRAINT_VIOLATION],
+      [new ForeignKeyConstraintViolationException(new Error('violates foreign key')), 409, ErrorCode.FOREIGN_KEY_CONSTRAINT_VIOLATION],
+      [NotFoundError.findOneFailed('User', { id: 'u-1' }), 404, ErrorCode.ENTITY_NOT_FOUND],
+      [OptimisticLockError.lockFailed('u-1'), 412, ErrorCode.ENTITY_VERSION_MISMATCH],
+    ];
+
+    for (const [exception, status, code] of cases) {
+      reply.status.mockClear();
+      reply.send.mockClear();
+      const result = handle(exception);
+      expect(result.status).toBe(status);
+      expect(result.body.error.code).toBe(code);
+      expect(result.body.error.message).not.toContain('u-1');
+    }
+  });
+
+  it('should hide unexpected errors behind a generic 500 response', () => {
+    const logError = jest.spyOn(Logger.prototype, 'error').mockImplementation(() => undefined);
+    jest.mocked(getCurrentRequestId).mockReturnValue(undefined);
+
+    expect(handle(new Error('connection refused at 10.0.0.1'))).toEqual({
+      status: 500,
+      body: { error: { code: 'INTERNAL_ERROR', message: 'Internal server error', details: undefined, requestId: 'req-fastify' } },
+    });
+    expect(logError).toHaveBeenCalled();
+    logError.mockRestore();
+  });
+});
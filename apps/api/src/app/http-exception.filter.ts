@@ -0,0 +1,146 @@
+import { ArgumentsHost, Catch, ExceptionFilter, HttpException, HttpStatus, Logger } from '@nestjs/common';
+import {
+  ForeignKeyConstraintViolationException,
+  NotFoundError,
+  OptimisticLockError,
+  UniqueConstraintViolationException,
+} from '@mikro-orm/core';
+import { ErrorCode } from '@hl8/constants';
+import type { ApiErrorResponse } from '@hl8/common';
+import { RequestWithId, resolveRequestId } from './response-envelope.interceptor';
+
+/**
+ * 响应对象
+ *
+ * @description Fastify 响应中本过滤器用到的部分
+ */
+interface HttpReply {
+  status(statusCode: number): { send(body: unknown): unknown };
+}
+
+/**
+ * 错误描述
+ *
+ * @description 异常翻译后的 HTTP 状态码与错误内容，requestId 在发送前补充
+ */
+interface ErrorDescriptor {
+  status: number;
+  code: string;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * HTTP 状态码对应的默认错误码
+ *
+ * @description 异常未携带 code 时按状态码取值
+ */
+const DEFAULT_ERROR_CODES: Partial<Record<number, ErrorCode>> = {
+  [HttpStatus.BAD_REQUEST]: ErrorCode.BAD_REQUEST,
+  [HttpStatus.UNAUTHORIZED]: ErrorCode.UNAUTHORIZED,
+  [HttpStatus.FORBIDDEN]: ErrorCode.FORBIDDEN,
+  [HttpStatus.NOT_FOUND]: ErrorCode.NOT_FOUND,
+  [HttpStatus.CONFLICT]: ErrorCode.CONFLICT,
+  [HttpStatus.PRECONDITION_FAILED]: ErrorCode.ENTITY_VERSION_MISMATCH,
+  [HttpStatus.TOO_MANY_REQUESTS]: ErrorCode.TOO_MANY_REQUESTS,
+};
+
+/**
+ * 异常响应中不属于详情的字段
+ */
+const RESERVED_KEYS = ['statusCode', 'code', 'message', 'error'];
+
+/**
+ * 全局异常过滤器
+ *
+ * @description 将所有异常翻译为 `{ error: { code, message, details, requestId } }` 结构：
+ * - HttpException 沿用其状态码，code 取自异常响应中的 code，缺省时按状态码取默认错误码；
+ *   message 与 code 之外的字段（如校验错误 errors、授权失败 reasons）作为 details
+ * - MikroORM 的唯一约束、外键约束、实体不存在与乐观锁冲突错误映射为 409/409/404/412
+ * - 其余异常统一返回 500，异常信息只写入日志，不返回给客户端
+ */
+@Catch()
+export class HttpExceptionFilter implements ExceptionFilter {
+  private readonly logger = new Logger(HttpExceptionFilter.name);
+
+  catch(exception: unknown, host: ArgumentsHost): void {
+    const http = host.switchToHttp();
+    const requestId = resolveRequestId(http.getRequest<RequestWithId>());
+    const { status, code, message, details } = this.describe(exception);
+
+    if (status >= HttpStatus.INTERNAL_SERVER_ERROR) {
+      this.logger.error(
+        `Unhandled exception (requestId: ${requestId ?? 'n/a'})`,
+        exception instanceof Error ? exception.stack : String(exception),
+      );
+    }
+
+    const body: ApiErrorResponse = { error: { code, message, details, requestId } };
+    http.getResponse<HttpReply>().status(status).send(body);
+  }
+
+  /**
+   * 翻译异常
+   *
+   * @param exception - 捕获的异常
+   * @returns 错误描述
+   */
+  private describe(exception: unknown): ErrorDescriptor {
+    if (exception instanceof HttpException) {
+      return this.describeHttpException(exception);
+    }
+    if (exception instanceof UniqueConstraintViolationException) {
+      return {
+        status: HttpStatus.CONFLICT,
+        code: ErrorCode.UNIQUE_CONSTRAINT_VIOLATION,
+        message: 'Resource already exists',
+      };
+    }
+    if (exception instanceof ForeignKeyConstraintViolationException) {
+      return {
+        status: HttpStatus.CONFLICT,
+        code: ErrorCode.FOREIGN_KEY_CONSTRAINT_VIOLATION,
+        message: 'Resource is referenced by or references missing data',
+      };
+    }
+    if (exception instanceof NotFoundError) {
+      return { status: HttpStatus.NOT_FOUND, code: ErrorCode.ENTITY_NOT_FOUND, message: 'Resource not found' };
+    }
+    if (exception instanceof OptimisticLockError) {
+      return {
+        status: HttpStatus.PRECONDITION_FAILED,
+        code: ErrorCode.ENTITY_VERSION_MISMATCH,
+        message: 'Resource has been modified by another request',
+      };
+    }
+    return { status: HttpStatus.INTERNAL_SERVER_ERROR, code: ErrorCode.INTERNAL_ERROR, message: 'Internal server error' };
+  }
+
+  /**
+   * 翻译 HttpException
+   *
+   * @param exception - HTTP 异常
+   * @returns 错误描述
+   */
+  private describeHttpException(exception: HttpException): ErrorDescriptor {
+    const status = exception.getStatus();
+    const fallbackCode =
+      DEFAULT_ERROR_CODES[status] ??
+      (status >= HttpStatus.INTERNAL_SERVER_ERROR ? ErrorCode.INTERNAL_ERROR : ErrorCode.BAD_REQUEST);
+    const response = exception.getResponse();
+
+    if (typeof response !== 'object' || response === null) {
+      return { status, code: fallbackCode, message: String(response) };
+    }
+
+    const { code, message } = response as { code?: unknown; message?: unknown };
+    const details = Object.fromEntries(Object.entries(response).filter(([key]) => !RESERVED_KEYS.includes(key)));
+
+    return {
+      status,
+      code: typeof code === 'string' ? code : fallbackCode,
+      message: Array.isArray(message) ? message.join('; ') : String(message ?? exception.message),
+      details: Object.keys(details).length > 0 ? details : undefined,
+    };
+  }
+}
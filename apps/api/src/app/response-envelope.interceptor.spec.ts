@@ -0,0 +1,80 @@
+import { CallHandler, ExecutionContext } from '@nestjs/common';
+import { lastValueFrom, of } from 'rxjs';
+import { getCurrentRequestId } from '@hl8/logger';
+import { ResponseEnvelopeInterceptor } from './response-envelope.interceptor';
+
+// 日志包在加载时会初始化 pino，单元测试中以轻量替身隔离
+jest.mock('@hl8/logger', () => ({ getCurrentRequestId: jest.fn() }));
+
+describe('ResponseEnvelopeInterceptor', () => {
+  const interceptor = new ResponseEnvelopeInterceptor();
+  const reply = { header: jest.fn() };
+  const context = {
+    getType: () => 'http',
+    switchToHttp: () => ({ getRequest: () => ({ id: 'req-fastify' }), getResponse: () => reply }),
+  } as unknown as ExecutionContext;
+
+  const envelope = (result: unknown) =>
+    lastValueFrom(interceptor.intercept(context, { handle: () => of(result) } as CallHandler));
+
+  beforeEach(() => {
+    jest.mocked(getCurrentRequestId).mockReturnValue('req-1');
+    reply.header.mockClear();
+  });
+
+  it('should unwrap the single payload and move the message into meta', async () => {
+    await expect(envelope({ message: 'User retrieved successfully', user: { id: 'user-1' } })).resolves.toEqual({
+      data: { id: 'user-1' },
+      meta: { message: 'User retrieved successfully', requestId: 'req-1' },
+    });
+  });
+
+  it('should move pagination fields into meta', async () => {
+    const result = await envelope({
+      message: 'Users retrieved successfully',
+      users: [{ id: 'user-1' }],
+      total: 1,
+      limit: 20,
+      page: 1,
+      nextCursor: null,
+      hasMore: false,
+    });
+
+    expect(result).toEqual({
+      data: [{ id: 'user-1' }],
+      meta: {
+        message: 'Users retrieved successfully',
+        total: 1,
+        limit: 20,
+        page: 1,
+        nextCursor: null,
+        hasMore: false,
+        requestId: 'req-1',
+      },
+    });
+  });
+
+  it('should keep several or scalar fields together as data', async () => {
+    await expect(envelope({ message: 'Member removed successfully', departmentId: 'd-1', userId: 'u-1' })).resolves.toEqual({
+      data: { departmentId: 'd-1', userId: 'u-1' },
+      meta: { message: 'Member removed successfully', requestId: 'req-1' },
+    });
+    await expect(envelope({ message: 'User deleted successfully', userId: 'u-1' })).resolves.toMatchObject({
+      data: { userId: 'u-1' },
+    });
+  });
+
+  it('should tag single versioned entities with their version', async () => {
+    await envelope({ message: 'Tenant retrieved successfully', tenant: { id: 'tenant-1', version: 3 } });
+    expect(reply.header).toHaveBeenCalledWith('ETag', '"3"');
+
+    await envelope({ message: 'Tenants retrieved successfully', tenants: [{ id: 'tenant-1', version: 3 }] });
+    expect(reply.header).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fall back to the Fastify request id outside a logging context', async () => {
+    jest.mocked(getCurrentRequestId).mockReturnValue(undefined);
+
+    await expect(envelope(undefined)).resolves.toEqual({ data: null, meta: { requestId: 'req-fastify' } });
+  });
+});
@@ -0,0 +1,124 @@
+import { CallHandler, ExecutionContext, Injectable, NestInterceptor, StreamableFile } from '@nestjs/common';
+import { map, Observable } from 'rxjs';
+import { getCurrentRequestId } from '@hl8/logger';
+import type { ApiResponse, ApiResponseMeta } from '@hl8/common';
+import { formatEntityTag } from './entity-tag';
+
+/**
+ * 归入元信息的响应字段
+ *
+ * @description 服务返回值中的操作说明与分页信息，不属于业务数据
+ */
+const META_KEYS: (keyof ApiResponseMeta)[] = ['message', 'total', 'limit', 'page', 'nextCursor', 'hasMore'];
+
+/**
+ * 可携带请求ID的请求对象
+ *
+ * @description Fastify 为每个请求生成 id，日志上下文未建立时以其兜底
+ */
+export interface RequestWithId {
+  id?: string;
+}
+
+/**
+ * 响应对象
+ *
+ * @description Fastify 响应中本拦截器用到的部分
+ */
+interface HttpReply {
+  header(name: string, value: string): unknown;
+}
+
+/**
+ * 解析请求ID
+ *
+ * @param request - 当前请求
+ * @returns 日志上下文中的请求ID，不存在时回退为 Fastify 请求ID
+ */
+export function resolveRequestId(request?: RequestWithId): string | undefined {
+  return getCurrentRequestId() ?? request?.id;
+}
+
+/**
+ * 统一响应拦截器
+ *
+ * @description 将处理器返回值包装为 `{ data, meta }` 结构：
+ * 服务返回值中的 message 与分页字段归入 meta，其余字段作为 data。
+ * 只剩一个字段且为对象或数组时直接作为 data，如 `{ message, user }` 包装为 `{ data: user, meta: { message } }`；
+ * 剩余多个字段或标量字段时整体作为 data。
+ * data 为带数值 version 的单个实体时，以版本号设置 ETag 响应头，客户端更新时通过 If-Match 回传
+ *
+ * @example
+ * ```typescript
+ * // 列表接口返回 { message, users, total, limit, page, nextCursor, hasMore }
+ * // 响应为 { data: [...], meta: { message, total, limit, page, nextCursor, hasMore, requestId } }
+ * ```
+ */
+@Injectable()
+export class ResponseEnvelopeInterceptor implements NestInterceptor {
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    if (context.getType() !== 'http') {
+      return next.handle();
+    }
+
+    const http = context.switchToHttp();
+    const request = http.getRequest<RequestWithId>();
+    return next.handle().pipe(
+      map((result) => {
+        if (result instanceof StreamableFile) {
+          return result;
+        }
+        const response = this.wrap(result, resolveRequestId(request));
+        const version = (response.data as { version?: unknown } | null)?.version;
+        if (typeof version === 'number') {
+          http.getResponse<HttpReply>().header('ETag', formatEntityTag(version));
+        }
+        return response;
+      }),
+    );
+  }
+
+  /**
+   * 包装处理器返回值
+   *
+   * @param result - 处理器返回值
+   * @param requestId - 请求ID
+   * @returns 统一响应
+   */
+  private wrap(result: unknown, requestId: string | undefined): ApiResponse {
+    const meta: ApiResponseMeta = requestId ? { requestId } : {};
+    if (!isPlainObject(result)) {
+      return { data: result ?? null, meta };
+    }
+
+    const rest: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(result)) {
+      if ((META_KEYS as string[]).includes(key)) {
+        (meta as Record<string, unknown>)[key] = value;
+      } else {
+        rest[key] = value;
+      }
+    }
+
+    const keys = Object.keys(rest);
+    if (keys.length === 0) {
+      return { data: null, meta };
+    }
+    const single = keys.length === 1 ? rest[keys[0]] : undefined;
+    return { data: typeof single === 'object' && single !== null ? single : rest, meta };
+  }
+}
+
+/**
+ * 判断是否为普通对象
+ *
+ * @param value - 待判断的值
+ * @returns 是否为字面量对象，实体实例与数组不属于普通对象
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
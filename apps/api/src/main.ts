@@ -8,12 +8,14 @@
  * @since 1.0.0
  */
 
-import { Logger, ValidationPipe } from '@nestjs/common';
+import { BadRequestException, Logger, ValidationPipe } from '@nestjs/common';
 import { NestFactory } from '@nestjs/core';
 import { FastifyAdapter, NestFastifyApplication } from '@nestjs/platform-fastify';
 import { AppModule } from './app/app.module';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
 import { ConfigService } from '@hl8/config';
+import { ErrorCode } from '@hl8/constants';
+import { flattenValidationErrors, parseQueryString } from '@hl8/common';
 
 /**
  * 启动应用程序
@@ -29,6 +31,8 @@ async function bootstrap() {
     new FastifyAdapter({
       logger: true,
       trustProxy: true,
+      // 支持列表接口的 createdAt[gte]=... 形式的范围过滤参数
+      querystringParser: parseQueryString,
     })
   );
   
@@ -39,12 +43,18 @@ async function bootstrap() {
   const globalPrefix = configService.get('api.globalPrefix') || 'api';
   app.setGlobalPrefix(globalPrefix);
   
-  // 全局验证管道
+  // 全局验证管道，校验失败时返回字段级错误列表
   app.useGlobalPipes(
     new ValidationPipe({
       whitelist: true,
       forbidNonWhitelisted: true,
       transform: true,
+      exceptionFactory: (errors) =>
+        new BadRequestException({
+          code: ErrorCode.VALIDATION_FAILED,
+          message: 'Validation failed',
+          errors: flattenValidationErrors(errors),
+        }),
     }),
   );
   
@@ -0,0 +1,33 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { RequirePermissions } from '@hl8/common';
+import type { AuthPrincipal } from '@hl8/common';
+import { AuditLogQueryDto } from '@hl8/contracts';
+import { CurrentUser } from '../auth/current-user.decorator';
+import { AuditLogsService } from './audit-logs.service';
+
+/**
+ * 审计日志控制器
+ *
+ * 提供审计日志的查询接口，需要 `audit-logs:read` 权限
+ *
+ * @description 审计日志控制器，处理审计日志相关的HTTP请求
+ * @since 1.0.0
+ */
+@Controller('audit-logs')
+export class AuditLogsController {
+  constructor(private readonly auditLogsService: AuditLogsService) {}
+
+  /**
+   * 获取审计日志
+   *
+   * @description 获取审计日志列表，租户用户只能看到自身租户的审计日志
+   * @param user - 当前用户
+   * @param query - 查询条件
+   * @returns 审计日志列表
+   */
+  @Get()
+  @RequirePermissions('audit-logs:read')
+  async getAuditLogs(@CurrentUser() user: AuthPrincipal, @Query() query: AuditLogQueryDto) {
+    return this.auditLogsService.getAuditLogs(user, query);
+  }
+}
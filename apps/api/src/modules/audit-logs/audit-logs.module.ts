@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { AuditLogsService } from './audit-logs.service';
+import { AuditLogsController } from './audit-logs.controller';
+
+/**
+ * 审计日志模块
+ *
+ * 提供审计日志的查询功能
+ * 审计日志由数据库模块的 AuditTrailSubscriber 在 User、Tenant、Organization 变更提交后写入 MongoDB
+ *
+ * @description 审计日志模块，负责审计日志的查询
+ * @since 1.0.0
+ */
+@Module({
+  controllers: [AuditLogsController],
+  providers: [AuditLogsService],
+  exports: [AuditLogsService],
+})
+export class AuditLogsModule {}
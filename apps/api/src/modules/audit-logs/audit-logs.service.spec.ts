@@ -0,0 +1,51 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import type { AuthPrincipal } from '@hl8/common';
+import { EntityManagerService } from '@hl8/database';
+import { AuditLogsService } from './audit-logs.service';
+
+jest.mock('@hl8/database', () => ({
+  EntityManagerService: class EntityManagerService {},
+  AuditLog: class AuditLog {},
+  UserType: { PLATFORM_USER: 'platform_user', TENANT_USER: 'tenant_user', SYSTEM_USER: 'system_user' },
+}));
+
+describe('AuditLogsService', () => {
+  let service: AuditLogsService;
+  let findPage: jest.Mock;
+
+  const principal = (type: string, tenantId?: string) =>
+    ({ userId: 'user-1', username: 'alice', type, tenantId, roles: ['admin'], permissions: [] }) as unknown as AuthPrincipal;
+
+  beforeEach(async () => {
+    findPage = jest.fn(async () => ({ items: [{ id: 'log-1' }], total: 1, limit: 20, page: 1, hasMore: false }));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [AuditLogsService, { provide: EntityManagerService, useValue: { findPage } }],
+    }).compile();
+
+    service = module.get<AuditLogsService>(AuditLogsService);
+  });
+
+  it('should query the MongoDB audit log with the requested filters', async () => {
+    const query = { entity: ['User'], actorId: 'admin-1', createdAt: { gte: '2026-01-01T00:00:00.000Z' } };
+
+    const result = await service.getAuditLogs(principal('platform_user'), query);
+
+    expect(findPage).toHaveBeenCalledWith(
+      'mongodb',
+      expect.anything(),
+      query,
+      expect.objectContaining({ defaultSort: 'createdAt:desc' }),
+      {},
+    );
+    expect(result).toMatchObject({ message: 'Audit logs retrieved successfully', auditLogs: [{ id: 'log-1' }], total: 1 });
+  });
+
+  it('should restrict tenant users to their own tenant', async () => {
+    await service.getAuditLogs(principal('tenant_user', 'tenant-1'), { tenantId: 'tenant-2' });
+    expect(findPage.mock.calls[0][4]).toEqual({ tenantId: 'tenant-1' });
+
+    await service.getAuditLogs(principal('tenant_user'));
+    expect(findPage.mock.calls[1][4]).toEqual({ tenantId: null });
+  });
+});
@@ -0,0 +1,56 @@
+import { Injectable } from '@nestjs/common';
+import type { AuthPrincipal } from '@hl8/common';
+import { AuditLogQueryDto } from '@hl8/contracts';
+import { AuditLog, EntityManagerService, ListQuerySpec } from '@hl8/database';
+import { CROSS_TENANT_USER_TYPES } from '../auth/access-control.service';
+
+/**
+ * 审计日志列表规格
+ */
+const AUDIT_LOG_LIST_SPEC: ListQuerySpec<AuditLog> = {
+  filters: { entity: 'string', entityId: 'uuid', action: 'enum', actorId: 'uuid', tenantId: 'uuid', createdAt: 'date' },
+  sortable: ['createdAt'],
+  defaultSort: 'createdAt:desc',
+};
+
+/**
+ * 审计日志服务
+ *
+ * 查询 MongoDB 中由审计追踪订阅者写入的审计日志
+ *
+ * ## 业务规则
+ * - 平台用户与系统用户可以查询所有租户的审计日志
+ * - 租户用户只能查询自身租户的审计日志，其他租户的条件不会生效
+ *
+ * @description 审计日志服务，负责审计日志的查询
+ * @since 1.0.0
+ */
+@Injectable()
+export class AuditLogsService {
+  constructor(private readonly entityManager: EntityManagerService) {}
+
+  /**
+   * 获取审计日志
+   *
+   * @description 分页获取审计日志，默认按记录时间倒序，支持按实体、实体ID、动作、操作人、租户与时间范围过滤
+   * @param principal - 当前用户
+   * @param query - 查询条件
+   * @returns 审计日志列表及分页信息
+   */
+  async getAuditLogs(principal: AuthPrincipal, query: AuditLogQueryDto = {}) {
+    const scope = CROSS_TENANT_USER_TYPES.includes(principal.type) ? {} : { tenantId: principal.tenantId ?? null };
+    const { items: auditLogs, ...page } = await this.entityManager.findPage(
+      'mongodb',
+      AuditLog,
+      query,
+      AUDIT_LOG_LIST_SPEC,
+      scope,
+    );
+
+    return {
+      message: 'Audit logs retrieved successfully',
+      auditLogs,
+      ...page,
+    };
+  }
+}
@@ -0,0 +1,31 @@
+import { Controller, Post, Body, HttpCode, HttpStatus } from '@nestjs/common';
+import { RequirePermissions } from '@hl8/common';
+import { ExplainAccessDto } from '@hl8/contracts';
+import { AccessControlService } from './access-control.service';
+
+/**
+ * 访问控制控制器
+ *
+ * 提供访问决策解释接口，供支持人员排查权限问题
+ *
+ * @description 访问控制控制器，处理访问决策相关的HTTP请求
+ * @since 1.0.0
+ */
+@Controller('auth/access')
+export class AccessControlController {
+  constructor(private readonly accessControlService: AccessControlService) {}
+
+  /**
+   * 解释访问决策
+   *
+   * @description 说明指定用户在给定角色、权限与租户要求下是否被允许访问及原因
+   * @param explainAccessDto - 访问决策解释的数据传输对象
+   * @returns 访问决策
+   */
+  @Post('explain')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions('access:explain')
+  async explain(@Body() explainAccessDto: ExplainAccessDto) {
+    return this.accessControlService.explain(explainAccessDto);
+  }
+}
@@ -0,0 +1,60 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { PERMISSIONS_METADATA, ROLES_METADATA } from '@hl8/constants';
+import { AccessControlGuard } from './access-control.guard';
+import { AccessControlService } from './access-control.service';
+
+// 访问控制服务依赖数据库包，单元测试中以轻量替身隔离
+jest.mock('./access-control.service', () => ({ AccessControlService: class AccessControlService {} }));
+
+describe('AccessControlGuard', () => {
+  let guard: AccessControlGuard;
+  let metadata: Record<string, string[] | undefined>;
+  let accessControlService: { evaluate: jest.Mock };
+
+  const contextFor = (request: Record<string, unknown>) =>
+    ({
+      getHandler: () => undefined,
+      getClass: () => undefined,
+      switchToHttp: () => ({ getRequest: () => request }),
+    }) as unknown as ExecutionContext;
+
+  beforeEach(() => {
+    metadata = {};
+    const reflector = { getAllAndOverride: jest.fn((key: string) => metadata[key]) };
+    accessControlService = { evaluate: jest.fn().mockReturnValue({ allowed: true, checks: [] }) };
+    guard = new AccessControlGuard(
+      accessControlService as unknown as AccessControlService,
+      reflector as unknown as Reflector,
+    );
+  });
+
+  it('should allow routes without requirements', () => {
+    expect(guard.canActivate(contextFor({}))).toBe(true);
+    expect(accessControlService.evaluate).not.toHaveBeenCalled();
+  });
+
+  it('should interpolate route params and resolve the target tenant', () => {
+    metadata[ROLES_METADATA] = ['admin'];
+    metadata[PERMISSIONS_METADATA] = ['tenant:{tenantId}:admin'];
+    const user = { userId: 'user-1' };
+
+    guard.canActivate(contextFor({ user, params: { tenantId: 'tenant-1' } }));
+
+    expect(accessControlService.evaluate).toHaveBeenCalledWith(user, {
+      roles: ['admin'],
+      permissions: ['tenant:tenant-1:admin'],
+      tenantId: 'tenant-1',
+    });
+  });
+
+  it('should reject denied decisions with the failing reasons', () => {
+    metadata[PERMISSIONS_METADATA] = ['users:delete'];
+    accessControlService.evaluate.mockReturnValue({
+      allowed: false,
+      checks: [{ check: 'permission', passed: false, reason: 'No granted permission covers users:delete' }],
+    });
+
+    expect(() => guard.canActivate(contextFor({ user: { userId: 'user-1' } }))).toThrow(ForbiddenException);
+  });
+});
@@ -0,0 +1,85 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ErrorCode, PERMISSIONS_METADATA, ROLES_METADATA } from '@hl8/constants';
+import { AccessControlService } from './access-control.service';
+import type { AuthenticatedRequest } from './jwt-auth.guard';
+
+/**
+ * 权限占位符
+ *
+ * @description 匹配权限中的 `{param}` 占位符
+ */
+const PERMISSION_PLACEHOLDER = /\{(\w+)\}/g;
+
+/**
+ * 待鉴权请求
+ *
+ * @description 鉴权时读取路由参数、查询参数与请求体中的租户ID
+ */
+interface AuthorizableRequest extends Partial<AuthenticatedRequest> {
+  params?: Record<string, string>;
+  query?: Record<string, unknown>;
+  body?: Record<string, unknown>;
+}
+
+/**
+ * 访问控制守卫
+ *
+ * 作为全局守卫注册在认证守卫之后，仅对标注了 `@Roles()` 或 `@RequirePermissions()` 的路由生效
+ *
+ * @description 根据路由声明的角色与权限要求做出访问决策，
+ * 目标租户依次取自路由参数、查询参数与请求体中的 tenantId
+ * @since 1.0.0
+ */
+@Injectable()
+export class AccessControlGuard implements CanActivate {
+  constructor(
+    private readonly accessControlService: AccessControlService,
+    private readonly reflector: Reflector,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const targets = [context.getHandler(), context.getClass()];
+    const roles = this.reflector.getAllAndOverride<string[]>(ROLES_METADATA, targets);
+    const permissions = this.reflector.getAllAndOverride<string[]>(PERMISSIONS_METADATA, targets);
+
+    if (!roles?.length && !permissions?.length) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<AuthorizableRequest>();
+    if (!request.user) {
+      throw new ForbiddenException('Access denied: request is not authenticated');
+    }
+
+    const params = request.params ?? {};
+    const decision = this.accessControlService.evaluate(request.user, {
+      roles,
+      permissions: permissions?.map((permission) =>
+        permission.replace(PERMISSION_PLACEHOLDER, (placeholder, name: string) => params[name] ?? placeholder),
+      ),
+      tenantId: this.resolveTenantId(request),
+    });
+
+    if (!decision.allowed) {
+      throw new ForbiddenException({
+        code: ErrorCode.ACCESS_DENIED,
+        message: 'Access denied',
+        reasons: decision.checks.filter((check) => !check.passed).map((check) => check.reason),
+      });
+    }
+
+    return true;
+  }
+
+  /**
+   * 解析目标租户ID
+   *
+   * @param request - 请求
+   * @returns 目标租户ID，请求未涉及租户时返回 undefined
+   */
+  private resolveTenantId(request: AuthorizableRequest): string | undefined {
+    const tenantId = request.params?.['tenantId'] ?? request.query?.['tenantId'] ?? request.body?.['tenantId'];
+    return typeof tenantId === 'string' ? tenantId : undefined;
+  }
+}
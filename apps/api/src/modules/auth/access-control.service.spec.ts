@@ -0,0 +1,107 @@
+import { ForbiddenException, NotFoundException } from '@nestjs/common';
+import { UserType } from '@hl8/common';
+import type { AuthPrincipal } from '@hl8/common';
+import { EntityManagerService } from '@hl8/database';
+import { AccessControlService } from './access-control.service';
+
+// 数据库包在加载时会初始化连接配置，单元测试中以轻量替身隔离
+jest.mock('@hl8/database', () => ({
+  EntityManagerService: class EntityManagerService {},
+  User: class User {},
+}));
+
+describe('AccessControlService', () => {
+  let service: AccessControlService;
+  let entityManager: Record<string, jest.Mock>;
+
+  const principal = (overrides: Partial<AuthPrincipal> = {}): AuthPrincipal => ({
+    userId: 'user-1',
+    username: 'alice',
+    type: UserType.TENANT_USER,
+    tenantId: 'tenant-1',
+    roles: ['member'],
+    permissions: [],
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    entityManager = { findOne: jest.fn() };
+    service = new AccessControlService(entityManager as unknown as EntityManagerService);
+  });
+
+  it('should restrict tenant users to their own tenant', () => {
+    expect(service.evaluate(principal(), { tenantId: 'tenant-1' }).allowed).toBe(true);
+
+    const decision = service.evaluate(principal(), { tenantId: 'tenant-2' });
+    expect(decision.allowed).toBe(false);
+    expect(decision.checks[0].reason).toBe('User belongs to tenant tenant-1, not tenant-2');
+  });
+
+  it('should let platform and system users act across tenants', () => {
+    const platform = principal({ type: UserType.PLATFORM_USER, tenantId: undefined });
+    const system = principal({ type: UserType.SYSTEM_USER, tenantId: undefined });
+
+    expect(service.evaluate(platform, { tenantId: 'tenant-2' }).allowed).toBe(true);
+    expect(service.evaluate(system, { tenantId: 'tenant-2' }).allowed).toBe(true);
+  });
+
+  it('should accept any one of the required roles', () => {
+    expect(service.evaluate(principal(), { roles: ['admin', 'member'] }).allowed).toBe(true);
+    expect(service.evaluate(principal(), { roles: ['admin'] }).allowed).toBe(false);
+  });
+
+  it('should require every permission and honour wildcards', () => {
+    const user = principal({ permissions: ['users:*', 'tenant:*:admin'] });
+
+    const decision = service.evaluate(user, { permissions: ['users:update', 'tenant:tenant-1:admin'] });
+    expect(decision.allowed).toBe(true);
+    expect(decision.checks.map((check) => check.reason)).toEqual([
+      'Permission users:update granted by users:*',
+      'Permission tenant:tenant-1:admin granted by tenant:*:admin',
+    ]);
+
+    expect(service.evaluate(user, { permissions: ['users:update', 'orgs:read'] }).allowed).toBe(false);
+  });
+
+  it('should reject unauthorized requests with the failed checks', () => {
+    const admin = principal({ permissions: ['users:*'] });
+    expect(() => service.authorize(admin, { permissions: ['users:deleted:read'] })).not.toThrow();
+
+    const denied = () => service.authorize(principal(), { permissions: ['users:deleted:read'] });
+    expect(denied).toThrow(ForbiddenException);
+    expect(denied).toThrow(
+      expect.objectContaining({
+        response: expect.objectContaining({ reasons: ['No granted permission covers users:deleted:read'] }),
+      }),
+    );
+  });
+
+  it('should explain decisions for a stored user', async () => {
+    entityManager.findOne.mockResolvedValue({
+      id: 'user-1',
+      username: 'alice',
+      type: UserType.TENANT_USER,
+      tenantId: 'tenant-1',
+      role: 'admin',
+      permissions: ['users:read'],
+    });
+
+    const { decision } = await service.explain({
+      userId: 'user-1',
+      roles: ['admin'],
+      permissions: ['users:delete'],
+    });
+
+    expect(decision.allowed).toBe(false);
+    expect(decision.checks).toEqual([
+      { check: 'role', passed: true, reason: 'User has role admin' },
+      { check: 'permission', passed: false, reason: 'No granted permission covers users:delete' },
+    ]);
+  });
+
+  it('should throw NotFoundException when explaining an unknown user', async () => {
+    entityManager.findOne.mockResolvedValue(null);
+
+    await expect(service.explain({ userId: 'missing' })).rejects.toBeInstanceOf(NotFoundException);
+  });
+});
@@ -0,0 +1,209 @@
+import { ForbiddenException, Injectable, NotFoundException } from '@nestjs/common';
+import { ErrorCode } from '@hl8/constants';
+import { findMatchingPermission, UserType } from '@hl8/common';
+import type { AuthPrincipal } from '@hl8/common';
+import { ExplainAccessDto } from '@hl8/contracts';
+import { EntityManagerService, User } from '@hl8/database';
+
+/**
+ * 访问要求
+ *
+ * @description 一次访问需要满足的条件，roles 满足其一即可，permissions 需全部满足
+ */
+export interface AccessRequirement {
+  roles?: string[];
+  permissions?: string[];
+  tenantId?: string;
+}
+
+/**
+ * 单项检查结果
+ *
+ * @description 访问决策中每一项检查的结论与原因
+ */
+export interface AccessCheck {
+  check: 'tenant' | 'role' | 'permission';
+  passed: boolean;
+  reason: string;
+}
+
+/**
+ * 访问决策
+ *
+ * @description 访问决策结果，包含每一项检查的明细，便于排查权限问题
+ */
+export interface AccessDecision {
+  allowed: boolean;
+  principal: Pick<AuthPrincipal, 'userId' | 'type' | 'tenantId' | 'roles' | 'permissions'>;
+  requirement: AccessRequirement;
+  checks: AccessCheck[];
+}
+
+/**
+ * 跨租户用户类型
+ *
+ * @description 平台用户与系统用户的角色和权限在所有租户内生效
+ */
+export const CROSS_TENANT_USER_TYPES: UserType[] = [UserType.PLATFORM_USER, UserType.SYSTEM_USER];
+
+/**
+ * 访问控制服务
+ *
+ * 基于 User.role 与 User.permissions 做出访问决策
+ *
+ * ## 决策规则
+ * - 租户用户只能访问自身租户的资源，平台用户与系统用户不受租户限制
+ * - 要求多个角色时，拥有其中任一角色即可
+ * - 要求多个权限时，需全部拥有，授予的权限支持 `*` 通配符
+ * - 所有检查都会执行并记录原因，任一检查失败即拒绝访问
+ *
+ * @description 访问控制服务，负责角色与权限判定
+ * @since 1.0.0
+ */
+@Injectable()
+export class AccessControlService {
+  constructor(private readonly entityManager: EntityManagerService) {}
+
+  /**
+   * 解释访问决策
+   *
+   * @description 以用户当前的角色与权限重新计算访问决策，供支持人员排查问题
+   * @param explainData - 被检查的用户与访问要求
+   * @returns 访问决策
+   * @throws {NotFoundException} 用户不存在
+   */
+  async explain(explainData: ExplainAccessDto) {
+    const { userId, ...requirement } = explainData;
+    const user = await this.entityManager.findOne('postgresql', User, { id: userId });
+    if (!user) {
+      throw new NotFoundException(`User ${userId} not found`);
+    }
+
+    const decision = this.evaluate(
+      {
+        userId: user.id,
+        username: user.username,
+        type: user.type,
+        tenantId: user.tenantId,
+        roles: [user.role],
+        permissions: user.permissions ?? [],
+      },
+      requirement,
+    );
+
+    return {
+      message: 'Access decision explained successfully',
+      decision,
+    };
+  }
+
+  /**
+   * 做出访问决策
+   *
+   * @param principal - 认证主体
+   * @param requirement - 访问要求
+   * @returns 访问决策
+   */
+  evaluate(principal: AuthPrincipal, requirement: AccessRequirement): AccessDecision {
+    const checks: AccessCheck[] = [];
+
+    if (requirement.tenantId) {
+      checks.push(this.checkTenant(principal, requirement.tenantId));
+    }
+    if (requirement.roles?.length) {
+      checks.push(this.checkRoles(principal, requirement.roles));
+    }
+    for (const permission of requirement.permissions ?? []) {
+      checks.push(this.checkPermission(principal, permission));
+    }
+
+    return {
+      allowed: checks.every((check) => check.passed),
+      principal: {
+        userId: principal.userId,
+        type: principal.type,
+        tenantId: principal.tenantId,
+        roles: principal.roles,
+        permissions: principal.permissions,
+      },
+      requirement,
+      checks,
+    };
+  }
+
+  /**
+   * 断言访问被允许
+   *
+   * @description 供路由声明之外、依赖请求内容的权限检查使用
+   * @param principal - 认证主体
+   * @param requirement - 访问要求
+   * @throws {ForbiddenException} 访问被拒绝，reasons 中列出未通过的检查
+   */
+  authorize(principal: AuthPrincipal, requirement: AccessRequirement): void {
+    const decision = this.evaluate(principal, requirement);
+    if (!decision.allowed) {
+      throw new ForbiddenException({
+        code: ErrorCode.ACCESS_DENIED,
+        message: 'Access denied',
+        reasons: decision.checks.filter((check) => !check.passed).map((check) => check.reason),
+      });
+    }
+  }
+
+  /**
+   * 检查租户范围
+   *
+   * @param principal - 认证主体
+   * @param tenantId - 目标租户ID
+   * @returns 检查结果
+   */
+  private checkTenant(principal: AuthPrincipal, tenantId: string): AccessCheck {
+    if (CROSS_TENANT_USER_TYPES.includes(principal.type)) {
+      return { check: 'tenant', passed: true, reason: `${principal.type} may act across tenants` };
+    }
+    if (principal.tenantId === tenantId) {
+      return { check: 'tenant', passed: true, reason: `User belongs to tenant ${tenantId}` };
+    }
+    return {
+      check: 'tenant',
+      passed: false,
+      reason: principal.tenantId
+        ? `User belongs to tenant ${principal.tenantId}, not ${tenantId}`
+        : `User has no tenant and cannot access tenant ${tenantId}`,
+    };
+  }
+
+  /**
+   * 检查角色
+   *
+   * @param principal - 认证主体
+   * @param roles - 可接受的角色
+   * @returns 检查结果
+   */
+  private checkRoles(principal: AuthPrincipal, roles: string[]): AccessCheck {
+    const matched = roles.find((role) => principal.roles.includes(role));
+    if (matched) {
+      return { check: 'role', passed: true, reason: `User has role ${matched}` };
+    }
+    return {
+      check: 'role',
+      passed: false,
+      reason: `User roles [${principal.roles.join(', ')}] include none of [${roles.join(', ')}]`,
+    };
+  }
+
+  /**
+   * 检查权限
+   *
+   * @param principal - 认证主体
+   * @param permission - 所需权限
+   * @returns 检查结果
+   */
+  private checkPermission(principal: AuthPrincipal, permission: string): AccessCheck {
+    const matched = findMatchingPermission(principal.permissions, permission);
+    if (matched) {
+      return { check: 'permission', passed: true, reason: `Permission ${permission} granted by ${matched}` };
+    }
+    return { check: 'permission', passed: false, reason: `No granted permission covers ${permission}` };
+  }
+}
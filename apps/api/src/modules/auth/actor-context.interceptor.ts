@@ -0,0 +1,29 @@
+import { CallHandler, ExecutionContext, Injectable, NestInterceptor } from '@nestjs/common';
+import { Observable } from 'rxjs';
+import type { AuthPrincipal } from '@hl8/common';
+import { runWithActor } from '@hl8/database';
+
+/**
+ * 操作人上下文拦截器
+ *
+ * @description 作为全局拦截器注册，在认证守卫之后执行：
+ * 请求已认证时以当前用户为操作人执行处理器，处理器写入的实体由操作人订阅者填充 createdBy 与 updatedBy；
+ * 公开路由没有认证主体，由各流程自行绑定操作人
+ * @since 1.0.0
+ */
+@Injectable()
+export class ActorContextInterceptor implements NestInterceptor {
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    if (context.getType() !== 'http') {
+      return next.handle();
+    }
+
+    const user = context.switchToHttp().getRequest<{ user?: AuthPrincipal }>().user;
+    if (!user) {
+      return next.handle();
+    }
+
+    // 处理器在 handle() 调用时绑定异步上下文，须在操作人作用域内调用
+    return runWithActor(user.userId, () => next.handle());
+  }
+}
@@ -0,0 +1,173 @@
+import { Controller, Get, Post, Body, HttpCode, HttpStatus } from '@nestjs/common';
+import { Public } from '@hl8/common';
+import type { AuthPrincipal } from '@hl8/common';
+import {
+  ForgotPasswordDto,
+  LoginDto,
+  LogoutDto,
+  MagicLoginRequestDto,
+  MagicLoginVerifyDto,
+  RefreshTokenDto,
+  ResendVerificationDto,
+  ResetPasswordDto,
+  VerifyEmailDto,
+} from '@hl8/contracts';
+import { AuthService } from './auth.service';
+import { VerificationService } from './verification.service';
+import { MagicLoginService } from './magic-login.service';
+import { CurrentUser } from './current-user.decorator';
+
+/**
+ * 认证控制器
+ *
+ * 提供登录、令牌刷新、登出与当前用户查询接口，忘记密码、重置密码与邮箱验证接口，以及魔法登录码登录接口
+ *
+ * @description 认证控制器，处理认证相关的HTTP请求
+ * @since 1.0.0
+ */
+@Controller('auth')
+export class AuthController {
+  constructor(
+    private readonly authService: AuthService,
+    private readonly verificationService: VerificationService,
+    private readonly magicLoginService: MagicLoginService,
+  ) {}
+
+  /**
+   * 用户登录
+   *
+   * @description 使用用户名或邮箱加密码登录
+   * @param loginDto - 登录的数据传输对象
+   * @returns 认证令牌
+   */
+  @Public()
+  @Post('login')
+  @HttpCode(HttpStatus.OK)
+  async login(@Body() loginDto: LoginDto) {
+    return this.authService.login(loginDto);
+  }
+
+  /**
+   * 刷新令牌
+   *
+   * @description 使用刷新令牌换取新的令牌对，旧刷新令牌随即失效
+   * @param refreshTokenDto - 刷新令牌的数据传输对象
+   * @returns 新的认证令牌
+   */
+  @Public()
+  @Post('refresh')
+  @HttpCode(HttpStatus.OK)
+  async refresh(@Body() refreshTokenDto: RefreshTokenDto) {
+    return this.authService.refresh(refreshTokenDto.refreshToken);
+  }
+
+  /**
+   * 用户登出
+   *
+   * @description 吊销刷新令牌，未提供时吊销当前用户全部会话
+   * @param user - 当前用户
+   * @param logoutDto - 登出的数据传输对象
+   * @returns 登出结果
+   */
+  @Post('logout')
+  @HttpCode(HttpStatus.OK)
+  async logout(@CurrentUser() user: AuthPrincipal, @Body() logoutDto: LogoutDto) {
+    return this.authService.logout(user.userId, logoutDto);
+  }
+
+  /**
+   * 获取当前用户
+   *
+   * @description 获取访问令牌对应的用户信息
+   * @param user - 当前用户
+   * @returns 用户信息
+   */
+  @Get('me')
+  async getCurrentUser(@CurrentUser() user: AuthPrincipal) {
+    return this.authService.getCurrentUser(user.userId);
+  }
+
+  /**
+   * 忘记密码
+   *
+   * @description 向账户邮箱发送密码重置邮件，无论邮箱是否存在都返回相同结果
+   * @param forgotPasswordDto - 忘记密码的数据传输对象
+   * @returns 处理结果
+   */
+  @Public()
+  @Post('forgot-password')
+  @HttpCode(HttpStatus.OK)
+  async forgotPassword(@Body() forgotPasswordDto: ForgotPasswordDto) {
+    return this.verificationService.forgotPassword(forgotPasswordDto.email);
+  }
+
+  /**
+   * 重置密码
+   *
+   * @description 使用密码重置邮件中的令牌设置新密码，成功后吊销全部会话
+   * @param resetPasswordDto - 重置密码的数据传输对象
+   * @returns 重置结果
+   */
+  @Public()
+  @Post('reset-password')
+  @HttpCode(HttpStatus.OK)
+  async resetPassword(@Body() resetPasswordDto: ResetPasswordDto) {
+    return this.verificationService.resetPassword(resetPasswordDto);
+  }
+
+  /**
+   * 验证邮箱
+   *
+   * @description 使用邮箱验证邮件中的令牌完成验证，待验证用户随之激活
+   * @param verifyEmailDto - 邮箱验证的数据传输对象
+   * @returns 验证结果
+   */
+  @Public()
+  @Post('verify-email')
+  @HttpCode(HttpStatus.OK)
+  async verifyEmail(@Body() verifyEmailDto: VerifyEmailDto) {
+    return this.verificationService.verifyEmail(verifyEmailDto.token);
+  }
+
+  /**
+   * 重发验证邮件
+   *
+   * @description 邮箱尚未验证时重新发送验证邮件，无论邮箱是否存在都返回相同结果
+   * @param resendVerificationDto - 重发验证邮件的数据传输对象
+   * @returns 处理结果
+   */
+  @Public()
+  @Post('resend-verification')
+  @HttpCode(HttpStatus.OK)
+  async resendVerification(@Body() resendVerificationDto: ResendVerificationDto) {
+    return this.verificationService.resendVerification(resendVerificationDto.email);
+  }
+
+  /**
+   * 申请魔法登录码
+   *
+   * @description 向账户邮箱发送一次性登录码，无论邮箱是否存在都返回相同结果
+   * @param magicLoginRequestDto - 申请魔法登录码的数据传输对象
+   * @returns 处理结果
+   */
+  @Public()
+  @Post('magic/request')
+  @HttpCode(HttpStatus.OK)
+  async requestMagicCode(@Body() magicLoginRequestDto: MagicLoginRequestDto) {
+    return this.magicLoginService.requestCode(magicLoginRequestDto.email);
+  }
+
+  /**
+   * 魔法登录码登录
+   *
+   * @description 使用邮件中的一次性登录码登录
+   * @param magicLoginVerifyDto - 魔法登录码登录的数据传输对象
+   * @returns 认证令牌
+   */
+  @Public()
+  @Post('magic/verify')
+  @HttpCode(HttpStatus.OK)
+  async verifyMagicCode(@Body() magicLoginVerifyDto: MagicLoginVerifyDto) {
+    return this.magicLoginService.verifyCode(magicLoginVerifyDto);
+  }
+}
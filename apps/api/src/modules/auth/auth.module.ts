@@ -0,0 +1,46 @@
+import { Module } from '@nestjs/common';
+import { APP_GUARD, APP_INTERCEPTOR } from '@nestjs/core';
+import { JwtModule } from '@nestjs/jwt';
+import { AuthService } from './auth.service';
+import { PasswordService } from './password.service';
+import { VerificationService } from './verification.service';
+import { MagicLoginService } from './magic-login.service';
+import { AuthController } from './auth.controller';
+import { JwtAuthGuard } from './jwt-auth.guard';
+import { AccessControlService } from './access-control.service';
+import { AccessControlController } from './access-control.controller';
+import { AccessControlGuard } from './access-control.guard';
+import { ActorContextInterceptor } from './actor-context.interceptor';
+import { MailModule } from '../mail/mail.module';
+
+/**
+ * 认证模块
+ *
+ * 提供基于 JWT 的登录、令牌刷新与登出功能，密码哈希与强度策略，邮箱验证与密码重置，魔法登录码免密登录，以及基于角色与权限的访问控制
+ * 签名密钥与有效期在签发时从 `auth` 配置块读取
+ * JwtAuthGuard 注册为全局守卫，未标注 `@Public()` 的路由均需认证
+ * AccessControlGuard 在其后执行，校验 `@Roles()` 与 `@RequirePermissions()` 声明的要求
+ * ActorContextInterceptor 注册为全局拦截器，已认证请求写入的实体以当前用户为创建人与修改人
+ *
+ * @description 认证模块，负责用户身份认证与访问授权
+ * @since 1.0.0
+ */
+@Module({
+  imports: [JwtModule.register({}), MailModule],
+  providers: [
+    AuthService,
+    PasswordService,
+    VerificationService,
+    MagicLoginService,
+    AccessControlService,
+    JwtAuthGuard,
+    AccessControlGuard,
+    // 全局守卫按注册顺序执行，先认证后授权
+    { provide: APP_GUARD, useExisting: JwtAuthGuard },
+    { provide: APP_GUARD, useExisting: AccessControlGuard },
+    { provide: APP_INTERCEPTOR, useClass: ActorContextInterceptor },
+  ],
+  controllers: [AuthController, AccessControlController],
+  exports: [AuthService, PasswordService, VerificationService, AccessControlService, JwtAuthGuard],
+})
+export class AuthModule {}
@@ -0,0 +1,190 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { getRounds, hash } from 'bcryptjs';
+import { ConfigService } from '@hl8/config';
+import { EntityManagerService, runWithActor } from '@hl8/database';
+import { AuthService } from './auth.service';
+import { PasswordService } from './password.service';
+
+// 配置与数据库包在加载时会初始化连接配置，单元测试中以轻量替身隔离
+jest.mock('@hl8/config', () => ({ ConfigService: class ConfigService {} }));
+jest.mock('@hl8/database', () => ({
+  EntityManagerService: class EntityManagerService {},
+  RefreshToken: class RefreshToken {},
+  Tenant: class Tenant {},
+  User: class User {},
+  runWithActor: jest.fn((_actorId, callback) => callback()),
+  withDeleted: () => ({ filters: { 'soft-deletable-filter': false } }),
+  UserStatus: { ACTIVE: 'active', SUSPENDED: 'suspended' },
+  TenantStatus: { ACTIVE: 'active', SUSPENDED: 'suspended', DELETED: 'deleted' },
+}));
+
+const config: Record<string, unknown> = {
+  'auth.jwtSecret': 'access-secret',
+  'auth.jwtExpirationTime': 60,
+  'auth.jwtRefreshSecret': 'refresh-secret',
+  'auth.jwtRefreshExpirationTime': 120,
+  'auth.passwordSaltRounds': 4,
+};
+
+describe('AuthService', () => {
+  let service: AuthService;
+  let jwtService: JwtService;
+  let entityManager: Record<string, jest.Mock>;
+  let em: Record<string, jest.Mock>;
+  let tokens: Map<string, Record<string, unknown>>;
+  let user: Record<string, unknown>;
+  let tenant: Record<string, unknown>;
+
+  beforeEach(async () => {
+    user = {
+      id: 'user-1',
+      username: 'alice',
+      email: 'alice@example.com',
+      passwordHash: await hash('S3cret-pass', 4),
+      type: 'tenant_user',
+      status: 'active',
+      role: 'user',
+    };
+    tenant = { id: 'tenant-1', status: 'active' };
+    tokens = new Map();
+
+    let sequence = 0;
+    em = {
+      findOne: jest.fn(async (entity, where) =>
+        entity.name === 'RefreshToken' ? (tokens.get(where.id) ?? null) : entity.name === 'Tenant' ? tenant : user,
+      ),
+      create: jest.fn((_entity, data) => ({ id: `token-${++sequence}`, ...data })),
+      persist: jest.fn((record) => tokens.set(record.id, record)),
+      nativeUpdate: jest.fn(async (_entity, where, data) => {
+        for (const record of tokens.values()) {
+          if (record['familyId'] === where.familyId && !record['revokedAt']) {
+            Object.assign(record, data);
+          }
+        }
+      }),
+    };
+    entityManager = {
+      withoutTenantScope: jest.fn((callback) => callback()),
+      findOne: jest.fn(async (_db, entity) => (entity.name === 'Tenant' ? tenant : user)),
+      update: jest.fn(async (_db, entity) => entity),
+      transaction: jest.fn(async (_db, callback) => callback(em)),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuthService,
+        JwtService,
+        PasswordService,
+        { provide: EntityManagerService, useValue: entityManager },
+        { provide: ConfigService, useValue: { get: (key: string) => config[key] } },
+      ],
+    }).compile();
+
+    service = module.get<AuthService>(AuthService);
+    jwtService = module.get<JwtService>(JwtService);
+  });
+
+  it('should reject a wrong password', async () => {
+    await expect(
+      service.login({ identifier: 'alice', password: 'wrong-pass' }),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+  });
+
+  it('should reject unknown users', async () => {
+    entityManager.findOne.mockResolvedValue(null);
+
+    await expect(
+      service.login({ identifier: 'nobody', password: 'S3cret-pass' }),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+  });
+
+  it('should reject users that are not active', async () => {
+    user['status'] = 'suspended';
+
+    await expect(
+      service.login({ identifier: 'alice', password: 'S3cret-pass' }),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+  });
+
+  it('should deny login and refresh to users of a suspended tenant', async () => {
+    user['tenantId'] = 'tenant-1';
+    const { refreshToken } = await service.login({ identifier: 'alice', password: 'S3cret-pass' });
+    tenant['status'] = 'suspended';
+
+    await expect(service.login({ identifier: 'alice', password: 'S3cret-pass' })).rejects.toBeInstanceOf(
+      ForbiddenException,
+    );
+    await expect(service.refresh(refreshToken)).rejects.toMatchObject({ response: { code: 'TENANT_SUSPENDED' } });
+    expect(tokens.size).toBe(1);
+  });
+
+  it('should issue tokens and record the login time', async () => {
+    const result = await service.login({ identifier: 'alice@example.com', password: 'S3cret-pass' });
+
+    expect(user['lastLoginAt']).toBeInstanceOf(Date);
+    expect(entityManager.update).toHaveBeenCalledWith('postgresql', user);
+    expect(runWithActor).toHaveBeenCalledWith('user-1', expect.any(Function));
+    expect(result.tokenType).toBe('Bearer');
+    expect(result.expiresIn).toBe(60);
+
+    const access = await jwtService.verifyAsync(result.accessToken, { secret: 'access-secret' });
+    expect(access).toMatchObject({ sub: 'user-1', username: 'alice', role: 'user' });
+    expect(tokens.size).toBe(1);
+  });
+
+  it('should rehash the password on login when the salt rounds increase', async () => {
+    const previousHash = user['passwordHash'];
+    config['auth.passwordSaltRounds'] = 5;
+
+    try {
+      await service.login({ identifier: 'alice', password: 'S3cret-pass' });
+    } finally {
+      config['auth.passwordSaltRounds'] = 4;
+    }
+
+    expect(user['passwordHash']).not.toBe(previousHash);
+    expect(getRounds(user['passwordHash'] as string)).toBe(5);
+    expect(entityManager.update).toHaveBeenCalledWith('postgresql', user);
+  });
+
+  it('should rotate refresh tokens within the same family', async () => {
+    const { refreshToken } = await service.login({ identifier: 'alice', password: 'S3cret-pass' });
+
+    const result = await service.refresh(refreshToken);
+
+    const [first, second] = [...tokens.values()];
+    expect(first['revokedAt']).toBeInstanceOf(Date);
+    expect(first['replacedById']).toBe(second['id']);
+    expect(second['familyId']).toBe(first['familyId']);
+    expect(second['revokedAt']).toBeUndefined();
+    expect(result.refreshToken).not.toBe(refreshToken);
+  });
+
+  it('should revoke the whole family when a rotated token is reused', async () => {
+    const { refreshToken } = await service.login({ identifier: 'alice', password: 'S3cret-pass' });
+    await service.refresh(refreshToken);
+
+    await expect(service.refresh(refreshToken)).rejects.toThrow('Refresh token reuse detected');
+
+    for (const record of tokens.values()) {
+      expect(record['revokedAt']).toBeInstanceOf(Date);
+    }
+  });
+
+  it('should reject refresh tokens signed with another secret', async () => {
+    const forged = await jwtService.signAsync({ sub: 'user-1', jti: 'x', fid: 'y' }, { secret: 'access-secret' });
+
+    await expect(service.refresh(forged)).rejects.toBeInstanceOf(UnauthorizedException);
+  });
+
+  it('should revoke the token family on logout', async () => {
+    const { refreshToken } = await service.login({ identifier: 'alice', password: 'S3cret-pass' });
+
+    await service.logout('user-1', { refreshToken });
+
+    expect([...tokens.values()][0]['revokedAt']).toBeInstanceOf(Date);
+    await expect(service.refresh(refreshToken)).rejects.toBeInstanceOf(UnauthorizedException);
+  });
+});
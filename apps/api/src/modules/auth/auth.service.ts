@@ -0,0 +1,462 @@
+import { randomUUID } from 'crypto';
+import { ForbiddenException, Injectable, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { EntityManager, LockMode } from '@mikro-orm/core';
+import { ConfigService } from '@hl8/config';
+import { LoginDto, LogoutDto } from '@hl8/contracts';
+import { ErrorCode } from '@hl8/constants';
+import {
+  EntityManagerService,
+  RefreshToken,
+  runWithActor,
+  Tenant,
+  TenantStatus,
+  User,
+  UserStatus,
+  UserType,
+  withDeleted,
+} from '@hl8/database';
+import { PasswordService } from './password.service';
+
+/**
+ * 未命中用户时参与比对的密码哈希
+ *
+ * @description 保证用户不存在与密码错误的响应耗时一致，避免枚举用户名
+ */
+const DUMMY_PASSWORD_HASH = '$2b$12$.KPXz4e02xfZFw2Ry2CSCel2SmvRHzcUyIVU/eqpHFoQHkfW1jtaS';
+
+/**
+ * 访问令牌载荷
+ *
+ * @description 访问令牌中携带的用户身份信息
+ */
+export interface AccessTokenPayload {
+  sub: string;
+  username: string;
+  type: UserType;
+  tenantId?: string;
+  role: string;
+  permissions?: string[];
+  /** 模拟登录的平台操作员ID，仅模拟令牌携带 */
+  impersonatedBy?: string;
+  /** 模拟会话ID，仅模拟令牌携带 */
+  impersonationId?: string;
+}
+
+/**
+ * 刷新令牌载荷
+ *
+ * @description jti 对应 RefreshToken 记录ID，fid 为令牌族ID
+ */
+export interface RefreshTokenPayload {
+  sub: string;
+  jti: string;
+  fid: string;
+}
+
+/**
+ * 认证令牌
+ *
+ * @description 登录与刷新接口返回的令牌对，expiresIn 为访问令牌有效秒数
+ */
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  tokenType: 'Bearer';
+  expiresIn: number;
+}
+
+/**
+ * 认证服务
+ *
+ * 提供基于 JWT 的登录、令牌刷新、登出等功能
+ * 令牌密钥与有效期均取自 `auth` 配置块
+ *
+ * ## 业务规则
+ * - 用户名或邮箱加密码登录，仅 ACTIVE 状态的用户可以登录
+ * - 所属租户已暂停或删除的用户不能登录，也不能刷新令牌
+ * - 登录成功后更新 User.lastLoginAt，密码哈希的盐轮数低于当前配置时顺带重新哈希
+ * - 每次刷新都会吊销旧的刷新令牌并签发新令牌（令牌轮换）
+ * - 已吊销的刷新令牌再次使用视为泄露，吊销整个令牌族
+ * - 登出吊销指定令牌所在的令牌族，未指定时吊销用户全部会话
+ *
+ * @description 认证服务，负责令牌签发与校验
+ * @since 1.0.0
+ */
+@Injectable()
+export class AuthService {
+  constructor(
+    private readonly entityManager: EntityManagerService,
+    private readonly jwtService: JwtService,
+    private readonly configService: ConfigService,
+    private readonly passwordService: PasswordService,
+  ) {}
+
+  /**
+   * 用户登录
+   *
+   * @description 校验用户名/邮箱与密码，签发新的令牌族；
+   * 盐轮数配置提高后，旧密码哈希在用户下次登录时以明文密码重新计算
+   * @param loginData - 登录数据
+   * @returns 认证令牌
+   * @throws {UnauthorizedException} 凭证无效或用户不可登录
+   * @throws {ForbiddenException} 所属租户已暂停或删除
+   */
+  async login(loginData: LoginDto) {
+    const user = await this.validateCredentials(loginData.identifier, loginData.password);
+
+    if (this.passwordService.needsRehash(user.passwordHash)) {
+      user.passwordHash = await this.passwordService.hash(loginData.password);
+    }
+    const tokens = await this.signIn(user);
+
+    return {
+      message: 'Logged in successfully',
+      ...tokens,
+    };
+  }
+
+  /**
+   * 建立会话
+   *
+   * @description 为已完成身份校验的用户更新 lastLoginAt 并签发新的令牌族，密码登录与魔法登录共用
+   * @param user - 用户实体
+   * @returns 认证令牌
+   * @throws {ForbiddenException} 所属租户已暂停或删除
+   */
+  async signIn(user: User): Promise<AuthTokens> {
+    const tenant = user.tenantId
+      ? await this.entityManager.findOne('postgresql', Tenant, { id: user.tenantId }, withDeleted())
+      : null;
+    const denied = this.tenantSignInDenial(tenant);
+    if (denied) {
+      throw denied;
+    }
+
+    // 登录请求尚未认证，以登录用户自身为操作人
+    user.lastLoginAt = new Date();
+    await runWithActor(user.id, () => this.entityManager.update('postgresql', user));
+
+    return this.issueTokens(user);
+  }
+
+  /**
+   * 刷新令牌
+   *
+   * @description 校验刷新令牌并轮换，检测到重用时吊销整个令牌族
+   * @param refreshToken - 刷新令牌
+   * @returns 新的认证令牌
+   * @throws {UnauthorizedException} 令牌无效、过期、已被重用或用户不可登录
+   * @throws {ForbiddenException} 所属租户已暂停或删除
+   */
+  async refresh(refreshToken: string) {
+    const payload = await this.verifyRefreshToken(refreshToken);
+
+    // 重用时需要提交吊销操作，因此在事务外抛出异常
+    const rotation = await this.entityManager.transaction('postgresql', async (em) => {
+      const record = await em.findOne(RefreshToken, { id: payload.jti }, {
+        lockMode: LockMode.PESSIMISTIC_WRITE,
+      });
+
+      if (!record || record.userId !== payload.sub || record.familyId !== payload.fid) {
+        return { status: 'invalid' as const };
+      }
+
+      if (record.revokedAt) {
+        await this.revokeFamily(em, record.familyId);
+        return { status: 'reused' as const };
+      }
+
+      if (record.expiresAt <= new Date()) {
+        return { status: 'invalid' as const };
+      }
+
+      // 刷新请求尚未认证，令牌持有者可能属于任一租户
+      const user = await this.entityManager.withoutTenantScope(() => em.findOne(User, { id: record.userId }));
+      if (!user || user.status !== UserStatus.ACTIVE) {
+        await this.revokeFamily(em, record.familyId);
+        return { status: 'invalid' as const };
+      }
+
+      const tenant = user.tenantId ? await em.findOne(Tenant, { id: user.tenantId }, withDeleted()) : null;
+      const denied = this.tenantSignInDenial(tenant);
+      if (denied) {
+        return { status: 'denied' as const, denied };
+      }
+
+      const next = this.createRefreshTokenRecord(em, user.id, record.familyId);
+      record.revokedAt = new Date();
+      record.replacedById = next.id;
+
+      return { status: 'rotated' as const, user, next };
+    });
+
+    if (rotation.status === 'reused') {
+      throw new UnauthorizedException('Refresh token reuse detected');
+    }
+    if (rotation.status === 'invalid') {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+    if (rotation.status === 'denied') {
+      throw rotation.denied;
+    }
+
+    const tokens = await this.signTokens(rotation.user, rotation.next);
+
+    return {
+      message: 'Token refreshed successfully',
+      ...tokens,
+    };
+  }
+
+  /**
+   * 用户登出
+   *
+   * @description 吊销刷新令牌所在的令牌族，未提供令牌时吊销用户全部会话
+   * @param userId - 当前用户ID
+   * @param logoutData - 登出数据
+   * @returns 登出结果
+   * @throws {UnauthorizedException} 刷新令牌无效或不属于当前用户
+   */
+  async logout(userId: string, logoutData: LogoutDto = {}) {
+    const payload = logoutData.refreshToken
+      ? await this.verifyRefreshToken(logoutData.refreshToken, true)
+      : undefined;
+
+    if (payload && payload.sub !== userId) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    if (payload) {
+      await this.entityManager.transaction('postgresql', (em) => this.revokeFamily(em, payload.fid));
+    } else {
+      await this.revokeAllSessions(userId);
+    }
+
+    return {
+      message: 'Logged out successfully',
+      userId,
+    };
+  }
+
+  /**
+   * 吊销用户全部会话
+   *
+   * @description 吊销用户全部仍有效的刷新令牌，用于登出全部设备与修改密码后
+   * @param userId - 用户ID
+   */
+  async revokeAllSessions(userId: string): Promise<void> {
+    await this.entityManager.transaction('postgresql', (em) => this.revokeUserTokens(em, userId));
+  }
+
+  /**
+   * 获取当前用户
+   *
+   * @description 根据访问令牌中的用户ID获取用户信息
+   * @param userId - 当前用户ID
+   * @returns 用户信息
+   * @throws {NotFoundException} 用户不存在
+   */
+  async getCurrentUser(userId: string) {
+    const user = await this.entityManager.findOne('postgresql', User, { id: userId });
+    if (!user) {
+      throw new NotFoundException(`User ${userId} not found`);
+    }
+
+    return {
+      message: 'User retrieved successfully',
+      user,
+    };
+  }
+
+  /**
+   * 签发访问令牌
+   *
+   * @description 签发不附带刷新令牌的访问令牌，供模拟登录等短期会话使用
+   * @param payload - 访问令牌载荷
+   * @param expiresIn - 有效秒数
+   * @returns 访问令牌
+   */
+  async signAccessToken(payload: AccessTokenPayload, expiresIn: number): Promise<string> {
+    return this.jwtService.signAsync(payload, {
+      secret: this.configService.get<string>('auth.jwtSecret'),
+      expiresIn,
+    });
+  }
+
+  /**
+   * 校验访问令牌
+   *
+   * @param accessToken - 访问令牌
+   * @returns 访问令牌载荷
+   * @throws {UnauthorizedException} 令牌无效或已过期
+   */
+  async verifyAccessToken(accessToken: string): Promise<AccessTokenPayload> {
+    try {
+      return await this.jwtService.verifyAsync<AccessTokenPayload>(accessToken, {
+        secret: this.configService.get<string>('auth.jwtSecret'),
+      });
+    } catch {
+      throw new UnauthorizedException('Invalid or expired access token');
+    }
+  }
+
+  /**
+   * 校验登录凭证
+   *
+   * @param identifier - 用户名或邮箱
+   * @param password - 明文密码
+   * @returns 用户实体
+   * @throws {UnauthorizedException} 凭证无效或用户不可登录
+   */
+  private async validateCredentials(identifier: string, password: string): Promise<User> {
+    // 用户名与邮箱全局唯一，登录时按账户本身查找，不受租户作用域限制
+    const user = await this.entityManager.withoutTenantScope(() =>
+      this.entityManager.findOne('postgresql', User, {
+        $or: [{ username: identifier }, { email: identifier }],
+      }),
+    );
+
+    const matches = await this.passwordService.verify(password, user?.passwordHash ?? DUMMY_PASSWORD_HASH);
+    if (!user || !matches) {
+      throw new UnauthorizedException('Invalid credentials');
+    }
+
+    if (user.status !== UserStatus.ACTIVE) {
+      throw new UnauthorizedException(`User account is ${user.status}`);
+    }
+
+    return user;
+  }
+
+  /**
+   * 租户拒绝登录的原因
+   *
+   * @param tenant - 用户所属租户（包含已删除的租户），平台用户为 null
+   * @returns 租户已暂停或删除时返回 403 异常，否则为 undefined
+   */
+  private tenantSignInDenial(tenant: Tenant | null): ForbiddenException | undefined {
+    switch (tenant?.status) {
+      case TenantStatus.SUSPENDED:
+        return new ForbiddenException({ code: ErrorCode.TENANT_SUSPENDED, message: `Tenant ${tenant.id} is suspended` });
+      case TenantStatus.DELETED:
+        return new ForbiddenException({ code: ErrorCode.TENANT_DELETED, message: `Tenant ${tenant.id} has been deleted` });
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * 校验刷新令牌签名
+   *
+   * @param refreshToken - 刷新令牌
+   * @param ignoreExpiration - 是否忽略过期（登出时允许吊销已过期的令牌）
+   * @returns 刷新令牌载荷
+   * @throws {UnauthorizedException} 令牌无效
+   */
+  private async verifyRefreshToken(refreshToken: string, ignoreExpiration = false): Promise<RefreshTokenPayload> {
+    try {
+      return await this.jwtService.verifyAsync<RefreshTokenPayload>(refreshToken, {
+        secret: this.configService.get<string>('auth.jwtRefreshSecret'),
+        ignoreExpiration,
+      });
+    } catch {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+  }
+
+  /**
+   * 为用户签发新的令牌族
+   *
+   * @param user - 用户实体
+   * @returns 认证令牌
+   */
+  private async issueTokens(user: User): Promise<AuthTokens> {
+    const record = await this.entityManager.transaction('postgresql', async (em) =>
+      this.createRefreshTokenRecord(em, user.id, randomUUID()),
+    );
+
+    return this.signTokens(user, record);
+  }
+
+  /**
+   * 创建刷新令牌记录
+   *
+   * @param em - 事务内的实体管理器
+   * @param userId - 用户ID
+   * @param familyId - 令牌族ID
+   * @returns 刷新令牌记录
+   */
+  private createRefreshTokenRecord(em: EntityManager, userId: string, familyId: string): RefreshToken {
+    const expiresIn = this.refreshExpirationTime();
+    const record = em.create(RefreshToken, {
+      userId,
+      familyId,
+      expiresAt: new Date(Date.now() + expiresIn * 1000),
+    });
+    em.persist(record);
+    return record;
+  }
+
+  /**
+   * 签发访问令牌与刷新令牌
+   *
+   * @param user - 用户实体
+   * @param record - 刷新令牌记录
+   * @returns 认证令牌
+   */
+  private async signTokens(user: User, record: RefreshToken): Promise<AuthTokens> {
+    const expiresIn = this.configService.get<number>('auth.jwtExpirationTime') || 86400;
+    const accessPayload: AccessTokenPayload = {
+      sub: user.id,
+      username: user.username,
+      type: user.type,
+      tenantId: user.tenantId,
+      role: user.role,
+      permissions: user.permissions ?? [],
+    };
+    const refreshPayload: RefreshTokenPayload = { sub: user.id, jti: record.id, fid: record.familyId };
+
+    const [accessToken, refreshToken] = await Promise.all([
+      this.jwtService.signAsync(accessPayload, {
+        secret: this.configService.get<string>('auth.jwtSecret'),
+        expiresIn,
+      }),
+      this.jwtService.signAsync(refreshPayload, {
+        secret: this.configService.get<string>('auth.jwtRefreshSecret'),
+        expiresIn: this.refreshExpirationTime(),
+      }),
+    ]);
+
+    return { accessToken, refreshToken, tokenType: 'Bearer', expiresIn };
+  }
+
+  /**
+   * 吊销令牌族中仍有效的令牌
+   *
+   * @param em - 事务内的实体管理器
+   * @param familyId - 令牌族ID
+   */
+  private async revokeFamily(em: EntityManager, familyId: string): Promise<void> {
+    await em.nativeUpdate(RefreshToken, { familyId, revokedAt: null }, { revokedAt: new Date() });
+  }
+
+  /**
+   * 吊销用户全部仍有效的令牌
+   *
+   * @param em - 事务内的实体管理器
+   * @param userId - 用户ID
+   */
+  private async revokeUserTokens(em: EntityManager, userId: string): Promise<void> {
+    await em.nativeUpdate(RefreshToken, { userId, revokedAt: null }, { revokedAt: new Date() });
+  }
+
+  /**
+   * 刷新令牌有效秒数
+   *
+   * @returns 刷新令牌有效秒数
+   */
+  private refreshExpirationTime(): number {
+    return this.configService.get<number>('auth.jwtRefreshExpirationTime') || 604800;
+  }
+}
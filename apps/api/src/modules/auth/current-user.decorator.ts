@@ -0,0 +1,18 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import type { AuthenticatedRequest } from './jwt-auth.guard';
+
+/**
+ * 当前用户参数装饰器
+ *
+ * @description 注入全局认证守卫挂载的认证主体，公开接口中为 undefined
+ *
+ * @example
+ * ```typescript
+ * @Get('me')
+ * getMe(@CurrentUser() user: AuthPrincipal) {}
+ * ```
+ */
+export const CurrentUser = createParamDecorator((_data: unknown, context: ExecutionContext) => {
+  const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+  return request.user;
+});
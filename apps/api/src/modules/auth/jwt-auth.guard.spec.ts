@@ -0,0 +1,98 @@
+import { ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { getCurrentRequestContext, setCurrentRequestContext } from '@hl8/logger';
+import { AuthService } from './auth.service';
+import { JwtAuthGuard } from './jwt-auth.guard';
+
+// 日志包在加载时会初始化 pino，认证服务依赖数据库包，单元测试中以轻量替身隔离
+jest.mock('@hl8/logger', () => ({
+  getCurrentRequestContext: jest.fn(),
+  setCurrentRequestContext: jest.fn(),
+}));
+jest.mock('./auth.service', () => ({ AuthService: class AuthService {} }));
+
+describe('JwtAuthGuard', () => {
+  let guard: JwtAuthGuard;
+  let reflector: { getAllAndOverride: jest.Mock };
+  let authService: { verifyAccessToken: jest.Mock };
+
+  const contextFor = (request: Record<string, unknown>) =>
+    ({
+      getHandler: () => undefined,
+      getClass: () => undefined,
+      switchToHttp: () => ({ getRequest: () => request }),
+    }) as unknown as ExecutionContext;
+
+  beforeEach(() => {
+    reflector = { getAllAndOverride: jest.fn().mockReturnValue(undefined) };
+    authService = {
+      verifyAccessToken: jest.fn().mockResolvedValue({
+        sub: 'user-1',
+        username: 'alice',
+        type: 'tenant_user',
+        tenantId: 'tenant-1',
+        role: 'admin',
+        permissions: ['users:*'],
+      }),
+    };
+    guard = new JwtAuthGuard(authService as unknown as AuthService, reflector as unknown as Reflector);
+    jest.mocked(getCurrentRequestContext).mockReturnValue(null);
+    jest.mocked(setCurrentRequestContext).mockClear();
+  });
+
+  it('should let public routes through without a token', async () => {
+    reflector.getAllAndOverride.mockReturnValue(true);
+
+    await expect(guard.canActivate(contextFor({ headers: {} }))).resolves.toBe(true);
+    expect(authService.verifyAccessToken).not.toHaveBeenCalled();
+  });
+
+  it('should reject requests without a bearer token', async () => {
+    await expect(
+      guard.canActivate(contextFor({ headers: { authorization: 'Basic abc' } })),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+  });
+
+  it('should attach the principal and bind it to the request context', async () => {
+    jest.mocked(getCurrentRequestContext).mockReturnValue({ requestId: 'req-1', metadata: { ip: '::1' } });
+    const request: Record<string, unknown> = { headers: { authorization: 'Bearer token' } };
+
+    await expect(guard.canActivate(contextFor(request))).resolves.toBe(true);
+
+    expect(authService.verifyAccessToken).toHaveBeenCalledWith('token');
+    expect(request['user']).toEqual({
+      userId: 'user-1',
+      username: 'alice',
+      type: 'tenant_user',
+      tenantId: 'tenant-1',
+      roles: ['admin'],
+      permissions: ['users:*'],
+    });
+    expect(setCurrentRequestContext).toHaveBeenCalledWith({
+      requestId: 'req-1',
+      userId: 'user-1',
+      metadata: { ip: '::1', tenantId: 'tenant-1', roles: ['admin'] },
+    });
+  });
+
+  it('should tag impersonated requests with the operator in the request context', async () => {
+    jest.mocked(getCurrentRequestContext).mockReturnValue({ requestId: 'req-1' });
+    authService.verifyAccessToken.mockResolvedValue({
+      sub: 'user-1',
+      username: 'alice',
+      type: 'tenant_user',
+      tenantId: 'tenant-1',
+      role: 'admin',
+      impersonatedBy: 'operator-1',
+      impersonationId: 'session-1',
+    });
+    const request: Record<string, unknown> = { headers: { authorization: 'Bearer token' } };
+
+    await guard.canActivate(contextFor(request));
+
+    expect(request['user']).toMatchObject({ userId: 'user-1', impersonatedBy: 'operator-1', impersonationId: 'session-1' });
+    expect(setCurrentRequestContext).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'user-1', impersonatedBy: 'operator-1' }),
+    );
+  });
+});
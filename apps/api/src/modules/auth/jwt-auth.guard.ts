@@ -0,0 +1,90 @@
+import { CanActivate, ExecutionContext, Injectable, UnauthorizedException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { AuthPrincipal } from '@hl8/common';
+import { PUBLIC_METHOD_METADATA } from '@hl8/constants';
+import { getCurrentRequestContext, setCurrentRequestContext } from '@hl8/logger';
+import { AuthService } from './auth.service';
+
+/**
+ * 已认证请求
+ *
+ * @description 通过访问令牌校验后，请求上挂载当前用户的认证主体
+ */
+export interface AuthenticatedRequest {
+  headers: { authorization?: string };
+  user: AuthPrincipal;
+}
+
+/**
+ * JWT 认证守卫
+ *
+ * 作为全局守卫注册，默认保护所有路由，标注 `@Public()` 的处理器或控制器除外
+ *
+ * @description 从 `Authorization: Bearer <token>` 请求头中读取访问令牌，
+ * 校验通过后将认证主体挂载到 `request.user`，并写入日志请求上下文的 userId；
+ * 模拟令牌同时写入 impersonatedBy，日志中可区分操作员代为执行的请求
+ * @since 1.0.0
+ */
+@Injectable()
+export class JwtAuthGuard implements CanActivate {
+  constructor(
+    private readonly authService: AuthService,
+    private readonly reflector: Reflector,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const isPublic = this.reflector.getAllAndOverride<boolean>(PUBLIC_METHOD_METADATA, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (isPublic) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const [scheme, token] = request.headers.authorization?.split(' ') ?? [];
+
+    if (scheme !== 'Bearer' || !token) {
+      throw new UnauthorizedException('Missing bearer token');
+    }
+
+    const payload = await this.authService.verifyAccessToken(token);
+    request.user = {
+      userId: payload.sub,
+      username: payload.username,
+      type: payload.type,
+      tenantId: payload.tenantId,
+      roles: [payload.role],
+      permissions: payload.permissions ?? [],
+      impersonatedBy: payload.impersonatedBy,
+      impersonationId: payload.impersonationId,
+    };
+
+    this.bindRequestContext(request.user);
+    return true;
+  }
+
+  /**
+   * 将认证主体写入日志请求上下文
+   *
+   * @description 不在请求上下文作用域内（如未启用日志中间件）时忽略
+   * @param principal - 认证主体
+   */
+  private bindRequestContext(principal: AuthPrincipal): void {
+    const requestContext = getCurrentRequestContext();
+    if (!requestContext) {
+      return;
+    }
+
+    setCurrentRequestContext({
+      ...requestContext,
+      userId: principal.userId,
+      impersonatedBy: principal.impersonatedBy,
+      metadata: {
+        ...requestContext.metadata,
+        tenantId: principal.tenantId,
+        roles: principal.roles,
+      },
+    });
+  }
+}
@@ -0,0 +1,132 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@hl8/config';
+import { EntityManagerService } from '@hl8/database';
+import { InMemoryMailTransport } from '../mail/in-memory-mail.transport';
+import { MailTransport } from '../mail/mail-transport';
+import { MailService } from '../mail/mail.service';
+import { AuthService } from './auth.service';
+import { MagicLoginService } from './magic-login.service';
+
+// 配置与数据库包在加载时会初始化连接配置，单元测试中以轻量替身隔离
+jest.mock('@hl8/config', () => ({ ConfigService: class ConfigService {} }));
+jest.mock('@hl8/database', () => ({
+  EntityManagerService: class EntityManagerService {},
+  MagicLoginCode: class MagicLoginCode {},
+  User: class User {},
+  UserStatus: { ACTIVE: 'active' },
+}));
+jest.mock('./auth.service', () => ({ AuthService: class AuthService {} }));
+
+describe('MagicLoginService', () => {
+  let service: MagicLoginService;
+  let transport: InMemoryMailTransport;
+  let authService: { signIn: jest.Mock };
+  let config: Record<string, unknown>;
+  let records: Record<string, unknown>[];
+  const user = { id: 'user-1', username: 'alice', email: 'alice@example.com', status: 'active' };
+
+  const mailedCode = () => /login code is: (\w+)/.exec(transport.messages[transport.messages.length - 1].text)?.[1] ?? '';
+
+  beforeEach(async () => {
+    config = {
+      'features.magicLogin': true,
+      'api.production': true,
+      'auth.magicCodeExpirationTime': 600,
+      'auth.magicCodeMaxAttempts': 3,
+    };
+    records = [];
+
+    const isActive = (record: Record<string, unknown>) =>
+      !record['usedAt'] && !record['revokedAt'] && (record['expiresAt'] as Date) > new Date();
+    const em = {
+      findOne: jest.fn(async (_entity, where) =>
+        records.filter((record) => record['userId'] === where.userId && isActive(record)).pop() ?? null,
+      ),
+      create: jest.fn((_entity, data) => ({ attempts: 0, ...data })),
+      persist: jest.fn((record) => records.push(record)),
+      nativeUpdate: jest.fn(async (_entity, where, data) => {
+        records
+          .filter((record) => record['userId'] === where.userId && !record['usedAt'] && !record['revokedAt'])
+          .forEach((record) => Object.assign(record, data));
+      }),
+    };
+    const entityManager = {
+      withoutTenantScope: jest.fn((callback) => callback()),
+      findOne: jest.fn(async (_db, _entity, where) => (where.email === user.email ? user : null)),
+      transaction: jest.fn(async (_db, callback) => callback(em)),
+    };
+    transport = new InMemoryMailTransport();
+    authService = { signIn: jest.fn().mockResolvedValue({ accessToken: 'access', refreshToken: 'refresh' }) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MagicLoginService,
+        MailService,
+        { provide: MailTransport, useValue: transport },
+        { provide: AuthService, useValue: authService },
+        { provide: EntityManagerService, useValue: entityManager },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: (key: string) => config[key],
+            isFeatureEnabled: (feature: string) => config[`features.${feature}`] === true,
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<MagicLoginService>(MagicLoginService);
+  });
+
+  it('should reject every step while the feature is disabled', async () => {
+    config['features.magicLogin'] = false;
+
+    await expect(service.requestCode('alice@example.com')).rejects.toBeInstanceOf(ForbiddenException);
+    await expect(service.verifyCode({ email: 'alice@example.com', code: 'ABC123' })).rejects.toMatchObject({
+      response: { code: 'FEATURE_DISABLED' },
+    });
+  });
+
+  it('should mail a code, store only its hash and accept it once', async () => {
+    await service.requestCode('alice@example.com');
+    const code = mailedCode();
+
+    expect(code).toMatch(/^[A-Z0-9]{6}$/);
+    expect(records[0]['codeHash']).toMatch(/^[0-9a-f]{64}$/);
+    expect(JSON.stringify(records)).not.toContain(code);
+
+    await expect(service.verifyCode({ email: 'alice@example.com', code: code.toLowerCase() })).resolves.toMatchObject({
+      accessToken: 'access',
+    });
+    expect(authService.signIn).toHaveBeenCalledWith(user);
+    await expect(service.verifyCode({ email: 'alice@example.com', code })).rejects.toBeInstanceOf(UnauthorizedException);
+  });
+
+  it('should revoke the code after too many wrong attempts', async () => {
+    await service.requestCode('alice@example.com');
+    const code = mailedCode();
+    const wrong = code === 'AAAAAA' ? 'BBBBBB' : 'AAAAAA';
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      await expect(service.verifyCode({ email: 'alice@example.com', code: wrong })).rejects.toBeInstanceOf(
+        UnauthorizedException,
+      );
+    }
+
+    expect(records[0]).toMatchObject({ attempts: 3, revokedAt: expect.any(Date) });
+    await expect(service.verifyCode({ email: 'alice@example.com', code })).rejects.toBeInstanceOf(UnauthorizedException);
+  });
+
+  it('should only accept the demo code outside production', async () => {
+    await expect(service.verifyCode({ email: 'alice@example.com', code: '123456' })).rejects.toBeInstanceOf(
+      UnauthorizedException,
+    );
+
+    config['api.production'] = false;
+
+    await expect(service.verifyCode({ email: 'alice@example.com', code: '123456' })).resolves.toMatchObject({
+      refreshToken: 'refresh',
+    });
+  });
+});
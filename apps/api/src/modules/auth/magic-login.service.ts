@@ -0,0 +1,197 @@
+import { randomUUID, timingSafeEqual } from 'crypto';
+import { ForbiddenException, Injectable, UnauthorizedException } from '@nestjs/common';
+import { LockMode } from '@mikro-orm/core';
+import { ConfigService } from '@hl8/config';
+import { ALPHA_NUMERIC_CODE_LENGTH, DEMO_PASSWORD_LESS_MAGIC_CODE, ErrorCode } from '@hl8/constants';
+import { MagicLoginVerifyDto } from '@hl8/contracts';
+import { EntityManagerService, MagicLoginCode, User, UserStatus } from '@hl8/database';
+import { generateAlphaNumericCode, generateSha256Hash } from '@hl8/utils';
+import { MailService } from '../mail/mail.service';
+import { AuthService } from './auth.service';
+
+/**
+ * 魔法登录服务
+ *
+ * 提供通过邮件一次性登录码免密登录的功能，整个流程受 `features.magicLogin` 开关控制
+ *
+ * ## 业务规则
+ * - 登录码使用安全随机数生成，只存储与记录ID绑定的 SHA-256 哈希
+ * - 登录码有效期取自 `auth.magicCodeExpirationTime`，只能使用一次
+ * - 重新申请登录码时之前未使用的登录码全部失效
+ * - 错误次数达到 `auth.magicCodeMaxAttempts` 后登录码被吊销
+ * - 申请登录码无论邮箱是否存在都返回相同结果，避免枚举邮箱
+ * - 非生产环境（`api.production` 为 false）额外接受演示登录码 DEMO_PASSWORD_LESS_MAGIC_CODE
+ *
+ * @description 魔法登录服务，负责登录码的签发、投递与校验
+ * @since 1.0.0
+ */
+@Injectable()
+export class MagicLoginService {
+  constructor(
+    private readonly entityManager: EntityManagerService,
+    private readonly configService: ConfigService,
+    private readonly authService: AuthService,
+    private readonly mailService: MailService,
+  ) {}
+
+  /**
+   * 申请登录码
+   *
+   * @description 为邮箱对应的用户生成登录码并通过邮件发送
+   * @param email - 账户邮箱
+   * @returns 处理结果，不透露邮箱是否存在
+   * @throws {ForbiddenException} 魔法登录未启用
+   */
+  async requestCode(email: string) {
+    this.assertEnabled();
+
+    const user = await this.findUserByEmail(email);
+    if (user && user.status === UserStatus.ACTIVE) {
+      const code = generateAlphaNumericCode(ALPHA_NUMERIC_CODE_LENGTH);
+      const expiresIn = this.expirationTime();
+
+      await this.entityManager.transaction('postgresql', async (em) => {
+        await em.nativeUpdate(
+          MagicLoginCode,
+          { userId: user.id, usedAt: null, revokedAt: null },
+          { revokedAt: new Date() },
+        );
+        const id = randomUUID();
+        em.persist(
+          em.create(MagicLoginCode, {
+            id,
+            userId: user.id,
+            codeHash: this.hashCode(id, code),
+            expiresAt: new Date(Date.now() + expiresIn * 1000),
+          }),
+        );
+      });
+      await this.mailService.sendMagicCode(user, code, expiresIn);
+    }
+
+    return {
+      message: 'If the email is registered, a login code has been sent',
+    };
+  }
+
+  /**
+   * 使用登录码登录
+   *
+   * @description 校验登录码后签发新的令牌族，错误的登录码会累计失败次数
+   * @param verifyData - 邮箱与登录码
+   * @returns 认证令牌
+   * @throws {ForbiddenException} 魔法登录未启用
+   * @throws {UnauthorizedException} 登录码错误、已使用、已过期或用户不可登录
+   */
+  async verifyCode(verifyData: MagicLoginVerifyDto) {
+    this.assertEnabled();
+
+    const user = await this.findUserByEmail(verifyData.email);
+    if (!user || user.status !== UserStatus.ACTIVE) {
+      throw new UnauthorizedException('Invalid or expired login code');
+    }
+
+    const code = verifyData.code.trim().toUpperCase();
+    if (!this.isDemoCode(code) && !(await this.consumeCode(user.id, code))) {
+      throw new UnauthorizedException('Invalid or expired login code');
+    }
+
+    const tokens = await this.authService.signIn(user);
+
+    return {
+      message: 'Logged in successfully',
+      ...tokens,
+    };
+  }
+
+  /**
+   * 按邮箱查找用户
+   *
+   * @description 邮箱全局唯一，登录时按账户本身查找，不受租户作用域限制
+   * @param email - 账户邮箱
+   * @returns 用户，不存在时返回 null
+   */
+  private findUserByEmail(email: string): Promise<User | null> {
+    return this.entityManager.withoutTenantScope(() => this.entityManager.findOne('postgresql', User, { email }));
+  }
+
+  /**
+   * 消耗登录码
+   *
+   * @description 失败次数需要提交，因此不在事务内抛出异常
+   * @param userId - 用户ID
+   * @param code - 规范化后的登录码
+   * @returns 登录码是否正确
+   */
+  private consumeCode(userId: string, code: string): Promise<boolean> {
+    const maxAttempts = this.configService.get<number>('auth.magicCodeMaxAttempts') || 5;
+
+    return this.entityManager.transaction('postgresql', async (em) => {
+      const record = await em.findOne(
+        MagicLoginCode,
+        { userId, usedAt: null, revokedAt: null, expiresAt: { $gt: new Date() } },
+        { orderBy: { createdAt: 'desc' }, lockMode: LockMode.PESSIMISTIC_WRITE },
+      );
+      if (!record) {
+        return false;
+      }
+
+      const expected = Buffer.from(record.codeHash, 'hex');
+      const actual = Buffer.from(this.hashCode(record.id, code), 'hex');
+      if (expected.length === actual.length && timingSafeEqual(expected, actual)) {
+        record.usedAt = new Date();
+        return true;
+      }
+
+      record.attempts += 1;
+      if (record.attempts >= maxAttempts) {
+        record.revokedAt = new Date();
+      }
+      return false;
+    });
+  }
+
+  /**
+   * 判断是否为演示登录码
+   *
+   * @param code - 规范化后的登录码
+   * @returns 非生产环境下是否为演示登录码
+   */
+  private isDemoCode(code: string): boolean {
+    return this.configService.get<boolean>('api.production') === false && code === DEMO_PASSWORD_LESS_MAGIC_CODE;
+  }
+
+  /**
+   * 计算登录码哈希
+   *
+   * @param recordId - 登录码记录ID
+   * @param code - 规范化后的登录码
+   * @returns 十六进制哈希
+   */
+  private hashCode(recordId: string, code: string): string {
+    return generateSha256Hash(`${recordId}:${code}`);
+  }
+
+  /**
+   * 登录码有效秒数
+   *
+   * @returns 登录码有效秒数
+   */
+  private expirationTime(): number {
+    return this.configService.get<number>('auth.magicCodeExpirationTime') || 600;
+  }
+
+  /**
+   * 校验魔法登录已启用
+   *
+   * @throws {ForbiddenException} 魔法登录未启用
+   */
+  private assertEnabled(): void {
+    if (!this.configService.isFeatureEnabled('magicLogin')) {
+      throw new ForbiddenException({
+        code: ErrorCode.FEATURE_DISABLED,
+        message: 'Magic login is disabled',
+      });
+    }
+  }
+}
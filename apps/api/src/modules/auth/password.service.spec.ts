@@ -0,0 +1,76 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Logger } from '@nestjs/common';
+import { hash } from 'bcryptjs';
+import { ConfigService } from '@hl8/config';
+import { PasswordService } from './password.service';
+
+// 配置包在加载时会初始化连接配置，单元测试中以轻量替身隔离
+jest.mock('@hl8/config', () => ({ ConfigService: class ConfigService {} }));
+
+describe('PasswordService', () => {
+  let directory: string;
+  let config: Record<string, unknown>;
+  let service: PasswordService;
+
+  beforeAll(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'password-policy-'));
+    await writeFile(join(directory, 'denylist.txt'), '# common passwords\nPassword123\nqwerty\n');
+  });
+
+  afterAll(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    config = {
+      'auth.passwordSaltRounds': 4,
+      'auth.passwordPolicy': { minLength: 10, requireSymbol: true, denylistPath: join(directory, 'denylist.txt') },
+    };
+    service = new PasswordService({ get: (key: string) => config[key] } as unknown as ConfigService);
+    await service.onModuleInit();
+  });
+
+  it('should report every violated rule', () => {
+    expect(service.checkStrength('password123')).toEqual([
+      'Password must contain an uppercase letter',
+      'Password must contain a symbol',
+      'Password is too common',
+    ]);
+    expect(service.checkStrength('Sh0rt!')).toEqual(['Password must be at least 10 characters long']);
+    expect(service.checkStrength('Str0ng-passphrase!')).toEqual([]);
+  });
+
+  it('should reject passwords longer than bcrypt can hash', () => {
+    expect(service.checkStrength(`Aa1!${'x'.repeat(70)}`)).toContain('Password must not exceed 72 bytes');
+  });
+
+  it('should keep working without a denylist file', async () => {
+    config['auth.passwordPolicy'] = { denylistPath: join(directory, 'missing.txt') };
+    const fallback = new PasswordService({ get: (key: string) => config[key] } as unknown as ConfigService);
+    const warn = jest.spyOn(Logger.prototype, 'warn').mockImplementation(() => undefined);
+
+    await fallback.onModuleInit();
+
+    expect(warn).toHaveBeenCalled();
+    expect(fallback.checkStrength('Password123')).toEqual([]);
+    warn.mockRestore();
+  });
+
+  it('should flag hashes created with fewer salt rounds', async () => {
+    const passwordHash = await hash('Str0ng-passphrase!', 4);
+    expect(service.needsRehash(passwordHash)).toBe(false);
+
+    config['auth.passwordSaltRounds'] = 5;
+    expect(service.needsRehash(passwordHash)).toBe(true);
+    expect(service.needsRehash('not-a-bcrypt-hash')).toBe(true);
+  });
+
+  it('should generate temporary passwords that satisfy the policy', () => {
+    const password = service.generateTemporaryPassword();
+
+    expect(password).toHaveLength(16);
+    expect(service.checkStrength(password)).toEqual([]);
+  });
+});
@@ -0,0 +1,230 @@
+import { readFile } from 'fs/promises';
+import { BadRequestException, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { compare, getRounds, hash } from 'bcryptjs';
+import { ConfigService } from '@hl8/config';
+import { ErrorCode } from '@hl8/constants';
+import { generatePassword } from '@hl8/utils';
+
+/**
+ * bcrypt 参与哈希的最大字节数，超出部分会被忽略
+ */
+const BCRYPT_MAX_BYTES = 72;
+
+/**
+ * 临时密码最小长度
+ */
+const TEMPORARY_PASSWORD_LENGTH = 16;
+
+/**
+ * 密码强度策略
+ *
+ * @description 取自 `auth.passwordPolicy` 配置块，未配置的项使用默认值
+ */
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+  denylistPath?: string;
+}
+
+/**
+ * 密码强度策略默认值
+ */
+const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 8,
+  requireUppercase: true,
+  requireLowercase: true,
+  requireDigit: true,
+  requireSymbol: false,
+};
+
+/**
+ * 密码所属用户
+ *
+ * @description 密码不得包含用户名或邮箱名
+ */
+export interface PasswordOwner {
+  username?: string;
+  email?: string;
+}
+
+/**
+ * 密码服务
+ *
+ * 负责密码哈希、校验与强度策略，盐轮数取自 `auth.passwordSaltRounds`
+ *
+ * ## 强度策略
+ * - 长度不少于 minLength，且不超过 bcrypt 的 72 字节上限
+ * - 按配置要求包含大写字母、小写字母、数字与特殊字符
+ * - 不得出现在弱密码黑名单中（忽略大小写），黑名单在模块初始化时从 denylistPath 加载
+ * - 不得包含用户名或邮箱名
+ *
+ * @description 密码服务，负责密码的哈希与强度校验
+ * @since 1.0.0
+ */
+@Injectable()
+export class PasswordService implements OnModuleInit {
+  private readonly logger = new Logger(PasswordService.name);
+  private denylist = new Set<string>();
+
+  constructor(private readonly configService: ConfigService) {}
+
+  /**
+   * 加载弱密码黑名单
+   *
+   * @description 黑名单文件不存在时记录警告并跳过黑名单校验
+   */
+  async onModuleInit(): Promise<void> {
+    const { denylistPath } = this.policy();
+    if (!denylistPath) {
+      return;
+    }
+
+    try {
+      const content = await readFile(denylistPath, 'utf8');
+      this.denylist = new Set(
+        content
+          .split(/\r?\n/)
+          .map((line) => line.trim().toLowerCase())
+          .filter((line) => line && !line.startsWith('#')),
+      );
+    } catch (error) {
+      this.logger.warn(`Password denylist ${denylistPath} could not be loaded: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * 哈希密码
+   *
+   * @param password - 明文密码
+   * @returns 密码哈希
+   */
+  hash(password: string): Promise<string> {
+    return hash(password, this.saltRounds());
+  }
+
+  /**
+   * 校验密码
+   *
+   * @param password - 明文密码
+   * @param passwordHash - 密码哈希
+   * @returns 是否匹配
+   */
+  verify(password: string, passwordHash: string): Promise<boolean> {
+    return compare(password, passwordHash);
+  }
+
+  /**
+   * 判断密码哈希是否需要重新计算
+   *
+   * @description 哈希的盐轮数低于当前配置，或无法识别为 bcrypt 哈希时需要重新计算
+   * @param passwordHash - 密码哈希
+   * @returns 是否需要重新计算
+   */
+  needsRehash(passwordHash: string): boolean {
+    try {
+      const rounds = getRounds(passwordHash);
+      return !Number.isInteger(rounds) || rounds < this.saltRounds();
+    } catch {
+      return true;
+    }
+  }
+
+  /**
+   * 校验密码强度
+   *
+   * @param password - 明文密码
+   * @param owner - 密码所属用户
+   * @throws {BadRequestException} 密码不满足强度策略，violations 列出全部未通过的规则
+   */
+  assertStrength(password: string, owner: PasswordOwner = {}): void {
+    const violations = this.checkStrength(password, owner);
+    if (violations.length > 0) {
+      throw new BadRequestException({
+        code: ErrorCode.PASSWORD_POLICY_VIOLATION,
+        message: 'Password does not meet the password policy',
+        violations,
+      });
+    }
+  }
+
+  /**
+   * 检查密码强度
+   *
+   * @param password - 明文密码
+   * @param owner - 密码所属用户
+   * @returns 未通过的规则说明，全部通过时为空数组
+   */
+  checkStrength(password: string, owner: PasswordOwner = {}): string[] {
+    const policy = this.policy();
+    const violations: string[] = [];
+
+    if (password.length < policy.minLength) {
+      violations.push(`Password must be at least ${policy.minLength} characters long`);
+    }
+    if (Buffer.byteLength(password, 'utf8') > BCRYPT_MAX_BYTES) {
+      violations.push(`Password must not exceed ${BCRYPT_MAX_BYTES} bytes`);
+    }
+    if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+      violations.push('Password must contain an uppercase letter');
+    }
+    if (policy.requireLowercase && !/[a-z]/.test(password)) {
+      violations.push('Password must contain a lowercase letter');
+    }
+    if (policy.requireDigit && !/\d/.test(password)) {
+      violations.push('Password must contain a digit');
+    }
+    if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+      violations.push('Password must contain a symbol');
+    }
+    if (this.denylist.has(password.toLowerCase())) {
+      violations.push('Password is too common');
+    }
+
+    const lowered = password.toLowerCase();
+    const personal = [owner.username, owner.email?.split('@')[0]].filter(
+      (value): value is string => !!value && value.length >= 3,
+    );
+    if (personal.some((value) => lowered.includes(value.toLowerCase()))) {
+      violations.push('Password must not contain the username or email');
+    }
+
+    return violations;
+  }
+
+  /**
+   * 生成临时密码
+   *
+   * @description 使用 `@hl8/utils` 的 generatePassword 生成满足当前强度策略的随机密码
+   * @returns 临时密码
+   */
+  generateTemporaryPassword(): string {
+    const policy = this.policy();
+    return generatePassword(Math.max(policy.minLength, TEMPORARY_PASSWORD_LENGTH), {
+      lowercase: true,
+      uppercase: true,
+      numbers: true,
+      symbols: policy.requireSymbol,
+    });
+  }
+
+  /**
+   * 当前生效的强度策略
+   *
+   * @returns 合并默认值后的强度策略
+   */
+  private policy(): PasswordPolicy {
+    return { ...DEFAULT_PASSWORD_POLICY, ...this.configService.get<Partial<PasswordPolicy>>('auth.passwordPolicy') };
+  }
+
+  /**
+   * 当前配置的盐轮数
+   *
+   * @returns 盐轮数
+   */
+  private saltRounds(): number {
+    return this.configService.get<number>('auth.passwordSaltRounds') || 12;
+  }
+}
@@ -0,0 +1,143 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { compare, hash } from 'bcryptjs';
+import { ConfigService } from '@hl8/config';
+import { EntityManagerService } from '@hl8/database';
+import { InMemoryMailTransport } from '../mail/in-memory-mail.transport';
+import { MailTransport } from '../mail/mail-transport';
+import { MailService } from '../mail/mail.service';
+import { AuthService } from './auth.service';
+import { PasswordService } from './password.service';
+import { VerificationService } from './verification.service';
+
+// 配置与数据库包在加载时会初始化连接配置，单元测试中以轻量替身隔离
+jest.mock('@hl8/config', () => ({ ConfigService: class ConfigService {} }));
+jest.mock('@hl8/database', () => ({
+  EntityManagerService: class EntityManagerService {},
+  User: class User {},
+  VerificationToken: class VerificationToken {},
+  runWithActor: jest.fn((_actorId, callback) => callback()),
+  UserStatus: { ACTIVE: 'active', PENDING: 'pending', SUSPENDED: 'suspended' },
+  VerificationTokenPurpose: { EMAIL_VERIFICATION: 'email_verification', PASSWORD_RESET: 'password_reset' },
+}));
+jest.mock('./auth.service', () => ({ AuthService: class AuthService {} }));
+
+const config: Record<string, unknown> = {
+  'auth.jwtVerificationSecret': 'verification-secret',
+  'auth.jwtVerificationExpirationTime': 600,
+  'auth.passwordSaltRounds': 4,
+  'api.clientBaseUrl': 'https://app.example.com/',
+  'mail.from': 'no-reply@example.com',
+};
+
+describe('VerificationService', () => {
+  let service: VerificationService;
+  let transport: InMemoryMailTransport;
+  let authService: { revokeAllSessions: jest.Mock };
+  let entityManager: Record<string, jest.Mock>;
+  let records: Map<string, Record<string, unknown>>;
+  let user: Record<string, unknown>;
+
+  const mailedToken = (index = 0) =>
+    decodeURIComponent(/token=(\S+)/.exec(transport.messages[index].text)?.[1] ?? '');
+
+  beforeEach(async () => {
+    user = {
+      id: 'user-1',
+      username: 'alice',
+      email: 'alice@example.com',
+      passwordHash: await hash('S3cret-pass', 4),
+      status: 'active',
+    };
+    records = new Map();
+
+    let sequence = 0;
+    const em = {
+      findOne: jest.fn(async (entity, where) =>
+        entity.name === 'VerificationToken' ? (records.get(where.id) ?? null) : user,
+      ),
+      create: jest.fn((_entity, data) => ({ id: `token-${++sequence}`, ...data })),
+      persist: jest.fn((record) => records.set(record.id, record)),
+      nativeUpdate: jest.fn(async (_entity, where, data) => {
+        for (const record of records.values()) {
+          if (record['userId'] === where.userId && record['purpose'] === where.purpose && !record['usedAt'] && !record['revokedAt']) {
+            Object.assign(record, data);
+          }
+        }
+      }),
+    };
+    entityManager = {
+      withoutTenantScope: jest.fn((callback) => callback()),
+      findOne: jest.fn(async (_db, _entity, where) => (where.email === user['email'] ? user : null)),
+      transaction: jest.fn(async (_db, callback) => callback(em)),
+    };
+    transport = new InMemoryMailTransport();
+    authService = { revokeAllSessions: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        VerificationService,
+        JwtService,
+        PasswordService,
+        MailService,
+        { provide: MailTransport, useValue: transport },
+        { provide: AuthService, useValue: authService },
+        { provide: EntityManagerService, useValue: entityManager },
+        { provide: ConfigService, useValue: { get: (key: string) => config[key] } },
+      ],
+    }).compile();
+
+    service = module.get<VerificationService>(VerificationService);
+  });
+
+  it('should mail a reset link without revealing unknown emails', async () => {
+    const unknown = await service.forgotPassword('nobody@example.com');
+    const known = await service.forgotPassword('alice@example.com');
+
+    expect(known).toEqual(unknown);
+    expect(transport.messages).toHaveLength(1);
+    expect(transport.messages[0]).toMatchObject({ from: 'no-reply@example.com', to: 'alice@example.com' });
+    expect(transport.messages[0].text).toContain('https://app.example.com/reset-password?token=');
+  });
+
+  it('should reset the password once per token and revoke sessions', async () => {
+    await service.forgotPassword('alice@example.com');
+    const token = mailedToken();
+
+    await service.resetPassword({ token, newPassword: 'N3w-secret' });
+
+    expect(await compare('N3w-secret', user['passwordHash'] as string)).toBe(true);
+    expect(authService.revokeAllSessions).toHaveBeenCalledWith('user-1');
+    await expect(service.resetPassword({ token, newPassword: 'An0ther-secret' })).rejects.toMatchObject({
+      response: { code: 'INVALID_VERIFICATION_TOKEN' },
+    });
+  });
+
+  it('should invalidate earlier tokens when a new one is requested', async () => {
+    await service.forgotPassword('alice@example.com');
+    await service.forgotPassword('alice@example.com');
+
+    await expect(service.resetPassword({ token: mailedToken(0), newPassword: 'N3w-secret' })).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+    await expect(service.resetPassword({ token: mailedToken(1), newPassword: 'N3w-secret' })).resolves.toMatchObject({
+      userId: 'user-1',
+    });
+  });
+
+  it('should activate pending users once their email is verified', async () => {
+    user['status'] = 'pending';
+    await service.resendVerification('alice@example.com');
+    const token = mailedToken();
+
+    await expect(service.resetPassword({ token, newPassword: 'N3w-secret' })).rejects.toBeInstanceOf(BadRequestException);
+    await service.verifyEmail(token);
+
+    expect(user['status']).toBe('active');
+    expect(user['emailVerifiedAt']).toBeInstanceOf(Date);
+
+    await service.resendVerification('alice@example.com');
+    expect(transport.messages).toHaveLength(1);
+  });
+});
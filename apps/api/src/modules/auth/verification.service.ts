@@ -0,0 +1,289 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { EntityManager, LockMode } from '@mikro-orm/core';
+import { ConfigService } from '@hl8/config';
+import { ErrorCode } from '@hl8/constants';
+import { ResetPasswordDto } from '@hl8/contracts';
+import {
+  EntityManagerService,
+  runWithActor,
+  User,
+  UserStatus,
+  VerificationToken,
+  VerificationTokenPurpose,
+} from '@hl8/database';
+import { MailService } from '../mail/mail.service';
+import { AuthService } from './auth.service';
+import { PasswordService } from './password.service';
+
+/**
+ * 可以接收账户邮件的用户状态
+ */
+const MAILABLE_STATUSES: UserStatus[] = [UserStatus.ACTIVE, UserStatus.PENDING];
+
+/**
+ * 验证令牌载荷
+ *
+ * @description jti 对应 VerificationToken 记录ID
+ */
+export interface VerificationTokenPayload {
+  sub: string;
+  jti: string;
+  purpose: VerificationTokenPurpose;
+}
+
+/**
+ * 账户验证服务
+ *
+ * 提供基于一次性令牌的邮箱验证与密码重置流程
+ * 令牌以 `auth.jwtVerificationSecret` 签名，有效期取自 `auth.jwtVerificationExpirationTime`
+ *
+ * ## 业务规则
+ * - 每个令牌只能使用一次，同一用户重新申请同类令牌时之前未使用的令牌全部失效
+ * - 忘记密码与重发验证邮件无论邮箱是否存在都返回相同结果，避免枚举邮箱
+ * - 完成邮箱验证或通过邮件重置密码即视为邮箱已验证，PENDING 状态的用户随之激活
+ * - 重置密码后吊销该用户的全部会话
+ * - 新密码不满足强度策略时令牌不会被消耗
+ *
+ * @description 账户验证服务，负责验证令牌的签发、校验与邮件发送
+ * @since 1.0.0
+ */
+@Injectable()
+export class VerificationService {
+  constructor(
+    private readonly entityManager: EntityManagerService,
+    private readonly jwtService: JwtService,
+    private readonly configService: ConfigService,
+    private readonly passwordService: PasswordService,
+    private readonly authService: AuthService,
+    private readonly mailService: MailService,
+  ) {}
+
+  /**
+   * 忘记密码
+   *
+   * @description 向邮箱对应的用户发送密码重置邮件
+   * @param email - 账户邮箱
+   * @returns 处理结果，不透露邮箱是否存在
+   */
+  async forgotPassword(email: string) {
+    const user = await this.findUserByEmail(email);
+    if (user && MAILABLE_STATUSES.includes(user.status)) {
+      const token = await this.issueToken(user.id, VerificationTokenPurpose.PASSWORD_RESET);
+      await this.mailService.sendPasswordReset(user, token);
+    }
+
+    return {
+      message: 'If the email is registered, a password reset link has been sent',
+    };
+  }
+
+  /**
+   * 重置密码
+   *
+   * @description 使用密码重置令牌设置新密码
+   * @param resetData - 令牌与新密码
+   * @returns 重置结果
+   * @throws {BadRequestException} 令牌无效、已使用或已过期，或新密码不满足强度策略
+   */
+  async resetPassword(resetData: ResetPasswordDto) {
+    const payload = await this.verifyToken(resetData.token, VerificationTokenPurpose.PASSWORD_RESET);
+
+    // 令牌所属的用户即操作人
+    const userId = await runWithActor(payload.sub, () =>
+      this.entityManager.transaction('postgresql', async (em) => {
+        const user = await this.consumeToken(em, payload);
+        this.passwordService.assertStrength(resetData.newPassword, user);
+        user.passwordHash = await this.passwordService.hash(resetData.newPassword);
+        this.markEmailVerified(user);
+        return user.id;
+      }),
+    );
+    await this.authService.revokeAllSessions(userId);
+
+    return {
+      message: 'Password reset successfully',
+      userId,
+    };
+  }
+
+  /**
+   * 验证邮箱
+   *
+   * @description 使用邮箱验证令牌完成验证，PENDING 状态的用户随之激活
+   * @param token - 邮箱验证令牌
+   * @returns 验证结果
+   * @throws {BadRequestException} 令牌无效、已使用或已过期
+   */
+  async verifyEmail(token: string) {
+    const payload = await this.verifyToken(token, VerificationTokenPurpose.EMAIL_VERIFICATION);
+
+    const user = await runWithActor(payload.sub, () =>
+      this.entityManager.transaction('postgresql', async (em) => {
+        const verified = await this.consumeToken(em, payload);
+        this.markEmailVerified(verified);
+        return verified;
+      }),
+    );
+
+    return {
+      message: 'Email verified successfully',
+      user,
+    };
+  }
+
+  /**
+   * 重发验证邮件
+   *
+   * @description 邮箱尚未验证时重新发送邮箱验证邮件
+   * @param email - 账户邮箱
+   * @returns 处理结果，不透露邮箱是否存在
+   */
+  async resendVerification(email: string) {
+    const user = await this.findUserByEmail(email);
+    if (user && !user.emailVerifiedAt && MAILABLE_STATUSES.includes(user.status)) {
+      await this.sendEmailVerification(user);
+    }
+
+    return {
+      message: 'If the email is registered and not yet verified, a verification link has been sent',
+    };
+  }
+
+  /**
+   * 发送邮箱验证邮件
+   *
+   * @param user - 用户实体
+   */
+  async sendEmailVerification(user: User): Promise<void> {
+    const token = await this.issueToken(user.id, VerificationTokenPurpose.EMAIL_VERIFICATION);
+    await this.mailService.sendEmailVerification(user, token);
+  }
+
+  /**
+   * 签发验证令牌
+   *
+   * @description 吊销用户之前未使用的同类令牌后签发新令牌
+   * @param userId - 用户ID
+   * @param purpose - 令牌用途
+   * @returns 签名后的令牌
+   */
+  private async issueToken(userId: string, purpose: VerificationTokenPurpose): Promise<string> {
+    const expiresIn = this.configService.get<number>('auth.jwtVerificationExpirationTime') || 86400;
+
+    const record = await this.entityManager.transaction('postgresql', async (em) => {
+      await em.nativeUpdate(
+        VerificationToken,
+        { userId, purpose, usedAt: null, revokedAt: null },
+        { revokedAt: new Date() },
+      );
+      const created = em.create(VerificationToken, {
+        userId,
+        purpose,
+        expiresAt: new Date(Date.now() + expiresIn * 1000),
+      });
+      em.persist(created);
+      return created;
+    });
+
+    const payload: VerificationTokenPayload = { sub: userId, jti: record.id, purpose };
+    return this.jwtService.signAsync(payload, {
+      secret: this.configService.get<string>('auth.jwtVerificationSecret'),
+      expiresIn,
+    });
+  }
+
+  /**
+   * 校验验证令牌签名与用途
+   *
+   * @param token - 验证令牌
+   * @param purpose - 期望的令牌用途
+   * @returns 验证令牌载荷
+   * @throws {BadRequestException} 令牌无效、已过期或用途不符
+   */
+  private async verifyToken(token: string, purpose: VerificationTokenPurpose): Promise<VerificationTokenPayload> {
+    let payload: VerificationTokenPayload;
+    try {
+      payload = await this.jwtService.verifyAsync<VerificationTokenPayload>(token, {
+        secret: this.configService.get<string>('auth.jwtVerificationSecret'),
+      });
+    } catch {
+      throw this.invalidToken();
+    }
+
+    if (payload.purpose !== purpose) {
+      throw this.invalidToken();
+    }
+    return payload;
+  }
+
+  /**
+   * 按邮箱查找用户
+   *
+   * @description 邮箱全局唯一，按账户本身查找，不受租户作用域限制
+   * @param email - 账户邮箱
+   * @returns 用户，不存在时返回 null
+   */
+  private findUserByEmail(email: string): Promise<User | null> {
+    return this.entityManager.withoutTenantScope(() => this.entityManager.findOne('postgresql', User, { email }));
+  }
+
+  /**
+   * 消耗验证令牌
+   *
+   * @description 在事务内锁定令牌记录并标记为已使用，事务回滚时令牌仍可使用
+   * @param em - 事务内的实体管理器
+   * @param payload - 验证令牌载荷
+   * @returns 令牌所属的用户
+   * @throws {BadRequestException} 令牌已使用、已吊销、已过期或用户不可用
+   */
+  private async consumeToken(em: EntityManager, payload: VerificationTokenPayload): Promise<User> {
+    const record = await em.findOne(VerificationToken, { id: payload.jti }, {
+      lockMode: LockMode.PESSIMISTIC_WRITE,
+    });
+
+    if (
+      !record ||
+      record.userId !== payload.sub ||
+      record.purpose !== payload.purpose ||
+      record.usedAt ||
+      record.revokedAt ||
+      record.expiresAt <= new Date()
+    ) {
+      throw this.invalidToken();
+    }
+
+    // 令牌本身证明了账户归属，按账户查找，不受租户作用域限制
+    const user = await this.entityManager.withoutTenantScope(() => em.findOne(User, { id: record.userId }));
+    if (!user || !MAILABLE_STATUSES.includes(user.status)) {
+      throw this.invalidToken();
+    }
+
+    record.usedAt = new Date();
+    return user;
+  }
+
+  /**
+   * 标记邮箱已验证
+   *
+   * @param user - 用户实体
+   */
+  private markEmailVerified(user: User): void {
+    user.emailVerifiedAt ??= new Date();
+    if (user.status === UserStatus.PENDING) {
+      user.status = UserStatus.ACTIVE;
+    }
+  }
+
+  /**
+   * 令牌无效异常
+   *
+   * @returns 统一的令牌无效异常，不区分具体原因
+   */
+  private invalidToken(): BadRequestException {
+    return new BadRequestException({
+      code: ErrorCode.INVALID_VERIFICATION_TOKEN,
+      message: 'Invalid or expired token',
+    });
+  }
+}
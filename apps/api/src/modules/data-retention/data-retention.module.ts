@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { SchedulerModule } from '../scheduler/scheduler.module';
+import { DeletedRecordsPurgeJob } from './deleted-records-purge.job';
+
+/**
+ * 数据保留模块
+ *
+ * 用户、租户与组织的删除均为软删除，保留期内可恢复
+ * 保留期结束后由定时任务彻底删除
+ *
+ * @description 数据保留模块，负责软删除数据的定期清理
+ * @since 1.0.0
+ */
+@Module({
+  imports: [SchedulerModule],
+  providers: [DeletedRecordsPurgeJob],
+})
+export class DataRetentionModule {}
@@ -0,0 +1,105 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@hl8/config';
+import { AuditTrailSubscriber, EntityManagerService, Organization, Tenant, User } from '@hl8/database';
+import { FakeClock } from '../scheduler/fake-clock';
+import { SchedulerService } from '../scheduler/scheduler.service';
+import { DeletedRecordsPurgeJob } from './deleted-records-purge.job';
+
+jest.mock('@hl8/config', () => ({ ConfigService: class ConfigService {} }));
+jest.mock('@hl8/database', () => ({
+  AuditTrailSubscriber: class AuditTrailSubscriber {},
+  EntityManagerService: class EntityManagerService {},
+  Organization: class Organization {},
+  Tenant: class Tenant {},
+  User: class User {},
+  withDeleted: () => ({ filters: { 'soft-deletable-filter': false } }),
+}));
+jest.mock('../scheduler/scheduler.service', () => ({ SchedulerService: class SchedulerService {} }));
+
+const DAY = 24 * 60 * 60;
+
+describe('DeletedRecordsPurgeJob', () => {
+  let job: DeletedRecordsPurgeJob;
+  let clock: FakeClock;
+  let em: Record<string, jest.Mock>;
+  let scheduler: { register: jest.Mock };
+  let auditTrail: { recordDeletes: jest.Mock };
+  let rows: Map<unknown, { id: string }[]>;
+
+  beforeEach(async () => {
+    clock = new FakeClock(new Date('2025-03-01T00:00:00Z'));
+    rows = new Map();
+    em = {
+      find: jest.fn(async (entity) => rows.get(entity) ?? []),
+      nativeDelete: jest.fn(async (_entity, where) => where.id.$in.length),
+    };
+    scheduler = { register: jest.fn() };
+    auditTrail = { recordDeletes: jest.fn() };
+    const config: Record<string, unknown> = { 'database.softDelete.retentionPeriod': 30 * DAY };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DeletedRecordsPurgeJob,
+        {
+          provide: EntityManagerService,
+          useValue: {
+            withoutTenantScope: jest.fn((callback) => callback()),
+            transaction: jest.fn(async (_db, callback) => callback(em)),
+          },
+        },
+        { provide: AuditTrailSubscriber, useValue: auditTrail },
+        { provide: ConfigService, useValue: { get: (key: string) => config[key] } },
+        { provide: SchedulerService, useValue: scheduler },
+      ],
+    }).compile();
+
+    job = module.get<DeletedRecordsPurgeJob>(DeletedRecordsPurgeJob);
+  });
+
+  it('should register itself with the default interval', () => {
+    job.onModuleInit();
+
+    expect(scheduler.register).toHaveBeenCalledWith(job);
+    expect(job.interval).toBe(DAY);
+  });
+
+  it('should hard delete rows soft deleted before the retention window', async () => {
+    rows.set(User, [{ id: 'u1' }]);
+
+    await job.run(clock.now());
+
+    const expired = { deletedAt: { $lt: new Date('2025-01-30T00:00:00Z') } };
+    const withDeleted = { filters: { 'soft-deletable-filter': false } };
+    expect(em.find.mock.calls).toEqual([
+      [Tenant, expired, withDeleted],
+      [User, { $or: [expired] }, withDeleted],
+      [Organization, { $or: [expired] }, withDeleted],
+    ]);
+    expect(em.nativeDelete.mock.calls).toEqual([[User, { id: { $in: ['u1'] } }, withDeleted]]);
+  });
+
+  it('should purge the users and organizations of purged tenants', async () => {
+    rows.set(Tenant, [{ id: 't1' }, { id: 't2' }]);
+
+    await job.run(clock.now());
+
+    const owned = { tenantId: { $in: ['t1', 't2'] } };
+    expect(em.find.mock.calls[1][1].$or).toContainEqual(owned);
+    expect(em.find.mock.calls[2][1].$or).toContainEqual(owned);
+    expect(em.nativeDelete).toHaveBeenCalledWith(Tenant, { id: { $in: ['t1', 't2'] } }, expect.anything());
+  });
+
+  it('should write audit logs for every purged row before deleting them', async () => {
+    const user = { id: 'u1' };
+    const organization = { id: 'o1' };
+    const tenant = { id: 't1' };
+    rows.set(User, [user]).set(Organization, [organization]).set(Tenant, [tenant]);
+
+    await job.run(clock.now());
+
+    expect(auditTrail.recordDeletes).toHaveBeenCalledWith(em, [user, organization, tenant]);
+    expect(auditTrail.recordDeletes.mock.invocationCallOrder[0]).toBeLessThan(
+      em.nativeDelete.mock.invocationCallOrder[0],
+    );
+  });
+});
@@ -0,0 +1,92 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { EntityManager, EntityName } from '@mikro-orm/core';
+import { ConfigService } from '@hl8/config';
+import { AuditTrailSubscriber, EntityManagerService, Organization, Tenant, User, withDeleted } from '@hl8/database';
+import { SchedulerService } from '../scheduler/scheduler.service';
+import type { ScheduledJob } from '../scheduler/scheduled-job';
+
+/**
+ * 已删除数据清理任务
+ *
+ * 按 `database.softDelete.purgeInterval` 周期性彻底删除软删除超过保留期的数据
+ *
+ * ## 处理规则
+ * - deletedAt 早于当前时间减去 `database.softDelete.retentionPeriod` 的用户、组织与租户被彻底删除
+ * - 租户被彻底删除时，一并删除其下的全部用户与组织，无论是否已软删除
+ * - 保留期内的数据仍可通过恢复接口还原
+ * - 所有删除在同一事务中执行，任一删除失败时整体回滚
+ * - 彻底删除不经过工作单元，删除前加载被删除的行并显式写入删除审计日志，随事务提交
+ * - 清理跨越所有租户，在租户作用域之外执行
+ *
+ * @description 已删除数据清理任务，负责在保留期结束后彻底删除软删除的数据
+ * @since 1.0.0
+ */
+@Injectable()
+export class DeletedRecordsPurgeJob implements ScheduledJob, OnModuleInit {
+  readonly name = 'deleted-records-purge';
+
+  private readonly logger = new Logger(DeletedRecordsPurgeJob.name);
+
+  constructor(
+    private readonly entityManager: EntityManagerService,
+    private readonly auditTrail: AuditTrailSubscriber,
+    private readonly configService: ConfigService,
+    private readonly scheduler: SchedulerService,
+  ) {}
+
+  get interval(): number {
+    return this.configService.get<number>('database.softDelete.purgeInterval') ?? 86400;
+  }
+
+  onModuleInit(): void {
+    this.scheduler.register(this);
+  }
+
+  /**
+   * 执行清理
+   *
+   * @param now - 当前时间
+   */
+  async run(now: Date): Promise<void> {
+    const retentionPeriod = this.configService.get<number>('database.softDelete.retentionPeriod') ?? 2592000;
+    const expired = { deletedAt: { $lt: new Date(now.getTime() - retentionPeriod * 1000) } };
+
+    const purged = await this.entityManager.withoutTenantScope(() =>
+      this.entityManager.transaction('postgresql', async (em) => {
+        const tenants = await em.find(Tenant, expired, withDeleted());
+        const tenantIds = tenants.map((tenant) => tenant.id);
+        const ownedByPurgedTenants = tenantIds.length ? [{ tenantId: { $in: tenantIds } }] : [];
+        const users = await em.find(User, { $or: [expired, ...ownedByPurgedTenants] }, withDeleted());
+        const organizations = await em.find(Organization, { $or: [expired, ...ownedByPurgedTenants] }, withDeleted());
+
+        await this.auditTrail.recordDeletes(em, [...users, ...organizations, ...tenants]);
+        return {
+          users: await this.purge(em, User, users),
+          organizations: await this.purge(em, Organization, organizations),
+          tenants: await this.purge(em, Tenant, tenants),
+        };
+      }),
+    );
+
+    if (purged.users || purged.organizations || purged.tenants) {
+      this.logger.log(
+        `Purged ${purged.users} users, ${purged.organizations} organizations and ${purged.tenants} tenants`,
+      );
+    }
+  }
+
+  /**
+   * 彻底删除已加载的行
+   *
+   * @param em - 事务内的实体管理器
+   * @param entityName - 实体类
+   * @param rows - 待删除的行
+   * @returns 删除的行数
+   */
+  private async purge(em: EntityManager, entityName: EntityName<{ id: string }>, rows: { id: string }[]): Promise<number> {
+    if (!rows.length) {
+      return 0;
+    }
+    return em.nativeDelete(entityName, { id: { $in: rows.map((row) => row.id) } }, withDeleted());
+  }
+}
@@ -0,0 +1,145 @@
+import { Controller, Get, Post, Put, Delete, Param, Body, Query, ParseUUIDPipe } from '@nestjs/common';
+import {
+  AssignDepartmentMemberDto,
+  CreateDepartmentDto,
+  DepartmentQueryDto,
+  UpdateDepartmentDto,
+} from '@hl8/contracts';
+import { DepartmentsService } from './departments.service';
+
+/**
+ * 部门管理控制器
+ *
+ * 提供部门管理的RESTful API接口
+ * 支持部门的CRUD操作、层级结构查询与成员管理
+ *
+ * @description 部门管理控制器，处理部门相关的HTTP请求
+ * @since 1.0.0
+ */
+@Controller('departments')
+export class DepartmentsController {
+  constructor(private readonly departmentsService: DepartmentsService) {}
+
+  /**
+   * 获取所有部门
+   *
+   * @description 获取部门列表
+   * @param query - 查询条件
+   * @returns 部门列表
+   */
+  @Get()
+  async getDepartments(@Query() query: DepartmentQueryDto) {
+    return this.departmentsService.getDepartments(query);
+  }
+
+  /**
+   * 创建新部门
+   *
+   * @description 在组织下创建新的部门
+   * @param createDepartmentDto - 创建部门的数据传输对象
+   * @returns 创建的部门信息
+   */
+  @Post()
+  async createDepartment(@Body() createDepartmentDto: CreateDepartmentDto) {
+    return this.departmentsService.createDepartment(createDepartmentDto);
+  }
+
+  /**
+   * 获取部门信息
+   *
+   * @description 根据部门ID获取部门详细信息
+   * @param id - 部门ID
+   * @returns 部门信息
+   */
+  @Get(':id')
+  async getDepartment(@Param('id', ParseUUIDPipe) id: string) {
+    return this.departmentsService.getDepartment(id);
+  }
+
+  /**
+   * 更新部门信息
+   *
+   * @description 更新部门的基本信息与负责人
+   * @param id - 部门ID
+   * @param updateDepartmentDto - 更新部门的数据传输对象
+   * @returns 更新结果
+   */
+  @Put(':id')
+  async updateDepartment(@Param('id', ParseUUIDPipe) id: string, @Body() updateDepartmentDto: UpdateDepartmentDto) {
+    return this.departmentsService.updateDepartment(id, updateDepartmentDto);
+  }
+
+  /**
+   * 删除部门
+   *
+   * @description 删除指定的部门
+   * @param id - 部门ID
+   * @returns 删除结果
+   */
+  @Delete(':id')
+  async deleteDepartment(@Param('id', ParseUUIDPipe) id: string) {
+    return this.departmentsService.deleteDepartment(id);
+  }
+
+  /**
+   * 获取直接子部门
+   *
+   * @description 获取指定部门的直接下级部门
+   * @param id - 部门ID
+   * @returns 子部门列表
+   */
+  @Get(':id/children')
+  async getChildren(@Param('id', ParseUUIDPipe) id: string) {
+    return this.departmentsService.getChildren(id);
+  }
+
+  /**
+   * 获取部门树
+   *
+   * @description 以指定部门为根获取嵌套的部门树
+   * @param id - 部门ID
+   * @returns 部门树
+   */
+  @Get(':id/tree')
+  async getTree(@Param('id', ParseUUIDPipe) id: string) {
+    return this.departmentsService.getTree(id);
+  }
+
+  /**
+   * 获取部门成员
+   *
+   * @description 获取直接隶属于部门的用户
+   * @param id - 部门ID
+   * @returns 成员列表
+   */
+  @Get(':id/members')
+  async getMembers(@Param('id', ParseUUIDPipe) id: string) {
+    return this.departmentsService.getMembers(id);
+  }
+
+  /**
+   * 添加部门成员
+   *
+   * @description 将同一租户与组织内的用户分配到部门
+   * @param id - 部门ID
+   * @param assignDepartmentMemberDto - 分配部门成员的数据传输对象
+   * @returns 更新后的用户信息
+   */
+  @Post(':id/members')
+  async addMember(@Param('id', ParseUUIDPipe) id: string, @Body() assignDepartmentMemberDto: AssignDepartmentMemberDto) {
+    return this.departmentsService.addMember(id, assignDepartmentMemberDto.userId);
+  }
+
+  /**
+   * 移除部门成员
+   *
+   * @description 解除用户与部门的归属
+   * @param id - 部门ID
+   * @param userId - 用户ID
+   * @returns 移除结果
+   */
+  @Delete(':id/members/:userId')
+  async removeMember(@Param('id', ParseUUIDPipe) id: string, @Param('userId', ParseUUIDPipe) userId: string) {
+    return this.departmentsService.removeMember(id, userId);
+  }
+}
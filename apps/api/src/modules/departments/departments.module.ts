@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { DepartmentsService } from './departments.service';
+import { DepartmentsController } from './departments.controller';
+
+/**
+ * 部门管理模块
+ *
+ * 提供组织内部门管理功能
+ * 支持嵌套部门、部门负责人与部门成员
+ *
+ * @description 部门管理模块，负责部门结构的创建、查询与成员分配
+ * @since 1.0.0
+ */
+@Module({
+  controllers: [DepartmentsController],
+  providers: [DepartmentsService],
+  exports: [DepartmentsService],
+})
+export class DepartmentsModule {}
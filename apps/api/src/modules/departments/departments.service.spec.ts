@@ -0,0 +1,127 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { EntityManagerService } from '@hl8/database';
+import { DepartmentsService } from './departments.service';
+
+jest.mock('@hl8/database', () => ({
+  EntityManagerService: class EntityManagerService {},
+  Department: class Department {},
+  Organization: class Organization {},
+  User: class User {},
+}));
+
+describe('DepartmentsService', () => {
+  let service: DepartmentsService;
+  let entityManager: Record<string, jest.Mock>;
+  let em: Record<string, jest.Mock>;
+
+  const organization = { id: 'org-1', tenantId: 't1' };
+  const department = { id: 'dept-1', tenantId: 't1', organizationId: 'org-1', level: 0, path: '/dept-1' };
+
+  beforeEach(async () => {
+    em = {
+      findOne: jest.fn(),
+      create: jest.fn((_entity, data) => ({ id: 'new-dept', ...data })),
+      persistAndFlush: jest.fn(),
+      flush: jest.fn(),
+    };
+    entityManager = {
+      find: jest.fn().mockResolvedValue([]),
+      findOne: jest.fn(),
+      count: jest.fn().mockResolvedValue(0),
+      update: jest.fn(async (_db, entity) => entity),
+      remove: jest.fn(),
+      transaction: jest.fn((_db, callback) => callback(em)),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [DepartmentsService, { provide: EntityManagerService, useValue: entityManager }],
+    }).compile();
+
+    service = module.get<DepartmentsService>(DepartmentsService);
+  });
+
+  it('should take the tenant from the organization and nest under the parent', async () => {
+    em.findOne.mockResolvedValueOnce(organization).mockResolvedValueOnce(department);
+
+    const { department: created } = await service.createDepartment({
+      name: 'Engineering',
+      organizationId: 'org-1',
+      parentId: 'dept-1',
+    });
+
+    expect(em.findOne).toHaveBeenLastCalledWith(expect.anything(), { id: 'dept-1', organizationId: 'org-1' });
+    expect(created).toMatchObject({ tenantId: 't1', level: 1, path: '/dept-1/new-dept' });
+  });
+
+  it('should reject unknown organizations', async () => {
+    em.findOne.mockResolvedValue(null);
+
+    await expect(
+      service.createDepartment({ name: 'Engineering', organizationId: 'missing' }),
+    ).rejects.toBeInstanceOf(NotFoundException);
+  });
+
+  it('should reject a department head from another organization', async () => {
+    em.findOne
+      .mockResolvedValueOnce(organization)
+      .mockResolvedValueOnce({ id: 'user-1', tenantId: 't1', organizationId: 'org-2' });
+
+    await expect(
+      service.createDepartment({ name: 'Engineering', organizationId: 'org-1', headId: 'user-1' }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(em.persistAndFlush).not.toHaveBeenCalled();
+  });
+
+  it('should only add members from the same tenant and organization', async () => {
+    const member = { id: 'user-1', tenantId: 't1', organizationId: 'org-1' };
+    entityManager.findOne
+      .mockResolvedValueOnce(department)
+      .mockResolvedValueOnce(member)
+      .mockResolvedValueOnce(department)
+      .mockResolvedValueOnce({ id: 'user-2', tenantId: 't2', organizationId: 'org-1' });
+
+    await service.addMember('dept-1', 'user-1');
+    expect(member).toMatchObject({ departmentId: 'dept-1' });
+
+    await expect(service.addMember('dept-1', 'user-2')).rejects.toThrow(
+      'User user-2 does not belong to tenant t1 of department dept-1',
+    );
+  });
+
+  it('should refuse to delete departments that still have members', async () => {
+    entityManager.findOne.mockResolvedValue(department);
+    entityManager.count.mockResolvedValueOnce(0).mockResolvedValueOnce(2);
+
+    await expect(service.deleteDepartment('dept-1')).rejects.toBeInstanceOf(ConflictException);
+    expect(entityManager.remove).not.toHaveBeenCalled();
+  });
+
+  it('should clear the head when the head leaves the department', async () => {
+    const headed = { ...department, headId: 'user-1' };
+    const member = { id: 'user-1', departmentId: 'dept-1' };
+    em.findOne.mockResolvedValueOnce(headed).mockResolvedValueOnce(member);
+
+    await service.removeMember('dept-1', 'user-1');
+
+    expect(member.departmentId).toBeUndefined();
+    expect(headed.headId).toBeUndefined();
+    expect(em.flush).toHaveBeenCalled();
+  });
+
+  it('should build a nested tree from path-ordered descendants', async () => {
+    entityManager.findOne.mockResolvedValue(department);
+    entityManager.find.mockResolvedValue([
+      { id: 'b', name: 'B', parentId: 'dept-1', level: 1, path: '/dept-1/b' },
+      { id: 'c', name: 'C', parentId: 'b', level: 2, path: '/dept-1/b/c' },
+    ]);
+
+    const { tree } = await service.getTree('dept-1');
+
+    expect(entityManager.find.mock.calls[0][2]).toEqual({
+      organizationId: 'org-1',
+      path: { $like: '/dept-1/%' },
+    });
+    expect(tree.children[0]).toMatchObject({ id: 'b', children: [{ id: 'c', children: [] }] });
+  });
+});
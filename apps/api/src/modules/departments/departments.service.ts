@@ -0,0 +1,474 @@
+import { BadRequestException, ConflictException, Injectable, NotFoundException } from '@nestjs/common';
+import { EntityManager, FilterQuery, wrap } from '@mikro-orm/core';
+import { CreateDepartmentDto, DepartmentQueryDto, UpdateDepartmentDto } from '@hl8/contracts';
+import { Department, DepartmentStatus, EntityManagerService, Organization, User } from '@hl8/database';
+
+/**
+ * 部门路径最大长度
+ *
+ * @description 与 Department.path 列长度保持一致
+ */
+const MAX_PATH_LENGTH = 500;
+
+/**
+ * 部门路径分隔符
+ */
+const PATH_SEPARATOR = '/';
+
+/**
+ * 部门树节点
+ *
+ * @description 部门树接口返回的节点结构
+ */
+export interface DepartmentTreeNode {
+  id: string;
+  name: string;
+  code?: string;
+  status: DepartmentStatus;
+  parentId?: string;
+  level: number;
+  path?: string;
+  headId?: string;
+  children: DepartmentTreeNode[];
+}
+
+/**
+ * 部门成员归属
+ *
+ * @description 校验部门分配时所需的用户归属信息
+ */
+export type DepartmentMemberScope = Pick<User, 'tenantId' | 'organizationId'> & { id?: string };
+
+/**
+ * 部门管理服务
+ *
+ * 提供部门的创建、层级查询与成员管理功能
+ *
+ * ## 业务规则
+ * - 部门属于一个组织，租户取自所属组织
+ * - 顶级部门 level 为 0，path 为 `/<id>`；子部门 level 为父部门 level + 1，path 为 `<父部门 path>/<id>`
+ * - 父子部门必须属于同一组织
+ * - 部门负责人与成员必须与部门属于同一租户和组织
+ * - 存在子部门或成员的部门不可删除
+ *
+ * @description 部门管理服务，负责部门相关的业务逻辑
+ * @since 1.0.0
+ */
+@Injectable()
+export class DepartmentsService {
+  constructor(private readonly entityManager: EntityManagerService) {}
+
+  /**
+   * 获取所有部门
+   *
+   * @description 获取部门列表，按层级路径排序，支持按租户、组织、父部门与状态过滤
+   * @param query - 查询条件
+   * @returns 部门列表
+   */
+  async getDepartments(query: DepartmentQueryDto = {}) {
+    const departments = await this.entityManager.find('postgresql', Department, { ...query }, {
+      orderBy: { organizationId: 'asc', path: 'asc' },
+    });
+
+    return {
+      message: 'Departments retrieved successfully',
+      departments,
+    };
+  }
+
+  /**
+   * 创建新部门
+   *
+   * @description 在组织下创建部门，根据父部门计算层级与路径
+   * @param departmentData - 部门数据
+   * @returns 创建的部门信息
+   * @throws {NotFoundException} 组织或父部门不存在，或父部门不属于同一组织
+   * @throws {BadRequestException} 负责人不属于该组织，或层级过深导致路径超出长度限制
+   */
+  async createDepartment(departmentData: CreateDepartmentDto) {
+    const department = await this.entityManager.transaction('postgresql', async (em) => {
+      const organization = await em.findOne(Organization, { id: departmentData.organizationId });
+      if (!organization) {
+        throw new NotFoundException(`Organization ${departmentData.organizationId} not found`);
+      }
+
+      const parent = departmentData.parentId
+        ? await this.findInOrganizationOrFail(em, departmentData.parentId, organization.id)
+        : null;
+
+      const created = em.create(Department, {
+        ...departmentData,
+        organization,
+        tenantId: organization.tenantId,
+        level: parent ? parent.level + 1 : 0,
+      });
+      if (departmentData.headId) {
+        await this.assertHeadAssignable(em, departmentData.headId, created);
+      }
+      created.path = this.buildPath(parent?.path, created.id);
+
+      await em.persistAndFlush(created);
+      return created;
+    });
+
+    return {
+      message: 'Department created successfully',
+      department,
+    };
+  }
+
+  /**
+   * 获取部门信息
+   *
+   * @description 根据部门ID获取部门详细信息
+   * @param departmentId - 部门ID
+   * @returns 部门信息
+   * @throws {NotFoundException} 部门不存在
+   */
+  async getDepartment(departmentId: string) {
+    const department = await this.findDepartmentOrFail(departmentId);
+
+    return {
+      message: 'Department retrieved successfully',
+      department,
+    };
+  }
+
+  /**
+   * 更新部门信息
+   *
+   * @description 更新部门的基本信息，变更负责人时校验其归属
+   * @param departmentId - 部门ID
+   * @param updateData - 更新数据
+   * @returns 更新结果
+   * @throws {NotFoundException} 部门或负责人不存在
+   * @throws {BadRequestException} 负责人不属于该部门所在的租户与组织
+   */
+  async updateDepartment(departmentId: string, updateData: UpdateDepartmentDto) {
+    const department = await this.findDepartmentOrFail(departmentId);
+
+    if (updateData.headId) {
+      const head = await this.entityManager.findOne('postgresql', User, { id: updateData.headId });
+      if (!head) {
+        throw new NotFoundException(`User ${updateData.headId} not found`);
+      }
+      this.assertSameScope(head, department);
+    }
+
+    wrap(department).assign(updateData);
+    const updatedDepartment = await this.entityManager.update('postgresql', department);
+
+    return {
+      message: 'Department updated successfully',
+      department: updatedDepartment,
+    };
+  }
+
+  /**
+   * 删除部门
+   *
+   * @description 删除指定的部门，存在子部门或成员时拒绝删除
+   * @param departmentId - 部门ID
+   * @returns 删除结果
+   * @throws {NotFoundException} 部门不存在
+   * @throws {ConflictException} 部门仍有子部门或成员
+   */
+  async deleteDepartment(departmentId: string) {
+    const department = await this.findDepartmentOrFail(departmentId);
+
+    const childCount = await this.entityManager.count('postgresql', Department, {
+      organizationId: department.organizationId,
+      parentId: department.id,
+    });
+    if (childCount > 0) {
+      throw new ConflictException('Department still has child departments');
+    }
+
+    const memberCount = await this.entityManager.count('postgresql', User, { departmentId: department.id });
+    if (memberCount > 0) {
+      throw new ConflictException('Department still has members');
+    }
+
+    await this.entityManager.remove('postgresql', department);
+
+    return {
+      message: 'Department deleted successfully',
+      departmentId,
+    };
+  }
+
+  /**
+   * 获取直接子部门
+   *
+   * @description 获取指定部门的直接下级部门
+   * @param departmentId - 部门ID
+   * @returns 子部门列表
+   * @throws {NotFoundException} 部门不存在
+   */
+  async getChildren(departmentId: string) {
+    const department = await this.findDepartmentOrFail(departmentId);
+    const departments = await this.entityManager.find('postgresql', Department, {
+      organizationId: department.organizationId,
+      parentId: department.id,
+    }, {
+      orderBy: { name: 'asc' },
+    });
+
+    return {
+      message: 'Child departments retrieved successfully',
+      departments,
+    };
+  }
+
+  /**
+   * 获取部门树
+   *
+   * @description 以指定部门为根，构建包含全部后代的嵌套树
+   * @param departmentId - 部门ID
+   * @returns 部门树
+   * @throws {NotFoundException} 部门不存在
+   */
+  async getTree(departmentId: string) {
+    const department = await this.findDepartmentOrFail(departmentId);
+    const descendants = await this.entityManager.find('postgresql', Department, this.descendantsFilter(department), {
+      orderBy: { path: 'asc' },
+    });
+
+    return {
+      message: 'Department tree retrieved successfully',
+      tree: this.buildTree(department, descendants),
+    };
+  }
+
+  /**
+   * 获取部门成员
+   *
+   * @description 获取直接隶属于指定部门的用户
+   * @param departmentId - 部门ID
+   * @returns 成员列表
+   * @throws {NotFoundException} 部门不存在
+   */
+  async getMembers(departmentId: string) {
+    const department = await this.findDepartmentOrFail(departmentId);
+    const members = await this.entityManager.find('postgresql', User, { departmentId: department.id }, {
+      orderBy: { username: 'asc' },
+    });
+
+    return {
+      message: 'Department members retrieved successfully',
+      members,
+    };
+  }
+
+  /**
+   * 添加部门成员
+   *
+   * @description 将用户分配到部门，用户原有的部门归属会被替换
+   * @param departmentId - 部门ID
+   * @param userId - 用户ID
+   * @returns 更新后的用户信息
+   * @throws {NotFoundException} 部门或用户不存在
+   * @throws {BadRequestException} 用户不属于该部门所在的租户与组织
+   */
+  async addMember(departmentId: string, userId: string) {
+    const department = await this.findDepartmentOrFail(departmentId);
+    const user = await this.entityManager.findOne('postgresql', User, { id: userId });
+    if (!user) {
+      throw new NotFoundException(`User ${userId} not found`);
+    }
+
+    this.assertSameScope(user, department);
+    user.departmentId = department.id;
+    const member = await this.entityManager.update('postgresql', user);
+
+    return {
+      message: 'Department member added successfully',
+      member,
+    };
+  }
+
+  /**
+   * 移除部门成员
+   *
+   * @description 解除用户与部门的归属，被移除的用户若为部门负责人则同时清空负责人
+   * @param departmentId - 部门ID
+   * @param userId - 用户ID
+   * @returns 移除结果
+   * @throws {NotFoundException} 部门不存在或用户不是该部门成员
+   */
+  async removeMember(departmentId: string, userId: string) {
+    await this.entityManager.transaction('postgresql', async (em) => {
+      const department = await em.findOne(Department, { id: departmentId });
+      if (!department) {
+        throw new NotFoundException(`Department ${departmentId} not found`);
+      }
+
+      const user = await em.findOne(User, { id: userId, departmentId });
+      if (!user) {
+        throw new NotFoundException(`User ${userId} is not a member of department ${departmentId}`);
+      }
+
+      user.departmentId = undefined;
+      if (department.headId === userId) {
+        department.headId = undefined;
+      }
+      await em.flush();
+    });
+
+    return {
+      message: 'Department member removed successfully',
+      departmentId,
+      userId,
+    };
+  }
+
+  /**
+   * 校验用户可分配到部门
+   *
+   * @description 供用户管理在创建或更新用户时校验 departmentId
+   * @param user - 用户的租户与组织归属
+   * @param departmentId - 部门ID
+   * @returns 部门实体
+   * @throws {NotFoundException} 部门不存在
+   * @throws {BadRequestException} 用户不属于该部门所在的租户与组织
+   */
+  async assertAssignable(user: DepartmentMemberScope, departmentId: string): Promise<Department> {
+    const department = await this.findDepartmentOrFail(departmentId);
+    this.assertSameScope(user, department);
+    return department;
+  }
+
+  /**
+   * 查找部门，不存在时抛出异常
+   *
+   * @param departmentId - 部门ID
+   * @returns 部门实体
+   * @throws {NotFoundException} 部门不存在
+   */
+  private async findDepartmentOrFail(departmentId: string): Promise<Department> {
+    const department = await this.entityManager.findOne('postgresql', Department, { id: departmentId });
+    if (!department) {
+      throw new NotFoundException(`Department ${departmentId} not found`);
+    }
+    return department;
+  }
+
+  /**
+   * 在组织范围内查找部门
+   *
+   * @description 父部门必须与子部门属于同一组织，跨组织视为不存在
+   * @param em - 实体管理器（事务内）
+   * @param departmentId - 部门ID
+   * @param organizationId - 组织ID
+   * @returns 部门实体
+   * @throws {NotFoundException} 部门不存在或不属于该组织
+   */
+  private async findInOrganizationOrFail(em: EntityManager, departmentId: string, organizationId: string): Promise<Department> {
+    const department = await em.findOne(Department, { id: departmentId, organizationId });
+    if (!department) {
+      throw new NotFoundException(`Department ${departmentId} not found in organization ${organizationId}`);
+    }
+    return department;
+  }
+
+  /**
+   * 校验部门负责人
+   *
+   * @param em - 实体管理器（事务内）
+   * @param headId - 负责人用户ID
+   * @param department - 部门
+   * @throws {NotFoundException} 负责人不存在
+   * @throws {BadRequestException} 负责人不属于该部门所在的租户与组织
+   */
+  private async assertHeadAssignable(em: EntityManager, headId: string, department: Department): Promise<void> {
+    const head = await em.findOne(User, { id: headId });
+    if (!head) {
+      throw new NotFoundException(`User ${headId} not found`);
+    }
+    this.assertSameScope(head, department);
+  }
+
+  /**
+   * 校验用户与部门属于同一租户和组织
+   *
+   * @param user - 用户的租户与组织归属
+   * @param department - 部门
+   * @throws {BadRequestException} 用户不属于该部门所在的租户与组织
+   */
+  private assertSameScope(user: DepartmentMemberScope, department: Department): void {
+    const subject = user.id ? `User ${user.id}` : 'User';
+    if (user.tenantId !== department.tenantId) {
+      throw new BadRequestException(`${subject} does not belong to tenant ${department.tenantId} of department ${department.id}`);
+    }
+    if (user.organizationId !== department.organizationId) {
+      throw new BadRequestException(
+        `${subject} does not belong to organization ${department.organizationId} of department ${department.id}`,
+      );
+    }
+  }
+
+  /**
+   * 构建后代部门查询条件
+   *
+   * @description 基于路径前缀匹配，并限定在部门所属组织内
+   * @param department - 根部门
+   * @returns 后代部门查询条件
+   */
+  private descendantsFilter(department: Department): FilterQuery<Department> {
+    const prefix = department.path ?? this.buildPath(undefined, department.id);
+    return {
+      organizationId: department.organizationId,
+      path: { $like: `${prefix}${PATH_SEPARATOR}%` },
+    };
+  }
+
+  /**
+   * 构建部门路径
+   *
+   * @param parentPath - 父部门路径，顶级部门为空
+   * @param departmentId - 部门ID
+   * @returns 部门路径
+   * @throws {BadRequestException} 路径超出长度限制
+   */
+  private buildPath(parentPath: string | undefined, departmentId: string): string {
+    const path = `${parentPath ?? ''}${PATH_SEPARATOR}${departmentId}`;
+    if (path.length > MAX_PATH_LENGTH) {
+      throw new BadRequestException('Department hierarchy is too deep');
+    }
+    return path;
+  }
+
+  /**
+   * 构建部门树
+   *
+   * @param root - 根部门
+   * @param descendants - 按路径排序的后代部门
+   * @returns 部门树根节点
+   */
+  private buildTree(root: Department, descendants: Department[]): DepartmentTreeNode {
+    const toNode = (department: Department): DepartmentTreeNode => ({
+      id: department.id,
+      name: department.name,
+      code: department.code,
+      status: department.status,
+      parentId: department.parentId,
+      level: department.level,
+      path: department.path,
+      headId: department.headId,
+      children: [],
+    });
+
+    const rootNode = toNode(root);
+    const nodes = new Map<string, DepartmentTreeNode>([[root.id, rootNode]]);
+
+    for (const department of descendants) {
+      const node = toNode(department);
+      nodes.set(department.id, node);
+      if (department.parentId) {
+        nodes.get(department.parentId)?.children.push(node);
+      }
+    }
+
+    return rootNode;
+  }
+}
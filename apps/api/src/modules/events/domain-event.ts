@@ -0,0 +1,20 @@
+/**
+ * 领域事件
+ *
+ * @description 业务状态发生变化后发布的事件，由 DomainEventsService 分发给订阅者
+ */
+export interface DomainEvent<T = Record<string, unknown>> {
+  /** 事件类型，如 `tenant.subscription.expired` */
+  type: string;
+  /** 事件发生时间 */
+  occurredAt: Date;
+  /** 事件所属租户ID */
+  tenantId?: string;
+  /** 事件数据 */
+  payload: T;
+}
+
+/**
+ * 领域事件处理函数
+ */
+export type DomainEventHandler<T = Record<string, unknown>> = (event: DomainEvent<T>) => void | Promise<void>;
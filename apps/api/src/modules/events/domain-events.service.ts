@@ -0,0 +1,55 @@
+import { Injectable, Logger } from '@nestjs/common';
+import type { DomainEvent, DomainEventHandler } from './domain-event';
+
+/**
+ * 领域事件服务
+ *
+ * 进程内的领域事件发布与订阅
+ *
+ * ## 分发规则
+ * - 按事件类型订阅，`*` 订阅全部事件
+ * - 按订阅顺序依次调用处理函数，等待异步处理函数完成
+ * - 处理函数抛出的错误只记录日志，不影响其他订阅者与事件发布方
+ *
+ * @description 领域事件服务，负责领域事件的分发
+ * @since 1.0.0
+ */
+@Injectable()
+export class DomainEventsService {
+  private readonly logger = new Logger(DomainEventsService.name);
+  private readonly handlers = new Map<string, DomainEventHandler<unknown>[]>();
+
+  /**
+   * 订阅事件
+   *
+   * @param type - 事件类型，`*` 表示全部事件
+   * @param handler - 处理函数
+   * @returns 取消订阅的函数
+   */
+  subscribe<T = Record<string, unknown>>(type: string, handler: DomainEventHandler<T>): () => void {
+    const registered = handler as DomainEventHandler<unknown>;
+    this.handlers.set(type, [...(this.handlers.get(type) ?? []), registered]);
+    return () => {
+      this.handlers.set(
+        type,
+        (this.handlers.get(type) ?? []).filter((candidate) => candidate !== registered),
+      );
+    };
+  }
+
+  /**
+   * 发布事件
+   *
+   * @param event - 领域事件
+   */
+  async publish<T>(event: DomainEvent<T>): Promise<void> {
+    const handlers = [...(this.handlers.get(event.type) ?? []), ...(this.handlers.get('*') ?? [])];
+    for (const handler of handlers) {
+      try {
+        await handler(event);
+      } catch (error) {
+        this.logger.error(`Handler for ${event.type} failed`, error instanceof Error ? error.stack : error);
+      }
+    }
+  }
+}
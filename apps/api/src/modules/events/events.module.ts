@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { DomainEventsService } from './domain-events.service';
+
+/**
+ * 领域事件模块
+ *
+ * 提供进程内的领域事件发布与订阅
+ * 业务模块发布状态变化事件，通知、审计等模块按事件类型订阅
+ *
+ * @description 领域事件模块，负责领域事件的分发
+ * @since 1.0.0
+ */
+@Module({
+  providers: [DomainEventsService],
+  exports: [DomainEventsService],
+})
+export class EventsModule {}
@@ -0,0 +1,62 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { AuthService } from '../auth/auth.service';
+import { ImpersonationAuditMiddleware } from './impersonation-audit.middleware';
+import { ImpersonationService } from './impersonation.service';
+
+// 配置包在加载时会初始化连接配置，认证服务与模拟登录服务依赖数据库包，单元测试中以轻量替身隔离
+jest.mock('@hl8/config', () => ({ ConfigService: class ConfigService {} }));
+jest.mock('../auth/auth.service', () => ({ AuthService: class AuthService {} }));
+jest.mock('./impersonation.service', () => ({ ImpersonationService: class ImpersonationService {} }));
+
+describe('ImpersonationAuditMiddleware', () => {
+  let middleware: ImpersonationAuditMiddleware;
+  let authService: { verifyAccessToken: jest.Mock };
+  let impersonationService: { track: jest.Mock };
+  let next: jest.Mock;
+
+  const impersonationPayload = { sub: 'user-1', role: 'admin', impersonatedBy: 'operator-1', impersonationId: 's-1' };
+  const requestWith = (authorization?: string) => ({
+    method: 'DELETE',
+    url: '/api/users/user-2',
+    headers: authorization ? { authorization } : {},
+  });
+
+  beforeEach(() => {
+    authService = { verifyAccessToken: jest.fn().mockResolvedValue(impersonationPayload) };
+    impersonationService = { track: jest.fn().mockResolvedValue(undefined) };
+    next = jest.fn();
+    middleware = new ImpersonationAuditMiddleware(
+      authService as unknown as AuthService,
+      impersonationService as unknown as ImpersonationService,
+    );
+  });
+
+  it('should audit impersonated requests before they reach the guards', async () => {
+    impersonationService.track.mockImplementation(async () => expect(next).not.toHaveBeenCalled());
+
+    await middleware.use(requestWith('Bearer token'), undefined, next);
+
+    expect(impersonationService.track).toHaveBeenCalledWith(impersonationPayload, 'DELETE', '/api/users/user-2');
+    expect(next).toHaveBeenCalledWith();
+  });
+
+  it('should pass other requests through without auditing', async () => {
+    await middleware.use(requestWith(), undefined, next);
+    authService.verifyAccessToken.mockResolvedValueOnce({ sub: 'user-1', role: 'admin' });
+    await middleware.use(requestWith('Bearer token'), undefined, next);
+    authService.verifyAccessToken.mockRejectedValueOnce(new UnauthorizedException());
+    await middleware.use(requestWith('Bearer expired'), undefined, next);
+
+    expect(impersonationService.track).not.toHaveBeenCalled();
+    expect(next).toHaveBeenCalledTimes(3);
+  });
+
+  it('should reject requests whose impersonation session has ended', async () => {
+    impersonationService.track.mockRejectedValue(new UnauthorizedException('Impersonation session has ended'));
+
+    await expect(middleware.use(requestWith('Bearer token'), undefined, next)).rejects.toBeInstanceOf(
+      UnauthorizedException,
+    );
+    expect(next).not.toHaveBeenCalled();
+  });
+});
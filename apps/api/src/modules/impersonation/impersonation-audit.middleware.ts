@@ -0,0 +1,58 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { AccessTokenPayload, AuthService } from '../auth/auth.service';
+import { readBearerToken } from '../tenancy/tenant-resolvers';
+import { ImpersonationService } from './impersonation.service';
+
+/**
+ * 可审计的请求
+ *
+ * @description 审计只依赖请求方法、路径与请求头，与具体 HTTP 适配器解耦
+ */
+interface AuditableRequest {
+  method?: string;
+  url?: string;
+  headers: Record<string, string | string[] | undefined>;
+}
+
+/**
+ * 模拟请求审计中间件
+ *
+ * @description 在全部路由上注册，先于认证与访问控制守卫执行：
+ * 请求携带模拟令牌时先校验模拟会话仍然有效并写入审计记录，之后被守卫拒绝的请求同样留有记录；
+ * 会话已结束或已过期时请求以 401 拒绝；令牌无效时跳过，由认证守卫负责拒绝
+ * @since 1.0.0
+ */
+@Injectable()
+export class ImpersonationAuditMiddleware implements NestMiddleware {
+  constructor(
+    private readonly authService: AuthService,
+    private readonly impersonationService: ImpersonationService,
+  ) {}
+
+  async use(request: AuditableRequest, _response: unknown, next: (error?: unknown) => void): Promise<void> {
+    const payload = await this.verify(request);
+    if (payload?.impersonationId) {
+      await this.impersonationService.track(payload, request.method ?? '', request.url ?? '');
+    }
+    next();
+  }
+
+  /**
+   * 校验请求携带的访问令牌
+   *
+   * @param request - 请求
+   * @returns 令牌载荷，未携带令牌或令牌无效时返回 undefined
+   */
+  private async verify(request: AuditableRequest): Promise<AccessTokenPayload | undefined> {
+    const token = readBearerToken(request);
+    if (!token) {
+      return undefined;
+    }
+
+    try {
+      return await this.authService.verifyAccessToken(token);
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,41 @@
+import { Controller, Get, Param, ParseUUIDPipe } from '@nestjs/common';
+import { Roles } from '@hl8/common';
+import { ImpersonationService } from './impersonation.service';
+
+/**
+ * 租户模拟会话控制器
+ *
+ * 提供租户模拟会话及其审计记录的查询接口
+ * 仅租户的 owner 或 admin 可以查看，租户用户只能查看自身租户的会话
+ *
+ * @description 租户模拟会话控制器，处理模拟会话查询相关的HTTP请求
+ * @since 1.0.0
+ */
+@Controller('tenants/:tenantId/impersonation-sessions')
+@Roles('owner', 'admin')
+export class ImpersonationSessionsController {
+  constructor(private readonly impersonationService: ImpersonationService) {}
+
+  /**
+   * 获取租户的模拟会话
+   *
+   * @param tenantId - 租户ID
+   * @returns 模拟会话列表
+   */
+  @Get()
+  async getSessions(@Param('tenantId', ParseUUIDPipe) tenantId: string) {
+    return this.impersonationService.getSessions(tenantId);
+  }
+
+  /**
+   * 获取模拟会话详情
+   *
+   * @param tenantId - 租户ID
+   * @param id - 会话ID
+   * @returns 模拟会话及其审计记录
+   */
+  @Get(':id')
+  async getSession(@Param('tenantId', ParseUUIDPipe) tenantId: string, @Param('id', ParseUUIDPipe) id: string) {
+    return this.impersonationService.getSession(tenantId, id);
+  }
+}
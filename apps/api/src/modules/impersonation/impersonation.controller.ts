@@ -0,0 +1,45 @@
+import { Body, Controller, HttpCode, HttpStatus, Param, ParseUUIDPipe, Post } from '@nestjs/common';
+import type { AuthPrincipal } from '@hl8/common';
+import { StartImpersonationDto } from '@hl8/contracts';
+import { CurrentUser } from '../auth/current-user.decorator';
+import { ImpersonationService } from './impersonation.service';
+
+/**
+ * 模拟登录控制器
+ *
+ * 提供平台操作员发起与结束模拟登录的接口
+ * 租户用户调用发起接口时返回 403
+ *
+ * @description 模拟登录控制器，处理模拟会话的发起与结束请求
+ * @since 1.0.0
+ */
+@Controller('impersonation')
+export class ImpersonationController {
+  constructor(private readonly impersonationService: ImpersonationService) {}
+
+  /**
+   * 发起模拟登录
+   *
+   * @param user - 当前操作员
+   * @param startImpersonationDto - 发起模拟登录的数据传输对象
+   * @returns 模拟会话与短期访问令牌
+   */
+  @Post()
+  @HttpCode(HttpStatus.OK)
+  async start(@CurrentUser() user: AuthPrincipal, @Body() startImpersonationDto: StartImpersonationDto) {
+    return this.impersonationService.start(user, startImpersonationDto);
+  }
+
+  /**
+   * 结束模拟会话
+   *
+   * @param id - 会话ID
+   * @param user - 当前用户
+   * @returns 结束的会话
+   */
+  @Post(':id/end')
+  @HttpCode(HttpStatus.OK)
+  async end(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthPrincipal) {
+    return this.impersonationService.end(id, user);
+  }
+}
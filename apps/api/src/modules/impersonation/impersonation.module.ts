@@ -0,0 +1,28 @@
+import { MiddlewareConsumer, Module, NestModule } from '@nestjs/common';
+import { ImpersonationService } from './impersonation.service';
+import { ImpersonationController } from './impersonation.controller';
+import { ImpersonationSessionsController } from './impersonation-sessions.controller';
+import { ImpersonationAuditMiddleware } from './impersonation-audit.middleware';
+import { AuthModule } from '../auth/auth.module';
+
+/**
+ * 模拟登录模块
+ *
+ * 提供平台操作员的模拟登录功能
+ * 操作员以目标租户或用户的身份获得短期访问令牌，模拟请求逐条写入审计记录，租户管理员可以查看本租户的模拟会话
+ * ImpersonationAuditMiddleware 在全部路由上注册，于守卫之前负责模拟会话的有效性校验与请求审计
+ *
+ * @description 模拟登录模块，负责模拟会话的管理与审计
+ * @since 1.0.0
+ */
+@Module({
+  imports: [AuthModule],
+  controllers: [ImpersonationController, ImpersonationSessionsController],
+  providers: [ImpersonationService],
+  exports: [ImpersonationService],
+})
+export class ImpersonationModule implements NestModule {
+  configure(consumer: MiddlewareConsumer): void {
+    consumer.apply(ImpersonationAuditMiddleware).forRoutes('*');
+  }
+}
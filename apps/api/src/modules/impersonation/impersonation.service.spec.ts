@@ -0,0 +1,230 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ExecutionContext, ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { JwtService } from '@nestjs/jwt';
+import type { AuthPrincipal } from '@hl8/common';
+import { ConfigService } from '@hl8/config';
+import { EntityManagerService } from '@hl8/database';
+import { AccessTokenPayload, AuthService } from '../auth/auth.service';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { PasswordService } from '../auth/password.service';
+import { ImpersonationService } from './impersonation.service';
+
+// 配置、数据库与日志包在加载时会初始化连接配置与 pino，单元测试中以轻量替身隔离
+jest.mock('@hl8/config', () => ({ ConfigService: class ConfigService {} }));
+jest.mock('@hl8/database', () => ({
+  EntityManagerService: class EntityManagerService {},
+  User: class User {},
+  Tenant: class Tenant {},
+  ImpersonationSession: class ImpersonationSession {},
+  ImpersonationAuditEntry: class ImpersonationAuditEntry {},
+  UserType: { PLATFORM_USER: 'platform_user', TENANT_USER: 'tenant_user', SYSTEM_USER: 'system_user' },
+  TenantStatus: { ACTIVE: 'active', DELETED: 'deleted' },
+}));
+jest.mock('@hl8/logger', () => ({ getCurrentRequestContext: jest.fn(), setCurrentRequestContext: jest.fn() }));
+
+type Row = Record<string, unknown>;
+
+const impersonationPayload = (sub: string, impersonationId: string): AccessTokenPayload =>
+  ({ sub, username: 'alice', type: 'tenant_user', role: 'admin', impersonationId }) as AccessTokenPayload;
+
+describe('ImpersonationService', () => {
+  let service: ImpersonationService;
+  let rows: Record<string, Row[]>;
+  let authService: { signAccessToken: jest.Mock };
+  let entityManager: Record<string, jest.Mock>;
+  let configService: { get: jest.Mock };
+
+  const operator: AuthPrincipal = {
+    userId: 'operator-1',
+    username: 'support',
+    type: 'platform_user' as AuthPrincipal['type'],
+    roles: ['support'],
+    permissions: ['*'],
+  };
+
+  beforeEach(async () => {
+    rows = {
+      Tenant: [
+        { id: 'tenant-1', status: 'active', adminId: 'user-1' },
+        { id: 'tenant-2', status: 'active' },
+      ],
+      User: [
+        {
+          id: 'user-1',
+          username: 'alice',
+          type: 'tenant_user',
+          tenantId: 'tenant-1',
+          role: 'admin',
+          permissions: ['users:read'],
+        },
+      ],
+      ImpersonationSession: [],
+      ImpersonationAuditEntry: [],
+    };
+    const matches = (row: Row, where: Row) => Object.entries(where).every(([key, value]) => row[key] === value);
+    const table = (entity: { name: string }) => rows[entity.name];
+
+    let sequence = 0;
+    entityManager = {
+      findOne: jest.fn(async (_db, entity, where) => table(entity).find((row) => matches(row, where)) ?? null),
+      find: jest.fn(async (_db, entity, where) => table(entity).filter((row) => matches(row, where))),
+      create: jest.fn(async (_db, entity, data) => {
+        const record = { id: `${entity.name}-${++sequence}`, ...data, createdAt: new Date() };
+        table(entity).push(record);
+        return record;
+      }),
+      update: jest.fn(async (_db, record) => record),
+      withoutTenantScope: jest.fn((callback) => callback()),
+    };
+    authService = { signAccessToken: jest.fn(async () => 'impersonation-token') };
+    configService = { get: jest.fn((key: string) => (key === 'auth.jwtSecret' ? 'access-secret' : 600)) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ImpersonationService,
+        { provide: EntityManagerService, useValue: entityManager },
+        { provide: ConfigService, useValue: configService },
+        { provide: AuthService, useValue: authService },
+      ],
+    }).compile();
+
+    service = module.get<ImpersonationService>(ImpersonationService);
+  });
+
+  it('should issue a short-lived token for the target user tagged with the operator', async () => {
+    const result = await service.start(operator, { userId: 'user-1', reason: 'Ticket #42' });
+
+    expect(result).toMatchObject({ accessToken: 'impersonation-token', tokenType: 'Bearer', expiresIn: 600 });
+    expect(result.session).toMatchObject({ tenantId: 'tenant-1', targetUserId: 'user-1', operatorId: 'operator-1' });
+    expect(authService.signAccessToken).toHaveBeenCalledWith(
+      {
+        sub: 'user-1',
+        username: 'alice',
+        type: 'tenant_user',
+        tenantId: 'tenant-1',
+        role: 'admin',
+        permissions: ['users:read'],
+        impersonatedBy: 'operator-1',
+        impersonationId: result.session.id,
+      },
+      600,
+    );
+  });
+
+  it('should issue a tenant-only token as the tenant admin', async () => {
+    const result = await service.start(operator, { tenantId: 'tenant-1', reason: 'Ticket #42' });
+
+    expect(result.session).toMatchObject({ tenantId: 'tenant-1', targetUserId: 'user-1', operatorId: 'operator-1' });
+    expect(authService.signAccessToken).toHaveBeenCalledWith(
+      expect.objectContaining({
+        sub: 'user-1',
+        username: 'alice',
+        type: 'tenant_user',
+        tenantId: 'tenant-1',
+        role: 'admin',
+        permissions: ['users:read'],
+        impersonatedBy: 'operator-1',
+      }),
+      600,
+    );
+  });
+
+  it('should let /auth/me load the tenant admin under a tenant-only token', async () => {
+    const auth = new AuthService(
+      entityManager as unknown as EntityManagerService,
+      new JwtService(),
+      configService as unknown as ConfigService,
+      {} as PasswordService,
+    );
+    authService.signAccessToken.mockImplementation((payload, expiresIn) => auth.signAccessToken(payload, expiresIn));
+    const { accessToken } = await service.start(operator, { tenantId: 'tenant-1', reason: 'Ticket #42' });
+
+    const request: Record<string, unknown> = { headers: { authorization: `Bearer ${accessToken}` } };
+    const guard = new JwtAuthGuard(auth, { getAllAndOverride: () => undefined } as unknown as Reflector);
+    await guard.canActivate({
+      getHandler: () => undefined,
+      getClass: () => undefined,
+      switchToHttp: () => ({ getRequest: () => request }),
+    } as unknown as ExecutionContext);
+    const principal = request['user'] as AuthPrincipal;
+
+    expect(principal).toMatchObject({ userId: 'user-1', tenantId: 'tenant-1', impersonatedBy: 'operator-1' });
+    await expect(auth.getCurrentUser(principal.userId)).resolves.toMatchObject({
+      user: { id: 'user-1', tenantId: 'tenant-1' },
+    });
+  });
+
+  it('should refuse a tenant-only token for tenants without an admin', async () => {
+    await expect(service.start(operator, { tenantId: 'tenant-2', reason: 'x' })).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+    expect(authService.signAccessToken).not.toHaveBeenCalled();
+  });
+
+  it('should forbid tenant users and nested impersonation', async () => {
+    const tenantUser = { ...operator, type: 'tenant_user' as AuthPrincipal['type'], tenantId: 'tenant-1' };
+    await expect(service.start(tenantUser, { tenantId: 'tenant-1', reason: 'x' })).rejects.toMatchObject({
+      response: { code: 'IMPERSONATION_FORBIDDEN' },
+    });
+    await expect(
+      service.start({ ...operator, impersonatedBy: 'operator-2' }, { tenantId: 'tenant-1', reason: 'x' }),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+    expect(rows['ImpersonationSession']).toHaveLength(0);
+  });
+
+  it('should reject targets that are not tenant users of the given tenant', async () => {
+    rows['User'].push({ id: 'user-2', type: 'platform_user' });
+
+    await expect(service.start(operator, { reason: 'x' })).rejects.toBeInstanceOf(BadRequestException);
+    await expect(service.start(operator, { userId: 'user-2', reason: 'x' })).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+    await expect(
+      service.start(operator, { userId: 'user-1', tenantId: 'tenant-2', reason: 'x' }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  it('should audit every request until the session ends', async () => {
+    const { session } = await service.start(operator, { userId: 'user-1', reason: 'Ticket #42' });
+    const principal = { ...operator, userId: 'user-1', impersonatedBy: 'operator-1', impersonationId: session.id };
+    const payload = impersonationPayload('user-1', session.id);
+
+    await service.track(payload, 'GET', '/api/users');
+    expect(rows['ImpersonationAuditEntry']).toEqual([
+      expect.objectContaining({
+        sessionId: session.id,
+        tenantId: 'tenant-1',
+        impersonatedBy: 'operator-1',
+        userId: 'user-1',
+        method: 'GET',
+        path: '/api/users',
+      }),
+    ]);
+
+    await service.end(session.id, principal);
+    await expect(service.track(payload, 'GET', '/api/users')).rejects.toBeInstanceOf(UnauthorizedException);
+    expect(rows['ImpersonationAuditEntry']).toHaveLength(1);
+  });
+
+  it('should reject requests after the session expires', async () => {
+    const { session } = await service.start(operator, { tenantId: 'tenant-1', reason: 'Ticket #42' });
+    session.expiresAt = new Date(Date.now() - 1000);
+
+    await expect(
+      service.track(impersonationPayload('user-1', session.id), 'GET', '/api/users'),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+  });
+
+  it('should list sessions and their audit entries for tenant admins', async () => {
+    const { session } = await service.start(operator, { userId: 'user-1', reason: 'Ticket #42' });
+    await service.track(impersonationPayload('user-1', session.id), 'POST', '/api/users');
+
+    const list = await service.getSessions('tenant-1');
+    expect(list.sessions).toEqual([expect.objectContaining({ id: session.id, reason: 'Ticket #42' })]);
+
+    const detail = await service.getSession('tenant-1', session.id);
+    expect(detail.entries).toEqual([expect.objectContaining({ method: 'POST', path: '/api/users' })]);
+    await expect(service.getSession('tenant-2', session.id)).rejects.toMatchObject({ status: 404 });
+  });
+});
@@ -0,0 +1,264 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import type { AuthPrincipal } from '@hl8/common';
+import { ConfigService } from '@hl8/config';
+import { ErrorCode } from '@hl8/constants';
+import { StartImpersonationDto } from '@hl8/contracts';
+import {
+  EntityManagerService,
+  ImpersonationAuditEntry,
+  ImpersonationSession,
+  Tenant,
+  TenantStatus,
+  User,
+  UserType,
+} from '@hl8/database';
+import { CROSS_TENANT_USER_TYPES } from '../auth/access-control.service';
+import { AccessTokenPayload, AuthService } from '../auth/auth.service';
+
+/**
+ * 模拟登录服务
+ *
+ * 平台操作员在排查客户问题时，以目标租户或目标用户的身份签发短期访问令牌
+ * 令牌有效期取自 `auth.impersonationExpirationTime`，不附带刷新令牌
+ *
+ * ## 业务规则
+ * - 只有平台用户与系统用户可以发起模拟登录，租户用户一律拒绝，错误码为 IMPERSONATION_FORBIDDEN
+ * - 模拟令牌不能再次发起模拟登录
+ * - 指定目标用户时令牌携带该用户的身份，目标用户必须是租户用户
+ * - 只指定租户时令牌以租户管理员的身份签发，会话记录管理员为目标用户；操作员只体现在 impersonatedBy 中，不沿用自身的类型与权限
+ * - 令牌携带 impersonatedBy 与 impersonationId，日志请求上下文据此标记操作员
+ * - 使用模拟令牌的每个请求在进入守卫之前写入一条审计记录，被拒绝的请求同样留有记录；会话已结束或已过期时拒绝请求
+ * - 租户管理员可以查看本租户的模拟会话及其审计记录
+ *
+ * @description 模拟登录服务，负责模拟会话的发起、结束、校验与审计
+ * @since 1.0.0
+ */
+@Injectable()
+export class ImpersonationService {
+  constructor(
+    private readonly entityManager: EntityManagerService,
+    private readonly configService: ConfigService,
+    private readonly authService: AuthService,
+  ) {}
+
+  /**
+   * 发起模拟登录
+   *
+   * @param operator - 当前操作员
+   * @param startData - 目标租户、目标用户与原因
+   * @returns 模拟会话与模拟令牌
+   * @throws {ForbiddenException} 操作员不是平台用户或系统用户，或当前已处于模拟会话
+   * @throws {BadRequestException} 未指定目标，目标用户不是租户用户，目标用户不属于指定租户，或只指定租户时租户没有管理员
+   * @throws {NotFoundException} 目标用户或租户不存在
+   */
+  async start(operator: AuthPrincipal, startData: StartImpersonationDto) {
+    if (operator.impersonatedBy || !CROSS_TENANT_USER_TYPES.includes(operator.type)) {
+      throw new ForbiddenException({
+        code: ErrorCode.IMPERSONATION_FORBIDDEN,
+        message: 'Only platform operators can impersonate',
+      });
+    }
+    if (!startData.tenantId && !startData.userId) {
+      throw new BadRequestException('Either tenantId or userId is required');
+    }
+
+    // 操作员不属于目标租户，目标的查询与会话的写入都跨越租户作用域
+    return this.entityManager.withoutTenantScope(async () => {
+      const target = startData.userId ? await this.findTargetUserOrFail(startData.userId) : undefined;
+      if (target && startData.tenantId && target.tenantId !== startData.tenantId) {
+        throw new BadRequestException(`User ${target.id} does not belong to tenant ${startData.tenantId}`);
+      }
+
+      const tenantId = target?.tenantId ?? (startData.tenantId as string);
+      const tenant = await this.entityManager.findOne('postgresql', Tenant, { id: tenantId });
+      if (!tenant || tenant.status === TenantStatus.DELETED) {
+        throw new NotFoundException(`Tenant ${tenantId} not found`);
+      }
+
+      // 只指定租户时以租户管理员的身份签发，令牌的 sub 始终指向目标租户中真实存在的用户
+      const subject = target ?? (await this.findTenantAdminOrFail(tenant));
+      const expiresIn = this.expirationTime();
+      const session = await this.entityManager.create('postgresql', ImpersonationSession, {
+        tenantId,
+        targetUserId: subject.id,
+        operatorId: operator.userId,
+        reason: startData.reason,
+        expiresAt: new Date(Date.now() + expiresIn * 1000),
+      });
+
+      const identity: AccessTokenPayload = {
+        sub: subject.id,
+        username: subject.username,
+        type: subject.type,
+        tenantId,
+        role: subject.role,
+        permissions: subject.permissions ?? [],
+      };
+      const accessToken = await this.authService.signAccessToken(
+        { ...identity, impersonatedBy: operator.userId, impersonationId: session.id },
+        expiresIn,
+      );
+
+      return {
+        message: 'Impersonation started successfully',
+        session,
+        accessToken,
+        tokenType: 'Bearer',
+        expiresIn,
+      };
+    });
+  }
+
+  /**
+   * 结束模拟会话
+   *
+   * @description 发起会话的操作员可以使用自身令牌或模拟令牌结束会话，结束后模拟令牌随即失效
+   * @param sessionId - 会话ID
+   * @param principal - 当前用户
+   * @returns 结束的会话
+   * @throws {NotFoundException} 会话不存在或不是当前操作员发起的
+   */
+  async end(sessionId: string, principal: AuthPrincipal) {
+    const session = await this.entityManager.findOne('postgresql', ImpersonationSession, { id: sessionId });
+    const operatorId = principal.impersonatedBy ?? principal.userId;
+    if (!session || session.operatorId !== operatorId) {
+      throw new NotFoundException(`Impersonation session ${sessionId} not found`);
+    }
+
+    session.endedAt ??= new Date();
+    await this.entityManager.update('postgresql', session);
+
+    return {
+      message: 'Impersonation ended successfully',
+      session,
+    };
+  }
+
+  /**
+   * 获取租户的模拟会话
+   *
+   * @param tenantId - 租户ID
+   * @returns 按发起时间倒序排列的模拟会话
+   */
+  async getSessions(tenantId: string) {
+    const sessions = await this.entityManager.find(
+      'postgresql',
+      ImpersonationSession,
+      { tenantId },
+      { orderBy: { createdAt: 'desc' } },
+    );
+
+    return {
+      message: 'Impersonation sessions retrieved successfully',
+      sessions,
+    };
+  }
+
+  /**
+   * 获取模拟会话详情
+   *
+   * @param tenantId - 租户ID
+   * @param sessionId - 会话ID
+   * @returns 模拟会话及其按时间顺序排列的审计记录
+   * @throws {NotFoundException} 会话不存在
+   */
+  async getSession(tenantId: string, sessionId: string) {
+    const session = await this.entityManager.findOne('postgresql', ImpersonationSession, { id: sessionId, tenantId });
+    if (!session) {
+      throw new NotFoundException(`Impersonation session ${sessionId} not found`);
+    }
+
+    const entries = await this.entityManager.find(
+      'postgresql',
+      ImpersonationAuditEntry,
+      { sessionId },
+      { orderBy: { createdAt: 'asc' } },
+    );
+
+    return {
+      message: 'Impersonation session retrieved successfully',
+      session,
+      entries,
+    };
+  }
+
+  /**
+   * 记录模拟请求
+   *
+   * @description 校验模拟会话仍然有效后写入审计记录；在租户解析之前也可调用，查询与写入跨越租户作用域
+   * @param payload - 模拟令牌的载荷
+   * @param method - 请求方法
+   * @param path - 请求路径
+   * @throws {UnauthorizedException} 会话不存在、已结束或已过期
+   */
+  async track(payload: AccessTokenPayload, method: string, path: string): Promise<void> {
+    await this.entityManager.withoutTenantScope(async () => {
+      const session = await this.entityManager.findOne('postgresql', ImpersonationSession, {
+        id: payload.impersonationId,
+      });
+      if (!session || session.endedAt || session.expiresAt <= new Date()) {
+        throw new UnauthorizedException('Impersonation session has ended');
+      }
+
+      await this.entityManager.create('postgresql', ImpersonationAuditEntry, {
+        sessionId: session.id,
+        tenantId: session.tenantId,
+        impersonatedBy: session.operatorId,
+        userId: payload.sub,
+        method,
+        path,
+      });
+    });
+  }
+
+  /**
+   * 获取目标用户，不存在时抛出 404
+   *
+   * @param userId - 用户ID
+   * @returns 目标用户
+   * @throws {NotFoundException} 用户不存在
+   * @throws {BadRequestException} 用户不是租户用户
+   */
+  private async findTargetUserOrFail(userId: string): Promise<User> {
+    const user = await this.entityManager.findOne('postgresql', User, { id: userId });
+    if (!user) {
+      throw new NotFoundException(`User ${userId} not found`);
+    }
+    if (user.type !== UserType.TENANT_USER || !user.tenantId) {
+      throw new BadRequestException('Only tenant users can be impersonated');
+    }
+    return user;
+  }
+
+  /**
+   * 获取只指定租户时被模拟的租户管理员
+   *
+   * @param tenant - 目标租户
+   * @returns 租户管理员
+   * @throws {BadRequestException} 租户没有管理员
+   */
+  private async findTenantAdminOrFail(tenant: Tenant): Promise<User> {
+    const admin = tenant.adminId
+      ? await this.entityManager.findOne('postgresql', User, { id: tenant.adminId, tenantId: tenant.id })
+      : null;
+    if (!admin) {
+      throw new BadRequestException(`Tenant ${tenant.id} has no administrator to impersonate, specify userId instead`);
+    }
+    return admin;
+  }
+
+  /**
+   * 模拟令牌有效秒数
+   *
+   * @returns 有效秒数
+   */
+  private expirationTime(): number {
+    return this.configService.get<number>('auth.impersonationExpirationTime') || 900;
+  }
+}
@@ -0,0 +1,31 @@
+import { Controller, Post, Body, HttpCode, HttpStatus } from '@nestjs/common';
+import { Public } from '@hl8/common';
+import { AcceptInvitationDto } from '@hl8/contracts';
+import { InvitationsService } from './invitations.service';
+
+/**
+ * 邀请接受控制器
+ *
+ * 提供受邀用户通过邀请链接加入租户的公开接口
+ *
+ * @description 邀请接受控制器，处理接受邀请的HTTP请求
+ * @since 1.0.0
+ */
+@Controller('invitations')
+export class InvitationAcceptanceController {
+  constructor(private readonly invitationsService: InvitationsService) {}
+
+  /**
+   * 接受邀请
+   *
+   * @description 已注册的受邀邮箱以密码确认身份后加入租户，未注册时创建账户并加入租户
+   * @param acceptInvitationDto - 接受邀请的数据传输对象
+   * @returns 加入租户的用户与租户
+   */
+  @Public()
+  @Post('accept')
+  @HttpCode(HttpStatus.OK)
+  async acceptInvitation(@Body() acceptInvitationDto: AcceptInvitationDto) {
+    return this.invitationsService.acceptInvitation(acceptInvitationDto);
+  }
+}
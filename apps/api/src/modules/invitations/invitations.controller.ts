@@ -0,0 +1,85 @@
+import { Controller, Get, Post, Delete, Param, Body, Query, ParseUUIDPipe, HttpCode, HttpStatus } from '@nestjs/common';
+import { Roles } from '@hl8/common';
+import type { AuthPrincipal } from '@hl8/common';
+import { CreateInvitationDto, InvitationQueryDto } from '@hl8/contracts';
+import { CurrentUser } from '../auth/current-user.decorator';
+import { InvitationsService } from './invitations.service';
+
+/**
+ * 租户邀请控制器
+ *
+ * 提供租户邀请的创建、查询、吊销与重发接口
+ * 仅租户的 owner 或 admin 可以管理邀请，租户用户只能管理自身租户的邀请
+ *
+ * @description 租户邀请控制器，处理租户邀请相关的HTTP请求
+ * @since 1.0.0
+ */
+@Controller('tenants/:tenantId/invitations')
+@Roles('owner', 'admin')
+export class InvitationsController {
+  constructor(private readonly invitationsService: InvitationsService) {}
+
+  /**
+   * 获取租户的邀请
+   *
+   * @description 获取租户的邀请列表，默认只包含待接受的邀请
+   * @param tenantId - 租户ID
+   * @param query - 查询条件
+   * @returns 邀请列表
+   */
+  @Get()
+  async getInvitations(@Param('tenantId', ParseUUIDPipe) tenantId: string, @Query() query: InvitationQueryDto) {
+    return this.invitationsService.getInvitations(tenantId, query);
+  }
+
+  /**
+   * 创建邀请
+   *
+   * @description 邀请邮箱加入租户，并发送邀请邮件
+   * @param tenantId - 租户ID
+   * @param user - 当前用户
+   * @param createInvitationDto - 创建邀请的数据传输对象
+   * @returns 创建的邀请
+   */
+  @Post()
+  async createInvitation(
+    @Param('tenantId', ParseUUIDPipe) tenantId: string,
+    @CurrentUser() user: AuthPrincipal,
+    @Body() createInvitationDto: CreateInvitationDto,
+  ) {
+    return this.invitationsService.createInvitation(tenantId, createInvitationDto, user.userId);
+  }
+
+  /**
+   * 吊销邀请
+   *
+   * @description 吊销尚未接受的邀请，邀请链接随即失效
+   * @param tenantId - 租户ID
+   * @param id - 邀请ID
+   * @returns 吊销结果
+   */
+  @Delete(':id')
+  async revokeInvitation(
+    @Param('tenantId', ParseUUIDPipe) tenantId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.invitationsService.revokeInvitation(tenantId, id);
+  }
+
+  /**
+   * 重发邀请
+   *
+   * @description 签发新的邀请链接并重新发送邀请邮件
+   * @param tenantId - 租户ID
+   * @param id - 邀请ID
+   * @returns 重发结果
+   */
+  @Post(':id/resend')
+  @HttpCode(HttpStatus.OK)
+  async resendInvitation(
+    @Param('tenantId', ParseUUIDPipe) tenantId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.invitationsService.resendInvitation(tenantId, id);
+  }
+}
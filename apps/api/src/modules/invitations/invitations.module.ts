@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { InvitationsService } from './invitations.service';
+import { InvitationsController } from './invitations.controller';
+import { InvitationAcceptanceController } from './invitation-acceptance.controller';
+import { AuthModule } from '../auth/auth.module';
+import { MailModule } from '../mail/mail.module';
+import { TenantsModule } from '../tenants/tenants.module';
+
+/**
+ * 邀请模块
+ *
+ * 提供租户邀请功能
+ * 租户管理员通过邮件邀请用户加入租户及指定的组织，受邀用户通过邀请链接接受邀请
+ *
+ * @description 邀请模块，负责租户邀请的创建、管理与接受
+ * @since 1.0.0
+ */
+@Module({
+  imports: [AuthModule, MailModule, TenantsModule],
+  controllers: [InvitationsController, InvitationAcceptanceController],
+  providers: [InvitationsService],
+  exports: [InvitationsService],
+})
+export class InvitationsModule {}
@@ -0,0 +1,214 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException, UnauthorizedException } from '@nestjs/common';
+import { compare, hash } from 'bcryptjs';
+import { ConfigService } from '@hl8/config';
+import { EntityManagerService, runWithActor } from '@hl8/database';
+import { generateSha256Hash } from '@hl8/utils';
+import { PasswordService } from '../auth/password.service';
+import { InMemoryMailTransport } from '../mail/in-memory-mail.transport';
+import { MailTransport } from '../mail/mail-transport';
+import { MailService } from '../mail/mail.service';
+import { QuotaService } from '../tenants/quota.service';
+import { InvitationsService } from './invitations.service';
+
+// 配置与数据库包在加载时会初始化连接配置，单元测试中以轻量替身隔离
+jest.mock('@hl8/config', () => ({ ConfigService: class ConfigService {} }));
+jest.mock('@hl8/database', () => ({
+  EntityManagerService: class EntityManagerService {},
+  User: class User {},
+  Tenant: class Tenant {},
+  Organization: class Organization {},
+  Invitation: class Invitation {},
+  runWithActor: jest.fn((_actorId, callback) => callback()),
+  UserStatus: { ACTIVE: 'active', PENDING: 'pending' },
+  UserType: { TENANT_USER: 'tenant_user' },
+  TenantStatus: { ACTIVE: 'active', SUSPENDED: 'suspended' },
+}));
+
+const config: Record<string, unknown> = {
+  'auth.passwordSaltRounds': 4,
+  'auth.invitationExpirationTime': 3600,
+  'api.clientBaseUrl': 'https://app.example.com',
+};
+
+describe('InvitationsService', () => {
+  let service: InvitationsService;
+  let transport: InMemoryMailTransport;
+  let rows: Record<string, Record<string, unknown>[]>;
+  let tenant: Record<string, unknown>;
+
+  const mailedToken = (index = 0) =>
+    decodeURIComponent(/token=(\S+)/.exec(transport.messages[index].text)?.[1] ?? '');
+
+  beforeEach(async () => {
+    tenant = { id: 'tenant-1', name: 'Acme', status: 'active', config: { maxUsers: 3 } };
+    rows = { User: [], Tenant: [tenant], Organization: [], Invitation: [] };
+
+    // 支持等值、null 与 $gt 条件的内存查询
+    const matches = (row: Record<string, unknown>, where: Record<string, unknown>) =>
+      Object.entries(where).every(([key, value]) => {
+        if (value === null) {
+          return row[key] === undefined || row[key] === null;
+        }
+        if (typeof value === 'object' && value !== null && '$gt' in value) {
+          return (row[key] as Date) > (value as { $gt: Date }).$gt;
+        }
+        return row[key] === value;
+      });
+    const table = (entity: { name: string }) => rows[entity.name];
+
+    let sequence = 0;
+    const kinds = new Map<Record<string, unknown>, string>();
+    const em = {
+      findOne: jest.fn(async (entity, where) => table(entity).find((row) => matches(row, where)) ?? null),
+      findOneOrFail: jest.fn(async (entity, where) => table(entity).find((row) => matches(row, where))),
+      count: jest.fn(async (entity, where) => table(entity).filter((row) => matches(row, where)).length),
+      create: jest.fn((entity, data) => {
+        const record = { id: `${entity.name.toLowerCase()}-${++sequence}`, ...data };
+        kinds.set(record, entity.name);
+        return record;
+      }),
+      persist: jest.fn((record) => {
+        const kind = kinds.get(record) ?? 'User';
+        if (!rows[kind].includes(record)) {
+          rows[kind].push(record);
+        }
+      }),
+      nativeUpdate: jest.fn(async (entity, where, data) => {
+        table(entity)
+          .filter((row) => matches(row, where))
+          .forEach((row) => Object.assign(row, data));
+      }),
+    };
+    const entityManager = {
+      withoutTenantScope: jest.fn((callback) => callback()),
+      findOne: jest.fn(async (_db, entity, where) => em.findOne(entity, where)),
+      find: jest.fn(async (_db, entity, where) => table(entity).filter((row) => matches(row, where))),
+      update: jest.fn(async (_db, record) => record),
+      transaction: jest.fn(async (_db, callback) => callback(em)),
+    };
+    transport = new InMemoryMailTransport();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        InvitationsService,
+        PasswordService,
+        MailService,
+        QuotaService,
+        { provide: MailTransport, useValue: transport },
+        { provide: EntityManagerService, useValue: entityManager },
+        { provide: ConfigService, useValue: { get: (key: string) => config[key] } },
+      ],
+    }).compile();
+
+    service = module.get<InvitationsService>(InvitationsService);
+  });
+
+  it('should mail an invite link and store only the token hash', async () => {
+    const { invitation } = await service.createInvitation(
+      'tenant-1',
+      { email: 'bob@example.com', role: 'member' },
+      'admin-1',
+    );
+
+    expect(invitation).toMatchObject({ email: 'bob@example.com', role: 'member', invitedBy: 'admin-1' });
+    expect(transport.messages[0]).toMatchObject({ to: 'bob@example.com' });
+    expect(transport.messages[0].text).toContain('https://app.example.com/accept-invitation?token=');
+    expect(invitation.tokenHash).toBe(generateSha256Hash(mailedToken()));
+  });
+
+  it('should revoke the previous invite when the same email is invited again', async () => {
+    const { invitation: first } = await service.createInvitation('tenant-1', { email: 'bob@example.com' }, 'admin-1');
+    await service.createInvitation('tenant-1', { email: 'bob@example.com' }, 'admin-1');
+
+    expect(first.revokedAt).toBeInstanceOf(Date);
+    expect((await service.getInvitations('tenant-1')).invitations).toHaveLength(1);
+    expect((await service.getInvitations('tenant-1', { includeInactive: true })).invitations).toHaveLength(2);
+  });
+
+  it('should count pending invites against the user quota', async () => {
+    rows['User'].push({ id: 'user-a', tenantId: 'tenant-1' });
+    await service.createInvitation('tenant-1', { email: 'bob@example.com' }, 'admin-1');
+    await service.createInvitation('tenant-1', { email: 'carol@example.com' }, 'admin-1');
+
+    await expect(
+      service.createInvitation('tenant-1', { email: 'dave@example.com' }, 'admin-1'),
+    ).rejects.toMatchObject({ response: { code: 'QUOTA_EXCEEDED', resource: 'users', limit: 3 } });
+  });
+
+  it('should create an active tenant user when a new account accepts', async () => {
+    await service.createInvitation('tenant-1', { email: 'bob@example.com', role: 'member' }, 'admin-1');
+
+    const { user, tenant: joined } = await service.acceptInvitation({
+      token: mailedToken(),
+      username: 'bob',
+      password: 'S3cret-pass',
+    });
+
+    expect(joined).toBe(tenant);
+    expect(user).toMatchObject({ type: 'tenant_user', status: 'active', tenantId: 'tenant-1', role: 'member' });
+    expect(await compare('S3cret-pass', user.passwordHash)).toBe(true);
+    expect(rows['Invitation'][0]).toMatchObject({ acceptedBy: user.id });
+    expect(runWithActor).toHaveBeenCalledWith(user.id, expect.any(Function));
+    await expect(
+      service.acceptInvitation({ token: mailedToken(), username: 'bob2', password: 'S3cret-pass' }),
+    ).rejects.toMatchObject({ response: { code: 'INVALID_INVITATION' } });
+  });
+
+  it('should link an existing account after checking its password', async () => {
+    const existing = {
+      id: 'user-x',
+      username: 'bob',
+      email: 'bob@example.com',
+      status: 'active',
+      passwordHash: await hash('S3cret-pass', 4),
+    };
+    rows['User'].push(existing);
+    await service.createInvitation('tenant-1', { email: 'bob@example.com' }, 'admin-1');
+
+    await expect(service.acceptInvitation({ token: mailedToken(), password: 'wrong-pass' })).rejects.toBeInstanceOf(
+      UnauthorizedException,
+    );
+
+    const { user } = await service.acceptInvitation({ token: mailedToken(), password: 'S3cret-pass' });
+    expect(user).toBe(existing);
+    expect(existing).toMatchObject({ tenantId: 'tenant-1', type: 'tenant_user' });
+  });
+
+  it('should reject accounts that belong to another tenant', async () => {
+    rows['User'].push({
+      id: 'user-x',
+      email: 'bob@example.com',
+      status: 'active',
+      tenantId: 'tenant-2',
+      passwordHash: await hash('S3cret-pass', 4),
+    });
+    await service.createInvitation('tenant-1', { email: 'bob@example.com' }, 'admin-1');
+
+    await expect(service.acceptInvitation({ token: mailedToken(), password: 'S3cret-pass' })).rejects.toBeInstanceOf(
+      ConflictException,
+    );
+  });
+
+  it('should invalidate the old link when an invite is resent', async () => {
+    const { invitation } = await service.createInvitation('tenant-1', { email: 'bob@example.com' }, 'admin-1');
+    await service.resendInvitation('tenant-1', invitation.id);
+
+    await expect(
+      service.acceptInvitation({ token: mailedToken(0), username: 'bob', password: 'S3cret-pass' }),
+    ).rejects.toMatchObject({ response: { code: 'INVALID_INVITATION' } });
+    await expect(
+      service.acceptInvitation({ token: mailedToken(1), username: 'bob', password: 'S3cret-pass' }),
+    ).resolves.toMatchObject({ user: { tenantId: 'tenant-1' } });
+  });
+
+  it('should not accept revoked invites', async () => {
+    const { invitation } = await service.createInvitation('tenant-1', { email: 'bob@example.com' }, 'admin-1');
+    await service.revokeInvitation('tenant-1', invitation.id);
+
+    await expect(
+      service.acceptInvitation({ token: mailedToken(), username: 'bob', password: 'S3cret-pass' }),
+    ).rejects.toMatchObject({ response: { code: 'INVALID_INVITATION' } });
+    await expect(service.resendInvitation('tenant-1', invitation.id)).rejects.toBeInstanceOf(ConflictException);
+  });
+});
@@ -0,0 +1,413 @@
+import { randomBytes, randomUUID } from 'crypto';
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { EntityManager, LockMode, RequiredEntityData } from '@mikro-orm/core';
+import { ConfigService } from '@hl8/config';
+import { ErrorCode } from '@hl8/constants';
+import { AcceptInvitationDto, CreateInvitationDto, InvitationQueryDto } from '@hl8/contracts';
+import {
+  EntityManagerService,
+  Invitation,
+  Organization,
+  runWithActor,
+  Tenant,
+  TenantStatus,
+  User,
+  UserStatus,
+  UserType,
+} from '@hl8/database';
+import { generateSha256Hash } from '@hl8/utils';
+import { PasswordService } from '../auth/password.service';
+import { MailService } from '../mail/mail.service';
+import { QuotaService } from '../tenants/quota.service';
+
+/**
+ * 邀请服务
+ *
+ * 提供租户邀请的创建、查询、吊销、重发与接受功能，邀请令牌只以 SHA-256 哈希形式存储
+ * 邀请有效期取自 `auth.invitationExpirationTime`
+ *
+ * ## 业务规则
+ * - 每个邀请只能接受一次，已吊销或已过期的邀请不可接受
+ * - 向同一邮箱重新发出邀请时，该租户之前待接受的邀请全部吊销
+ * - 重发邀请时签发新令牌并重新计算有效期，旧链接随即失效
+ * - 接受邀请的用户邮箱必须与受邀邮箱一致（忽略大小写），邀请的租户必须处于 ACTIVE 状态
+ * - 受邀邮箱已注册时需以密码确认身份，已属于其他租户的用户不能接受邀请；未注册时创建已激活的新账户
+ * - 接受邀请后用户成为该租户的租户用户，并加入邀请指定的组织与角色
+ * - 现有用户与待接受邀请之和不得超过租户的用户配额，接受邀请时再次校验
+ *
+ * @description 邀请服务，负责租户邀请的生命周期
+ * @since 1.0.0
+ */
+@Injectable()
+export class InvitationsService {
+  constructor(
+    private readonly entityManager: EntityManagerService,
+    private readonly configService: ConfigService,
+    private readonly passwordService: PasswordService,
+    private readonly mailService: MailService,
+    private readonly quotaService: QuotaService,
+  ) {}
+
+  /**
+   * 获取租户的邀请
+   *
+   * @description 按创建时间倒序返回邀请，默认只包含待接受的邀请
+   * @param tenantId - 租户ID
+   * @param query - 查询条件
+   * @returns 邀请列表
+   */
+  async getInvitations(tenantId: string, query: InvitationQueryDto = {}) {
+    const invitations = await this.entityManager.find(
+      'postgresql',
+      Invitation,
+      query.includeInactive ? { tenantId } : { tenantId, ...this.pendingCondition() },
+      { orderBy: { createdAt: 'desc' } },
+    );
+
+    return {
+      message: 'Invitations retrieved successfully',
+      invitations,
+    };
+  }
+
+  /**
+   * 创建邀请
+   *
+   * @description 吊销同一邮箱待接受的邀请后创建新邀请，并发送邀请邮件
+   * @param tenantId - 租户ID
+   * @param invitationData - 邀请数据
+   * @param inviterId - 邀请人ID
+   * @returns 创建的邀请
+   * @throws {NotFoundException} 租户不存在
+   * @throws {BadRequestException} 组织不属于该租户
+   * @throws {ConflictException} 受邀邮箱已是该租户的用户
+   * @throws {ForbiddenException} 超出租户的用户配额
+   */
+  async createInvitation(tenantId: string, invitationData: CreateInvitationDto, inviterId: string) {
+    const tenant = await this.findTenantOrFail(tenantId);
+    if (invitationData.organizationId) {
+      await this.assertOrganizationInTenant(tenantId, invitationData.organizationId);
+    }
+
+    const member = await this.entityManager.findOne('postgresql', User, { email: invitationData.email, tenantId });
+    if (member) {
+      throw new ConflictException('User with this email is already a member of the tenant');
+    }
+
+    const token = this.generateToken();
+    const expiresIn = this.expirationTime();
+    const invitation = await this.entityManager.transaction('postgresql', async (em) => {
+      await em.nativeUpdate(
+        Invitation,
+        { tenantId, email: invitationData.email, ...this.pendingCondition() },
+        { revokedAt: new Date() },
+      );
+      await this.quotaService.assertUserQuota(tenantId, { em });
+
+      const created = em.create(Invitation, {
+        tenantId,
+        organizationId: invitationData.organizationId,
+        email: invitationData.email,
+        role: invitationData.role ?? 'user',
+        tokenHash: generateSha256Hash(token),
+        invitedBy: inviterId,
+        expiresAt: new Date(Date.now() + expiresIn * 1000),
+      });
+      em.persist(created);
+      return created;
+    });
+    await this.mailService.sendInvitation(invitation.email, token, tenant.name, expiresIn);
+
+    return {
+      message: 'Invitation created successfully',
+      invitation,
+    };
+  }
+
+  /**
+   * 吊销邀请
+   *
+   * @param tenantId - 租户ID
+   * @param invitationId - 邀请ID
+   * @returns 吊销结果
+   * @throws {NotFoundException} 邀请不存在
+   * @throws {ConflictException} 邀请已被接受
+   */
+  async revokeInvitation(tenantId: string, invitationId: string) {
+    const invitation = await this.findInvitationOrFail(tenantId, invitationId);
+    if (invitation.acceptedAt) {
+      throw new ConflictException('Invitation has already been accepted');
+    }
+
+    invitation.revokedAt ??= new Date();
+    await this.entityManager.update('postgresql', invitation);
+
+    return {
+      message: 'Invitation revoked successfully',
+      invitation,
+    };
+  }
+
+  /**
+   * 重发邀请
+   *
+   * @description 签发新令牌并重新计算有效期后再次发送邀请邮件，已过期的邀请也可重发
+   * @param tenantId - 租户ID
+   * @param invitationId - 邀请ID
+   * @returns 重发结果
+   * @throws {NotFoundException} 邀请或租户不存在
+   * @throws {ConflictException} 邀请已被接受或已吊销
+   */
+  async resendInvitation(tenantId: string, invitationId: string) {
+    const tenant = await this.findTenantOrFail(tenantId);
+    const invitation = await this.findInvitationOrFail(tenantId, invitationId);
+    if (invitation.acceptedAt || invitation.revokedAt) {
+      throw new ConflictException('Only pending invitations can be resent');
+    }
+
+    const token = this.generateToken();
+    const expiresIn = this.expirationTime();
+    invitation.tokenHash = generateSha256Hash(token);
+    invitation.expiresAt = new Date(Date.now() + expiresIn * 1000);
+    await this.entityManager.update('postgresql', invitation);
+    await this.mailService.sendInvitation(invitation.email, token, tenant.name, expiresIn);
+
+    return {
+      message: 'Invitation resent successfully',
+      invitation,
+    };
+  }
+
+  /**
+   * 接受邀请
+   *
+   * @description 受邀邮箱已注册时校验密码后加入租户，未注册时创建账户并加入租户
+   * @param acceptData - 邀请令牌与账户信息
+   * @returns 加入租户的用户与租户
+   * @throws {BadRequestException} 邀请无效，或新账户缺少用户名、密码不满足强度策略
+   * @throws {UnauthorizedException} 已有账户的密码错误
+   * @throws {ConflictException} 用户已属于其他租户或用户名已存在
+   * @throws {ForbiddenException} 超出租户的用户配额
+   */
+  async acceptInvitation(acceptData: AcceptInvitationDto) {
+    // 接受邀请的请求不在任何租户作用域内，邀请由令牌确定，账户按全局唯一的邮箱查找
+    const invitation = await this.entityManager.withoutTenantScope(() =>
+      this.entityManager.findOne('postgresql', Invitation, {
+        tokenHash: generateSha256Hash(acceptData.token),
+      }),
+    );
+    if (!invitation) {
+      throw this.invalidInvitation();
+    }
+
+    const existing = await this.entityManager.withoutTenantScope(() =>
+      this.entityManager.findOne('postgresql', User, { email: invitation.email }),
+    );
+    if (existing) {
+      await this.verifyExistingUser(existing, invitation, acceptData.password);
+    }
+
+    // 接受邀请的请求尚未认证，以加入租户的用户自身为操作人
+    const memberId = existing?.id ?? randomUUID();
+    const { user, tenant } = await runWithActor(memberId, () =>
+      this.entityManager.withoutTenantScope(() =>
+        this.entityManager.transaction('postgresql', async (em) => {
+          const member = existing
+            ? await em.findOneOrFail(User, { id: existing.id })
+            : em.create(User, { ...(await this.newUserData(invitation, acceptData)), id: memberId });
+          em.persist(member);
+          await this.accept(em, acceptData.token, member);
+          return { user: member, tenant: await em.findOneOrFail(Tenant, { id: member.tenantId }) };
+        }),
+      ),
+    );
+
+    return {
+      message: 'Invitation accepted successfully',
+      user,
+      tenant,
+    };
+  }
+
+  /**
+   * 在事务内接受邀请
+   *
+   * @description 锁定邀请记录并标记为已接受，事务回滚时邀请仍可使用
+   * @param em - 事务内的实体管理器
+   * @param token - 邀请令牌
+   * @param user - 接受邀请的用户，其租户、组织与角色随之更新
+   * @returns 被接受的邀请
+   * @throws {BadRequestException} 邀请无效、已接受、已吊销、已过期、邮箱不符或租户不可用
+   * @throws {ForbiddenException} 超出租户的用户配额
+   */
+  async accept(em: EntityManager, token: string, user: User): Promise<Invitation> {
+    const invitation = await em.findOne(
+      Invitation,
+      { tokenHash: generateSha256Hash(token) },
+      { lockMode: LockMode.PESSIMISTIC_WRITE },
+    );
+
+    if (
+      !invitation ||
+      invitation.acceptedAt ||
+      invitation.revokedAt ||
+      invitation.expiresAt <= new Date() ||
+      invitation.email.toLowerCase() !== user.email.toLowerCase()
+    ) {
+      throw this.invalidInvitation();
+    }
+
+    const tenant = await em.findOne(Tenant, { id: invitation.tenantId });
+    if (!tenant || tenant.status !== TenantStatus.ACTIVE) {
+      throw this.invalidInvitation();
+    }
+    if (user.tenantId !== tenant.id) {
+      await this.quotaService.assertUserQuota(tenant.id, { em, countPendingInvitations: false });
+    }
+
+    user.type = UserType.TENANT_USER;
+    user.tenantId = invitation.tenantId;
+    user.organizationId = invitation.organizationId;
+    user.role = invitation.role;
+
+    invitation.acceptedAt = new Date();
+    invitation.acceptedBy = user.id;
+    return invitation;
+  }
+
+  /**
+   * 校验已有账户
+   *
+   * @param user - 受邀邮箱对应的用户
+   * @param invitation - 邀请
+   * @param password - 用户输入的密码
+   * @throws {UnauthorizedException} 密码错误或用户不可用
+   * @throws {ConflictException} 用户已属于其他租户
+   */
+  private async verifyExistingUser(user: User, invitation: Invitation, password: string): Promise<void> {
+    if (user.status !== UserStatus.ACTIVE || !(await this.passwordService.verify(password, user.passwordHash))) {
+      throw new UnauthorizedException('Invalid credentials');
+    }
+    if (user.tenantId && user.tenantId !== invitation.tenantId) {
+      throw new ConflictException('User already belongs to another tenant');
+    }
+  }
+
+  /**
+   * 准备新账户数据
+   *
+   * @description 邀请邮件已证明邮箱归属，新账户直接激活
+   * @param invitation - 邀请
+   * @param acceptData - 账户信息
+   * @returns 新账户的字段
+   * @throws {BadRequestException} 缺少用户名或密码不满足强度策略
+   * @throws {ConflictException} 用户名已存在
+   */
+  private async newUserData(invitation: Invitation, acceptData: AcceptInvitationDto): Promise<RequiredEntityData<User>> {
+    if (!acceptData.username) {
+      throw new BadRequestException('username is required to create a new account');
+    }
+    this.passwordService.assertStrength(acceptData.password, { username: acceptData.username, email: invitation.email });
+    if (await this.entityManager.findOne('postgresql', User, { username: acceptData.username })) {
+      throw new ConflictException('User with this username already exists');
+    }
+
+    return {
+      username: acceptData.username,
+      email: invitation.email,
+      passwordHash: await this.passwordService.hash(acceptData.password),
+      status: UserStatus.ACTIVE,
+      emailVerifiedAt: new Date(),
+    };
+  }
+
+  /**
+   * 获取租户，不存在时抛出 404
+   *
+   * @param tenantId - 租户ID
+   * @returns 租户实体
+   * @throws {NotFoundException} 租户不存在
+   */
+  private async findTenantOrFail(tenantId: string): Promise<Tenant> {
+    const tenant = await this.entityManager.findOne('postgresql', Tenant, { id: tenantId });
+    if (!tenant) {
+      throw new NotFoundException(`Tenant ${tenantId} not found`);
+    }
+    return tenant;
+  }
+
+  /**
+   * 获取邀请，不存在时抛出 404
+   *
+   * @param tenantId - 租户ID
+   * @param invitationId - 邀请ID
+   * @returns 邀请实体
+   * @throws {NotFoundException} 邀请不存在或不属于该租户
+   */
+  private async findInvitationOrFail(tenantId: string, invitationId: string): Promise<Invitation> {
+    const invitation = await this.entityManager.findOne('postgresql', Invitation, { id: invitationId, tenantId });
+    if (!invitation) {
+      throw new NotFoundException(`Invitation ${invitationId} not found`);
+    }
+    return invitation;
+  }
+
+  /**
+   * 校验组织属于租户
+   *
+   * @param tenantId - 租户ID
+   * @param organizationId - 组织ID
+   * @throws {BadRequestException} 组织不存在或不属于该租户
+   */
+  private async assertOrganizationInTenant(tenantId: string, organizationId: string): Promise<void> {
+    const organization = await this.entityManager.findOne('postgresql', Organization, { id: organizationId, tenantId });
+    if (!organization) {
+      throw new BadRequestException(`Organization ${organizationId} does not belong to tenant ${tenantId}`);
+    }
+  }
+
+  /**
+   * 待接受邀请的查询条件
+   *
+   * @returns 未接受、未吊销且未过期的条件
+   */
+  private pendingCondition() {
+    return { acceptedAt: null, revokedAt: null, expiresAt: { $gt: new Date() } };
+  }
+
+  /**
+   * 生成邀请令牌
+   *
+   * @returns URL 安全的随机令牌
+   */
+  private generateToken(): string {
+    return randomBytes(32).toString('base64url');
+  }
+
+  /**
+   * 邀请有效秒数
+   *
+   * @returns 邀请有效秒数
+   */
+  private expirationTime(): number {
+    return this.configService.get<number>('auth.invitationExpirationTime') || 604800;
+  }
+
+  /**
+   * 邀请无效异常
+   *
+   * @returns 统一的邀请无效异常，不区分具体原因
+   */
+  private invalidInvitation(): BadRequestException {
+    return new BadRequestException({
+      code: ErrorCode.INVALID_INVITATION,
+      message: 'Invalid or expired invitation',
+    });
+  }
+}
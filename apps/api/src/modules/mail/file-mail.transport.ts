@@ -0,0 +1,23 @@
+import { randomUUID } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { MailMessage, MailTransport } from './mail-transport';
+
+/**
+ * 文件邮件传输
+ *
+ * @description 将每封邮件写入输出目录下的一个 JSON 文件而不真正发送，
+ * 用于本地开发时查看邮件内容与其中的链接
+ */
+export class FileMailTransport extends MailTransport {
+  constructor(private readonly outputDir: string) {
+    super();
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.outputDir, { recursive: true });
+    const sentAt = new Date();
+    const fileName = `${sentAt.toISOString().replace(/[:.]/g, '-')}-${randomUUID()}.json`;
+    await writeFile(join(this.outputDir, fileName), JSON.stringify({ ...message, sentAt }, null, 2), 'utf8');
+  }
+}
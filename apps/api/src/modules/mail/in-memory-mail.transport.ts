@@ -0,0 +1,22 @@
+import { MailMessage, MailTransport } from './mail-transport';
+
+/**
+ * 内存邮件传输
+ *
+ * @description 将邮件保存在进程内存中而不真正发送，用于测试中断言发出的邮件
+ */
+export class InMemoryMailTransport extends MailTransport {
+  /** 已发送的邮件，按发送顺序排列 */
+  readonly messages: MailMessage[] = [];
+
+  async send(message: MailMessage): Promise<void> {
+    this.messages.push(message);
+  }
+
+  /**
+   * 清空已发送的邮件
+   */
+  clear(): void {
+    this.messages.length = 0;
+  }
+}
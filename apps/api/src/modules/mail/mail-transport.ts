@@ -0,0 +1,37 @@
+/**
+ * 邮件内容
+ *
+ * @description 交给邮件传输发送的一封邮件
+ */
+export interface MailMessage {
+  /** 发件人 */
+  from: string;
+  /** 收件人邮箱 */
+  to: string;
+  /** 主题 */
+  subject: string;
+  /** 纯文本正文 */
+  text: string;
+  /** HTML 正文 */
+  html?: string;
+}
+
+/**
+ * 邮件传输
+ *
+ * @description 邮件发送的扩展点，同时作为依赖注入令牌。
+ * 内置文件与内存两种实现用于本地开发与测试，接入 SMTP 或邮件服务商时提供新的实现即可
+ *
+ * @example
+ * ```typescript
+ * { provide: MailTransport, useClass: SmtpMailTransport }
+ * ```
+ */
+export abstract class MailTransport {
+  /**
+   * 发送邮件
+   *
+   * @param message - 邮件内容
+   */
+  abstract send(message: MailMessage): Promise<void>;
+}
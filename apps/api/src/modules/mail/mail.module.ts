@@ -0,0 +1,31 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@hl8/config';
+import { FileMailTransport } from './file-mail.transport';
+import { InMemoryMailTransport } from './in-memory-mail.transport';
+import { MailTransport } from './mail-transport';
+import { MailService } from './mail.service';
+
+/**
+ * 邮件模块
+ *
+ * 提供账户邮件的发送能力
+ * 邮件传输由 `mail.transport` 配置选择：file 写入 `mail.outputDir`，memory 仅保存在进程内存中
+ *
+ * @description 邮件模块，负责邮件的组装与发送
+ * @since 1.0.0
+ */
+@Module({
+  providers: [
+    MailService,
+    {
+      provide: MailTransport,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService): MailTransport =>
+        configService.get<string>('mail.transport') === 'memory'
+          ? new InMemoryMailTransport()
+          : new FileMailTransport(configService.get<string>('mail.outputDir') || 'tmp/mail'),
+    },
+  ],
+  exports: [MailService, MailTransport],
+})
+export class MailModule {}
@@ -0,0 +1,124 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@hl8/config';
+import { MailTransport } from './mail-transport';
+
+/**
+ * 邮件收件人
+ */
+export interface MailRecipient {
+  username: string;
+  email: string;
+}
+
+/**
+ * 邮件服务
+ *
+ * 组装账户相关邮件并交给 MailTransport 发送
+ * 发件人取自 `mail.from`，邮件中的链接指向 `api.clientBaseUrl` 下的前端页面
+ *
+ * @description 邮件服务，负责账户邮件的内容与发送
+ * @since 1.0.0
+ */
+@Injectable()
+export class MailService {
+  constructor(
+    private readonly transport: MailTransport,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * 发送邮箱验证邮件
+   *
+   * @param recipient - 收件人
+   * @param token - 邮箱验证令牌
+   */
+  async sendEmailVerification(recipient: MailRecipient, token: string): Promise<void> {
+    const link = this.clientLink('/verify-email', token);
+    await this.send(
+      recipient,
+      'Verify your email address',
+      `Hi ${recipient.username},\n\nPlease verify your email address by opening the link below:\n\n${link}\n`,
+    );
+  }
+
+  /**
+   * 发送密码重置邮件
+   *
+   * @param recipient - 收件人
+   * @param token - 密码重置令牌
+   */
+  async sendPasswordReset(recipient: MailRecipient, token: string): Promise<void> {
+    const link = this.clientLink('/reset-password', token);
+    await this.send(
+      recipient,
+      'Reset your password',
+      `Hi ${recipient.username},\n\nA password reset was requested for your account. ` +
+        `Open the link below to choose a new password:\n\n${link}\n\n` +
+        'If you did not request this, you can ignore this email.\n',
+    );
+  }
+
+  /**
+   * 发送魔法登录码邮件
+   *
+   * @param recipient - 收件人
+   * @param code - 登录码
+   * @param expiresIn - 登录码有效秒数
+   */
+  async sendMagicCode(recipient: MailRecipient, code: string, expiresIn: number): Promise<void> {
+    await this.send(
+      recipient,
+      'Your login code',
+      `Hi ${recipient.username},\n\nYour login code is: ${code}\n\n` +
+        `It expires in ${Math.ceil(expiresIn / 60)} minutes and can only be used once. ` +
+        'If you did not request this, you can ignore this email.\n',
+    );
+  }
+
+  /**
+   * 发送租户邀请邮件
+   *
+   * @param email - 受邀邮箱
+   * @param token - 邀请令牌
+   * @param tenantName - 租户名称
+   * @param expiresIn - 邀请有效秒数
+   */
+  async sendInvitation(email: string, token: string, tenantName: string, expiresIn: number): Promise<void> {
+    const link = this.clientLink('/accept-invitation', token);
+    await this.send(
+      { username: email, email },
+      `You have been invited to join ${tenantName}`,
+      `Hi,\n\nYou have been invited to join ${tenantName}. Open the link below to accept the invitation:\n\n${link}\n\n` +
+        `The invitation expires in ${Math.ceil(expiresIn / 86400)} days. ` +
+        'If you were not expecting this, you can ignore this email.\n',
+    );
+  }
+
+  /**
+   * 发送邮件
+   *
+   * @param recipient - 收件人
+   * @param subject - 主题
+   * @param text - 纯文本正文
+   */
+  private send(recipient: MailRecipient, subject: string, text: string): Promise<void> {
+    return this.transport.send({
+      from: this.configService.get<string>('mail.from') || 'no-reply@hl8.local',
+      to: recipient.email,
+      subject,
+      text,
+    });
+  }
+
+  /**
+   * 生成前端页面链接
+   *
+   * @param path - 前端页面路径
+   * @param token - 令牌
+   * @returns 带令牌参数的链接
+   */
+  private clientLink(path: string, token: string): string {
+    const baseUrl = this.configService.get<string>('api.clientBaseUrl') || 'http://localhost:4200';
+    return `${baseUrl.replace(/\/$/, '')}${path}?token=${encodeURIComponent(token)}`;
+  }
+}
@@ -1,28 +1,47 @@
-import { Controller, Get, Post, Put, Delete, Param, Body } from '@nestjs/common';
+import { Controller, Get, Post, Put, Delete, Param, Body, Query, ParseUUIDPipe, HttpCode, HttpStatus } from '@nestjs/common';
+import { RequirePermissions } from '@hl8/common';
+import type { AuthPrincipal } from '@hl8/common';
+import {
+  CreateOrganizationDto,
+  MoveOrganizationDto,
+  OrganizationQueryDto,
+  UpdateOrganizationDto,
+} from '@hl8/contracts';
+import { AccessControlService } from '../auth/access-control.service';
+import { IfMatch } from '../../app/entity-tag';
+import { CurrentUser } from '../auth/current-user.decorator';
 import { OrganizationsService } from './organizations.service';
 
 /**
  * 组织管理控制器
  *
  * 提供组织管理的RESTful API接口
- * 支持组织的CRUD操作
+ * 支持组织的CRUD操作及层级结构查询
  *
  * @description 组织管理控制器，处理组织相关的HTTP请求
  * @since 1.0.0
  */
 @Controller('organizations')
 export class OrganizationsController {
-  constructor(private readonly organizationsService: OrganizationsService) {}
+  constructor(
+    private readonly organizationsService: OrganizationsService,
+    private readonly accessControlService: AccessControlService,
+  ) {}
 
   /**
    * 获取所有组织
    *
-   * @description 获取组织列表
+   * @description 获取组织列表，包含已删除组织时需要 organizations:deleted:read 权限
+   * @param query - 查询条件
+   * @param user - 当前用户
    * @returns 组织列表
    */
   @Get()
-  async getOrganizations() {
-    return this.organizationsService.getOrganizations();
+  async getOrganizations(@Query() query: OrganizationQueryDto, @CurrentUser() user: AuthPrincipal) {
+    if (query.includeDeleted) {
+      this.accessControlService.authorize(user, { permissions: ['organizations:deleted:read'] });
+    }
+    return this.organizationsService.getOrganizations(query);
   }
 
   /**
@@ -33,7 +52,7 @@ export class OrganizationsController {
    * @returns 创建的组织信息
    */
   @Post()
-  async createOrganization(@Body() createOrganizationDto: any) {
+  async createOrganization(@Body() createOrganizationDto: CreateOrganizationDto) {
     return this.organizationsService.createOrganization(createOrganizationDto);
   }
 
@@ -45,21 +64,26 @@ export class OrganizationsController {
    * @returns 组织信息
    */
   @Get(':id')
-  async getOrganization(@Param('id') id: string) {
+  async getOrganization(@Param('id', ParseUUIDPipe) id: string) {
     return this.organizationsService.getOrganization(id);
   }
 
   /**
    * 更新组织信息
    *
-   * @description 更新组织的配置信息
+   * @description 更新组织的配置信息；携带 If-Match 时仅在组织版本与之一致时更新，否则返回 412
    * @param id - 组织ID
    * @param updateOrganizationDto - 更新组织的数据传输对象
+   * @param expectedVersion - If-Match 中的组织版本
    * @returns 更新结果
    */
   @Put(':id')
-  async updateOrganization(@Param('id') id: string, @Body() updateOrganizationDto: any) {
-    return this.organizationsService.updateOrganization(id, updateOrganizationDto);
+  async updateOrganization(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateOrganizationDto: UpdateOrganizationDto,
+    @IfMatch() expectedVersion: number | undefined,
+  ) {
+    return this.organizationsService.updateOrganization(id, updateOrganizationDto, expectedVersion);
   }
 
   /**
@@ -70,7 +94,82 @@ export class OrganizationsController {
    * @returns 删除结果
    */
   @Delete(':id')
-  async deleteOrganization(@Param('id') id: string) {
+  async deleteOrganization(@Param('id', ParseUUIDPipe) id: string) {
     return this.organizationsService.deleteOrganization(id);
   }
+
+  /**
+   * 恢复组织
+   *
+   * @description 恢复已删除的组织
+   * @param id - 组织ID
+   * @returns 恢复结果
+   */
+  @Post(':id/restore')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions('organizations:restore')
+  async restoreOrganization(@Param('id', ParseUUIDPipe) id: string) {
+    return this.organizationsService.restoreOrganization(id);
+  }
+
+  /**
+   * 获取直接子组织
+   *
+   * @description 获取指定组织的直接下级组织
+   * @param id - 组织ID
+   * @returns 子组织列表
+   */
+  @Get(':id/children')
+  async getChildren(@Param('id', ParseUUIDPipe) id: string) {
+    return this.organizationsService.getChildren(id);
+  }
+
+  /**
+   * 获取所有后代组织
+   *
+   * @description 获取指定组织下的全部后代组织
+   * @param id - 组织ID
+   * @returns 后代组织列表
+   */
+  @Get(':id/descendants')
+  async getDescendants(@Param('id', ParseUUIDPipe) id: string) {
+    return this.organizationsService.getDescendants(id);
+  }
+
+  /**
+   * 获取所有祖先组织
+   *
+   * @description 获取从根组织到父组织的祖先链
+   * @param id - 组织ID
+   * @returns 祖先组织列表
+   */
+  @Get(':id/ancestors')
+  async getAncestors(@Param('id', ParseUUIDPipe) id: string) {
+    return this.organizationsService.getAncestors(id);
+  }
+
+  /**
+   * 获取组织树
+   *
+   * @description 以指定组织为根获取嵌套的组织树
+   * @param id - 组织ID
+   * @returns 组织树
+   */
+  @Get(':id/tree')
+  async getTree(@Param('id', ParseUUIDPipe) id: string) {
+    return this.organizationsService.getTree(id);
+  }
+
+  /**
+   * 移动组织子树
+   *
+   * @description 将组织及其后代移动到新的父组织下
+   * @param id - 组织ID
+   * @param moveOrganizationDto - 移动组织的数据传输对象
+   * @returns 移动后的组织信息
+   */
+  @Post(':id/move')
+  async moveOrganization(@Param('id', ParseUUIDPipe) id: string, @Body() moveOrganizationDto: MoveOrganizationDto) {
+    return this.organizationsService.moveOrganization(id, moveOrganizationDto.parentId ?? null);
+  }
 }
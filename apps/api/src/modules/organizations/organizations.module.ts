@@ -1,6 +1,8 @@
 import { Module } from '@nestjs/common';
 import { OrganizationsService } from './organizations.service';
 import { OrganizationsController } from './organizations.controller';
+import { AuthModule } from '../auth/auth.module';
+import { TenantsModule } from '../tenants/tenants.module';
 
 /**
  * 组织管理模块
@@ -12,6 +14,7 @@ import { OrganizationsController } from './organizations.controller';
  * @since 1.0.0
  */
 @Module({
+  imports: [AuthModule, TenantsModule],
   controllers: [OrganizationsController],
   providers: [OrganizationsService],
   exports: [OrganizationsService],
@@ -0,0 +1,195 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException, ForbiddenException, NotFoundException } from '@nestjs/common';
+import { LockMode } from '@mikro-orm/core';
+import { EntityManagerService } from '@hl8/database';
+import { QuotaService } from '../tenants/quota.service';
+import { OrganizationsService } from './organizations.service';
+
+jest.mock('@hl8/database', () => ({
+  assertVersion: jest.fn(),
+  EntityManagerService: class EntityManagerService {},
+  Organization: class Organization {},
+  Tenant: class Tenant {},
+  withDeleted: (include = true) => (include ? { filters: { 'soft-deletable-filter': false } } : {}),
+  isSoftDeleted: (entity: { deletedAt?: Date }) => entity.deletedAt != null,
+}));
+jest.mock('../tenants/quota.service', () => ({ QuotaService: class QuotaService {} }));
+
+describe('OrganizationsService', () => {
+  const tenant = { id: 't1' };
+  let service: OrganizationsService;
+  let entityManager: Record<string, jest.Mock>;
+  let em: Record<string, jest.Mock>;
+  let quotaService: { assertOrganizationQuota: jest.Mock };
+
+  beforeEach(async () => {
+    em = {
+      findOne: jest.fn(),
+      find: jest.fn().mockResolvedValue([]),
+      create: jest.fn((_entity, data) => ({ id: 'new-org', ...data })),
+      persistAndFlush: jest.fn(),
+      flush: jest.fn(),
+      refresh: jest.fn(async (entity) => entity),
+      count: jest.fn().mockResolvedValue(1),
+    };
+    entityManager = {
+      find: jest.fn().mockResolvedValue([]),
+      findOne: jest.fn(),
+      count: jest.fn().mockResolvedValue(0),
+      update: jest.fn(async (_db, entity) => entity),
+      remove: jest.fn(),
+      transaction: jest.fn((_db, callback) => callback(em)),
+    };
+    quotaService = { assertOrganizationQuota: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OrganizationsService,
+        { provide: EntityManagerService, useValue: entityManager },
+        { provide: QuotaService, useValue: quotaService },
+      ],
+    }).compile();
+
+    service = module.get<OrganizationsService>(OrganizationsService);
+  });
+
+  it('should create root organizations at level 0', async () => {
+    const { organization } = await service.createOrganization({ name: 'Root', tenantId: 't1' });
+
+    expect(organization).toMatchObject({ level: 0, path: '/new-org' });
+  });
+
+  it('should check the organization quota inside the transaction', async () => {
+    quotaService.assertOrganizationQuota.mockRejectedValue(new ForbiddenException({ code: 'QUOTA_EXCEEDED' }));
+
+    await expect(
+      service.createOrganization({ name: 'Root', tenantId: 't1' }),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+    expect(quotaService.assertOrganizationQuota).toHaveBeenCalledWith('t1', em);
+    expect(em.persistAndFlush).not.toHaveBeenCalled();
+  });
+
+  it('should compute level and path from the parent', async () => {
+    em.findOne.mockResolvedValue({ id: 'parent', tenantId: 't1', level: 1, path: '/root/parent' });
+
+    const { organization } = await service.createOrganization({
+      name: 'Child',
+      tenantId: 't1',
+      parentId: 'parent',
+    });
+
+    expect(em.findOne).toHaveBeenCalledWith(expect.anything(), { id: 'parent', tenantId: 't1' });
+    expect(organization).toMatchObject({ level: 2, path: '/root/parent/new-org' });
+  });
+
+  it('should reject parents from another tenant', async () => {
+    em.findOne.mockResolvedValue(null);
+
+    await expect(
+      service.createOrganization({ name: 'Child', tenantId: 't1', parentId: 'foreign' }),
+    ).rejects.toBeInstanceOf(NotFoundException);
+  });
+
+  it('should rewrite descendant paths and levels when moving a subtree', async () => {
+    const target = { id: 'b', tenantId: 't1', level: 1, path: '/a/b', parentId: 'a' };
+    const child = { id: 'c', tenantId: 't1', level: 2, path: '/a/b/c', parentId: 'b' };
+    const grandChild = { id: 'd', tenantId: 't1', level: 3, path: '/a/b/c/d', parentId: 'c' };
+    const newParent = { id: 'x', tenantId: 't1', level: 2, path: '/r/s/x' };
+    em.findOne.mockResolvedValueOnce(target).mockResolvedValueOnce(tenant).mockResolvedValueOnce(newParent);
+    em.find.mockResolvedValue([child, grandChild]);
+
+    await service.moveOrganization('b', 'x');
+
+    expect(target).toMatchObject({ parentId: 'x', level: 3, path: '/r/s/x/b' });
+    expect(child).toMatchObject({ level: 4, path: '/r/s/x/b/c' });
+    expect(grandChild).toMatchObject({ level: 5, path: '/r/s/x/b/c/d' });
+    expect(em.flush).toHaveBeenCalled();
+  });
+
+  it('should also rewrite deleted descendants so they are restored in place', async () => {
+    const target = { id: 'b', tenantId: 't1', level: 1, path: '/a/b', parentId: 'a' };
+    em.findOne.mockResolvedValueOnce(target).mockResolvedValueOnce(tenant);
+
+    await service.moveOrganization('b', null);
+
+    expect(em.find).toHaveBeenCalledWith(expect.anything(), expect.anything(), {
+      filters: { 'soft-deletable-filter': false },
+    });
+  });
+
+  it('should reject moving an organization under its own descendant', async () => {
+    const target = { id: 'b', tenantId: 't1', level: 1, path: '/a/b' };
+    const descendant = { id: 'c', tenantId: 't1', level: 2, path: '/a/b/c' };
+    em.findOne.mockResolvedValueOnce(target).mockResolvedValueOnce(tenant).mockResolvedValueOnce(descendant);
+
+    await expect(service.moveOrganization('b', 'c')).rejects.toBeInstanceOf(BadRequestException);
+    expect(em.flush).not.toHaveBeenCalled();
+  });
+
+  it('should check for cycles against paths read after locking the tenant', async () => {
+    // 并发的移动已将 a 移到 b 之下：锁定前读到的 b 仍是根组织，锁定后重新读取到最新路径
+    const stale = { id: 'b', tenantId: 't1', level: 0, path: '/b' };
+    const movedA = { id: 'a', tenantId: 't1', level: 1, path: '/b/a' };
+    em.findOne.mockResolvedValueOnce(stale).mockResolvedValueOnce(tenant).mockResolvedValueOnce(movedA);
+
+    await expect(service.moveOrganization('b', 'a')).rejects.toBeInstanceOf(BadRequestException);
+
+    const [, lockCall, parentCall] = em.findOne.mock.calls;
+    expect(lockCall).toEqual([expect.anything(), { id: 't1' }, { lockMode: LockMode.PESSIMISTIC_WRITE }]);
+    expect(parentCall).toEqual([expect.anything(), { id: 'a', tenantId: 't1' }]);
+    const [, lockOrder, parentOrder] = em.findOne.mock.invocationCallOrder;
+    expect(em.refresh.mock.invocationCallOrder[0]).toBeGreaterThan(lockOrder);
+    expect(em.refresh.mock.invocationCallOrder[0]).toBeLessThan(parentOrder);
+    expect(em.flush).not.toHaveBeenCalled();
+  });
+
+  it('should return ancestors parsed from the path', async () => {
+    entityManager.findOne.mockResolvedValue({ id: 'c', tenantId: 't1', level: 2, path: '/a/b/c' });
+
+    await service.getAncestors('c');
+
+    expect(entityManager.find.mock.calls[0][2]).toEqual({ tenantId: 't1', id: { $in: ['a', 'b'] } });
+  });
+
+  it('should nest descendants in the tree', async () => {
+    entityManager.findOne.mockResolvedValue({ id: 'a', tenantId: 't1', level: 0, path: '/a' });
+    entityManager.find.mockResolvedValue([
+      { id: 'b', parentId: 'a', level: 1, path: '/a/b' },
+      { id: 'c', parentId: 'b', level: 2, path: '/a/b/c' },
+    ]);
+
+    const { tree } = await service.getTree('a');
+
+    expect(tree.children[0].id).toBe('b');
+    expect(tree.children[0].children[0].id).toBe('c');
+  });
+
+  it('should refuse to delete organizations that still have children', async () => {
+    entityManager.findOne.mockResolvedValue({ id: 'a', tenantId: 't1' });
+    entityManager.count.mockResolvedValue(1);
+
+    await expect(service.deleteOrganization('a')).rejects.toBeInstanceOf(ConflictException);
+  });
+
+  it('should restore a deleted organization within the tenant quota', async () => {
+    const deleted = { id: 'b', tenantId: 't1', parentId: 'a', deletedAt: new Date(), deletedBy: 'admin-1' };
+    em.findOne.mockResolvedValue(deleted);
+
+    const { organization } = await service.restoreOrganization('b');
+
+    expect(em.findOne).toHaveBeenCalledWith(expect.anything(), { id: 'b' }, {
+      filters: { 'soft-deletable-filter': false },
+    });
+    expect(quotaService.assertOrganizationQuota).toHaveBeenCalledWith('t1', em);
+    expect(organization).toMatchObject({ deletedAt: undefined, deletedBy: undefined });
+    expect(em.flush).toHaveBeenCalled();
+  });
+
+  it('should refuse to restore an organization under a deleted parent', async () => {
+    em.findOne.mockResolvedValue({ id: 'b', tenantId: 't1', parentId: 'a', deletedAt: new Date() });
+    em.count.mockResolvedValue(0);
+
+    await expect(service.restoreOrganization('b')).rejects.toBeInstanceOf(ConflictException);
+    expect(em.flush).not.toHaveBeenCalled();
+  });
+});
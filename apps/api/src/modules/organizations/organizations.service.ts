@@ -1,7 +1,59 @@
-import { Injectable } from '@nestjs/common';
-// import { InjectRepository } from '@mikro-orm/nestjs';
-// import { EntityRepository } from '@mikro-orm/core';
-// import { Organization } from '@hl8/database';
+import { BadRequestException, ConflictException, Injectable, NotFoundException } from '@nestjs/common';
+import { EntityManager, FilterQuery, LockMode, wrap } from '@mikro-orm/core';
+import { CreateOrganizationDto, OrganizationQueryDto, UpdateOrganizationDto } from '@hl8/contracts';
+import {
+  assertVersion,
+  EntityManagerService,
+  isSoftDeleted,
+  ListQuerySpec,
+  Organization,
+  OrganizationStatus,
+  OrganizationType,
+  Tenant,
+  withDeleted,
+} from '@hl8/database';
+import { QuotaService } from '../tenants/quota.service';
+
+/**
+ * 组织路径最大长度
+ *
+ * @description 与 Organization.path 列长度保持一致
+ */
+const MAX_PATH_LENGTH = 500;
+
+/**
+ * 组织路径分隔符
+ */
+const PATH_SEPARATOR = '/';
+
+/**
+ * 组织列表查询规格
+ *
+ * @description 组织列表允许的过滤、排序与搜索字段
+ */
+const ORGANIZATION_LIST_SPEC: ListQuerySpec<Organization> = {
+  filters: { tenantId: 'uuid', type: 'enum', status: 'enum', parentId: 'uuid', createdAt: 'date' },
+  sortable: ['tenantId', 'path', 'name', 'level', 'createdAt'],
+  searchable: ['name'],
+  defaultSort: 'tenantId:asc,path:asc',
+};
+
+/**
+ * 组织树节点
+ *
+ * @description 组织树接口返回的节点结构
+ */
+export interface OrganizationTreeNode {
+  id: string;
+  name: string;
+  type: OrganizationType;
+  status: OrganizationStatus;
+  parentId?: string;
+  level: number;
+  path?: string;
+  leaderId?: string;
+  children: OrganizationTreeNode[];
+}
 
 /**
  * 组织管理服务
@@ -9,78 +61,80 @@ import { Injectable } from '@nestjs/common';
  * 提供组织的创建、配置、权限管理等功能
  * 支持多种组织类型的统一管理
  *
+ * ## 层级规则
+ * - 根组织 level 为 0，path 为 `/<id>`
+ * - 子组织 level 为父组织 level + 1，path 为 `<父组织 path>/<id>`
+ * - 父子组织必须属于同一租户
+ * - 移动子树时在同一事务内重写所有后代的 level 与 path，禁止移动到自身或后代之下
+ * - 存在子组织的组织不可删除，删除为软删除，已删除的子组织不计入
+ * - 恢复子组织前须先恢复其父组织
+ *
  * @description 组织管理服务，负责组织相关的业务逻辑
  * @since 1.0.0
  */
 @Injectable()
 export class OrganizationsService {
-  // constructor(
-  //   @InjectRepository(Organization)
-  //   private readonly organizationRepository: EntityRepository<Organization>,
-  // ) {}
+  constructor(
+    private readonly entityManager: EntityManagerService,
+    private readonly quotaService: QuotaService,
+  ) {}
+
   /**
    * 获取所有组织
    *
-   * @description 获取组织列表
-   * @returns 组织列表
-   */
-  async getOrganizations() {
-    // 模拟数据
-    const mockOrganizations = [
-      {
-        id: '1',
-        name: 'Technical Committee',
-        description: 'Technical decision making committee',
-        type: 'committee',
-        status: 'active',
-        tenantId: 'tenant-1',
-        parentId: null,
-        level: 0,
-        createdBy: 'admin',
-        createdAt: new Date(),
-      },
-      {
-        id: '2',
-        name: 'Quality Assurance Team',
-        description: 'Quality control and testing team',
-        type: 'quality_group',
-        status: 'active',
-        tenantId: 'tenant-1',
-        parentId: null,
-        level: 0,
-        createdBy: 'admin',
-        createdAt: new Date(),
-      }
-    ];
-    
-    return { 
-      message: 'Organizations retrieved successfully', 
-      organizations: mockOrganizations
+   * @description 分页获取组织列表，默认按租户与层级路径排序，支持按租户、类型、状态、父组织与创建时间过滤，
+   * 以及按名称搜索；includeDeleted 为 true 时包含已删除组织
+   * @param query - 查询条件
+   * @returns 组织列表及分页信息
+   */
+  async getOrganizations(query: OrganizationQueryDto = {}) {
+    const { items: organizations, ...page } = await this.entityManager.findPage(
+      'postgresql',
+      Organization,
+      query,
+      ORGANIZATION_LIST_SPEC,
+      {},
+      withDeleted(query.includeDeleted === true),
+    );
+
+    return {
+      message: 'Organizations retrieved successfully',
+      organizations,
+      ...page,
     };
   }
 
   /**
    * 创建新组织
    *
-   * @description 创建新的组织实例
+   * @description 校验租户的组织配额后创建组织，并根据父组织计算层级与路径
    * @param organizationData - 组织数据
    * @returns 创建的组织信息
+   * @throws {NotFoundException} 租户或父组织不存在，或父组织不属于同一租户
+   * @throws {BadRequestException} 层级过深导致路径超出长度限制
+   * @throws {ForbiddenException} 超出租户的组织配额
    */
-  async createOrganization(organizationData: any) {
-    // 模拟创建组织
-    const newOrganization = {
-      id: Date.now().toString(),
-      name: organizationData.name,
-      description: organizationData.description,
-      type: organizationData.type || 'committee',
-      status: organizationData.status || 'active',
-      tenantId: organizationData.tenantId,
-      createdAt: new Date(),
-    };
-    
-    return { 
-      message: 'Organization created successfully', 
-      organization: newOrganization
+  async createOrganization(organizationData: CreateOrganizationDto) {
+    const organization = await this.entityManager.transaction('postgresql', async (em) => {
+      await this.quotaService.assertOrganizationQuota(organizationData.tenantId, em);
+      const parent = organizationData.parentId
+        ? await this.findInTenantOrFail(em, organizationData.parentId, organizationData.tenantId)
+        : null;
+
+      const created = em.create(Organization, {
+        ...organizationData,
+        tenant: organizationData.tenantId,
+        level: parent ? parent.level + 1 : 0,
+      });
+      created.path = this.buildPath(parent?.path, created.id);
+
+      await em.persistAndFlush(created);
+      return created;
+    });
+
+    return {
+      message: 'Organization created successfully',
+      organization,
     };
   }
 
@@ -90,30 +144,14 @@ export class OrganizationsService {
    * @description 根据组织ID获取组织详细信息
    * @param organizationId - 组织ID
    * @returns 组织信息
+   * @throws {NotFoundException} 组织不存在
    */
   async getOrganization(organizationId: string) {
-    // 模拟获取组织
-    const mockOrganization = {
-      id: organizationId,
-      name: 'Organization ' + organizationId,
-      description: 'Organization description',
-      type: 'committee',
-      status: 'active',
-      tenantId: 'tenant-1',
-      parentId: null,
-      level: 0,
-      path: '/org/' + organizationId,
-      config: {},
-      profile: {},
-      leaderId: 'leader-1',
-      createdBy: 'admin',
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
-    
-    return { 
-      message: 'Organization retrieved successfully', 
-      organization: mockOrganization
+    const organization = await this.findOrganizationOrFail(organizationId);
+
+    return {
+      message: 'Organization retrieved successfully',
+      organization,
     };
   }
 
@@ -123,36 +161,347 @@ export class OrganizationsService {
    * @description 更新组织的配置信息
    * @param organizationId - 组织ID
    * @param updateData - 更新数据
+   * @param expectedVersion - 客户端期望的组织版本，未指定时不校验
    * @returns 更新结果
+   * @throws {NotFoundException} 组织不存在
+   * @throws {EntityVersionConflictError} 组织版本与期望版本不一致，或更新期间被其他请求修改
    */
-  async updateOrganization(organizationId: string, updateData: any) {
-    // 模拟更新组织
-    const updatedOrganization = {
-      id: organizationId,
-      name: updateData.name || 'Organization ' + organizationId,
-      description: updateData.description || 'Organization description',
-      status: updateData.status || 'active',
-      updatedAt: new Date(),
-    };
-    
-    return { 
-      message: 'Organization updated successfully', 
-      organization: updatedOrganization
+  async updateOrganization(organizationId: string, updateData: UpdateOrganizationDto, expectedVersion?: number) {
+    const organization = await this.findOrganizationOrFail(organizationId);
+    assertVersion(organization, expectedVersion);
+
+    wrap(organization).assign(updateData);
+    const updatedOrganization = await this.entityManager.update('postgresql', organization);
+
+    return {
+      message: 'Organization updated successfully',
+      organization: updatedOrganization,
     };
   }
 
   /**
    * 删除组织
    *
-   * @description 删除指定的组织
+   * @description 软删除指定的组织，存在子组织时拒绝删除
    * @param organizationId - 组织ID
    * @returns 删除结果
+   * @throws {NotFoundException} 组织不存在
+   * @throws {ConflictException} 组织仍有子组织
    */
   async deleteOrganization(organizationId: string) {
-    // 模拟删除组织
-    return { 
-      message: 'Organization deleted successfully', 
-      organizationId 
+    const organization = await this.findOrganizationOrFail(organizationId);
+
+    const childCount = await this.entityManager.count('postgresql', Organization, {
+      tenantId: organization.tenantId,
+      parentId: organization.id,
+    });
+    if (childCount > 0) {
+      throw new ConflictException('Organization still has child organizations');
+    }
+
+    await this.entityManager.remove('postgresql', organization);
+
+    return {
+      message: 'Organization deleted successfully',
+      organizationId,
+    };
+  }
+
+  /**
+   * 恢复组织
+   *
+   * @description 清除已删除组织的删除标记，恢复前校验租户的组织配额
+   * @param organizationId - 组织ID
+   * @returns 恢复结果
+   * @throws {NotFoundException} 组织不存在
+   * @throws {ConflictException} 组织未被删除，或父组织仍处于删除状态
+   * @throws {ForbiddenException} 超出租户的组织配额
+   */
+  async restoreOrganization(organizationId: string) {
+    const organization = await this.entityManager.transaction('postgresql', async (em) => {
+      const deleted = await em.findOne(Organization, { id: organizationId }, withDeleted());
+      if (!deleted) {
+        throw new NotFoundException(`Organization ${organizationId} not found`);
+      }
+      if (!isSoftDeleted(deleted)) {
+        throw new ConflictException(`Organization ${organizationId} is not deleted`);
+      }
+      if (deleted.parentId && !(await em.count(Organization, { id: deleted.parentId, tenantId: deleted.tenantId }))) {
+        throw new ConflictException('Parent organization is deleted and must be restored first');
+      }
+      await this.quotaService.assertOrganizationQuota(deleted.tenantId, em);
+
+      deleted.deletedAt = undefined;
+      deleted.deletedBy = undefined;
+      await em.flush();
+      return deleted;
+    });
+
+    return {
+      message: 'Organization restored successfully',
+      organization,
+    };
+  }
+
+  /**
+   * 获取直接子组织
+   *
+   * @description 获取指定组织的直接下级组织
+   * @param organizationId - 组织ID
+   * @returns 子组织列表
+   * @throws {NotFoundException} 组织不存在
+   */
+  async getChildren(organizationId: string) {
+    const organization = await this.findOrganizationOrFail(organizationId);
+    const organizations = await this.entityManager.find('postgresql', Organization, {
+      tenantId: organization.tenantId,
+      parentId: organization.id,
+    }, {
+      orderBy: { name: 'asc' },
+    });
+
+    return {
+      message: 'Child organizations retrieved successfully',
+      organizations,
+    };
+  }
+
+  /**
+   * 获取所有后代组织
+   *
+   * @description 基于路径前缀获取指定组织下的全部后代组织
+   * @param organizationId - 组织ID
+   * @returns 后代组织列表，按路径排序
+   * @throws {NotFoundException} 组织不存在
+   */
+  async getDescendants(organizationId: string) {
+    const organization = await this.findOrganizationOrFail(organizationId);
+    const organizations = await this.entityManager.find('postgresql', Organization, this.descendantsFilter(organization), {
+      orderBy: { path: 'asc' },
+    });
+
+    return {
+      message: 'Descendant organizations retrieved successfully',
+      organizations,
+    };
+  }
+
+  /**
+   * 获取所有祖先组织
+   *
+   * @description 根据路径解析祖先组织，按层级从根到父排序
+   * @param organizationId - 组织ID
+   * @returns 祖先组织列表
+   * @throws {NotFoundException} 组织不存在
+   */
+  async getAncestors(organizationId: string) {
+    const organization = await this.findOrganizationOrFail(organizationId);
+    const ancestorIds = this.parsePath(organization.path).filter((id) => id !== organization.id);
+
+    const organizations = ancestorIds.length
+      ? await this.entityManager.find('postgresql', Organization, {
+          tenantId: organization.tenantId,
+          id: { $in: ancestorIds },
+        }, {
+          orderBy: { level: 'asc' },
+        })
+      : [];
+
+    return {
+      message: 'Ancestor organizations retrieved successfully',
+      organizations,
+    };
+  }
+
+  /**
+   * 获取组织树
+   *
+   * @description 以指定组织为根，构建包含全部后代的嵌套树
+   * @param organizationId - 组织ID
+   * @returns 组织树
+   * @throws {NotFoundException} 组织不存在
+   */
+  async getTree(organizationId: string) {
+    const organization = await this.findOrganizationOrFail(organizationId);
+    const descendants = await this.entityManager.find('postgresql', Organization, this.descendantsFilter(organization), {
+      orderBy: { path: 'asc' },
+    });
+
+    return {
+      message: 'Organization tree retrieved successfully',
+      tree: this.buildTree(organization, descendants),
     };
   }
+
+  /**
+   * 移动组织子树
+   *
+   * @description 将组织及其全部后代移动到新的父组织下（为空时成为根组织），
+   * 在同一事务内重写后代的层级与路径；已删除的后代一并重写，恢复后仍位于正确的位置。
+   * 同一租户内的移动以租户行锁串行执行，锁定后重新读取组织与新父组织的路径再做环路检查，并发的相向移动不会形成环
+   * @param organizationId - 被移动的组织ID
+   * @param parentId - 新的父组织ID，为 null 时移动为根组织
+   * @returns 移动后的组织信息
+   * @throws {NotFoundException} 组织或新父组织不存在，或不属于同一租户
+   * @throws {BadRequestException} 目标父组织为自身或其后代，或路径超出长度限制
+   */
+  async moveOrganization(organizationId: string, parentId: string | null) {
+    const organization = await this.entityManager.transaction('postgresql', async (em) => {
+      const found = await em.findOne(Organization, { id: organizationId });
+      if (!found) {
+        throw new NotFoundException(`Organization ${organizationId} not found`);
+      }
+
+      await em.findOne(Tenant, { id: found.tenantId }, { lockMode: LockMode.PESSIMISTIC_WRITE });
+      const target = await em.refresh(found);
+      if (!target) {
+        throw new NotFoundException(`Organization ${organizationId} not found`);
+      }
+
+      const parent = parentId ? await this.findInTenantOrFail(em, parentId, target.tenantId) : null;
+      if (parent && this.parsePath(parent.path).includes(target.id)) {
+        throw new BadRequestException('Cannot move an organization under itself or its descendants');
+      }
+
+      const oldPath = target.path ?? this.buildPath(undefined, target.id);
+      const newPath = this.buildPath(parent?.path, target.id);
+      const levelDelta = (parent ? parent.level + 1 : 0) - target.level;
+      const descendants = await em.find(Organization, this.descendantsFilter(target), withDeleted());
+
+      for (const descendant of descendants) {
+        descendant.path = this.buildPathWithinLimit(newPath + (descendant.path ?? '').slice(oldPath.length));
+        descendant.level += levelDelta;
+      }
+
+      target.parentId = parent?.id;
+      target.path = newPath;
+      target.level += levelDelta;
+
+      await em.flush();
+      return target;
+    });
+
+    return {
+      message: 'Organization moved successfully',
+      organization,
+    };
+  }
+
+  /**
+   * 查找组织，不存在时抛出异常
+   *
+   * @param organizationId - 组织ID
+   * @returns 组织实体
+   * @throws {NotFoundException} 组织不存在
+   */
+  private async findOrganizationOrFail(organizationId: string): Promise<Organization> {
+    const organization = await this.entityManager.findOne('postgresql', Organization, { id: organizationId });
+    if (!organization) {
+      throw new NotFoundException(`Organization ${organizationId} not found`);
+    }
+    return organization;
+  }
+
+  /**
+   * 在租户范围内查找组织
+   *
+   * @description 父组织必须与子组织属于同一租户，跨租户视为不存在
+   * @param em - 实体管理器（事务内）
+   * @param organizationId - 组织ID
+   * @param tenantId - 租户ID
+   * @returns 组织实体
+   * @throws {NotFoundException} 组织不存在或不属于该租户
+   */
+  private async findInTenantOrFail(em: EntityManager, organizationId: string, tenantId: string): Promise<Organization> {
+    const organization = await em.findOne(Organization, { id: organizationId, tenantId });
+    if (!organization) {
+      throw new NotFoundException(`Organization ${organizationId} not found in tenant ${tenantId}`);
+    }
+    return organization;
+  }
+
+  /**
+   * 构建后代组织查询条件
+   *
+   * @description 基于路径前缀匹配，并限定在组织所属租户内
+   * @param organization - 根组织
+   * @returns 后代组织查询条件
+   */
+  private descendantsFilter(organization: Organization): FilterQuery<Organization> {
+    const prefix = organization.path ?? this.buildPath(undefined, organization.id);
+    return {
+      tenantId: organization.tenantId,
+      path: { $like: `${prefix}${PATH_SEPARATOR}%` },
+    };
+  }
+
+  /**
+   * 构建组织路径
+   *
+   * @param parentPath - 父组织路径，根组织为空
+   * @param organizationId - 组织ID
+   * @returns 组织路径
+   * @throws {BadRequestException} 路径超出长度限制
+   */
+  private buildPath(parentPath: string | undefined, organizationId: string): string {
+    return this.buildPathWithinLimit(`${parentPath ?? ''}${PATH_SEPARATOR}${organizationId}`);
+  }
+
+  /**
+   * 校验路径长度
+   *
+   * @param path - 组织路径
+   * @returns 原路径
+   * @throws {BadRequestException} 路径超出长度限制
+   */
+  private buildPathWithinLimit(path: string): string {
+    if (path.length > MAX_PATH_LENGTH) {
+      throw new BadRequestException('Organization hierarchy is too deep');
+    }
+    return path;
+  }
+
+  /**
+   * 解析组织路径
+   *
+   * @param path - 组织路径
+   * @returns 路径上的组织ID列表，从根到自身
+   */
+  private parsePath(path?: string): string[] {
+    return (path ?? '').split(PATH_SEPARATOR).filter(Boolean);
+  }
+
+  /**
+   * 构建组织树
+   *
+   * @param root - 根组织
+   * @param descendants - 按路径排序的后代组织
+   * @returns 组织树根节点
+   */
+  private buildTree(root: Organization, descendants: Organization[]): OrganizationTreeNode {
+    const toNode = (organization: Organization): OrganizationTreeNode => ({
+      id: organization.id,
+      name: organization.name,
+      type: organization.type,
+      status: organization.status,
+      parentId: organization.parentId,
+      level: organization.level,
+      path: organization.path,
+      leaderId: organization.leaderId,
+      children: [],
+    });
+
+    const rootNode = toNode(root);
+    const nodes = new Map<string, OrganizationTreeNode>([[root.id, rootNode]]);
+
+    for (const organization of descendants) {
+      const node = toNode(organization);
+      nodes.set(organization.id, node);
+      if (organization.parentId) {
+        nodes.get(organization.parentId)?.children.push(node);
+      }
+    }
+
+    return rootNode;
+  }
 }
@@ -0,0 +1,30 @@
+import { Controller, Post, Body } from '@nestjs/common';
+import { Public } from '@hl8/common';
+import { RegisterDto } from '@hl8/contracts';
+import { RegistrationService } from './registration.service';
+
+/**
+ * 自助注册控制器
+ *
+ * 提供用户自助注册接口，与认证接口共用 `auth` 路由前缀
+ *
+ * @description 自助注册控制器，处理注册相关的HTTP请求
+ * @since 1.0.0
+ */
+@Controller('auth')
+export class RegistrationController {
+  constructor(private readonly registrationService: RegistrationService) {}
+
+  /**
+   * 用户注册
+   *
+   * @description 注册用户并创建新租户，或通过邀请加入已有租户
+   * @param registerDto - 注册的数据传输对象
+   * @returns 注册的用户与所属租户
+   */
+  @Public()
+  @Post('register')
+  async register(@Body() registerDto: RegisterDto) {
+    return this.registrationService.register(registerDto);
+  }
+}
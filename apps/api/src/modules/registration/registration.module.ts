@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { RegistrationService } from './registration.service';
+import { RegistrationController } from './registration.controller';
+import { AuthModule } from '../auth/auth.module';
+import { InvitationsModule } from '../invitations/invitations.module';
+import { TenantsModule } from '../tenants/tenants.module';
+
+/**
+ * 自助注册模块
+ *
+ * 提供用户自助注册与租户开通功能
+ * 注册时创建新租户，或通过邀请加入已有租户
+ *
+ * @description 自助注册模块，负责用户注册流程
+ * @since 1.0.0
+ */
+@Module({
+  imports: [AuthModule, InvitationsModule, TenantsModule],
+  controllers: [RegistrationController],
+  providers: [RegistrationService],
+})
+export class RegistrationModule {}
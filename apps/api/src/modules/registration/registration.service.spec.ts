@@ -0,0 +1,176 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException, ForbiddenException } from '@nestjs/common';
+import { compare } from 'bcryptjs';
+import { TenantType } from '@hl8/common';
+import { ConfigService } from '@hl8/config';
+import { EntityManagerService, runWithActor } from '@hl8/database';
+import { generateSha256Hash } from '@hl8/utils';
+import { PasswordService } from '../auth/password.service';
+import { VerificationService } from '../auth/verification.service';
+import { DomainEventsService } from '../events/domain-events.service';
+import { InvitationsService } from '../invitations/invitations.service';
+import { MailService } from '../mail/mail.service';
+import { QuotaService } from '../tenants/quota.service';
+import { TenantLifecycleService } from '../tenants/tenant-lifecycle.service';
+import { TenantCacheService } from '../tenancy/tenant-cache.service';
+import { RegistrationService } from './registration.service';
+
+// 配置与数据库包在加载时会初始化连接配置，单元测试中以轻量替身隔离
+jest.mock('@hl8/config', () => ({ ConfigService: class ConfigService {} }));
+jest.mock('@hl8/database', () => ({
+  EntityManagerService: class EntityManagerService {},
+  User: class User {},
+  Tenant: class Tenant {},
+  Invitation: class Invitation {},
+  TenantStatusTransition: class TenantStatusTransition {},
+  runWithActor: jest.fn((_actorId, callback) => callback()),
+  UserStatus: { ACTIVE: 'active', PENDING: 'pending' },
+  UserType: { TENANT_USER: 'tenant_user' },
+  TenantStatus: { ACTIVE: 'active', SUSPENDED: 'suspended' },
+  TenantType: { PERSONAL: 'personal', TEAM: 'team' },
+}));
+jest.mock('../auth/verification.service', () => ({ VerificationService: class VerificationService {} }));
+jest.mock('../tenancy/tenant-cache.service', () => ({ TenantCacheService: class TenantCacheService {} }));
+jest.mock('../events/domain-events.service', () => ({ DomainEventsService: class DomainEventsService {} }));
+
+describe('RegistrationService', () => {
+  let service: RegistrationService;
+  let features: Record<string, boolean>;
+  let rows: Record<string, Record<string, unknown>[]>;
+  let verificationService: { sendEmailVerification: jest.Mock };
+  let entityManager: Record<string, jest.Mock>;
+
+  const registerData = { username: 'alice', email: 'alice@example.com', password: 'S3cret-pass' };
+
+  beforeEach(async () => {
+    features = { userRegistration: true };
+    rows = { User: [], Tenant: [], Invitation: [], TenantStatusTransition: [] };
+
+    // 事务回调中的变更只在回调成功后写入 rows，模拟事务回滚
+    let sequence = 0;
+    const matches = (row: Record<string, unknown>, where: Record<string, unknown>) =>
+      Object.entries(where).every(([key, value]) => row[key] === value);
+    entityManager = {
+      withoutTenantScope: jest.fn((callback) => callback()),
+      findOne: jest.fn(async (_db, _entity, where) =>
+        rows['User'].find((row) => where.$or.some((condition: Record<string, unknown>) => matches(row, condition))) ??
+        null,
+      ),
+      transaction: jest.fn(async (_db, callback) => {
+        const pending: [string, Record<string, unknown>][] = [];
+        const kinds = new Map<Record<string, unknown>, string>();
+        const em = {
+          create: jest.fn((entity, data) => {
+            const record = { id: `${entity.name.toLowerCase()}-${++sequence}`, ...data };
+            kinds.set(record, entity.name);
+            return record;
+          }),
+          persist: jest.fn((record) => pending.push([kinds.get(record) as string, record])),
+          findOne: jest.fn(async (entity, where) => rows[entity.name].find((row) => matches(row, where)) ?? null),
+          findOneOrFail: jest.fn(async (entity, where) => rows[entity.name].find((row) => matches(row, where))),
+        };
+        const result = await callback(em);
+        for (const [kind, record] of pending) {
+          rows[kind].push(record);
+        }
+        return result;
+      }),
+    };
+    verificationService = { sendEmailVerification: jest.fn() };
+
+    const config: Record<string, unknown> = { 'auth.passwordSaltRounds': 4 };
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RegistrationService,
+        PasswordService,
+        InvitationsService,
+        QuotaService,
+        TenantLifecycleService,
+        { provide: TenantCacheService, useValue: {} },
+        { provide: DomainEventsService, useValue: {} },
+        { provide: VerificationService, useValue: verificationService },
+        { provide: MailService, useValue: {} },
+        { provide: EntityManagerService, useValue: entityManager },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key], isFeatureEnabled: (name: string) => features[name] === true },
+        },
+      ],
+    }).compile();
+
+    service = module.get<RegistrationService>(RegistrationService);
+  });
+
+  it('should create a personal tenant owned by the new pending user', async () => {
+    const result = await service.register(registerData);
+
+    expect(result.tenant).toMatchObject({ name: 'alice', type: 'personal', adminId: result.user.id });
+    expect(runWithActor).toHaveBeenCalledWith(result.user.id, expect.any(Function));
+    expect(result.user).toMatchObject({ type: 'tenant_user', status: 'pending', role: 'owner', tenantId: result.tenant.id });
+    expect(await compare('S3cret-pass', result.user.passwordHash)).toBe(true);
+    expect(rows['User']).toHaveLength(1);
+    expect(rows['Tenant']).toHaveLength(1);
+    expect(rows['TenantStatusTransition']).toEqual([
+      expect.objectContaining({ tenantId: result.tenant.id, action: 'create', performedBy: result.user.id }),
+    ]);
+    expect(verificationService.sendEmailVerification).toHaveBeenCalledWith(result.user);
+  });
+
+  it('should create a team tenant with the given name', async () => {
+    const result = await service.register({ ...registerData, tenant: { name: 'Acme', type: TenantType.TEAM } });
+
+    expect(result.tenant).toMatchObject({ name: 'Acme', type: 'team' });
+  });
+
+  it('should join the invited tenant and activate the user', async () => {
+    rows['Tenant'].push({ id: 'tenant-acme', status: 'active' });
+    const invitation: Record<string, unknown> = {
+      tenantId: 'tenant-acme',
+      organizationId: 'org-1',
+      email: 'Alice@Example.com',
+      role: 'member',
+      tokenHash: generateSha256Hash('invite-token'),
+      expiresAt: new Date(Date.now() + 60_000),
+    };
+    rows['Invitation'].push(invitation);
+
+    const result = await service.register({ ...registerData, invitationToken: 'invite-token' });
+
+    expect(result.tenant).toMatchObject({ id: 'tenant-acme' });
+    expect(result.user).toMatchObject({ status: 'active', tenantId: 'tenant-acme', organizationId: 'org-1', role: 'member' });
+    expect(result.user.emailVerifiedAt).toBeInstanceOf(Date);
+    expect(invitation).toMatchObject({ acceptedBy: result.user.id });
+    expect(rows['Tenant']).toHaveLength(1);
+    expect(rows['TenantStatusTransition']).toHaveLength(0);
+    expect(verificationService.sendEmailVerification).not.toHaveBeenCalled();
+  });
+
+  it('should roll back the user when the invitation is invalid', async () => {
+    rows['Tenant'].push({ id: 'tenant-acme', status: 'active' });
+    rows['Invitation'].push({
+      tenantId: 'tenant-acme',
+      email: 'bob@example.com',
+      tokenHash: generateSha256Hash('invite-token'),
+      expiresAt: new Date(Date.now() + 60_000),
+    });
+
+    await expect(service.register({ ...registerData, invitationToken: 'invite-token' })).rejects.toMatchObject({
+      response: { code: 'INVALID_INVITATION' },
+    });
+    expect(rows['User']).toHaveLength(0);
+  });
+
+  it('should reject taken usernames', async () => {
+    rows['User'].push({ id: 'user-0', username: 'alice', email: 'other@example.com' });
+
+    await expect(service.register(registerData)).rejects.toBeInstanceOf(ConflictException);
+  });
+
+  it('should reject registration when the feature is disabled', async () => {
+    features['userRegistration'] = false;
+
+    await expect(service.register(registerData)).rejects.toBeInstanceOf(ForbiddenException);
+    await expect(service.register(registerData)).rejects.toMatchObject({ response: { code: 'FEATURE_DISABLED' } });
+    expect(entityManager['transaction']).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,167 @@
+import { randomUUID } from 'crypto';
+import { BadRequestException, ConflictException, ForbiddenException, Injectable } from '@nestjs/common';
+import { UniqueConstraintViolationException } from '@mikro-orm/core';
+import { ConfigService } from '@hl8/config';
+import { ErrorCode } from '@hl8/constants';
+import { RegisterDto } from '@hl8/contracts';
+import { EntityManagerService, runWithActor, Tenant, TenantType, User, UserStatus, UserType } from '@hl8/database';
+import { PasswordService } from '../auth/password.service';
+import { VerificationService } from '../auth/verification.service';
+import { InvitationsService } from '../invitations/invitations.service';
+import { TenantLifecycleService } from '../tenants/tenant-lifecycle.service';
+
+/**
+ * 租户创建者的角色
+ */
+const TENANT_OWNER_ROLE = 'owner';
+
+/**
+ * 自助注册服务
+ *
+ * 提供用户自助注册功能，整个流程受 `features.userRegistration` 开关控制
+ *
+ * ## 业务规则
+ * - 用户名与邮箱全局唯一，冲突时返回 409
+ * - 密码需满足密码强度策略
+ * - 未提供邀请令牌时创建新租户（个人或团队），注册用户成为租户的创建者与管理员，角色为 owner
+ * - 提供邀请令牌时加入邀请的租户，邀请邮件已证明邮箱归属，用户直接激活
+ * - 创建租户时用户以 PENDING 状态创建，注册完成后发送邮箱验证邮件
+ * - 用户、租户与邀请的变更在同一事务内完成，任一步骤失败时全部回滚
+ *
+ * @description 自助注册服务，负责注册用户与租户开通
+ * @since 1.0.0
+ */
+@Injectable()
+export class RegistrationService {
+  constructor(
+    private readonly entityManager: EntityManagerService,
+    private readonly configService: ConfigService,
+    private readonly passwordService: PasswordService,
+    private readonly verificationService: VerificationService,
+    private readonly invitationsService: InvitationsService,
+    private readonly tenantLifecycle: TenantLifecycleService,
+  ) {}
+
+  /**
+   * 注册用户
+   *
+   * @description 创建用户，并创建新租户或通过邀请加入已有租户
+   * @param registerData - 注册数据
+   * @returns 注册的用户与所属租户
+   * @throws {ForbiddenException} 自助注册未启用
+   * @throws {BadRequestException} 同时提供租户与邀请令牌、密码不满足强度策略或邀请无效
+   * @throws {ConflictException} 用户名或邮箱已存在
+   */
+  async register(registerData: RegisterDto) {
+    this.assertEnabled();
+    if (registerData.tenant && registerData.invitationToken) {
+      throw new BadRequestException('Provide either tenant or invitationToken, not both');
+    }
+
+    this.passwordService.assertStrength(registerData.password, registerData);
+    await this.assertUniqueIdentity(registerData.username, registerData.email);
+    const passwordHash = await this.passwordService.hash(registerData.password);
+
+    // 注册请求尚未认证，新用户即自身与其租户的创建人；通过邀请加入时需按令牌查找任一租户的邀请
+    const userId = randomUUID();
+    const { user, tenant } = await this.persist(() =>
+      runWithActor(userId, () =>
+        this.entityManager.withoutTenantScope(() =>
+          this.entityManager.transaction('postgresql', async (em) => {
+            const created = em.create(User, {
+              id: userId,
+              username: registerData.username,
+              email: registerData.email,
+              passwordHash,
+              type: UserType.TENANT_USER,
+              status: UserStatus.PENDING,
+            });
+            em.persist(created);
+
+            if (registerData.invitationToken) {
+              await this.invitationsService.accept(em, registerData.invitationToken, created);
+              created.emailVerifiedAt = new Date();
+              created.status = UserStatus.ACTIVE;
+              return { user: created, tenant: await em.findOneOrFail(Tenant, { id: created.tenantId }) };
+            }
+
+            const tenant = em.create(Tenant, {
+              name: registerData.tenant?.name ?? registerData.username,
+              type: registerData.tenant?.type ?? TenantType.PERSONAL,
+              adminId: created.id,
+            });
+            created.tenantId = tenant.id;
+            created.role = TENANT_OWNER_ROLE;
+            em.persist(tenant);
+            this.tenantLifecycle.recordCreation(em, tenant, created.id);
+            return { user: created, tenant };
+          }),
+        ),
+      ),
+    );
+
+    if (user.status === UserStatus.PENDING) {
+      await this.verificationService.sendEmailVerification(user);
+    }
+
+    return {
+      message: 'User registered successfully',
+      user,
+      tenant,
+    };
+  }
+
+  /**
+   * 校验用户名与邮箱唯一性
+   *
+   * @description 用户名与邮箱全局唯一，跨所有租户校验
+   * @param username - 用户名
+   * @param email - 邮箱
+   * @throws {ConflictException} 用户名或邮箱已存在
+   */
+  private async assertUniqueIdentity(username: string, email: string): Promise<void> {
+    const existing = await this.entityManager.withoutTenantScope(() =>
+      this.entityManager.findOne('postgresql', User, {
+        $or: [{ username }, { email }],
+      }),
+    );
+
+    if (existing) {
+      const field = existing.username === username ? 'username' : 'email';
+      throw new ConflictException(`User with this ${field} already exists`);
+    }
+  }
+
+  /**
+   * 执行持久化操作
+   *
+   * @description 并发注册时数据库唯一约束仍可能触发，统一转换为 409
+   * @param operation - 持久化操作
+   * @returns 操作结果
+   * @throws {ConflictException} 违反唯一约束
+   */
+  private async persist<T>(operation: () => Promise<T>): Promise<T> {
+    try {
+      return await operation();
+    } catch (error) {
+      if (error instanceof UniqueConstraintViolationException) {
+        throw new ConflictException('User with this username or email already exists');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 校验自助注册已启用
+   *
+   * @throws {ForbiddenException} 自助注册未启用
+   */
+  private assertEnabled(): void {
+    if (!this.configService.isFeatureEnabled('userRegistration')) {
+      throw new ForbiddenException({
+        code: ErrorCode.FEATURE_DISABLED,
+        message: 'User registration is disabled',
+      });
+    }
+  }
+}
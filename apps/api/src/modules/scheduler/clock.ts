@@ -0,0 +1,19 @@
+/**
+ * 时钟
+ *
+ * @description 定时任务读取当前时间的扩展点，同时作为依赖注入令牌。
+ * 运行时使用系统时钟，测试中注入 FakeClock 以控制时间
+ *
+ * @example
+ * ```typescript
+ * { provide: Clock, useValue: new FakeClock(new Date('2025-01-01T00:00:00Z')) }
+ * ```
+ */
+export abstract class Clock {
+  /**
+   * 当前时间
+   *
+   * @returns 当前时间
+   */
+  abstract now(): Date;
+}
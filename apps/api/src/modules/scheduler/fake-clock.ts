@@ -0,0 +1,37 @@
+import { Clock } from './clock';
+
+/**
+ * 可控时钟
+ *
+ * @description 时间只在显式设置或推进时变化，用于测试中模拟订阅到期等依赖时间的场景
+ */
+export class FakeClock extends Clock {
+  private current: Date;
+
+  constructor(now: Date = new Date()) {
+    super();
+    this.current = new Date(now);
+  }
+
+  now(): Date {
+    return new Date(this.current);
+  }
+
+  /**
+   * 设置当前时间
+   *
+   * @param now - 新的当前时间
+   */
+  set(now: Date): void {
+    this.current = new Date(now);
+  }
+
+  /**
+   * 推进时间
+   *
+   * @param seconds - 推进的秒数
+   */
+  advance(seconds: number): void {
+    this.current = new Date(this.current.getTime() + seconds * 1000);
+  }
+}
@@ -0,0 +1,64 @@
+import { EntityManagerService } from '@hl8/database';
+import { FakeClock } from './fake-clock';
+import { JobLockService } from './job-lock.service';
+
+jest.mock('@hl8/database', () => ({
+  EntityManagerService: class EntityManagerService {},
+  SchedulerLock: class SchedulerLock {},
+}));
+
+describe('JobLockService', () => {
+  let clock: FakeClock;
+  let locks: Record<string, { name: string; owner: string; lockedUntil: Date }>;
+  let first: JobLockService;
+  let second: JobLockService;
+
+  beforeEach(() => {
+    clock = new FakeClock(new Date('2025-01-01T00:00:00Z'));
+    locks = {};
+
+    // 两个服务实例共享同一张锁表，模拟两个 API 实例
+    const em = {
+      findOne: jest.fn(async (_entity, where) => locks[where.name] ?? null),
+      create: jest.fn((_entity, data) => ({ ...data })),
+      persist: jest.fn((lock) => {
+        locks[lock.name] = lock;
+      }),
+      nativeUpdate: jest.fn(async (_entity, where, data) => {
+        const lock = locks[where.name];
+        if (lock?.owner === where.owner) {
+          Object.assign(lock, data);
+        }
+      }),
+    };
+    const entityManager = {
+      transaction: jest.fn(async (_db, callback) => callback(em)),
+    } as unknown as EntityManagerService;
+
+    first = new JobLockService(entityManager, clock);
+    second = new JobLockService(entityManager, clock);
+  });
+
+  it('should let only one instance hold a lock', async () => {
+    expect(await first.acquire('job', 60)).toBe(true);
+    expect(await second.acquire('job', 60)).toBe(false);
+    expect(await first.acquire('job', 60)).toBe(true);
+  });
+
+  it('should hand the lock over after it is released', async () => {
+    await first.acquire('job', 60);
+    await first.release('job');
+
+    expect(await second.acquire('job', 60)).toBe(true);
+    expect(locks['job'].owner).toBe(second.owner);
+  });
+
+  it('should let another instance take over an expired lease', async () => {
+    await first.acquire('job', 60);
+    clock.advance(61);
+
+    expect(await second.acquire('job', 60)).toBe(true);
+    await first.release('job');
+    expect(await first.acquire('job', 60)).toBe(false);
+  });
+});
@@ -0,0 +1,76 @@
+import { Injectable } from '@nestjs/common';
+import { LockMode, UniqueConstraintViolationException } from '@mikro-orm/core';
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import { EntityManagerService, SchedulerLock } from '@hl8/database';
+import { Clock } from './clock';
+
+/**
+ * 调度锁服务
+ *
+ * 基于 scheduler_locks 表的租约锁，保证多个 API 实例中同一时刻只有一个实例执行同名任务
+ *
+ * ## 锁规则
+ * - 锁未被持有、已到期或由本实例持有时获取成功，并将到期时间延长为当前时间加租约时长
+ * - 获取时锁定锁记录所在行；首次创建锁记录发生主键冲突时视为被其他实例抢先获取
+ * - 释放锁只将本实例持有的锁置为到期，不删除锁记录
+ * - 持有者崩溃时锁在租约到期后自动失效
+ *
+ * @description 调度锁服务，负责定时任务锁的获取与释放
+ * @since 1.0.0
+ */
+@Injectable()
+export class JobLockService {
+  /** 本实例的持有者标识 */
+  readonly owner = `${hostname()}:${process.pid}:${randomUUID()}`;
+
+  constructor(
+    private readonly entityManager: EntityManagerService,
+    private readonly clock: Clock,
+  ) {}
+
+  /**
+   * 获取锁
+   *
+   * @param name - 锁名称
+   * @param ttl - 租约时长（秒）
+   * @returns 是否取得锁
+   */
+  async acquire(name: string, ttl: number): Promise<boolean> {
+    const now = this.clock.now();
+    const lockedUntil = new Date(now.getTime() + ttl * 1000);
+
+    try {
+      return await this.entityManager.transaction('postgresql', async (em) => {
+        const lock = await em.findOne(SchedulerLock, { name }, { lockMode: LockMode.PESSIMISTIC_WRITE });
+        if (!lock) {
+          em.persist(em.create(SchedulerLock, { name, owner: this.owner, lockedUntil }));
+          return true;
+        }
+        if (lock.owner !== this.owner && lock.lockedUntil > now) {
+          return false;
+        }
+
+        lock.owner = this.owner;
+        lock.lockedUntil = lockedUntil;
+        return true;
+      });
+    } catch (error) {
+      if (error instanceof UniqueConstraintViolationException) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 释放锁
+   *
+   * @param name - 锁名称
+   */
+  async release(name: string): Promise<void> {
+    await this.entityManager.transaction('postgresql', (em) =>
+      em.nativeUpdate(SchedulerLock, { name, owner: this.owner }, { lockedUntil: this.clock.now() }),
+    );
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * 定时任务
+ *
+ * @description 由 SchedulerService 按固定间隔调度的任务。
+ * 任务在模块初始化时通过 `SchedulerService.register` 注册，每次执行前需取得同名的调度锁
+ */
+export interface ScheduledJob {
+  /** 任务名称，全局唯一，同时作为调度锁的名称 */
+  readonly name: string;
+  /** 执行间隔（秒） */
+  readonly interval: number;
+
+  /**
+   * 执行任务
+   *
+   * @param now - 本次执行的当前时间，取自注入的时钟
+   */
+  run(now: Date): Promise<void>;
+}
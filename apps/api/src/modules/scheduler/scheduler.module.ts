@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { Clock } from './clock';
+import { SystemClock } from './system-clock';
+import { JobLockService } from './job-lock.service';
+import { SchedulerService } from './scheduler.service';
+
+/**
+ * 定时任务模块
+ *
+ * 提供定时任务的调度与多实例间的任务锁
+ * 业务模块在初始化时向 SchedulerService 注册任务；时钟通过 Clock 令牌注入，测试中可替换为 FakeClock
+ *
+ * @description 定时任务模块，负责定时任务的调度与加锁执行
+ * @since 1.0.0
+ */
+@Module({
+  providers: [SchedulerService, JobLockService, { provide: Clock, useClass: SystemClock }],
+  exports: [SchedulerService, Clock],
+})
+export class SchedulerModule {}
@@ -0,0 +1,88 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@hl8/config';
+import { Clock } from './clock';
+import { FakeClock } from './fake-clock';
+import { JobLockService } from './job-lock.service';
+import { SchedulerService } from './scheduler.service';
+
+jest.mock('@hl8/config', () => ({ ConfigService: class ConfigService {} }));
+jest.mock('./job-lock.service', () => ({ JobLockService: class JobLockService {} }));
+
+describe('SchedulerService', () => {
+  let service: SchedulerService;
+  let clock: FakeClock;
+  let config: Record<string, unknown>;
+  let jobLock: { acquire: jest.Mock; release: jest.Mock };
+  let job: { name: string; interval: number; run: jest.Mock };
+
+  beforeEach(async () => {
+    clock = new FakeClock(new Date('2025-01-01T00:00:00Z'));
+    config = { 'scheduler.lockTtl': 120 };
+    jobLock = { acquire: jest.fn().mockResolvedValue(true), release: jest.fn() };
+    job = { name: 'job', interval: 60, run: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SchedulerService,
+        { provide: JobLockService, useValue: jobLock },
+        { provide: Clock, useValue: clock },
+        { provide: ConfigService, useValue: { get: (key: string) => config[key] } },
+      ],
+    }).compile();
+
+    service = module.get<SchedulerService>(SchedulerService);
+    service.register(job);
+  });
+
+  afterEach(() => {
+    service.onApplicationShutdown();
+    jest.useRealTimers();
+  });
+
+  it('should run the job with the clock time while holding the lock', async () => {
+    await expect(service.runJob('job')).resolves.toBe(true);
+
+    expect(jobLock.acquire).toHaveBeenCalledWith('job', 120);
+    expect(job.run).toHaveBeenCalledWith(new Date('2025-01-01T00:00:00Z'));
+    expect(jobLock.release).toHaveBeenCalledWith('job');
+  });
+
+  it('should skip the run when another instance holds the lock', async () => {
+    jobLock.acquire.mockResolvedValue(false);
+
+    await expect(service.runJob('job')).resolves.toBe(false);
+    expect(job.run).not.toHaveBeenCalled();
+  });
+
+  it('should release the lock when the job fails', async () => {
+    job.run.mockRejectedValue(new Error('boom'));
+
+    await expect(service.runJob('job')).rejects.toThrow('boom');
+    expect(jobLock.release).toHaveBeenCalledWith('job');
+  });
+
+  it('should run jobs on their interval once the application has started', async () => {
+    jest.useFakeTimers();
+    service.onApplicationBootstrap();
+
+    await jest.advanceTimersByTimeAsync(60_000);
+    expect(job.run).toHaveBeenCalledTimes(1);
+
+    service.onApplicationShutdown();
+    await jest.advanceTimersByTimeAsync(60_000);
+    expect(job.run).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not start timers when the scheduler is disabled', async () => {
+    jest.useFakeTimers();
+    config['scheduler.enabled'] = false;
+    service.onApplicationBootstrap();
+
+    await jest.advanceTimersByTimeAsync(120_000);
+    expect(job.run).not.toHaveBeenCalled();
+  });
+
+  it('should reject duplicate job names', () => {
+    expect(() => service.register({ ...job })).toThrow('already registered');
+  });
+});
@@ -0,0 +1,113 @@
+import { Injectable, Logger, OnApplicationBootstrap, OnApplicationShutdown } from '@nestjs/common';
+import { ConfigService } from '@hl8/config';
+import { Clock } from './clock';
+import { JobLockService } from './job-lock.service';
+import type { ScheduledJob } from './scheduled-job';
+
+/**
+ * 定时任务调度服务
+ *
+ * 按任务声明的间隔周期性执行已注册的定时任务
+ *
+ * ## 调度规则
+ * - 应用启动完成后为每个任务启动定时器，应用关闭时停止全部定时器
+ * - `scheduler.enabled` 为 false 时不启动定时器，任务仍可通过 runJob 手动执行
+ * - 每次执行前获取同名调度锁，租约时长取自 `scheduler.lockTtl`，未取得锁时跳过本次执行
+ * - 同一进程内任务上一次执行未结束时跳过本次执行
+ * - 任务抛出的错误只记录日志，不影响后续调度
+ *
+ * @description 定时任务调度服务，负责定时任务的注册、调度与加锁执行
+ * @since 1.0.0
+ */
+@Injectable()
+export class SchedulerService implements OnApplicationBootstrap, OnApplicationShutdown {
+  private readonly logger = new Logger(SchedulerService.name);
+  private readonly jobs = new Map<string, ScheduledJob>();
+  private readonly timers = new Map<string, NodeJS.Timeout>();
+  private readonly running = new Set<string>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly jobLock: JobLockService,
+    private readonly clock: Clock,
+  ) {}
+
+  onApplicationBootstrap(): void {
+    if (this.configService.get<boolean>('scheduler.enabled') === false) {
+      this.logger.log('Scheduler disabled, jobs will not run automatically');
+      return;
+    }
+    for (const job of this.jobs.values()) {
+      this.schedule(job);
+    }
+  }
+
+  onApplicationShutdown(): void {
+    for (const timer of this.timers.values()) {
+      clearInterval(timer);
+    }
+    this.timers.clear();
+  }
+
+  /**
+   * 注册定时任务
+   *
+   * @param job - 定时任务
+   * @throws {Error} 任务名称已被注册
+   */
+  register(job: ScheduledJob): void {
+    if (this.jobs.has(job.name)) {
+      throw new Error(`Scheduled job ${job.name} is already registered`);
+    }
+    this.jobs.set(job.name, job);
+  }
+
+  /**
+   * 执行定时任务
+   *
+   * @description 取得调度锁后以时钟的当前时间执行任务，执行结束后释放锁
+   * @param name - 任务名称
+   * @returns 任务是否被执行；未取得锁或上一次执行未结束时为 false
+   * @throws {Error} 任务未注册
+   */
+  async runJob(name: string): Promise<boolean> {
+    const job = this.jobs.get(name);
+    if (!job) {
+      throw new Error(`Scheduled job ${name} is not registered`);
+    }
+    if (this.running.has(name)) {
+      return false;
+    }
+
+    this.running.add(name);
+    try {
+      const ttl = this.configService.get<number>('scheduler.lockTtl') ?? 300;
+      if (!(await this.jobLock.acquire(name, ttl))) {
+        return false;
+      }
+      try {
+        await job.run(this.clock.now());
+      } finally {
+        await this.jobLock.release(name);
+      }
+      return true;
+    } finally {
+      this.running.delete(name);
+    }
+  }
+
+  /**
+   * 为任务启动定时器
+   *
+   * @param job - 定时任务
+   */
+  private schedule(job: ScheduledJob): void {
+    const timer = setInterval(() => {
+      this.runJob(job.name).catch((error) =>
+        this.logger.error(`Scheduled job ${job.name} failed`, error instanceof Error ? error.stack : error),
+      );
+    }, job.interval * 1000);
+    timer.unref();
+    this.timers.set(job.name, timer);
+  }
+}
@@ -0,0 +1,12 @@
+import { Clock } from './clock';
+
+/**
+ * 系统时钟
+ *
+ * @description 返回系统当前时间
+ */
+export class SystemClock extends Clock {
+  now(): Date {
+    return new Date();
+  }
+}
@@ -0,0 +1,15 @@
+import { createParamDecorator } from '@nestjs/common';
+import { getCurrentTenant } from '@hl8/database';
+
+/**
+ * 当前租户参数装饰器
+ *
+ * @description 注入租户解析中间件确定的租户，请求未关联租户时为 undefined
+ *
+ * @example
+ * ```typescript
+ * @Get('current')
+ * getCurrentTenant(@CurrentTenant() tenant?: Tenant) {}
+ * ```
+ */
+export const CurrentTenant = createParamDecorator(() => getCurrentTenant());
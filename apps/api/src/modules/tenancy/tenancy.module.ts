@@ -0,0 +1,45 @@
+import { MiddlewareConsumer, Module, NestModule } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { TenantCacheService } from './tenant-cache.service';
+import { TenantResolutionService } from './tenant-resolution.service';
+import { TenantMiddleware } from './tenant.middleware';
+import { TENANT_RESOLVERS } from './tenant-resolver';
+import type { TenantResolver } from './tenant-resolver';
+import {
+  DomainTenantResolver,
+  HeaderTenantResolver,
+  SubdomainTenantResolver,
+  TokenClaimTenantResolver,
+} from './tenant-resolvers';
+
+/**
+ * 多租户模块
+ *
+ * 为每个请求解析所属租户，并缓存解析结果
+ * 解析器链通过 TENANT_RESOLVERS 令牌注入，可替换或扩展
+ *
+ * @description 多租户模块，负责租户解析与租户上下文
+ * @since 1.0.0
+ */
+@Module({
+  imports: [AuthModule],
+  providers: [
+    TenantCacheService,
+    TenantResolutionService,
+    DomainTenantResolver,
+    SubdomainTenantResolver,
+    HeaderTenantResolver,
+    TokenClaimTenantResolver,
+    {
+      provide: TENANT_RESOLVERS,
+      useFactory: (...resolvers: TenantResolver[]) => resolvers,
+      inject: [DomainTenantResolver, SubdomainTenantResolver, HeaderTenantResolver, TokenClaimTenantResolver],
+    },
+  ],
+  exports: [TenantCacheService, TenantResolutionService],
+})
+export class TenancyModule implements NestModule {
+  configure(consumer: MiddlewareConsumer): void {
+    consumer.apply(TenantMiddleware).forRoutes('*');
+  }
+}
@@ -0,0 +1,92 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@hl8/config';
+import { Tenant } from '@hl8/database';
+import type { TenantLookup } from './tenant-resolver';
+
+/**
+ * 租户缓存条目
+ */
+interface TenantCacheEntry {
+  /** 租户列值的纯对象副本，不受任何实体管理器管理 */
+  snapshot: Tenant;
+  expiresAt: number;
+}
+
+/**
+ * 租户缓存服务
+ *
+ * 在进程内存中缓存已解析的租户，避免每个请求都查询数据库
+ *
+ * ## 缓存规则
+ * - 以查找条件（如 `id:<id>`、`domain:<domain>`）为键，有效期取自 `tenancy.cacheTtl`（秒）
+ * - 缓存的是租户列值的快照而不是实体实例，每次读取都返回一个新的、不受实体管理器管理的 Tenant，
+ *   请求之间不共享对象，一个请求的修改或刷新不会影响其他请求
+ * - 租户更新、删除或状态变更后按租户ID清除全部相关条目，写入租户的代码须调用 invalidate
+ * - 不缓存未命中的查找
+ *
+ * @description 租户缓存服务，负责租户解析结果的缓存与失效
+ * @since 1.0.0
+ */
+@Injectable()
+export class TenantCacheService {
+  private readonly entries = new Map<string, TenantCacheEntry>();
+
+  constructor(private readonly configService: ConfigService) {}
+
+  /**
+   * 读取缓存的租户
+   *
+   * @param lookup - 租户查找条件
+   * @returns 由快照构造的新租户对象，未命中或已过期时返回 undefined
+   */
+  get(lookup: Pick<TenantLookup, 'field' | 'value'>): Tenant | undefined {
+    const key = this.keyOf(lookup);
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return Object.assign(new Tenant(), structuredClone(entry.snapshot));
+  }
+
+  /**
+   * 缓存租户
+   *
+   * @param lookup - 租户查找条件
+   * @param tenant - 租户，缓存其列值的快照
+   */
+  set(lookup: Pick<TenantLookup, 'field' | 'value'>, tenant: Tenant): void {
+    const ttl = this.configService.get<number>('tenancy.cacheTtl') ?? 60;
+    this.entries.set(this.keyOf(lookup), {
+      snapshot: structuredClone({ ...tenant }),
+      expiresAt: Date.now() + ttl * 1000,
+    });
+  }
+
+  /**
+   * 清除租户的全部缓存条目
+   *
+   * @param tenantId - 租户ID
+   */
+  invalidate(tenantId: string): void {
+    for (const [key, entry] of this.entries) {
+      if (entry.snapshot.id === tenantId) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  /**
+   * 清空缓存
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  private keyOf(lookup: Pick<TenantLookup, 'field' | 'value'>): string {
+    return `${lookup.field}:${lookup.value}`;
+  }
+}
@@ -0,0 +1,177 @@
+import { ForbiddenException, NotFoundException } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { UserType } from '@hl8/common';
+import { ConfigService } from '@hl8/config';
+import { ErrorCode } from '@hl8/constants';
+import { CreateTenantDto } from '@hl8/contracts';
+import { EntityManagerService } from '@hl8/database';
+import { AuthService } from '../auth/auth.service';
+import { TenantCacheService } from './tenant-cache.service';
+import { TenantResolutionService } from './tenant-resolution.service';
+import {
+  DomainTenantResolver,
+  HeaderTenantResolver,
+  SubdomainTenantResolver,
+  TokenClaimTenantResolver,
+} from './tenant-resolvers';
+
+// 配置与数据库包在加载时会初始化连接配置，单元测试中以轻量替身隔离
+jest.mock('@hl8/config', () => ({ ConfigService: class ConfigService {} }));
+jest.mock('@hl8/database', () => ({
+  EntityManagerService: class EntityManagerService {},
+  Tenant: class Tenant {},
+  TenantStatus: { ACTIVE: 'active', SUSPENDED: 'suspended', EXPIRED: 'expired', DELETED: 'deleted' },
+  withDeleted: () => ({ filters: { 'soft-deletable-filter': false } }),
+}));
+jest.mock('../auth/auth.service', () => ({ AuthService: class AuthService {} }));
+
+const ACME_ID = '6f1d2c3b-8a4e-4f5a-9b6c-7d8e9f0a1b2c';
+const GLOBEX_ID = '0a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d';
+
+type TenantRow = { id: string; status: string; domain?: string; subdomain?: string };
+
+describe('TenantResolutionService', () => {
+  let service: TenantResolutionService;
+  let entityManager: { findOne: jest.Mock };
+  let authService: { verifyAccessToken: jest.Mock };
+  let tenants: TenantRow[];
+
+  beforeEach(() => {
+    tenants = [];
+    const configService = {
+      get: (key: string) => ({ 'tenancy.baseDomain': 'hl8.app', 'tenancy.cacheTtl': 60 })[key],
+    } as unknown as ConfigService;
+    entityManager = {
+      findOne: jest.fn(async (_db, _entity, where: Record<string, string>) => {
+        const [field, value] = Object.entries(where)[0];
+        return tenants.find((tenant) => tenant[field as keyof TenantRow] === value) ?? null;
+      }),
+    };
+    authService = { verifyAccessToken: jest.fn().mockRejectedValue(new Error('invalid')) };
+
+    service = new TenantResolutionService(
+      [
+        new DomainTenantResolver(configService),
+        new SubdomainTenantResolver(configService),
+        new HeaderTenantResolver(),
+        new TokenClaimTenantResolver(authService as unknown as AuthService),
+      ],
+      entityManager as unknown as EntityManagerService,
+      new TenantCacheService(configService),
+      authService as unknown as AuthService,
+    );
+  });
+
+  const addTenant = (id: string, fields: Pick<TenantRow, 'domain' | 'subdomain'>, status = 'active') => {
+    tenants.push({ id, status, ...fields });
+  };
+
+  it('should prefer a custom domain over the other resolvers', async () => {
+    addTenant(ACME_ID, { domain: 'portal.acme.com' });
+    addTenant(GLOBEX_ID, { subdomain: 'globex' });
+
+    const context = await service.resolve({
+      headers: { host: 'portal.acme.com:443', 'x-tenant-id': GLOBEX_ID },
+    });
+
+    expect(context?.tenant.id).toBe(ACME_ID);
+    expect(context?.resolvedBy).toBe('domain');
+  });
+
+  it('should fall back to the subdomain of the base domain', async () => {
+    const createTenantDto = plainToInstance(CreateTenantDto, { name: 'Acme', subdomain: 'acme' });
+    await expect(validate(createTenantDto)).resolves.toEqual([]);
+    tenants.push({ id: ACME_ID, status: 'active', ...createTenantDto });
+
+    const context = await service.resolve({ headers: { host: 'acme.hl8.app' } });
+
+    expect(context).toMatchObject({ resolvedBy: 'subdomain', tenant: { id: ACME_ID } });
+  });
+
+  it('should use the X-Tenant-Id header and then the token claim', async () => {
+    addTenant(ACME_ID, { subdomain: 'acme' });
+    addTenant(GLOBEX_ID, { subdomain: 'globex' });
+    authService.verifyAccessToken.mockResolvedValue({ tenantId: GLOBEX_ID });
+
+    const byHeader = await service.resolve({ headers: { host: 'hl8.app', 'x-tenant-id': ACME_ID } });
+    const byToken = await service.resolve({ headers: { host: 'hl8.app', authorization: 'Bearer token' } });
+
+    expect(byHeader?.resolvedBy).toBe('header');
+    expect(byToken).toMatchObject({ resolvedBy: 'token', tenant: { id: GLOBEX_ID } });
+  });
+
+  it('should reject tenant users whose token belongs to another tenant', async () => {
+    addTenant(ACME_ID, { subdomain: 'acme' });
+    addTenant(GLOBEX_ID, { subdomain: 'globex' });
+    authService.verifyAccessToken.mockResolvedValue({ type: UserType.TENANT_USER, tenantId: GLOBEX_ID });
+
+    const requests = [
+      { headers: { host: 'hl8.app', authorization: 'Bearer token', 'x-tenant-id': ACME_ID } },
+      { headers: { host: 'acme.hl8.app', authorization: 'Bearer token' } },
+    ];
+    for (const request of requests) {
+      const error = await service.resolve(request).catch((e) => e);
+      expect(error).toBeInstanceOf(ForbiddenException);
+      expect(error.getResponse()).toMatchObject({ code: ErrorCode.TENANT_MISMATCH });
+    }
+
+    const own = await service.resolve({ headers: { authorization: 'Bearer token', 'x-tenant-id': GLOBEX_ID } });
+    expect(own?.tenant.id).toBe(GLOBEX_ID);
+  });
+
+  it('should let platform users switch tenants with the X-Tenant-Id header', async () => {
+    addTenant(ACME_ID, { subdomain: 'acme' });
+    authService.verifyAccessToken.mockResolvedValue({ type: UserType.PLATFORM_USER });
+
+    const context = await service.resolve({ headers: { authorization: 'Bearer token', 'x-tenant-id': ACME_ID } });
+
+    expect(context).toMatchObject({ resolvedBy: 'header', tenant: { id: ACME_ID } });
+  });
+
+  it('should return undefined when no resolver matches', async () => {
+    await expect(service.resolve({ headers: { host: 'hl8.app' } })).resolves.toBeUndefined();
+  });
+
+  it('should reject an explicitly requested tenant that does not exist', async () => {
+    await expect(
+      service.resolve({ headers: { 'x-tenant-id': ACME_ID } }),
+    ).rejects.toBeInstanceOf(NotFoundException);
+  });
+
+  it.each([
+    ['suspended', ErrorCode.TENANT_SUSPENDED],
+    ['expired', ErrorCode.TENANT_EXPIRED],
+    ['deleted', ErrorCode.TENANT_DELETED],
+  ])('should reject %s tenants with a distinct error code', async (status, code) => {
+    addTenant(ACME_ID, { subdomain: 'acme' }, status);
+
+    const error = await service.resolve({ headers: { 'x-tenant-id': ACME_ID } }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ForbiddenException);
+    expect(error.getResponse()).toMatchObject({ code });
+  });
+
+  it('should serve repeated lookups from the cache', async () => {
+    addTenant(ACME_ID, { subdomain: 'acme' });
+
+    await service.resolve({ headers: { 'x-tenant-id': ACME_ID } });
+    await service.resolve({ headers: { 'x-tenant-id': ACME_ID } });
+
+    expect(entityManager.findOne).toHaveBeenCalledTimes(1);
+  });
+
+  it('should hand every request its own copy of a cached tenant', async () => {
+    addTenant(ACME_ID, { subdomain: 'acme' });
+    const request = { headers: { 'x-tenant-id': ACME_ID } };
+
+    const first = await service.resolve(request);
+    const second = await service.resolve(request);
+    (second?.tenant as { status: string }).status = 'suspended';
+    const third = await service.resolve(request);
+
+    expect(second?.tenant).not.toBe(first?.tenant);
+    expect(third?.tenant).not.toBe(second?.tenant);
+    expect(third?.tenant).toMatchObject({ id: ACME_ID, subdomain: 'acme', status: 'active' });
+  });
+});
@@ -0,0 +1,153 @@
+import { ForbiddenException, Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { isUUID } from 'class-validator';
+import { ErrorCode } from '@hl8/constants';
+import { EntityManagerService, Tenant, TenantStatus, withDeleted } from '@hl8/database';
+import type { TenantContext } from '@hl8/database';
+import { CROSS_TENANT_USER_TYPES } from '../auth/access-control.service';
+import { AuthService } from '../auth/auth.service';
+import type { AccessTokenPayload } from '../auth/auth.service';
+import { TenantCacheService } from './tenant-cache.service';
+import { TENANT_RESOLVERS } from './tenant-resolver';
+import type { TenantLookup, TenantResolutionRequest, TenantResolver } from './tenant-resolver';
+import { readBearerToken } from './tenant-resolvers';
+
+/**
+ * 租户解析服务
+ *
+ * 依次执行租户解析器链，查找并校验请求所属的租户
+ *
+ * ## 解析规则
+ * - 默认解析顺序：自定义域名 → 子域名 → `X-Tenant-Id` 请求头 → 令牌声明
+ * - 第一个找到租户的解析器生效；strict 查找未找到租户时返回 404（TENANT_NOT_FOUND）
+ * - SUSPENDED、EXPIRED、DELETED 状态的租户分别以 TENANT_SUSPENDED、TENANT_EXPIRED、TENANT_DELETED 拒绝
+ * - 租户用户的访问令牌只在其所属租户内有效，解析出其他租户时以 TENANT_MISMATCH 拒绝；
+ *   只有平台用户与系统用户可以通过请求头或域名切换租户
+ *
+ * @description 租户解析服务，负责确定请求的租户上下文
+ * @since 1.0.0
+ */
+@Injectable()
+export class TenantResolutionService {
+  constructor(
+    @Inject(TENANT_RESOLVERS) private readonly resolvers: TenantResolver[],
+    private readonly entityManager: EntityManagerService,
+    private readonly tenantCache: TenantCacheService,
+    private readonly authService: AuthService,
+  ) {}
+
+  /**
+   * 解析请求所属租户
+   *
+   * @param request - 租户解析请求
+   * @returns 租户上下文，所有解析器均未命中时返回 undefined
+   * @throws {NotFoundException} 显式指定的租户不存在
+   * @throws {ForbiddenException} 租户已暂停、过期或删除，或与租户用户的访问令牌所属租户不一致
+   */
+  async resolve(request: TenantResolutionRequest): Promise<TenantContext | undefined> {
+    for (const resolver of this.resolvers) {
+      const lookup = await resolver.resolve(request);
+      if (!lookup) {
+        continue;
+      }
+
+      const tenant = await this.findTenant(lookup);
+      if (!tenant) {
+        if (lookup.strict) {
+          throw new NotFoundException({
+            code: ErrorCode.TENANT_NOT_FOUND,
+            message: `Tenant ${lookup.value} not found`,
+          });
+        }
+        continue;
+      }
+
+      this.assertTenantAvailable(tenant);
+      await this.assertTokenTenant(request, tenant);
+      return { tenant, resolvedBy: resolver.name };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * 判断请求是否来自跨租户用户
+   *
+   * @param request - 租户解析请求
+   * @returns 携带有效的平台用户或系统用户访问令牌时返回 true
+   */
+  async isCrossTenantRequest(request: TenantResolutionRequest): Promise<boolean> {
+    const payload = await this.verifyBearerToken(request);
+    return payload !== undefined && CROSS_TENANT_USER_TYPES.includes(payload.type);
+  }
+
+  /**
+   * 查找租户，优先读取缓存
+   *
+   * @param lookup - 租户查找条件
+   * @returns 租户，不存在时返回 null
+   */
+  private async findTenant(lookup: TenantLookup): Promise<Tenant | null> {
+    const cached = this.tenantCache.get(lookup);
+    if (cached) {
+      return cached;
+    }
+    if (lookup.field === 'id' && !isUUID(lookup.value)) {
+      return null;
+    }
+
+    // 包含已删除的租户，以便返回 TENANT_DELETED 而不是 TENANT_NOT_FOUND
+    const tenant = await this.entityManager.findOne('postgresql', Tenant, { [lookup.field]: lookup.value }, withDeleted());
+    if (tenant) {
+      this.tenantCache.set(lookup, tenant);
+    }
+    return tenant;
+  }
+
+  /**
+   * 校验租户与访问令牌一致
+   *
+   * @description 未携带或携带无效令牌时不做校验，由认证守卫负责拒绝；
+   * 平台用户与系统用户可以访问任意租户
+   * @param request - 租户解析请求
+   * @param tenant - 解析出的租户
+   * @throws {ForbiddenException} 租户用户的令牌不属于该租户
+   */
+  private async assertTokenTenant(request: TenantResolutionRequest, tenant: Tenant): Promise<void> {
+    const payload = await this.verifyBearerToken(request);
+    if (!payload || CROSS_TENANT_USER_TYPES.includes(payload.type) || payload.tenantId === tenant.id) {
+      return;
+    }
+    throw new ForbiddenException({
+      code: ErrorCode.TENANT_MISMATCH,
+      message: `Access token is not valid for tenant ${tenant.id}`,
+    });
+  }
+
+  /**
+   * 校验请求携带的访问令牌
+   *
+   * @param request - 租户解析请求
+   * @returns 访问令牌载荷，未携带或令牌无效时返回 undefined
+   */
+  private async verifyBearerToken(request: TenantResolutionRequest): Promise<AccessTokenPayload | undefined> {
+    const token = readBearerToken(request);
+    return token ? this.authService.verifyAccessToken(token).catch(() => undefined) : undefined;
+  }
+
+  /**
+   * 校验租户可用
+   *
+   * @param tenant - 租户
+   * @throws {ForbiddenException} 租户已暂停、过期或删除
+   */
+  private assertTenantAvailable(tenant: Tenant): void {
+    switch (tenant.status) {
+      case TenantStatus.SUSPENDED:
+        throw new ForbiddenException({ code: ErrorCode.TENANT_SUSPENDED, message: `Tenant ${tenant.id} is suspended` });
+      case TenantStatus.EXPIRED:
+        throw new ForbiddenException({ code: ErrorCode.TENANT_EXPIRED, message: `Tenant ${tenant.id} has expired` });
+      case TenantStatus.DELETED:
+        throw new ForbiddenException({ code: ErrorCode.TENANT_DELETED, message: `Tenant ${tenant.id} has been deleted` });
+    }
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * 租户解析器注入令牌
+ *
+ * @description 解析器按数组顺序依次尝试，第一个命中的解析结果生效
+ */
+export const TENANT_RESOLVERS = 'TENANT_RESOLVERS';
+
+/**
+ * 租户解析请求
+ *
+ * @description 解析器只依赖请求头，与具体 HTTP 适配器解耦
+ */
+export interface TenantResolutionRequest {
+  headers: Record<string, string | string[] | undefined>;
+}
+
+/**
+ * 租户查找条件
+ *
+ * @description 解析器给出的租户查找方式；strict 为 true 时租户不存在即拒绝请求，
+ * 否则继续尝试下一个解析器
+ */
+export interface TenantLookup {
+  field: 'id' | 'domain' | 'subdomain';
+  value: string;
+  strict: boolean;
+}
+
+/**
+ * 租户解析器
+ *
+ * @description 从请求中提取租户查找条件，无法提取时返回 undefined
+ */
+export interface TenantResolver {
+  /** 解析器名称，记录在租户上下文的 resolvedBy 中 */
+  readonly name: string;
+
+  /**
+   * 提取租户查找条件
+   *
+   * @param request - 租户解析请求
+   * @returns 租户查找条件
+   */
+  resolve(request: TenantResolutionRequest): Promise<TenantLookup | undefined> | TenantLookup | undefined;
+}
@@ -0,0 +1,131 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@hl8/config';
+import { AuthService } from '../auth/auth.service';
+import type { TenantLookup, TenantResolutionRequest, TenantResolver } from './tenant-resolver';
+
+/**
+ * 租户ID请求头
+ */
+export const TENANT_ID_HEADER = 'x-tenant-id';
+
+/**
+ * 读取单值请求头
+ *
+ * @param request - 租户解析请求
+ * @param name - 请求头名称（小写）
+ * @returns 请求头的值
+ */
+function readHeader(request: TenantResolutionRequest, name: string): string | undefined {
+  const value = request.headers[name];
+  return (Array.isArray(value) ? value[0] : value)?.trim() || undefined;
+}
+
+/**
+ * 读取 Bearer 访问令牌
+ *
+ * @param request - 租户解析请求
+ * @returns 访问令牌，请求未携带 Bearer 令牌时返回 undefined
+ */
+export function readBearerToken(request: TenantResolutionRequest): string | undefined {
+  const [scheme, token] = readHeader(request, 'authorization')?.split(' ') ?? [];
+  return scheme === 'Bearer' && token ? token : undefined;
+}
+
+/**
+ * 读取请求主机名
+ *
+ * @param request - 租户解析请求
+ * @returns 不含端口的小写主机名
+ */
+function readHostname(request: TenantResolutionRequest): string | undefined {
+  return readHeader(request, 'host')?.replace(/:\d+$/, '').toLowerCase();
+}
+
+/**
+ * 自定义域名解析器
+ *
+ * @description 以完整主机名匹配 Tenant.domain，平台基础域名本身不参与匹配
+ */
+@Injectable()
+export class DomainTenantResolver implements TenantResolver {
+  readonly name = 'domain';
+
+  constructor(private readonly configService: ConfigService) {}
+
+  resolve(request: TenantResolutionRequest): TenantLookup | undefined {
+    const hostname = readHostname(request);
+    const baseDomain = this.configService.get<string>('tenancy.baseDomain');
+    if (!hostname || hostname === baseDomain) {
+      return undefined;
+    }
+    return { field: 'domain', value: hostname, strict: false };
+  }
+}
+
+/**
+ * 子域名解析器
+ *
+ * @description 主机名形如 `<子域名>.<基础域名>` 时，以子域名匹配 Tenant.subdomain
+ */
+@Injectable()
+export class SubdomainTenantResolver implements TenantResolver {
+  readonly name = 'subdomain';
+
+  constructor(private readonly configService: ConfigService) {}
+
+  resolve(request: TenantResolutionRequest): TenantLookup | undefined {
+    const hostname = readHostname(request);
+    const baseDomain = this.configService.get<string>('tenancy.baseDomain');
+    if (!hostname || !baseDomain || !hostname.endsWith(`.${baseDomain}`)) {
+      return undefined;
+    }
+
+    const subdomain = hostname.slice(0, -(baseDomain.length + 1));
+    if (subdomain.includes('.')) {
+      return undefined;
+    }
+    return { field: 'subdomain', value: subdomain, strict: false };
+  }
+}
+
+/**
+ * 请求头解析器
+ *
+ * @description 读取 `X-Tenant-Id` 请求头，显式指定的租户不存在时拒绝请求；
+ * 租户用户只能指定自身租户，切换到其他租户仅对平台用户与系统用户开放
+ */
+@Injectable()
+export class HeaderTenantResolver implements TenantResolver {
+  readonly name = 'header';
+
+  resolve(request: TenantResolutionRequest): TenantLookup | undefined {
+    const tenantId = readHeader(request, TENANT_ID_HEADER);
+    return tenantId ? { field: 'id', value: tenantId, strict: true } : undefined;
+  }
+}
+
+/**
+ * 令牌声明解析器
+ *
+ * @description 读取访问令牌中的 tenantId 声明，令牌无效时跳过，由认证守卫负责拒绝
+ */
+@Injectable()
+export class TokenClaimTenantResolver implements TenantResolver {
+  readonly name = 'token';
+
+  constructor(private readonly authService: AuthService) {}
+
+  async resolve(request: TenantResolutionRequest): Promise<TenantLookup | undefined> {
+    const token = readBearerToken(request);
+    if (!token) {
+      return undefined;
+    }
+
+    try {
+      const payload = await this.authService.verifyAccessToken(token);
+      return payload.tenantId ? { field: 'id', value: payload.tenantId, strict: true } : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
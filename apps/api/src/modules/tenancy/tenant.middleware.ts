@@ -0,0 +1,43 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { ConfigService } from '@hl8/config';
+import { runWithTenantContext, withoutTenantScope } from '@hl8/database';
+import { updateCurrentRequestMetadata } from '@hl8/logger';
+import { TenantResolutionService } from './tenant-resolution.service';
+import type { TenantResolutionRequest } from './tenant-resolver';
+
+/**
+ * 租户解析中间件
+ *
+ * 租户隔离实体在租户作用域之外拒绝查询，中间件决定每个请求的作用域：
+ * - `features.multiTenant` 关闭时不做租户隔离，请求在 withoutTenantScope 中处理
+ * - 解析出租户时在该租户上下文中处理请求，后续代码通过 getCurrentTenant 读取租户
+ * - 未解析出租户的平台用户与系统用户请求跨租户处理，其余请求不带租户作用域，
+ *   只有显式使用 withoutTenantScope 的代码（如登录、注册）可以查询租户隔离实体
+ *
+ * @description 租户解析中间件，负责确定请求的租户作用域
+ * @since 1.0.0
+ */
+@Injectable()
+export class TenantMiddleware implements NestMiddleware {
+  constructor(
+    private readonly tenantResolutionService: TenantResolutionService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async use(request: TenantResolutionRequest, _response: unknown, next: (error?: unknown) => void): Promise<void> {
+    if (!this.configService.isFeatureEnabled('multiTenant')) {
+      return withoutTenantScope(() => next());
+    }
+
+    const context = await this.tenantResolutionService.resolve(request);
+    if (!context) {
+      if (await this.tenantResolutionService.isCrossTenantRequest(request)) {
+        return withoutTenantScope(() => next());
+      }
+      return next();
+    }
+
+    updateCurrentRequestMetadata({ tenantId: context.tenant.id, tenantResolvedBy: context.resolvedBy });
+    runWithTenantContext(context, () => next());
+  }
+}
@@ -0,0 +1,120 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ForbiddenException, NotFoundException } from '@nestjs/common';
+import { LockMode } from '@mikro-orm/core';
+import { ConfigService } from '@hl8/config';
+import { EntityManagerService } from '@hl8/database';
+import { QuotaService } from './quota.service';
+
+jest.mock('@hl8/config', () => ({ ConfigService: class ConfigService {} }));
+jest.mock('@hl8/database', () => ({
+  EntityManagerService: class EntityManagerService {},
+  Tenant: class Tenant {},
+  User: class User {},
+  Organization: class Organization {},
+  Invitation: class Invitation {},
+}));
+
+const config: Record<string, unknown> = {
+  'tenancy.defaultPlan': 'free',
+  'tenancy.plans': {
+    free: { maxUsers: 2, maxStorage: 1000, maxOrganizations: 1, features: [] },
+    team: { maxUsers: 10, maxOrganizations: 5, features: ['invitations'] },
+  },
+};
+
+describe('QuotaService', () => {
+  let service: QuotaService;
+  let tenant: Record<string, unknown>;
+  let counts: Record<string, number>;
+  let em: { findOne: jest.Mock; count: jest.Mock };
+
+  beforeEach(async () => {
+    tenant = { id: 'tenant-1', storageUsed: 0 };
+    counts = { User: 0, Organization: 0, Invitation: 0 };
+    em = {
+      findOne: jest.fn(async (_entity, where) => (where.id === tenant['id'] ? tenant : null)),
+      count: jest.fn(async (entity) => counts[entity.name]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        QuotaService,
+        {
+          provide: EntityManagerService,
+          useValue: { transaction: jest.fn(async (_db, callback) => callback(em)) },
+        },
+        { provide: ConfigService, useValue: { get: (key: string) => config[key] } },
+      ],
+    }).compile();
+
+    service = module.get<QuotaService>(QuotaService);
+  });
+
+  it('should use the subscribed plan and let the tenant config tighten its limits', async () => {
+    tenant['subscription'] = { plan: 'team' };
+    tenant['config'] = { maxUsers: 3, features: ['auditLog'] };
+    counts['User'] = 2;
+
+    const { usage } = await service.getUsage('tenant-1');
+
+    expect(usage).toMatchObject({
+      plan: 'team',
+      users: { used: 2, limit: 3 },
+      organizations: { used: 0, limit: 5 },
+      storage: { used: 0, limit: null },
+    });
+    expect(usage.features).toEqual(['invitations', 'auditLog']);
+  });
+
+  it('should not let the tenant config raise limits above the plan', async () => {
+    tenant['config'] = { maxUsers: 50, maxStorage: 500 };
+
+    const { usage } = await service.getUsage('tenant-1');
+
+    expect(usage).toMatchObject({ plan: 'free', users: { limit: 2 }, storage: { limit: 500 } });
+  });
+
+  it('should fall back to the default plan for unknown plans', async () => {
+    tenant['subscription'] = { plan: 'legacy' };
+
+    const { usage } = await service.getUsage('tenant-1');
+
+    expect(usage).toMatchObject({ plan: 'free', users: { limit: 2 }, storage: { limit: 1000 } });
+  });
+
+  it('should count pending invitations against the user quota', async () => {
+    counts['User'] = 1;
+    counts['Invitation'] = 1;
+
+    await expect(service.assertUserQuota('tenant-1')).rejects.toMatchObject({
+      response: { code: 'QUOTA_EXCEEDED', resource: 'users', limit: 2, used: 2 },
+    });
+    await expect(service.assertUserQuota('tenant-1', { countPendingInvitations: false })).resolves.toBeUndefined();
+  });
+
+  it('should lock the tenant row before counting users', async () => {
+    await service.assertUserQuota('tenant-1', { em: em as never });
+
+    expect(em.findOne).toHaveBeenCalledWith(expect.anything(), { id: 'tenant-1' }, { lockMode: LockMode.PESSIMISTIC_WRITE });
+  });
+
+  it('should reject organizations past the plan limit', async () => {
+    counts['Organization'] = 1;
+
+    await expect(service.assertOrganizationQuota('tenant-1')).rejects.toBeInstanceOf(ForbiddenException);
+  });
+
+  it('should reserve and release storage within the limit', async () => {
+    await service.reserveStorage('tenant-1', 800);
+    await expect(service.reserveStorage('tenant-1', 300)).rejects.toMatchObject({
+      response: { code: 'QUOTA_EXCEEDED', resource: 'storage', used: 800 },
+    });
+    await service.releaseStorage('tenant-1', 1000);
+
+    expect(tenant['storageUsed']).toBe(0);
+  });
+
+  it('should throw NotFoundException for unknown tenants', async () => {
+    await expect(service.assertUserQuota('missing')).rejects.toBeInstanceOf(NotFoundException);
+  });
+});
@@ -0,0 +1,283 @@
+import { ForbiddenException, Injectable, NotFoundException } from '@nestjs/common';
+import { EntityManager, LockMode } from '@mikro-orm/core';
+import { ConfigService } from '@hl8/config';
+import { ErrorCode } from '@hl8/constants';
+import { EntityManagerService, Invitation, Organization, Tenant, User } from '@hl8/database';
+
+/**
+ * 套餐定义
+ *
+ * @description 取自 `tenancy.plans` 配置块，未声明的限额表示不限制
+ */
+export interface TenantPlan {
+  maxUsers?: number;
+  maxStorage?: number;
+  maxOrganizations?: number;
+  features?: string[];
+}
+
+/**
+ * 受配额限制的资源
+ */
+export type QuotaResource = 'users' | 'storage' | 'organizations';
+
+/**
+ * 单项资源的用量
+ *
+ * @description limit 为 null 表示不限制
+ */
+export interface QuotaUsage {
+  used: number;
+  limit: number | null;
+}
+
+/**
+ * 限额字段
+ */
+const LIMIT_KEYS: Record<QuotaResource, 'maxUsers' | 'maxStorage' | 'maxOrganizations'> = {
+  users: 'maxUsers',
+  storage: 'maxStorage',
+  organizations: 'maxOrganizations',
+};
+
+/**
+ * 配额服务
+ *
+ * 根据租户订阅的套餐与租户配置计算限额并在资源创建前校验
+ * 套餐取自 `tenant.subscription.plan`，未订阅或套餐不存在时使用 `tenancy.defaultPlan`
+ *
+ * ## 业务规则
+ * - 套餐限额为上限，租户 config 中的 maxUsers、maxStorage、maxOrganizations 只能在套餐限额内进一步收紧
+ * - 用户数包含待接受的邀请，接受邀请时该邀请已占用的席位不重复计算
+ * - 校验用户与组织配额时锁定租户行，调用方在同一事务内创建资源，避免并发超额
+ * - 存储空间按字节计算，写入文件的功能在写入前调用 reserveStorage 预留、删除后调用 releaseStorage 释放，预留时锁定租户行避免并发超额；
+ *   目前没有上传文件的接口，存储配额尚未在任何路由上生效
+ * - 租户可用功能为套餐功能与租户 config.features 的并集
+ * - 超出配额时返回 403，错误码为 QUOTA_EXCEEDED，并附带资源、限额与当前用量
+ *
+ * @description 配额服务，负责租户套餐限额的计算与校验
+ * @since 1.0.0
+ */
+@Injectable()
+export class QuotaService {
+  constructor(
+    private readonly entityManager: EntityManagerService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * 获取租户用量
+   *
+   * @description 报告租户的套餐、可用功能以及各项资源的用量与限额
+   * @param tenantId - 租户ID
+   * @returns 租户用量
+   * @throws {NotFoundException} 租户不存在
+   */
+  async getUsage(tenantId: string) {
+    const usage = await this.entityManager.transaction('postgresql', async (em) => {
+      const tenant = await this.findTenantOrFail(em, tenantId);
+      const users = await em.count(User, { tenantId });
+      const pendingInvitations = await em.count(Invitation, { tenantId, ...this.pendingInvitationCondition() });
+      const organizations = await em.count(Organization, { tenantId });
+
+      return {
+        tenantId,
+        plan: this.planName(tenant),
+        features: this.features(tenant),
+        users: { used: users, limit: this.limit(tenant, 'users') },
+        pendingInvitations,
+        organizations: { used: organizations, limit: this.limit(tenant, 'organizations') },
+        storage: { used: tenant.storageUsed, limit: this.limit(tenant, 'storage') },
+      };
+    });
+
+    return {
+      message: 'Tenant usage retrieved successfully',
+      usage,
+    };
+  }
+
+  /**
+   * 校验用户配额
+   *
+   * @description 锁定租户行后计数，调用方应在同一事务内创建用户
+   * @param tenantId - 租户ID
+   * @param options - em 为调用方事务内的实体管理器；countPendingInvitations 为 false 时不将待接受的邀请计入用量，用于接受邀请
+   * @throws {NotFoundException} 租户不存在
+   * @throws {ForbiddenException} 用户数已达上限
+   */
+  async assertUserQuota(
+    tenantId: string,
+    options: { em?: EntityManager; countPendingInvitations?: boolean } = {},
+  ): Promise<void> {
+    await this.within(options.em, async (em) => {
+      const tenant = await this.findTenantOrFail(em, tenantId, LockMode.PESSIMISTIC_WRITE);
+      const limit = this.limit(tenant, 'users');
+      if (limit === null) {
+        return;
+      }
+
+      const users = await em.count(User, { tenantId });
+      const pending =
+        options.countPendingInvitations === false
+          ? 0
+          : await em.count(Invitation, { tenantId, ...this.pendingInvitationCondition() });
+      this.assertWithin('users', { used: users + pending, limit }, 1);
+    });
+  }
+
+  /**
+   * 校验组织配额
+   *
+   * @description 锁定租户行后计数，调用方应在同一事务内创建组织
+   * @param tenantId - 租户ID
+   * @param em - 调用方事务内的实体管理器
+   * @throws {NotFoundException} 租户不存在
+   * @throws {ForbiddenException} 组织数已达上限
+   */
+  async assertOrganizationQuota(tenantId: string, em?: EntityManager): Promise<void> {
+    await this.within(em, async (tx) => {
+      const tenant = await this.findTenantOrFail(tx, tenantId, LockMode.PESSIMISTIC_WRITE);
+      const limit = this.limit(tenant, 'organizations');
+      if (limit !== null) {
+        this.assertWithin('organizations', { used: await tx.count(Organization, { tenantId }), limit }, 1);
+      }
+    });
+  }
+
+  /**
+   * 预留存储空间
+   *
+   * @description 上传文件前调用，锁定租户行后累加已用空间
+   * @param tenantId - 租户ID
+   * @param bytes - 需要的字节数
+   * @throws {NotFoundException} 租户不存在
+   * @throws {ForbiddenException} 存储空间不足
+   */
+  async reserveStorage(tenantId: string, bytes: number): Promise<void> {
+    await this.entityManager.transaction('postgresql', async (em) => {
+      const tenant = await this.findTenantOrFail(em, tenantId, LockMode.PESSIMISTIC_WRITE);
+      this.assertWithin('storage', { used: tenant.storageUsed, limit: this.limit(tenant, 'storage') }, bytes);
+      tenant.storageUsed += bytes;
+    });
+  }
+
+  /**
+   * 释放存储空间
+   *
+   * @description 删除文件或上传失败后调用，已用空间不会低于 0
+   * @param tenantId - 租户ID
+   * @param bytes - 释放的字节数
+   * @throws {NotFoundException} 租户不存在
+   */
+  async releaseStorage(tenantId: string, bytes: number): Promise<void> {
+    await this.entityManager.transaction('postgresql', async (em) => {
+      const tenant = await this.findTenantOrFail(em, tenantId, LockMode.PESSIMISTIC_WRITE);
+      tenant.storageUsed = Math.max(0, tenant.storageUsed - bytes);
+    });
+  }
+
+  /**
+   * 租户生效的限额
+   *
+   * @description 取套餐限额与租户配置限额中较小者，租户配置不能突破套餐限额
+   * @param tenant - 租户实体
+   * @param resource - 资源
+   * @returns 限额，不限制时为 null
+   */
+  limit(tenant: Tenant, resource: QuotaResource): number | null {
+    const key = LIMIT_KEYS[resource];
+    const limits = [this.plan(tenant)[key], tenant.config?.[key]].filter((limit): limit is number => limit != null);
+    return limits.length ? Math.min(...limits) : null;
+  }
+
+  /**
+   * 租户可用的功能
+   *
+   * @param tenant - 租户实体
+   * @returns 套餐功能与租户配置功能的并集
+   */
+  features(tenant: Tenant): string[] {
+    return [...new Set([...(this.plan(tenant).features ?? []), ...(tenant.config?.features ?? [])])];
+  }
+
+  /**
+   * 校验用量加上增量后不超过限额
+   *
+   * @param resource - 资源
+   * @param usage - 当前用量与限额
+   * @param increment - 本次新增的用量
+   * @throws {ForbiddenException} 超出限额
+   */
+  private assertWithin(resource: QuotaResource, usage: QuotaUsage, increment: number): void {
+    if (usage.limit !== null && usage.used + increment > usage.limit) {
+      throw new ForbiddenException({
+        code: ErrorCode.QUOTA_EXCEEDED,
+        message: `Tenant ${resource} quota of ${usage.limit} exceeded`,
+        resource,
+        limit: usage.limit,
+        used: usage.used,
+      });
+    }
+  }
+
+  /**
+   * 租户套餐名称
+   *
+   * @param tenant - 租户实体
+   * @returns 套餐目录中存在的套餐名称
+   */
+  private planName(tenant: Tenant): string {
+    const plans = this.configService.get<Record<string, TenantPlan>>('tenancy.plans') ?? {};
+    const subscribed = tenant.subscription?.plan;
+    return subscribed && plans[subscribed] ? subscribed : (this.configService.get<string>('tenancy.defaultPlan') ?? 'free');
+  }
+
+  /**
+   * 租户套餐定义
+   *
+   * @param tenant - 租户实体
+   * @returns 套餐定义，套餐目录未配置时为空定义
+   */
+  private plan(tenant: Tenant): TenantPlan {
+    const plans = this.configService.get<Record<string, TenantPlan>>('tenancy.plans') ?? {};
+    return plans[this.planName(tenant)] ?? {};
+  }
+
+  /**
+   * 在调用方事务内执行，未提供实体管理器时开启新事务
+   *
+   * @param em - 调用方事务内的实体管理器
+   * @param callback - 回调
+   * @returns 回调结果
+   */
+  private within<T>(em: EntityManager | undefined, callback: (em: EntityManager) => Promise<T>): Promise<T> {
+    return em ? callback(em) : this.entityManager.transaction('postgresql', callback);
+  }
+
+  /**
+   * 获取租户，不存在时抛出 404
+   *
+   * @param em - 事务内的实体管理器
+   * @param tenantId - 租户ID
+   * @param lockMode - 锁模式
+   * @returns 租户实体
+   * @throws {NotFoundException} 租户不存在
+   */
+  private async findTenantOrFail(em: EntityManager, tenantId: string, lockMode?: LockMode): Promise<Tenant> {
+    const tenant = await em.findOne(Tenant, { id: tenantId }, lockMode ? { lockMode } : {});
+    if (!tenant) {
+      throw new NotFoundException(`Tenant ${tenantId} not found`);
+    }
+    return tenant;
+  }
+
+  /**
+   * 待接受邀请的查询条件
+   *
+   * @returns 未接受、未吊销且未过期的条件
+   */
+  private pendingInvitationCondition() {
+    return { acceptedAt: null, revokedAt: null, expiresAt: { $gt: new Date() } };
+  }
+}
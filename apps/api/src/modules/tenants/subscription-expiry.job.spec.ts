@@ -0,0 +1,158 @@
+import { Logger } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@hl8/config';
+import { EntityManagerService } from '@hl8/database';
+import type { DomainEvent } from '../events/domain-event';
+import { DomainEventsService } from '../events/domain-events.service';
+import { FakeClock } from '../scheduler/fake-clock';
+import { SchedulerService } from '../scheduler/scheduler.service';
+import { TenantCacheService } from '../tenancy/tenant-cache.service';
+import { SubscriptionEvent, SubscriptionExpiryJob } from './subscription-expiry.job';
+import { TenantLifecycleService } from './tenant-lifecycle.service';
+
+jest.mock('@hl8/config', () => ({ ConfigService: class ConfigService {} }));
+jest.mock('@hl8/database', () => ({
+  EntityManagerService: class EntityManagerService {},
+  Tenant: class Tenant {},
+  TenantStatusTransition: class TenantStatusTransition {},
+  TenantStatus: { ACTIVE: 'active', INACTIVE: 'inactive', SUSPENDED: 'suspended', EXPIRED: 'expired', DELETED: 'deleted' },
+}));
+jest.mock('../scheduler/scheduler.service', () => ({ SchedulerService: class SchedulerService {} }));
+jest.mock('../tenancy/tenant-cache.service', () => ({ TenantCacheService: class TenantCacheService {} }));
+
+const DAY = 24 * 60 * 60;
+
+type TenantRow = { id: string; status: string; subscription: Record<string, unknown> };
+
+describe('SubscriptionExpiryJob', () => {
+  let job: SubscriptionExpiryJob;
+  let clock: FakeClock;
+  let tenants: TenantRow[];
+  let events: DomainEvent[];
+  let tenantCache: { invalidate: jest.Mock };
+  let transitions: Record<string, unknown>[];
+  let failingTenantIds: Set<string>;
+
+  const run = () => job.run(clock.now());
+
+  beforeEach(async () => {
+    clock = new FakeClock(new Date('2025-01-01T00:00:00Z'));
+    tenants = [];
+    events = [];
+    tenantCache = { invalidate: jest.fn() };
+    transitions = [];
+    failingTenantIds = new Set();
+
+    const entityManager = {
+      find: jest.fn(async () => tenants.filter((tenant) => tenant.status === 'active' && tenant.subscription)),
+      transaction: jest.fn(async (_db, callback) =>
+        callback({
+          findOne: jest.fn(async (_entity, where) => {
+            if (failingTenantIds.has(where.id)) {
+              throw new Error('lock timeout');
+            }
+            return tenants.find((tenant) => tenant.id === where.id);
+          }),
+          create: jest.fn((_entity, data) => ({ ...data, createdAt: clock.now() })),
+          persist: jest.fn((transition) => transitions.push(transition)),
+        }),
+      ),
+    };
+    const config: Record<string, unknown> = {
+      'tenancy.subscription.renewalPeriod': 30 * DAY,
+      'tenancy.subscription.gracePeriod': 7 * DAY,
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SubscriptionExpiryJob,
+        TenantLifecycleService,
+        DomainEventsService,
+        { provide: EntityManagerService, useValue: entityManager },
+        { provide: ConfigService, useValue: { get: (key: string) => config[key] } },
+        { provide: SchedulerService, useValue: { register: jest.fn() } },
+        { provide: TenantCacheService, useValue: tenantCache },
+      ],
+    }).compile();
+
+    job = module.get<SubscriptionExpiryJob>(SubscriptionExpiryJob);
+    module.get<DomainEventsService>(DomainEventsService).subscribe('*', (event) => {
+      events.push(event);
+    });
+  });
+
+  it('should leave subscriptions that have not ended', async () => {
+    tenants.push({ id: 't1', status: 'active', subscription: { endDate: '2025-01-02T00:00:00.000Z' } });
+
+    await run();
+
+    expect(tenants[0].status).toBe('active');
+    expect(events).toHaveLength(0);
+  });
+
+  it('should renew auto-renewing subscriptions for every missed period', async () => {
+    tenants.push({
+      id: 't1',
+      status: 'active',
+      subscription: { plan: 'team', autoRenew: true, endDate: '2024-11-20T00:00:00.000Z' },
+    });
+
+    await run();
+
+    expect(tenants[0].status).toBe('active');
+    expect(tenants[0].subscription['startDate']).toEqual(new Date('2024-12-20T00:00:00Z'));
+    expect(tenants[0].subscription['endDate']).toEqual(new Date('2025-01-19T00:00:00Z'));
+    expect(events).toEqual([
+      expect.objectContaining({ type: SubscriptionEvent.RENEWED, tenantId: 't1', payload: expect.objectContaining({ plan: 'team' }) }),
+    ]);
+    expect(tenantCache.invalidate).toHaveBeenCalledWith('t1');
+  });
+
+  it('should warn once during the grace period and expire the tenant after it', async () => {
+    tenants.push({ id: 't1', status: 'active', subscription: { endDate: '2024-12-31T00:00:00.000Z' } });
+
+    await run();
+    clock.advance(DAY);
+    await run();
+
+    expect(tenants[0].status).toBe('active');
+    expect(events.map((event) => event.type)).toEqual([SubscriptionEvent.GRACE_PERIOD]);
+    expect(events[0].payload).toMatchObject({ graceEndsAt: new Date('2025-01-07T00:00:00Z') });
+
+    clock.set(new Date('2025-01-07T00:00:00Z'));
+    await run();
+
+    expect(tenants[0].status).toBe('expired');
+    expect(transitions).toEqual([
+      expect.objectContaining({ tenantId: 't1', action: 'expire', fromStatus: 'active', toStatus: 'expired' }),
+    ]);
+    expect(events.map((event) => event.type)).toEqual([
+      SubscriptionEvent.GRACE_PERIOD,
+      'tenant.status_changed',
+      SubscriptionEvent.EXPIRED,
+    ]);
+
+    await run();
+    expect(events).toHaveLength(3);
+  });
+
+  it('should keep expiring other tenants when one of them fails', async () => {
+    const logError = jest.spyOn(Logger.prototype, 'error').mockImplementation();
+    for (const id of ['t1', 't2', 't3']) {
+      tenants.push({ id, status: 'active', subscription: { endDate: '2024-12-01T00:00:00.000Z' } });
+    }
+    failingTenantIds.add('t2');
+
+    await run();
+
+    expect(tenants.map((tenant) => tenant.status)).toEqual(['expired', 'active', 'expired']);
+    expect(transitions.map((transition) => transition['tenantId'])).toEqual(['t1', 't3']);
+    expect(logError).toHaveBeenCalledWith(expect.stringContaining('t2'), expect.anything());
+
+    failingTenantIds.clear();
+    await run();
+
+    expect(tenants[1].status).toBe('expired');
+    logError.mockRestore();
+  });
+});
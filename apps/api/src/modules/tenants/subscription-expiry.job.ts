@@ -0,0 +1,183 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { EntityManager, LockMode } from '@mikro-orm/core';
+import { ConfigService } from '@hl8/config';
+import { EntityManagerService, Tenant, TenantStatus, TenantStatusTransition } from '@hl8/database';
+import { DomainEventsService } from '../events/domain-events.service';
+import type { DomainEvent } from '../events/domain-event';
+import { SchedulerService } from '../scheduler/scheduler.service';
+import type { ScheduledJob } from '../scheduler/scheduled-job';
+import { TenantCacheService } from '../tenancy/tenant-cache.service';
+import { TenantLifecycleService } from './tenant-lifecycle.service';
+
+/**
+ * 订阅事件类型
+ */
+export const SubscriptionEvent = {
+  /** 订阅已自动续期 */
+  RENEWED: 'tenant.subscription.renewed',
+  /** 订阅已到期，进入宽限期 */
+  GRACE_PERIOD: 'tenant.subscription.grace_period',
+  /** 宽限期结束，租户已过期 */
+  EXPIRED: 'tenant.subscription.expired',
+} as const;
+
+/**
+ * 订阅到期任务
+ *
+ * 按 `tenancy.subscription.checkInterval` 周期性扫描活跃租户的订阅结束时间
+ *
+ * ## 处理规则
+ * - 订阅结束时间未到的租户不做处理
+ * - 开启 autoRenew 的租户按 `tenancy.subscription.renewalPeriod` 续期，停机期间错过的周期一并补齐，发布 RENEWED 事件
+ * - 未开启 autoRenew 的租户在 `tenancy.subscription.gracePeriod` 宽限期内保持活跃，进入宽限期时发布一次 GRACE_PERIOD 事件
+ * - 宽限期结束后经由租户生命周期服务将租户置为 EXPIRED 并记录状态变更，发布 EXPIRED 事件
+ * - 每个租户在独立事务中锁定后处理，事件在事务提交后发布，并清除租户解析缓存
+ * - 单个租户处理失败时记录错误并继续处理其余租户，失败的租户在下一周期重试
+ *
+ * @description 订阅到期任务，负责订阅的自动续期、宽限期提醒与租户过期
+ * @since 1.0.0
+ */
+@Injectable()
+export class SubscriptionExpiryJob implements ScheduledJob, OnModuleInit {
+  readonly name = 'tenant-subscription-expiry';
+
+  private readonly logger = new Logger(SubscriptionExpiryJob.name);
+
+  constructor(
+    private readonly entityManager: EntityManagerService,
+    private readonly configService: ConfigService,
+    private readonly scheduler: SchedulerService,
+    private readonly domainEvents: DomainEventsService,
+    private readonly tenantCache: TenantCacheService,
+    private readonly tenantLifecycle: TenantLifecycleService,
+  ) {}
+
+  get interval(): number {
+    return this.configService.get<number>('tenancy.subscription.checkInterval') ?? 3600;
+  }
+
+  onModuleInit(): void {
+    this.scheduler.register(this);
+  }
+
+  /**
+   * 执行订阅到期检查
+   *
+   * @param now - 当前时间
+   */
+  async run(now: Date): Promise<void> {
+    const tenants = await this.entityManager.find('postgresql', Tenant, {
+      status: TenantStatus.ACTIVE,
+      subscription: { $ne: null },
+    });
+
+    for (const { id } of tenants) {
+      try {
+        await this.checkTenant(id, now);
+      } catch (error) {
+        this.logger.error(`Subscription check failed for tenant ${id}`, error instanceof Error ? error.stack : error);
+      }
+    }
+  }
+
+  /**
+   * 在独立事务中检查单个租户的订阅
+   *
+   * @param tenantId - 租户ID
+   * @param now - 当前时间
+   */
+  private async checkTenant(tenantId: string, now: Date): Promise<void> {
+    const outcome = await this.entityManager.transaction('postgresql', async (em) => {
+      const tenant = await em.findOne(Tenant, { id: tenantId }, { lockMode: LockMode.PESSIMISTIC_WRITE });
+      return tenant ? this.process(em, tenant, now) : undefined;
+    });
+
+    if (outcome) {
+      this.tenantCache.invalidate(tenantId);
+      if (outcome.transition) {
+        await this.tenantLifecycle.notify(outcome.transition);
+      }
+      await this.domainEvents.publish(outcome.event);
+    }
+  }
+
+  /**
+   * 处理单个租户的订阅
+   *
+   * @param em - 事务内的实体管理器
+   * @param tenant - 已锁定的租户
+   * @param now - 当前时间
+   * @returns 需要发布的事件与状态变更记录，无变化时为 undefined
+   */
+  private process(
+    em: EntityManager,
+    tenant: Tenant,
+    now: Date,
+  ): { event: DomainEvent; transition?: TenantStatusTransition } | undefined {
+    const subscription = tenant.subscription;
+    if (tenant.status !== TenantStatus.ACTIVE || !subscription?.endDate) {
+      return undefined;
+    }
+
+    const endDate = new Date(subscription.endDate);
+    if (endDate > now) {
+      return undefined;
+    }
+
+    if (subscription.autoRenew) {
+      const period = (this.configService.get<number>('tenancy.subscription.renewalPeriod') ?? 2592000) * 1000;
+      let startDate = endDate;
+      let renewedUntil = new Date(endDate.getTime() + period);
+      while (renewedUntil <= now) {
+        startDate = renewedUntil;
+        renewedUntil = new Date(renewedUntil.getTime() + period);
+      }
+      // JSON 属性整体替换，保证变更被检测到
+      tenant.subscription = { ...subscription, startDate, endDate: renewedUntil, graceWarnedAt: undefined };
+      return {
+        event: this.event(SubscriptionEvent.RENEWED, tenant, now, {
+          plan: subscription.plan,
+          previousEndDate: endDate,
+          endDate: renewedUntil,
+        }),
+      };
+    }
+
+    const gracePeriod = (this.configService.get<number>('tenancy.subscription.gracePeriod') ?? 604800) * 1000;
+    const graceEndsAt = new Date(endDate.getTime() + gracePeriod);
+    if (now < graceEndsAt) {
+      if (subscription.graceWarnedAt) {
+        return undefined;
+      }
+      tenant.subscription = { ...subscription, graceWarnedAt: now };
+      return {
+        event: this.event(SubscriptionEvent.GRACE_PERIOD, tenant, now, {
+          plan: subscription.plan,
+          endDate,
+          graceEndsAt,
+        }),
+      };
+    }
+
+    const transition = this.tenantLifecycle.apply(em, tenant, 'expire', {
+      reason: `Subscription ended on ${endDate.toISOString()}`,
+    });
+    return {
+      event: this.event(SubscriptionEvent.EXPIRED, tenant, now, { plan: subscription.plan, endDate }),
+      transition,
+    };
+  }
+
+  /**
+   * 创建订阅事件
+   *
+   * @param type - 事件类型
+   * @param tenant - 租户
+   * @param now - 事件发生时间
+   * @param payload - 事件数据
+   * @returns 领域事件
+   */
+  private event(type: string, tenant: Tenant, now: Date, payload: Record<string, unknown>): DomainEvent {
+    return { type, occurredAt: now, tenantId: tenant.id, payload };
+  }
+}
@@ -0,0 +1,134 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { EntityManagerService } from '@hl8/database';
+import { DomainEventsService } from '../events/domain-events.service';
+import { TenantCacheService } from '../tenancy/tenant-cache.service';
+import { TENANT_STATUS_CHANGED, TenantLifecycleService } from './tenant-lifecycle.service';
+
+jest.mock('@hl8/database', () => ({
+  EntityManagerService: class EntityManagerService {},
+  Tenant: class Tenant {},
+  TenantStatusTransition: class TenantStatusTransition {},
+  TenantStatus: { ACTIVE: 'active', INACTIVE: 'inactive', SUSPENDED: 'suspended', EXPIRED: 'expired', DELETED: 'deleted' },
+  withDeleted: () => ({ filters: { 'soft-deletable-filter': false } }),
+}));
+jest.mock('../tenancy/tenant-cache.service', () => ({ TenantCacheService: class TenantCacheService {} }));
+
+describe('TenantLifecycleService', () => {
+  let service: TenantLifecycleService;
+  let tenant: Record<string, unknown>;
+  let transitions: Record<string, unknown>[];
+  let published: { type: string }[];
+  let tenantCache: { invalidate: jest.Mock };
+
+  beforeEach(async () => {
+    tenant = { id: 'tenant-1', status: 'active' };
+    transitions = [];
+    published = [];
+    tenantCache = { invalidate: jest.fn() };
+
+    // 事务回调失败时不写入变更记录，模拟事务回滚
+    const entityManager = {
+      findOne: jest.fn(async (_db, _entity, where) => (where.id === tenant['id'] ? tenant : null)),
+      find: jest.fn(async () => [...transitions].reverse()),
+      transaction: jest.fn(async (_db, callback) => {
+        const pending: Record<string, unknown>[] = [];
+        const result = await callback({
+          findOne: jest.fn(async (_entity, where) => (where.id === tenant['id'] ? tenant : null)),
+          create: jest.fn((_entity, data) => ({ ...data, createdAt: new Date() })),
+          persist: jest.fn((record) => pending.push(record)),
+        });
+        transitions.push(...pending);
+        return result;
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TenantLifecycleService,
+        DomainEventsService,
+        { provide: EntityManagerService, useValue: entityManager },
+        { provide: TenantCacheService, useValue: tenantCache },
+      ],
+    }).compile();
+
+    service = module.get<TenantLifecycleService>(TenantLifecycleService);
+    module.get<DomainEventsService>(DomainEventsService).subscribe('*', (event) => {
+      published.push(event);
+    });
+  });
+
+  it('should suspend and resume a tenant, recording who did it and why', async () => {
+    await service.transition('tenant-1', 'suspend', { reason: 'Unpaid invoice', performedBy: 'admin-1' });
+    expect(tenant['status']).toBe('suspended');
+
+    await service.transition('tenant-1', 'resume', { performedBy: 'admin-2' });
+    expect(tenant['status']).toBe('active');
+
+    expect(transitions).toEqual([
+      expect.objectContaining({ action: 'suspend', fromStatus: 'active', toStatus: 'suspended', reason: 'Unpaid invoice', performedBy: 'admin-1' }),
+      expect.objectContaining({ action: 'resume', fromStatus: 'suspended', toStatus: 'active', performedBy: 'admin-2' }),
+    ]);
+    expect(transitions[0]['createdAt']).toBeInstanceOf(Date);
+    expect(published.map((event) => event.type)).toEqual([TENANT_STATUS_CHANGED, TENANT_STATUS_CHANGED]);
+    expect(tenantCache.invalidate).toHaveBeenCalledWith('tenant-1');
+  });
+
+  it('should reject transitions the state machine does not allow', async () => {
+    tenant['status'] = 'suspended';
+
+    await expect(service.transition('tenant-1', 'deactivate')).rejects.toBeInstanceOf(ConflictException);
+    await expect(service.transition('tenant-1', 'renew')).rejects.toMatchObject({
+      response: { code: 'INVALID_TENANT_TRANSITION', action: 'renew', currentStatus: 'suspended' },
+    });
+    expect(tenant['status']).toBe('suspended');
+    expect(transitions).toHaveLength(0);
+    expect(published).toHaveLength(0);
+  });
+
+  it('should only restore deleted tenants', async () => {
+    await expect(service.transition('tenant-1', 'restore')).rejects.toBeInstanceOf(ConflictException);
+    await service.transition('tenant-1', 'delete', { performedBy: 'admin-1' });
+    expect(tenant['deletedAt']).toBeInstanceOf(Date);
+
+    for (const action of ['activate', 'resume', 'renew', 'delete'] as const) {
+      await expect(service.transition('tenant-1', action)).rejects.toBeInstanceOf(ConflictException);
+    }
+
+    const result = await service.transition('tenant-1', 'restore', { performedBy: 'admin-1' });
+    expect(result.message).toBe('Tenant restored successfully');
+    expect(tenant).toMatchObject({ status: 'inactive', deletedAt: undefined, deletedBy: undefined });
+    expect(transitions.map((transition) => transition['action'])).toEqual(['delete', 'restore']);
+  });
+
+  it('should reactivate an expired tenant on renewal', async () => {
+    tenant['status'] = 'expired';
+    tenant['subscription'] = { plan: 'team', endDate: '2020-01-01T00:00:00.000Z', graceWarnedAt: '2020-01-02T00:00:00.000Z' };
+    const endDate = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
+
+    const result = await service.renew('tenant-1', { endDate, reason: 'Paid' }, 'admin-1');
+
+    expect(tenant['status']).toBe('active');
+    expect(tenant['subscription']).toMatchObject({ plan: 'team', endDate, graceWarnedAt: undefined });
+    expect(result.transition).toMatchObject({ action: 'renew', fromStatus: 'expired', toStatus: 'active' });
+  });
+
+  it('should extend an active subscription without a transition', async () => {
+    const result = await service.renew('tenant-1', { endDate: new Date(Date.now() + 60_000), plan: 'enterprise' });
+
+    expect(result.transition).toBeNull();
+    expect(tenant['subscription']).toMatchObject({ plan: 'enterprise' });
+    expect(transitions).toHaveLength(0);
+  });
+
+  it('should reject renewals that end in the past', async () => {
+    await expect(service.renew('tenant-1', { endDate: new Date(Date.now() - 1000) })).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+  });
+
+  it('should throw NotFoundException for unknown tenants', async () => {
+    await expect(service.transition('missing', 'suspend')).rejects.toBeInstanceOf(NotFoundException);
+    await expect(service.getTransitions('missing')).rejects.toBeInstanceOf(NotFoundException);
+  });
+});
@@ -0,0 +1,316 @@
+import { BadRequestException, ConflictException, Injectable, NotFoundException } from '@nestjs/common';
+import { EntityManager, LockMode } from '@mikro-orm/core';
+import { ErrorCode } from '@hl8/constants';
+import { RenewTenantDto } from '@hl8/contracts';
+import { EntityManagerService, Tenant, TenantStatus, TenantStatusTransition, withDeleted } from '@hl8/database';
+import { DomainEventsService } from '../events/domain-events.service';
+import { TenantCacheService } from '../tenancy/tenant-cache.service';
+
+/**
+ * 租户生命周期动作
+ */
+export type TenantTransition =
+  | 'activate'
+  | 'deactivate'
+  | 'suspend'
+  | 'resume'
+  | 'expire'
+  | 'renew'
+  | 'delete'
+  | 'restore';
+
+/**
+ * 租户状态机
+ *
+ * @description 每个生命周期动作允许的起始状态与目标状态
+ */
+export const TENANT_TRANSITIONS: Record<TenantTransition, { from: TenantStatus[]; to: TenantStatus }> = {
+  activate: { from: [TenantStatus.INACTIVE], to: TenantStatus.ACTIVE },
+  deactivate: { from: [TenantStatus.ACTIVE], to: TenantStatus.INACTIVE },
+  suspend: { from: [TenantStatus.ACTIVE], to: TenantStatus.SUSPENDED },
+  resume: { from: [TenantStatus.SUSPENDED], to: TenantStatus.ACTIVE },
+  expire: { from: [TenantStatus.ACTIVE], to: TenantStatus.EXPIRED },
+  renew: { from: [TenantStatus.EXPIRED], to: TenantStatus.ACTIVE },
+  delete: {
+    from: [TenantStatus.ACTIVE, TenantStatus.INACTIVE, TenantStatus.SUSPENDED, TenantStatus.EXPIRED],
+    to: TenantStatus.DELETED,
+  },
+  restore: { from: [TenantStatus.DELETED], to: TenantStatus.INACTIVE },
+};
+
+/**
+ * 租户状态变更事件类型
+ */
+export const TENANT_STATUS_CHANGED = 'tenant.status_changed';
+
+/**
+ * 状态变更上下文
+ *
+ * @description performedBy 为空表示由系统触发
+ */
+export interface TenantTransitionContext {
+  reason?: string;
+  performedBy?: string;
+}
+
+/**
+ * 动作完成后的提示
+ */
+const TRANSITION_MESSAGES: Record<TenantTransition, string> = {
+  activate: 'Tenant activated successfully',
+  deactivate: 'Tenant deactivated successfully',
+  suspend: 'Tenant suspended successfully',
+  resume: 'Tenant resumed successfully',
+  expire: 'Tenant expired successfully',
+  renew: 'Tenant renewed successfully',
+  delete: 'Tenant deleted successfully',
+  restore: 'Tenant restored successfully',
+};
+
+/**
+ * 租户生命周期服务
+ *
+ * 以显式状态机管理租户状态，租户状态只能通过生命周期动作变更
+ *
+ * ## 业务规则
+ * - ACTIVE 与 INACTIVE 互相切换；ACTIVE 可暂停为 SUSPENDED，暂停后只能恢复为 ACTIVE
+ * - 订阅到期任务将 ACTIVE 置为 EXPIRED，续订后恢复为 ACTIVE
+ * - 除 DELETED 外的任意状态都可以删除，删除同时软删除租户数据行；DELETED 只能恢复为 INACTIVE，并清除删除标记
+ * - 当前状态不允许该动作时返回 409，错误码为 INVALID_TENANT_TRANSITION
+ * - 每次变更在同一事务中写入 TenantStatusTransition，记录动作、前后状态、原因、操作人与时间
+ * - 租户创建时写入动作为 create 的初始记录，租户的状态历史从创建开始完整
+ * - 事务提交后清除租户解析缓存并发布 `tenant.status_changed` 事件
+ *
+ * @description 租户生命周期服务，负责租户状态的变更与变更记录
+ * @since 1.0.0
+ */
+@Injectable()
+export class TenantLifecycleService {
+  constructor(
+    private readonly entityManager: EntityManagerService,
+    private readonly tenantCache: TenantCacheService,
+    private readonly domainEvents: DomainEventsService,
+  ) {}
+
+  /**
+   * 执行生命周期动作
+   *
+   * @param tenantId - 租户ID
+   * @param action - 生命周期动作
+   * @param context - 变更原因与操作人
+   * @returns 变更后的租户与变更记录
+   * @throws {NotFoundException} 租户不存在
+   * @throws {ConflictException} 当前状态不允许该动作
+   */
+  async transition(tenantId: string, action: TenantTransition, context: TenantTransitionContext = {}) {
+    const { tenant, transition } = await this.entityManager.transaction('postgresql', async (em) => {
+      const tenant = await this.findTenantOrFail(em, tenantId);
+      return { tenant, transition: this.apply(em, tenant, action, context) };
+    });
+    await this.notify(transition);
+
+    return {
+      message: TRANSITION_MESSAGES[action],
+      tenant,
+      transition,
+    };
+  }
+
+  /**
+   * 续订租户订阅
+   *
+   * @description 更新订阅结束日期与套餐，已过期的租户同时恢复为活跃状态
+   * @param tenantId - 租户ID
+   * @param renewData - 续订数据
+   * @param performedBy - 操作人ID
+   * @returns 续订后的租户与变更记录，未发生状态变更时变更记录为 null
+   * @throws {NotFoundException} 租户不存在
+   * @throws {BadRequestException} 结束日期不晚于当前时间
+   * @throws {ConflictException} 租户已删除
+   */
+  async renew(tenantId: string, renewData: RenewTenantDto, performedBy?: string) {
+    if (renewData.endDate <= new Date()) {
+      throw new BadRequestException('Subscription end date must be in the future');
+    }
+
+    const { tenant, transition } = await this.entityManager.transaction('postgresql', async (em) => {
+      const tenant = await this.findTenantOrFail(em, tenantId);
+      if (tenant.status === TenantStatus.DELETED) {
+        throw this.invalidTransition(tenant, 'renew');
+      }
+
+      const subscription = tenant.subscription ?? {};
+      const running = subscription.endDate !== undefined && new Date(subscription.endDate) > new Date();
+      // JSON 属性整体替换，保证变更被检测到；订阅仍在有效期内时保留原开始日期
+      tenant.subscription = {
+        ...subscription,
+        plan: renewData.plan ?? subscription.plan,
+        startDate: running ? subscription.startDate : new Date(),
+        endDate: renewData.endDate,
+        graceWarnedAt: undefined,
+      };
+      const transition =
+        tenant.status === TenantStatus.EXPIRED
+          ? this.apply(em, tenant, 'renew', { reason: renewData.reason, performedBy })
+          : null;
+      return { tenant, transition };
+    });
+
+    if (transition) {
+      await this.notify(transition);
+    } else {
+      this.tenantCache.invalidate(tenant.id);
+    }
+
+    return {
+      message: TRANSITION_MESSAGES.renew,
+      tenant,
+      transition,
+    };
+  }
+
+  /**
+   * 获取租户状态变更记录
+   *
+   * @param tenantId - 租户ID
+   * @returns 按时间倒序排列的变更记录
+   * @throws {NotFoundException} 租户不存在
+   */
+  async getTransitions(tenantId: string) {
+    const tenant = await this.entityManager.findOne('postgresql', Tenant, { id: tenantId }, withDeleted());
+    if (!tenant) {
+      throw new NotFoundException(`Tenant ${tenantId} not found`);
+    }
+
+    const transitions = await this.entityManager.find(
+      'postgresql',
+      TenantStatusTransition,
+      { tenantId },
+      { orderBy: { createdAt: 'DESC' } },
+    );
+
+    return {
+      message: 'Tenant transitions retrieved successfully',
+      transitions,
+    };
+  }
+
+  /**
+   * 在调用方事务内变更租户状态
+   *
+   * @description 供订阅到期任务等需要与其他写入共用事务的场景使用，事务提交后需调用 notify
+   * @param em - 事务内的实体管理器
+   * @param tenant - 已锁定的租户
+   * @param action - 生命周期动作
+   * @param context - 变更原因与操作人
+   * @returns 变更记录
+   * @throws {ConflictException} 当前状态不允许该动作
+   */
+  apply(
+    em: EntityManager,
+    tenant: Tenant,
+    action: TenantTransition,
+    context: TenantTransitionContext = {},
+  ): TenantStatusTransition {
+    const { from, to } = TENANT_TRANSITIONS[action];
+    if (!from.includes(tenant.status)) {
+      throw this.invalidTransition(tenant, action);
+    }
+
+    const transition = em.create(TenantStatusTransition, {
+      tenantId: tenant.id,
+      action,
+      fromStatus: tenant.status,
+      toStatus: to,
+      reason: context.reason,
+      performedBy: context.performedBy,
+    });
+    em.persist(transition);
+    tenant.status = to;
+    if (action === 'delete') {
+      tenant.deletedAt = new Date();
+    } else if (action === 'restore') {
+      tenant.deletedAt = undefined;
+      tenant.deletedBy = undefined;
+    }
+    return transition;
+  }
+
+  /**
+   * 在调用方事务内记录租户创建
+   *
+   * @description 写入动作为 create、变更前状态为空的初始变更记录，随租户一同提交
+   * @param em - 事务内的实体管理器
+   * @param tenant - 新创建的租户
+   * @param performedBy - 操作人ID
+   * @returns 变更记录
+   */
+  recordCreation(em: EntityManager, tenant: Tenant, performedBy?: string): TenantStatusTransition {
+    const transition = em.create(TenantStatusTransition, {
+      tenantId: tenant.id,
+      action: 'create',
+      toStatus: tenant.status,
+      performedBy,
+    });
+    em.persist(transition);
+    return transition;
+  }
+
+  /**
+   * 状态变更提交后的通知
+   *
+   * @description 清除租户解析缓存并发布 `tenant.status_changed` 事件
+   * @param transition - 已提交的变更记录
+   */
+  async notify(transition: TenantStatusTransition): Promise<void> {
+    this.tenantCache.invalidate(transition.tenantId);
+    await this.domainEvents.publish({
+      type: TENANT_STATUS_CHANGED,
+      occurredAt: transition.createdAt,
+      tenantId: transition.tenantId,
+      payload: {
+        action: transition.action,
+        from: transition.fromStatus,
+        to: transition.toStatus,
+        reason: transition.reason,
+        performedBy: transition.performedBy,
+      },
+    });
+  }
+
+  /**
+   * 获取并锁定租户，不存在时抛出 404
+   *
+   * @description 包含已删除的租户，由状态机决定动作是否允许
+   * @param em - 事务内的实体管理器
+   * @param tenantId - 租户ID
+   * @returns 租户实体
+   * @throws {NotFoundException} 租户不存在
+   */
+  private async findTenantOrFail(em: EntityManager, tenantId: string): Promise<Tenant> {
+    const tenant = await em.findOne(Tenant, { id: tenantId }, {
+      ...withDeleted(),
+      lockMode: LockMode.PESSIMISTIC_WRITE,
+    });
+    if (!tenant) {
+      throw new NotFoundException(`Tenant ${tenantId} not found`);
+    }
+    return tenant;
+  }
+
+  /**
+   * 非法状态变更异常
+   *
+   * @param tenant - 租户
+   * @param action - 生命周期动作
+   * @returns 409 异常
+   */
+  private invalidTransition(tenant: Tenant, action: TenantTransition): ConflictException {
+    return new ConflictException({
+      code: ErrorCode.INVALID_TENANT_TRANSITION,
+      message: `Cannot ${action} a tenant that is ${tenant.status}`,
+      action,
+      currentStatus: tenant.status,
+    });
+  }
+}
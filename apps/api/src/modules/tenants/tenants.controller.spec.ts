@@ -0,0 +1,139 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Test, TestingModule } from '@nestjs/testing';
+import { UserType } from '@hl8/common';
+import type { AuthPrincipal } from '@hl8/common';
+import { EntityManagerService } from '@hl8/database';
+import { AccessControlGuard } from '../auth/access-control.guard';
+import { AccessControlService } from '../auth/access-control.service';
+import { QuotaService } from './quota.service';
+import { TenantLifecycleService } from './tenant-lifecycle.service';
+import { TenantsController } from './tenants.controller';
+import { TenantsService } from './tenants.service';
+
+jest.mock('./tenants.service', () => ({ TenantsService: class TenantsService {} }));
+jest.mock('./quota.service', () => ({ QuotaService: class QuotaService {} }));
+jest.mock('./tenant-lifecycle.service', () => ({ TenantLifecycleService: class TenantLifecycleService {} }));
+// 数据库包在加载时会初始化连接配置，单元测试中以轻量替身隔离
+jest.mock('@hl8/database', () => ({
+  EntityManagerService: class EntityManagerService {},
+  User: class User {},
+}));
+
+describe('TenantsController', () => {
+  let controller: TenantsController;
+  let guard: AccessControlGuard;
+  let tenantsService: Record<string, jest.Mock>;
+  let quotaService: Record<string, jest.Mock>;
+  let tenantLifecycle: Record<string, jest.Mock>;
+
+  const principal = (overrides: Partial<AuthPrincipal> = {}): AuthPrincipal => ({
+    userId: 'user-1',
+    username: 'alice',
+    type: UserType.TENANT_USER,
+    tenantId: 'tenant-1',
+    roles: ['member'],
+    permissions: [],
+    ...overrides,
+  });
+
+  const contextFor = (handler: (...args: never[]) => unknown, user: AuthPrincipal) =>
+    ({
+      getHandler: () => handler,
+      getClass: () => TenantsController,
+      switchToHttp: () => ({ getRequest: () => ({ user, params: { id: 'tenant-1' } }) }),
+    }) as unknown as ExecutionContext;
+
+  beforeEach(async () => {
+    tenantsService = {
+      getTenant: jest.fn().mockResolvedValue({}),
+      updateTenant: jest.fn().mockResolvedValue({}),
+      deleteTenant: jest.fn().mockResolvedValue({}),
+    };
+    quotaService = { getUsage: jest.fn().mockResolvedValue({}) };
+    tenantLifecycle = {
+      getTransitions: jest.fn().mockResolvedValue({}),
+      transition: jest.fn().mockResolvedValue({}),
+      renew: jest.fn().mockResolvedValue({}),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [TenantsController],
+      providers: [
+        AccessControlService,
+        { provide: TenantsService, useValue: tenantsService },
+        { provide: QuotaService, useValue: quotaService },
+        { provide: TenantLifecycleService, useValue: tenantLifecycle },
+        { provide: EntityManagerService, useValue: {} },
+      ],
+    }).compile();
+
+    controller = module.get<TenantsController>(TenantsController);
+    guard = new AccessControlGuard(module.get(AccessControlService), new Reflector());
+  });
+
+  it('should require tenant permissions on every CRUD route', () => {
+    const handlers = [
+      controller.getTenants,
+      controller.createTenant,
+      controller.getTenant,
+      controller.getUsage,
+      controller.updateTenant,
+      controller.deleteTenant,
+    ];
+    for (const handler of handlers) {
+      expect(() => guard.canActivate(contextFor(handler, principal()))).toThrow(ForbiddenException);
+    }
+  });
+
+  it('should only let tenant users read their own tenant', async () => {
+    const user = principal({ permissions: ['tenants:read'] });
+
+    await controller.getTenant('tenant-1', user);
+    await controller.getUsage('tenant-1', user);
+    await expect(controller.getTenant('tenant-2', user)).rejects.toBeInstanceOf(ForbiddenException);
+    await expect(controller.getUsage('tenant-2', user)).rejects.toBeInstanceOf(ForbiddenException);
+
+    expect(tenantsService.getTenant).toHaveBeenCalledTimes(1);
+    expect(quotaService.getUsage).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject changes to other tenants from tenant users', async () => {
+    const user = principal({ permissions: ['tenants:*'] });
+    const reason = { reason: 'x' };
+    const calls = [
+      () => controller.updateTenant('tenant-2', { name: 'Other' }, undefined, user),
+      () => controller.deleteTenant('tenant-2', user),
+      () => controller.getTransitions('tenant-2', user),
+      () => controller.activateTenant('tenant-2', user, reason),
+      () => controller.deactivateTenant('tenant-2', user, reason),
+      () => controller.suspendTenant('tenant-2', user, reason),
+      () => controller.resumeTenant('tenant-2', user, reason),
+      () => controller.renewTenant('tenant-2', user, { endDate: new Date() }),
+      () => controller.restoreTenant('tenant-2', user, reason),
+    ];
+
+    for (const call of calls) {
+      await expect(call()).rejects.toMatchObject({ status: 403 });
+    }
+    expect(tenantsService.updateTenant).not.toHaveBeenCalled();
+    expect(tenantsService.deleteTenant).not.toHaveBeenCalled();
+    expect(tenantLifecycle.getTransitions).not.toHaveBeenCalled();
+    expect(tenantLifecycle.transition).not.toHaveBeenCalled();
+    expect(tenantLifecycle.renew).not.toHaveBeenCalled();
+
+    await controller.suspendTenant('tenant-1', user, reason);
+    expect(tenantLifecycle.transition).toHaveBeenCalledWith('tenant-1', 'suspend', {
+      reason: 'x',
+      performedBy: 'user-1',
+    });
+  });
+
+  it('should let platform users read any tenant', async () => {
+    const operator = principal({ type: UserType.PLATFORM_USER, tenantId: undefined, permissions: ['tenants:*'] });
+
+    await controller.getTenant('tenant-2', operator);
+
+    expect(tenantsService.getTenant).toHaveBeenCalledWith('tenant-2');
+  });
+});
@@ -1,28 +1,55 @@
-import { Controller, Get, Post, Put, Delete, Param, Body } from '@nestjs/common';
+import { Controller, Get, Post, Put, Delete, Param, Body, Query, ParseUUIDPipe, HttpCode, HttpStatus } from '@nestjs/common';
+import { RequirePermissions } from '@hl8/common';
+import type { AuthPrincipal } from '@hl8/common';
+import {
+  CreateTenantDto,
+  RenewTenantDto,
+  SuspendTenantDto,
+  TenantQueryDto,
+  TenantStatusChangeDto,
+  UpdateTenantDto,
+} from '@hl8/contracts';
+import { AccessControlService } from '../auth/access-control.service';
+import { IfMatch } from '../../app/entity-tag';
+import { CurrentUser } from '../auth/current-user.decorator';
 import { TenantsService } from './tenants.service';
+import { QuotaService } from './quota.service';
+import { TenantLifecycleService } from './tenant-lifecycle.service';
 
 /**
  * 租户管理控制器
  *
  * 提供租户管理的RESTful API接口
- * 支持租户的CRUD操作
+ * 支持租户的CRUD操作与生命周期状态变更，CRUD 操作需要 `tenants:create/read/update/delete` 权限，
+ * 状态变更需要 `tenants:lifecycle` 权限；租户用户只能查看与操作自身租户
  *
  * @description 租户管理控制器，处理租户相关的HTTP请求
  * @since 1.0.0
  */
 @Controller('tenants')
 export class TenantsController {
-  constructor(private readonly tenantsService: TenantsService) {}
+  constructor(
+    private readonly tenantsService: TenantsService,
+    private readonly quotaService: QuotaService,
+    private readonly tenantLifecycle: TenantLifecycleService,
+    private readonly accessControlService: AccessControlService,
+  ) {}
 
   /**
    * 获取所有租户
    *
-   * @description 获取租户列表
+   * @description 获取租户列表，已删除的租户需显式请求且需要 tenants:deleted:read 权限
+   * @param query - 查询条件
+   * @param user - 当前用户
    * @returns 租户列表
    */
   @Get()
-  async getTenants() {
-    return this.tenantsService.getTenants();
+  @RequirePermissions('tenants:read')
+  async getTenants(@Query() query: TenantQueryDto, @CurrentUser() user: AuthPrincipal) {
+    if (query.includeDeleted) {
+      this.accessControlService.authorize(user, { permissions: ['tenants:deleted:read'] });
+    }
+    return this.tenantsService.getTenants(query);
   }
 
   /**
@@ -30,47 +57,220 @@ export class TenantsController {
    *
    * @description 创建新的租户实例
    * @param createTenantDto - 创建租户的数据传输对象
+   * @param user - 当前用户
    * @returns 创建的租户信息
    */
   @Post()
-  async createTenant(@Body() createTenantDto: any) {
-    return this.tenantsService.createTenant(createTenantDto);
+  @RequirePermissions('tenants:create')
+  async createTenant(@Body() createTenantDto: CreateTenantDto, @CurrentUser() user: AuthPrincipal) {
+    return this.tenantsService.createTenant(createTenantDto, user.userId);
   }
 
   /**
    * 获取租户信息
    *
-   * @description 根据租户ID获取租户详细信息
+   * @description 根据租户ID获取租户详细信息，租户用户只能查看自身租户
    * @param id - 租户ID
+   * @param user - 当前用户
    * @returns 租户信息
    */
   @Get(':id')
-  async getTenant(@Param('id') id: string) {
+  @RequirePermissions('tenants:read')
+  async getTenant(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthPrincipal) {
+    this.accessControlService.authorize(user, { tenantId: id });
     return this.tenantsService.getTenant(id);
   }
 
+  /**
+   * 获取租户用量
+   *
+   * @description 报告租户的套餐、可用功能以及用户、组织与存储空间的用量和限额，租户用户只能查看自身租户
+   * @param id - 租户ID
+   * @param user - 当前用户
+   * @returns 租户用量
+   */
+  @Get(':id/usage')
+  @RequirePermissions('tenants:read')
+  async getUsage(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthPrincipal) {
+    this.accessControlService.authorize(user, { tenantId: id });
+    return this.quotaService.getUsage(id);
+  }
+
   /**
    * 更新租户信息
    *
-   * @description 更新租户的配置信息
+   * @description 更新租户的配置信息；携带 If-Match 时仅在租户版本与之一致时更新，否则返回 412
    * @param id - 租户ID
    * @param updateTenantDto - 更新租户的数据传输对象
+   * @param expectedVersion - If-Match 中的租户版本
+   * @param user - 当前用户
    * @returns 更新结果
    */
   @Put(':id')
-  async updateTenant(@Param('id') id: string, @Body() updateTenantDto: any) {
-    return this.tenantsService.updateTenant(id, updateTenantDto);
+  @RequirePermissions('tenants:update')
+  async updateTenant(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateTenantDto: UpdateTenantDto,
+    @IfMatch() expectedVersion: number | undefined,
+    @CurrentUser() user: AuthPrincipal,
+  ) {
+    this.accessControlService.authorize(user, { tenantId: id });
+    return this.tenantsService.updateTenant(id, updateTenantDto, expectedVersion);
   }
 
   /**
    * 删除租户
    *
-   * @description 删除指定的租户
+   * @description 将指定租户标记为已删除，已删除租户可通过恢复接口还原
    * @param id - 租户ID
+   * @param user - 当前用户
    * @returns 删除结果
    */
   @Delete(':id')
-  async deleteTenant(@Param('id') id: string) {
-    return this.tenantsService.deleteTenant(id);
+  @RequirePermissions('tenants:delete')
+  async deleteTenant(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthPrincipal) {
+    this.accessControlService.authorize(user, { tenantId: id });
+    return this.tenantsService.deleteTenant(id, user.userId);
+  }
+
+  /**
+   * 获取租户状态变更记录
+   *
+   * @description 按时间倒序列出租户的状态变更、原因与操作人
+   * @param id - 租户ID
+   * @param user - 当前用户
+   * @returns 状态变更记录
+   */
+  @Get(':id/transitions')
+  @RequirePermissions('tenants:lifecycle')
+  async getTransitions(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthPrincipal) {
+    this.accessControlService.authorize(user, { tenantId: id });
+    return this.tenantLifecycle.getTransitions(id);
+  }
+
+  /**
+   * 启用租户
+   *
+   * @description 将停用的租户恢复为活跃状态
+   * @param id - 租户ID
+   * @param user - 当前用户
+   * @param statusChangeDto - 变更原因
+   * @returns 变更后的租户与变更记录
+   */
+  @Post(':id/activate')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions('tenants:lifecycle')
+  async activateTenant(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthPrincipal,
+    @Body() statusChangeDto: TenantStatusChangeDto,
+  ) {
+    this.accessControlService.authorize(user, { tenantId: id });
+    return this.tenantLifecycle.transition(id, 'activate', { reason: statusChangeDto.reason, performedBy: user.userId });
+  }
+
+  /**
+   * 停用租户
+   *
+   * @description 将活跃的租户置为停用状态
+   * @param id - 租户ID
+   * @param user - 当前用户
+   * @param statusChangeDto - 变更原因
+   * @returns 变更后的租户与变更记录
+   */
+  @Post(':id/deactivate')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions('tenants:lifecycle')
+  async deactivateTenant(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthPrincipal,
+    @Body() statusChangeDto: TenantStatusChangeDto,
+  ) {
+    this.accessControlService.authorize(user, { tenantId: id });
+    return this.tenantLifecycle.transition(id, 'deactivate', { reason: statusChangeDto.reason, performedBy: user.userId });
+  }
+
+  /**
+   * 暂停租户
+   *
+   * @description 暂停活跃的租户，暂停期间租户用户无法登录
+   * @param id - 租户ID
+   * @param user - 当前用户
+   * @param suspendTenantDto - 暂停原因
+   * @returns 变更后的租户与变更记录
+   */
+  @Post(':id/suspend')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions('tenants:lifecycle')
+  async suspendTenant(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthPrincipal,
+    @Body() suspendTenantDto: SuspendTenantDto,
+  ) {
+    this.accessControlService.authorize(user, { tenantId: id });
+    return this.tenantLifecycle.transition(id, 'suspend', { reason: suspendTenantDto.reason, performedBy: user.userId });
+  }
+
+  /**
+   * 恢复租户
+   *
+   * @description 将暂停的租户恢复为活跃状态
+   * @param id - 租户ID
+   * @param user - 当前用户
+   * @param statusChangeDto - 变更原因
+   * @returns 变更后的租户与变更记录
+   */
+  @Post(':id/resume')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions('tenants:lifecycle')
+  async resumeTenant(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthPrincipal,
+    @Body() statusChangeDto: TenantStatusChangeDto,
+  ) {
+    this.accessControlService.authorize(user, { tenantId: id });
+    return this.tenantLifecycle.transition(id, 'resume', { reason: statusChangeDto.reason, performedBy: user.userId });
+  }
+
+  /**
+   * 续订租户
+   *
+   * @description 延长租户订阅，已过期的租户恢复为活跃状态
+   * @param id - 租户ID
+   * @param user - 当前用户
+   * @param renewTenantDto - 续订数据
+   * @returns 续订后的租户与变更记录
+   */
+  @Post(':id/renew')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions('tenants:lifecycle')
+  async renewTenant(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthPrincipal,
+    @Body() renewTenantDto: RenewTenantDto,
+  ) {
+    this.accessControlService.authorize(user, { tenantId: id });
+    return this.tenantLifecycle.renew(id, renewTenantDto, user.userId);
+  }
+
+  /**
+   * 恢复已删除租户
+   *
+   * @description 将已删除的租户恢复为停用状态，需再次启用后方可使用
+   * @param id - 租户ID
+   * @param user - 当前用户
+   * @param statusChangeDto - 变更原因
+   * @returns 变更后的租户与变更记录
+   */
+  @Post(':id/restore')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions('tenants:restore')
+  async restoreTenant(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthPrincipal,
+    @Body() statusChangeDto: TenantStatusChangeDto,
+  ) {
+    this.accessControlService.authorize(user, { tenantId: id });
+    return this.tenantLifecycle.transition(id, 'restore', { reason: statusChangeDto.reason, performedBy: user.userId });
   }
 }
@@ -1,5 +1,12 @@
 import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { TenancyModule } from '../tenancy/tenancy.module';
+import { SchedulerModule } from '../scheduler/scheduler.module';
+import { EventsModule } from '../events/events.module';
 import { TenantsService } from './tenants.service';
+import { QuotaService } from './quota.service';
+import { SubscriptionExpiryJob } from './subscription-expiry.job';
+import { TenantLifecycleService } from './tenant-lifecycle.service';
 import { TenantsController } from './tenants.controller';
 
 /**
@@ -7,13 +14,15 @@ import { TenantsController } from './tenants.controller';
  *
  * 提供多租户SAAS平台的租户管理功能
  * 支持企业租户、社群租户、团队租户、个人租户等多种租户类型
+ * 订阅到期任务由定时任务模块调度，订阅状态变化以领域事件发布
  *
  * @description 租户管理模块，负责租户的创建、配置、权限管理等功能
  * @since 1.0.0
  */
 @Module({
+  imports: [AuthModule, TenancyModule, SchedulerModule, EventsModule],
   controllers: [TenantsController],
-  providers: [TenantsService],
-  exports: [TenantsService],
+  providers: [TenantsService, QuotaService, TenantLifecycleService, SubscriptionExpiryJob],
+  exports: [TenantsService, QuotaService, TenantLifecycleService],
 })
 export class TenantsModule {}
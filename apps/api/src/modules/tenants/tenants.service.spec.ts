@@ -0,0 +1,150 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException, NotFoundException, PreconditionFailedException } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { UpdateTenantDto } from '@hl8/contracts';
+import { EntityManagerService } from '@hl8/database';
+import { TenantCacheService } from '../tenancy/tenant-cache.service';
+import { TenantLifecycleService } from './tenant-lifecycle.service';
+import { TenantsService } from './tenants.service';
+
+jest.mock('@hl8/database', () => ({
+  assertVersion: (entity: { version: number }, expectedVersion?: number) => {
+    const { PreconditionFailedException } = jest.requireActual('@nestjs/common');
+    if (expectedVersion !== undefined && entity.version !== expectedVersion) {
+      throw new PreconditionFailedException({ currentVersion: entity.version });
+    }
+  },
+  EntityManagerService: class EntityManagerService {},
+  Tenant: class Tenant {},
+  TenantStatus: { ACTIVE: 'active', DELETED: 'deleted' },
+  withDeleted: (include = true) => (include ? { filters: { 'soft-deletable-filter': false } } : {}),
+}));
+jest.mock('@mikro-orm/core', () => ({
+  ...jest.requireActual('@mikro-orm/core'),
+  wrap: (entity: object) => ({ assign: (data: object) => Object.assign(entity, data) }),
+}));
+jest.mock('../tenancy/tenant-cache.service', () => ({ TenantCacheService: class TenantCacheService {} }));
+jest.mock('./tenant-lifecycle.service', () => ({ TenantLifecycleService: class TenantLifecycleService {} }));
+
+describe('TenantsService', () => {
+  let service: TenantsService;
+  let entityManager: Record<string, jest.Mock>;
+  let tenantCache: { invalidate: jest.Mock };
+  let tenantLifecycle: { transition: jest.Mock; recordCreation: jest.Mock };
+  let em: { create: jest.Mock; persist: jest.Mock };
+
+  beforeEach(async () => {
+    em = {
+      create: jest.fn((_entity, data) => ({ id: 'tenant-1', status: 'active', ...data })),
+      persist: jest.fn(),
+    };
+    entityManager = {
+      find: jest.fn().mockResolvedValue([]),
+      findPage: jest.fn().mockResolvedValue({ items: [], total: 0, limit: 20, page: 1, nextCursor: null, hasMore: false }),
+      findOne: jest.fn(),
+      update: jest.fn(async (_db, entity) => entity),
+      remove: jest.fn(),
+      transaction: jest.fn(async (_db, callback) => callback(em)),
+    };
+    tenantCache = { invalidate: jest.fn() };
+    tenantLifecycle = { transition: jest.fn(), recordCreation: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TenantsService,
+        { provide: EntityManagerService, useValue: entityManager },
+        { provide: TenantCacheService, useValue: tenantCache },
+        { provide: TenantLifecycleService, useValue: tenantLifecycle },
+      ],
+    }).compile();
+
+    service = module.get<TenantsService>(TenantsService);
+  });
+
+  it('should hide deleted tenants by default', async () => {
+    await service.getTenants({ status: ['deleted' as never] });
+
+    expect(entityManager.findPage.mock.calls[0][4]).toEqual({});
+    expect(entityManager.findPage.mock.calls[0][5]).toEqual({});
+  });
+
+  it('should include deleted tenants when asked', async () => {
+    await service.getTenants({ includeDeleted: true });
+
+    expect(entityManager.findPage.mock.calls[0][5]).toEqual({ filters: { 'soft-deletable-filter': false } });
+  });
+
+  it('should reject a domain that is already taken', async () => {
+    entityManager.findOne.mockResolvedValue({ id: 'other', domain: 'acme.example.com' });
+
+    await expect(
+      service.createTenant({ name: 'Acme', domain: 'acme.example.com' }),
+    ).rejects.toBeInstanceOf(ConflictException);
+  });
+
+  it('should record the initial status when a tenant is created', async () => {
+    entityManager.findOne.mockResolvedValue(null);
+
+    const { tenant } = await service.createTenant({ name: 'Acme', domain: 'acme.example.com' }, 'admin-1');
+
+    expect(tenant).toMatchObject({ name: 'Acme', status: 'active' });
+    expect(em.persist).toHaveBeenCalledWith(tenant);
+    expect(tenantLifecycle.recordCreation).toHaveBeenCalledWith(em, tenant, 'admin-1');
+  });
+
+  it('should mark the tenant as deleted through the lifecycle instead of removing it', async () => {
+    entityManager.findOne.mockResolvedValue({ id: 'tenant-1', status: 'active' });
+
+    await service.deleteTenant('tenant-1', 'admin-1');
+
+    expect(tenantLifecycle.transition).toHaveBeenCalledWith('tenant-1', 'delete', { performedBy: 'admin-1' });
+    expect(entityManager.remove).not.toHaveBeenCalled();
+  });
+
+  it('should not record another transition for a deleted tenant', async () => {
+    entityManager.findOne.mockResolvedValue({ id: 'tenant-1', status: 'deleted' });
+
+    await expect(service.deleteTenant('tenant-1')).resolves.toMatchObject({ tenantId: 'tenant-1' });
+    expect(entityManager.findOne.mock.calls[0][3]).toEqual({ filters: { 'soft-deletable-filter': false } });
+    expect(tenantLifecycle.transition).not.toHaveBeenCalled();
+  });
+
+  it('should invalidate cached resolutions when a tenant is updated', async () => {
+    entityManager.findOne.mockResolvedValueOnce({ id: 'tenant-1', name: 'Acme' });
+
+    await service.updateTenant('tenant-1', { name: 'Acme Inc' });
+
+    expect(tenantCache.invalidate).toHaveBeenCalledWith('tenant-1');
+  });
+
+  it('should merge partial config updates into the stored config', async () => {
+    entityManager.findOne.mockResolvedValueOnce({
+      id: 'tenant-1',
+      config: { maxUsers: 5, maxStorage: 1024, features: ['sso'] },
+      subscription: { plan: 'pro', endDate: '2027-01-01' },
+    });
+
+    const { tenant } = await service.updateTenant(
+      'tenant-1',
+      plainToInstance(UpdateTenantDto, { config: { maxUsers: 10 } }),
+    );
+
+    expect(tenant.config).toEqual({ maxUsers: 10, maxStorage: 1024, features: ['sso'] });
+    expect(tenant.subscription).toEqual({ plan: 'pro', endDate: '2027-01-01' });
+  });
+
+  it('should reject updates carrying a stale version', async () => {
+    entityManager.findOne.mockResolvedValueOnce({ id: 'tenant-1', name: 'Acme', version: 3 });
+
+    await expect(service.updateTenant('tenant-1', { name: 'Acme Inc' }, 2)).rejects.toBeInstanceOf(
+      PreconditionFailedException,
+    );
+    expect(entityManager.update).not.toHaveBeenCalled();
+  });
+
+  it('should throw NotFoundException for unknown tenants', async () => {
+    entityManager.findOne.mockResolvedValue(null);
+
+    await expect(service.getTenant('missing')).rejects.toBeInstanceOf(NotFoundException);
+  });
+});
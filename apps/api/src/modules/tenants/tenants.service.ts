@@ -1,7 +1,37 @@
-import { Injectable } from '@nestjs/common';
-// import { InjectRepository } from '@mikro-orm/nestjs';
-// import { EntityRepository } from '@mikro-orm/core';
-// import { Tenant } from '@hl8/database';
+import { ConflictException, Injectable, NotFoundException } from '@nestjs/common';
+import { FindOptions, UniqueConstraintViolationException, wrap } from '@mikro-orm/core';
+import { CreateTenantDto, TenantQueryDto, UpdateTenantDto } from '@hl8/contracts';
+import { assertVersion, EntityManagerService, ListQuerySpec, Tenant, TenantStatus, withDeleted } from '@hl8/database';
+import { TenantCacheService } from '../tenancy/tenant-cache.service';
+import { TenantLifecycleService } from './tenant-lifecycle.service';
+
+/**
+ * 租户列表查询规格
+ *
+ * @description 租户列表允许的过滤、排序与搜索字段
+ */
+const TENANT_LIST_SPEC: ListQuerySpec<Tenant> = {
+  filters: { type: 'enum', status: 'enum', createdAt: 'date' },
+  sortable: ['name', 'domain', 'createdAt'],
+  searchable: ['name', 'domain'],
+  defaultSort: 'createdAt:desc',
+};
+
+/**
+ * 合并 JSON 列的部分更新
+ *
+ * @description 按顶层字段合并，未提供的字段保留原值；请求体经过 DTO 转换后可能带有值为 undefined 的字段，一并忽略
+ * @param current - 当前值
+ * @param patch - 更新数据
+ * @returns 合并后的值，未提供更新数据时返回当前值
+ */
+function mergeJson<T extends object>(current: T | undefined, patch: object | undefined): T | undefined {
+  if (!patch) {
+    return current;
+  }
+  const provided = Object.entries(patch).filter(([, value]) => value !== undefined);
+  return { ...current, ...Object.fromEntries(provided) } as T;
+}
 
 /**
  * 租户管理服务
@@ -9,71 +39,77 @@ import { Injectable } from '@nestjs/common';
  * 提供租户的创建、配置、权限管理等功能
  * 支持多种租户类型的统一管理
  *
+ * ## 业务规则
+ * - 租户域名全局唯一，冲突时返回 409
+ * - 删除租户将状态置为 DELETED 并软删除数据行；状态变更经由租户生命周期服务记录
+ * - 查询默认不包含已删除租户，列表可由管理员以 includeDeleted 显式包含
+ * - 更新租户时 config、profile、subscription 按顶层字段合并，未提供的字段保持不变
+ * - 更新或删除租户后清除租户解析缓存
+ *
  * @description 租户管理服务，负责租户相关的业务逻辑
  * @since 1.0.0
  */
 @Injectable()
 export class TenantsService {
-  // constructor(
-  //   @InjectRepository(Tenant)
-  //   private readonly tenantRepository: EntityRepository<Tenant>,
-  // ) {}
+  constructor(
+    private readonly entityManager: EntityManagerService,
+    private readonly tenantCache: TenantCacheService,
+    private readonly tenantLifecycle: TenantLifecycleService,
+  ) {}
+
   /**
    * 获取所有租户
    *
-   * @description 获取租户列表
-   * @returns 租户列表
+   * @description 分页获取租户列表，默认排除已删除的租户，includeDeleted 为 true 时包含
+   * @param query - 查询条件
+   * @returns 租户列表及分页信息
    */
-  async getTenants() {
-    // 模拟数据
-    const mockTenants = [
-      {
-        id: '1',
-        name: 'Enterprise Corp',
-        domain: 'enterprise.example.com',
-        type: 'enterprise',
-        status: 'active',
-        createdBy: 'admin',
-        createdAt: new Date(),
-      },
-      {
-        id: '2',
-        name: 'Community Group',
-        domain: 'community.example.com',
-        type: 'community',
-        status: 'active',
-        createdBy: 'admin',
-        createdAt: new Date(),
-      }
-    ];
-    
-    return { 
-      message: 'Tenants retrieved successfully', 
-      tenants: mockTenants
+  async getTenants(query: TenantQueryDto = {}) {
+    const { items: tenants, ...page } = await this.entityManager.findPage(
+      'postgresql',
+      Tenant,
+      query,
+      TENANT_LIST_SPEC,
+      {},
+      withDeleted(query.includeDeleted === true),
+    );
+
+    return {
+      message: 'Tenants retrieved successfully',
+      tenants,
+      ...page,
     };
   }
 
   /**
    * 创建新租户
    *
-   * @description 创建新的租户实例
+   * @description 校验域名与子域名唯一性后以 ACTIVE 状态创建租户，并在同一事务中写入初始状态变更记录
    * @param tenantData - 租户数据
+   * @param performedBy - 操作人ID
    * @returns 创建的租户信息
+   * @throws {ConflictException} 域名或子域名已被占用
    */
-  async createTenant(tenantData: any) {
-    // 模拟创建租户
-    const newTenant = {
-      id: Date.now().toString(),
-      name: tenantData.name,
-      domain: tenantData.domain,
-      type: tenantData.type || 'personal',
-      status: tenantData.status || 'active',
-      createdAt: new Date(),
-    };
-    
-    return { 
-      message: 'Tenant created successfully', 
-      tenant: newTenant
+  async createTenant(tenantData: CreateTenantDto, performedBy?: string) {
+    if (tenantData.domain) {
+      await this.assertUnique('domain', tenantData.domain);
+    }
+    if (tenantData.subdomain) {
+      await this.assertUnique('subdomain', tenantData.subdomain);
+    }
+
+    const tenant = await this.persist(() =>
+      this.entityManager.transaction('postgresql', async (em) => {
+        const created = em.create(Tenant, tenantData);
+        em.persist(created);
+        this.tenantLifecycle.recordCreation(em, created, performedBy);
+        return created;
+      }),
+    );
+
+    return {
+      message: 'Tenant created successfully',
+      tenant,
     };
   }
 
@@ -83,66 +119,131 @@ export class TenantsService {
    * @description 根据租户ID获取租户详细信息
    * @param tenantId - 租户ID
    * @returns 租户信息
+   * @throws {NotFoundException} 租户不存在
    */
   async getTenant(tenantId: string) {
-    // 模拟获取租户
-    const mockTenant = {
-      id: tenantId,
-      name: 'Tenant ' + tenantId,
-      domain: `tenant${tenantId}.example.com`,
-      type: 'enterprise',
-      status: 'active',
-      config: {},
-      profile: {},
-      subscription: {},
-      createdBy: 'admin',
-      adminId: 'admin-1',
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
-    
-    return { 
-      message: 'Tenant retrieved successfully', 
-      tenant: mockTenant
+    const tenant = await this.findTenantOrFail(tenantId);
+
+    return {
+      message: 'Tenant retrieved successfully',
+      tenant,
     };
   }
 
   /**
    * 更新租户信息
    *
-   * @description 更新租户的配置信息
+   * @description 更新租户的配置信息，修改域名或子域名时重新校验唯一性
    * @param tenantId - 租户ID
    * @param updateData - 更新数据
+   * @param expectedVersion - 客户端期望的租户版本，未指定时不校验
    * @returns 更新结果
+   * @throws {NotFoundException} 租户不存在
+   * @throws {EntityVersionConflictError} 租户版本与期望版本不一致，或更新期间被其他请求修改
+   * @throws {ConflictException} 域名或子域名已被其他租户占用
    */
-  async updateTenant(tenantId: string, updateData: any) {
-    // 模拟更新租户
-    const updatedTenant = {
-      id: tenantId,
-      name: updateData.name || 'Tenant ' + tenantId,
-      domain: updateData.domain || `tenant${tenantId}.example.com`,
-      status: updateData.status || 'active',
-      updatedAt: new Date(),
-    };
-    
-    return { 
-      message: 'Tenant updated successfully', 
-      tenant: updatedTenant
+  async updateTenant(tenantId: string, updateData: UpdateTenantDto, expectedVersion?: number) {
+    const tenant = await this.findTenantOrFail(tenantId);
+    assertVersion(tenant, expectedVersion);
+
+    if (updateData.domain && updateData.domain !== tenant.domain) {
+      await this.assertUnique('domain', updateData.domain, tenant.id);
+    }
+    if (updateData.subdomain && updateData.subdomain !== tenant.subdomain) {
+      await this.assertUnique('subdomain', updateData.subdomain, tenant.id);
+    }
+
+    wrap(tenant).assign({
+      ...updateData,
+      config: mergeJson(tenant.config, updateData.config),
+      profile: mergeJson(tenant.profile, updateData.profile),
+      subscription: mergeJson(tenant.subscription, updateData.subscription),
+    });
+    const updatedTenant = await this.persist(() =>
+      this.entityManager.update('postgresql', tenant),
+    );
+    this.tenantCache.invalidate(tenant.id);
+
+    return {
+      message: 'Tenant updated successfully',
+      tenant: updatedTenant,
     };
   }
 
   /**
    * 删除租户
    *
-   * @description 删除指定的租户
+   * @description 将租户状态置为 DELETED，租户数据行保留；重复删除不会再次记录状态变更
    * @param tenantId - 租户ID
+   * @param performedBy - 操作人ID
    * @returns 删除结果
+   * @throws {NotFoundException} 租户不存在
    */
-  async deleteTenant(tenantId: string) {
-    // 模拟删除租户
-    return { 
-      message: 'Tenant deleted successfully', 
-      tenantId 
+  async deleteTenant(tenantId: string, performedBy?: string) {
+    const tenant = await this.findTenantOrFail(tenantId, withDeleted());
+
+    if (tenant.status !== TenantStatus.DELETED) {
+      await this.tenantLifecycle.transition(tenant.id, 'delete', { performedBy });
+    }
+
+    return {
+      message: 'Tenant deleted successfully',
+      tenantId,
     };
   }
+
+  /**
+   * 查找租户，不存在时抛出异常
+   *
+   * @param tenantId - 租户ID
+   * @param options - 查询选项，如 `withDeleted()` 包含已删除租户
+   * @returns 租户实体
+   * @throws {NotFoundException} 租户不存在
+   */
+  private async findTenantOrFail(tenantId: string, options?: Pick<FindOptions<Tenant>, 'filters'>): Promise<Tenant> {
+    const tenant = await this.entityManager.findOne('postgresql', Tenant, { id: tenantId }, options);
+    if (!tenant) {
+      throw new NotFoundException(`Tenant ${tenantId} not found`);
+    }
+    return tenant;
+  }
+
+  /**
+   * 校验域名或子域名唯一性
+   *
+   * @param field - 校验的字段
+   * @param value - 域名或子域名
+   * @param excludeId - 需要排除的租户ID（更新时为当前租户）
+   * @throws {ConflictException} 域名或子域名已被占用
+   */
+  private async assertUnique(field: 'domain' | 'subdomain', value: string, excludeId?: string): Promise<void> {
+    // 已删除的租户仍占用其域名与子域名
+    const existing = await this.entityManager.findOne('postgresql', Tenant, {
+      [field]: value,
+      ...(excludeId ? { id: { $ne: excludeId } } : {}),
+    }, withDeleted());
+
+    if (existing) {
+      throw new ConflictException(`Tenant with ${field} ${value} already exists`);
+    }
+  }
+
+  /**
+   * 执行持久化操作
+   *
+   * @description 并发写入时数据库唯一约束仍可能触发，统一转换为 409
+   * @param operation - 持久化操作
+   * @returns 操作结果
+   * @throws {ConflictException} 违反唯一约束
+   */
+  private async persist<T>(operation: () => Promise<T>): Promise<T> {
+    try {
+      return await operation();
+    } catch (error) {
+      if (error instanceof UniqueConstraintViolationException) {
+        throw new ConflictException('Tenant with this domain or subdomain already exists');
+      }
+      throw error;
+    }
+  }
 }
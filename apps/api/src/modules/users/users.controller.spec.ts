@@ -1,18 +1,90 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
 import { Test, TestingModule } from '@nestjs/testing';
+import { UserType } from '@hl8/common';
+import type { AuthPrincipal } from '@hl8/common';
+import { EntityManagerService } from '@hl8/database';
+import { AccessControlGuard } from '../auth/access-control.guard';
+import { AccessControlService } from '../auth/access-control.service';
 import { UsersController } from './users.controller';
+import { UsersService } from './users.service';
+
+jest.mock('./users.service', () => ({ UsersService: class UsersService {} }));
+// 数据库包在加载时会初始化连接配置，单元测试中以轻量替身隔离
+jest.mock('@hl8/database', () => ({
+  EntityManagerService: class EntityManagerService {},
+  User: class User {},
+}));
 
 describe('UsersController', () => {
   let controller: UsersController;
+  let guard: AccessControlGuard;
+  let usersService: Record<string, jest.Mock>;
+
+  const tenantUser = (permissions: string[] = []): AuthPrincipal => ({
+    userId: 'user-1',
+    username: 'alice',
+    type: UserType.TENANT_USER,
+    tenantId: 'tenant-1',
+    roles: ['member'],
+    permissions,
+  });
+
+  const contextFor = (handler: (...args: never[]) => unknown, user: AuthPrincipal) =>
+    ({
+      getHandler: () => handler,
+      getClass: () => UsersController,
+      switchToHttp: () => ({ getRequest: () => ({ user, params: { id: 'user-1' } }) }),
+    }) as unknown as ExecutionContext;
 
   beforeEach(async () => {
+    usersService = {
+      createUser: jest.fn().mockResolvedValue({}),
+      updateUser: jest.fn().mockResolvedValue({}),
+    };
+
     const module: TestingModule = await Test.createTestingModule({
       controllers: [UsersController],
+      providers: [
+        AccessControlService,
+        { provide: UsersService, useValue: usersService },
+        { provide: EntityManagerService, useValue: {} },
+      ],
     }).compile();
 
     controller = module.get<UsersController>(UsersController);
+    guard = new AccessControlGuard(module.get(AccessControlService), new Reflector());
   });
 
   it('should be defined', () => {
     expect(controller).toBeDefined();
   });
+
+  it('should deny plain tenant users from creating, updating and deleting users', () => {
+    for (const handler of [controller.createUser, controller.updateUser, controller.deleteUser]) {
+      expect(() => guard.canActivate(contextFor(handler, tenantUser()))).toThrow(ForbiddenException);
+    }
+    expect(guard.canActivate(contextFor(controller.updateUser, tenantUser(['users:update'])))).toBe(true);
+  });
+
+  it('should deny changing access fields without users:manage-access', async () => {
+    const user = tenantUser(['users:create', 'users:update']);
+
+    await expect(
+      controller.updateUser('user-1', user, { type: UserType.PLATFORM_USER, permissions: ['*'] }, undefined),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+    await expect(
+      controller.createUser(user, { username: 'bob', email: 'bob@example.com', password: 'secret', role: 'admin' }),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+    expect(usersService.updateUser).not.toHaveBeenCalled();
+    expect(usersService.createUser).not.toHaveBeenCalled();
+  });
+
+  it('should let users with users:manage-access change access fields', async () => {
+    await controller.updateUser('user-1', tenantUser(['users:update']), { username: 'alice2' }, undefined);
+    await controller.updateUser('user-1', tenantUser(['users:update', 'users:manage-access']), { role: 'admin' }, 2);
+
+    expect(usersService.updateUser).toHaveBeenCalledTimes(2);
+    expect(usersService.updateUser).toHaveBeenLastCalledWith('user-1', { role: 'admin' }, 2);
+  });
 });
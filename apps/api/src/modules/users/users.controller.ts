@@ -1,39 +1,69 @@
-import { Controller, Get, Post, Put, Delete, Param, Body } from '@nestjs/common';
+import { Controller, Get, Post, Put, Delete, Param, Body, Query, ParseUUIDPipe, HttpCode, HttpStatus } from '@nestjs/common';
+import { RequirePermissions } from '@hl8/common';
+import type { AuthPrincipal } from '@hl8/common';
+import {
+  ChangePasswordDto,
+  CreateUserDto,
+  ResetUserPasswordDto,
+  UpdateUserDto,
+  UserQueryDto,
+} from '@hl8/contracts';
+import { AccessControlService } from '../auth/access-control.service';
+import { IfMatch } from '../../app/entity-tag';
+import { CurrentUser } from '../auth/current-user.decorator';
 import { UsersService } from './users.service';
 
+/**
+ * 访问相关字段
+ *
+ * @description 决定用户类型、状态、租户与授权范围的字段，创建或更新时指定这些字段需要 users:manage-access 权限
+ */
+const ACCESS_FIELDS = ['type', 'status', 'tenantId', 'role', 'permissions'] as const;
+
 /**
  * 用户管理控制器
  *
  * 提供用户管理的RESTful API接口
- * 支持用户的CRUD操作
+ * 支持用户的CRUD操作，创建、更新与删除分别需要 `users:create`、`users:update` 与 `users:delete` 权限
  *
  * @description 用户管理控制器，处理用户相关的HTTP请求
  * @since 1.0.0
  */
 @Controller('users')
 export class UsersController {
-  constructor(private readonly usersService: UsersService) {}
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly accessControlService: AccessControlService,
+  ) {}
 
   /**
    * 获取所有用户
    *
-   * @description 获取用户列表
+   * @description 获取用户列表，包含已删除用户时需要 users:deleted:read 权限
+   * @param query - 查询条件
+   * @param user - 当前用户
    * @returns 用户列表
    */
   @Get()
-  async getUsers() {
-    return this.usersService.getUsers();
+  async getUsers(@Query() query: UserQueryDto, @CurrentUser() user: AuthPrincipal) {
+    if (query.includeDeleted) {
+      this.accessControlService.authorize(user, { permissions: ['users:deleted:read'] });
+    }
+    return this.usersService.getUsers(query);
   }
 
   /**
    * 创建新用户
    *
-   * @description 创建新的用户实例
+   * @description 创建新的用户实例，指定访问相关字段时需要 users:manage-access 权限
+   * @param user - 当前用户
    * @param createUserDto - 创建用户的数据传输对象
    * @returns 创建的用户信息
    */
   @Post()
-  async createUser(@Body() createUserDto: any) {
+  @RequirePermissions('users:create')
+  async createUser(@CurrentUser() user: AuthPrincipal, @Body() createUserDto: CreateUserDto) {
+    this.authorizeAccessFields(user, createUserDto);
     return this.usersService.createUser(createUserDto);
   }
 
@@ -45,21 +75,31 @@ export class UsersController {
    * @returns 用户信息
    */
   @Get(':id')
-  async getUser(@Param('id') id: string) {
+  async getUser(@Param('id', ParseUUIDPipe) id: string) {
     return this.usersService.getUser(id);
   }
 
   /**
    * 更新用户信息
    *
-   * @description 更新用户的配置信息
+   * @description 更新用户的配置信息，修改访问相关字段时需要 users:manage-access 权限；
+   * 携带 If-Match 时仅在用户版本与之一致时更新，否则返回 412
    * @param id - 用户ID
+   * @param user - 当前用户
    * @param updateUserDto - 更新用户的数据传输对象
+   * @param expectedVersion - If-Match 中的用户版本
    * @returns 更新结果
    */
   @Put(':id')
-  async updateUser(@Param('id') id: string, @Body() updateUserDto: any) {
-    return this.usersService.updateUser(id, updateUserDto);
+  @RequirePermissions('users:update')
+  async updateUser(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthPrincipal,
+    @Body() updateUserDto: UpdateUserDto,
+    @IfMatch() expectedVersion: number | undefined,
+  ) {
+    this.authorizeAccessFields(user, updateUserDto);
+    return this.usersService.updateUser(id, updateUserDto, expectedVersion);
   }
 
   /**
@@ -70,7 +110,69 @@ export class UsersController {
    * @returns 删除结果
    */
   @Delete(':id')
-  async deleteUser(@Param('id') id: string) {
+  @RequirePermissions('users:delete')
+  async deleteUser(@Param('id', ParseUUIDPipe) id: string) {
     return this.usersService.deleteUser(id);
   }
+
+  /**
+   * 恢复用户
+   *
+   * @description 恢复已删除的用户
+   * @param id - 用户ID
+   * @returns 恢复结果
+   */
+  @Post(':id/restore')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions('users:restore')
+  async restoreUser(@Param('id', ParseUUIDPipe) id: string) {
+    return this.usersService.restoreUser(id);
+  }
+
+  /**
+   * 修改密码
+   *
+   * @description 当前用户修改自己的密码，需提供当前密码
+   * @param id - 用户ID
+   * @param user - 当前用户
+   * @param changePasswordDto - 修改密码的数据传输对象
+   * @returns 修改结果
+   */
+  @Put(':id/password')
+  async changePassword(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthPrincipal,
+    @Body() changePasswordDto: ChangePasswordDto,
+  ) {
+    return this.usersService.changePassword(user.userId, id, changePasswordDto);
+  }
+
+  /**
+   * 重置密码
+   *
+   * @description 管理员重置用户密码，未提供新密码时返回生成的临时密码
+   * @param id - 用户ID
+   * @param resetUserPasswordDto - 重置密码的数据传输对象
+   * @returns 重置结果
+   */
+  @Post(':id/password/reset')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions('users:password:reset')
+  async resetPassword(@Param('id', ParseUUIDPipe) id: string, @Body() resetUserPasswordDto: ResetUserPasswordDto) {
+    return this.usersService.resetPassword(id, resetUserPasswordDto);
+  }
+
+  /**
+   * 校验访问相关字段的修改权限
+   *
+   * @description 防止用户通过创建或更新接口提升自己或他人的类型、租户、角色与权限
+   * @param user - 当前用户
+   * @param data - 创建或更新用户的数据
+   * @throws {ForbiddenException} 指定了访问相关字段但缺少 users:manage-access 权限
+   */
+  private authorizeAccessFields(user: AuthPrincipal, data: CreateUserDto | UpdateUserDto): void {
+    if (ACCESS_FIELDS.some((field) => data[field] !== undefined)) {
+      this.accessControlService.authorize(user, { permissions: ['users:manage-access'] });
+    }
+  }
 }
@@ -1,9 +1,22 @@
 import { Module } from '@nestjs/common';
 import { UsersService } from './users.service';
 import { UsersController } from './users.controller';
+import { AuthModule } from '../auth/auth.module';
+import { DepartmentsModule } from '../departments/departments.module';
+import { TenantsModule } from '../tenants/tenants.module';
 
+/**
+ * 用户管理模块
+ *
+ * 提供平台用户与租户用户的管理功能
+ *
+ * @description 用户管理模块，负责用户的创建、查询、更新与删除
+ * @since 1.0.0
+ */
 @Module({
+  imports: [AuthModule, DepartmentsModule, TenantsModule],
   providers: [UsersService],
   controllers: [UsersController],
+  exports: [UsersService],
 })
 export class UsersModule {}
@@ -1,12 +1,76 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException, ForbiddenException, NotFoundException } from '@nestjs/common';
+import { UniqueConstraintViolationException } from '@mikro-orm/core';
+import { compare, hash } from 'bcryptjs';
+import { UserStatus } from '@hl8/common';
+import { ConfigService } from '@hl8/config';
+import { EntityManagerService, getTenantScopeId } from '@hl8/database';
+import { AuthService } from '../auth/auth.service';
+import { PasswordService } from '../auth/password.service';
+import { VerificationService } from '../auth/verification.service';
+import { DepartmentsService } from '../departments/departments.service';
+import { QuotaService } from '../tenants/quota.service';
 import { UsersService } from './users.service';
 
+// 配置与数据库包在加载时会初始化连接配置，单元测试中以轻量替身隔离
+jest.mock('@hl8/config', () => ({ ConfigService: class ConfigService {} }));
+jest.mock('@hl8/database', () => ({
+  assertVersion: jest.fn(),
+  EntityManagerService: class EntityManagerService {},
+  getTenantScopeId: jest.fn(),
+  User: class User {},
+  UserStatus: { ACTIVE: 'active', PENDING: 'pending' },
+  withDeleted: (include = true) => (include ? { filters: { 'soft-deletable-filter': false } } : {}),
+  isSoftDeleted: (entity: { deletedAt?: Date }) => entity.deletedAt != null,
+}));
+jest.mock('@mikro-orm/core', () => ({
+  ...jest.requireActual('@mikro-orm/core'),
+  wrap: (entity: object) => ({ assign: (data: object) => Object.assign(entity, data) }),
+}));
+jest.mock('../auth/auth.service', () => ({ AuthService: class AuthService {} }));
+jest.mock('../auth/verification.service', () => ({ VerificationService: class VerificationService {} }));
+jest.mock('../departments/departments.service', () => ({ DepartmentsService: class DepartmentsService {} }));
+jest.mock('../tenants/quota.service', () => ({ QuotaService: class QuotaService {} }));
+
 describe('UsersService', () => {
   let service: UsersService;
+  let entityManager: Record<string, jest.Mock>;
+  let em: { create: jest.Mock; persistAndFlush: jest.Mock };
+  let departmentsService: { assertAssignable: jest.Mock };
+  let authService: { revokeAllSessions: jest.Mock };
+  let verificationService: { sendEmailVerification: jest.Mock };
+  let quotaService: { assertUserQuota: jest.Mock };
 
   beforeEach(async () => {
+    jest.mocked(getTenantScopeId).mockReturnValue(undefined);
+    em = {
+      create: jest.fn((_entity, data) => ({ id: 'new-id', ...data })),
+      persistAndFlush: jest.fn(),
+    };
+    entityManager = {
+      withoutTenantScope: jest.fn((callback) => callback()),
+      find: jest.fn(),
+      findOne: jest.fn(),
+      update: jest.fn(async (_db, entity) => entity),
+      remove: jest.fn(),
+      transaction: jest.fn(async (_db, callback) => callback(em)),
+    };
+    departmentsService = { assertAssignable: jest.fn() };
+    authService = { revokeAllSessions: jest.fn() };
+    verificationService = { sendEmailVerification: jest.fn() };
+    quotaService = { assertUserQuota: jest.fn() };
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [UsersService],
+      providers: [
+        UsersService,
+        { provide: EntityManagerService, useValue: entityManager },
+        { provide: ConfigService, useValue: { get: jest.fn().mockReturnValue(4) } },
+        { provide: DepartmentsService, useValue: departmentsService },
+        { provide: AuthService, useValue: authService },
+        { provide: VerificationService, useValue: verificationService },
+        { provide: QuotaService, useValue: quotaService },
+        PasswordService,
+      ],
     }).compile();
 
     service = module.get<UsersService>(UsersService);
@@ -15,4 +79,192 @@ describe('UsersService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  it('should throw NotFoundException for unknown ids', async () => {
+    entityManager.findOne.mockResolvedValue(null);
+
+    await expect(service.getUser('missing')).rejects.toBeInstanceOf(NotFoundException);
+  });
+
+  it('should store a password hash instead of the plain password', async () => {
+    entityManager.findOne.mockResolvedValue(null);
+
+    const { user } = await service.createUser({
+      username: 'alice',
+      email: 'alice@example.com',
+      password: 'S3cret-pass',
+    });
+
+    const data = em.create.mock.calls[0][1];
+    expect(data).not.toHaveProperty('password');
+    expect(await compare('S3cret-pass', data.passwordHash)).toBe(true);
+    expect(user).toMatchObject({ username: 'alice', email: 'alice@example.com' });
+    expect(verificationService.sendEmailVerification).not.toHaveBeenCalled();
+  });
+
+  it('should send a verification email to pending users', async () => {
+    entityManager.findOne.mockResolvedValue(null);
+
+    const { user } = await service.createUser({
+      username: 'alice',
+      email: 'alice@example.com',
+      password: 'S3cret-pass',
+      status: UserStatus.PENDING,
+    });
+
+    expect(verificationService.sendEmailVerification).toHaveBeenCalledWith(user);
+  });
+
+  it('should not create tenant users past the tenant quota', async () => {
+    entityManager.findOne.mockResolvedValue(null);
+    quotaService.assertUserQuota.mockRejectedValue(new ForbiddenException({ code: 'QUOTA_EXCEEDED' }));
+
+    await expect(
+      service.createUser({ username: 'alice', email: 'alice@example.com', password: 'S3cret-pass', tenantId: 't1' }),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+    expect(quotaService.assertUserQuota).toHaveBeenCalledWith('t1', { em });
+    expect(em.create).not.toHaveBeenCalled();
+  });
+
+  it('should check the quota of the current tenant when none is given', async () => {
+    entityManager.findOne.mockResolvedValue(null);
+    jest.mocked(getTenantScopeId).mockReturnValue('t1');
+
+    const { user } = await service.createUser({ username: 'alice', email: 'alice@example.com', password: 'S3cret-pass' });
+
+    expect(quotaService.assertUserQuota).toHaveBeenCalledWith('t1', { em });
+    expect(user).toMatchObject({ tenantId: 't1' });
+  });
+
+  it('should reject duplicate usernames with ConflictException', async () => {
+    entityManager.findOne.mockResolvedValue({ id: 'other', username: 'alice', email: 'x@example.com' });
+
+    await expect(
+      service.createUser({ username: 'alice', email: 'alice@example.com', password: 'S3cret-pass' }),
+    ).rejects.toThrow('User with this username already exists');
+    expect(em.create).not.toHaveBeenCalled();
+  });
+
+  it('should map unique constraint violations to ConflictException', async () => {
+    entityManager.findOne.mockResolvedValue(null);
+    em.persistAndFlush.mockRejectedValue(new UniqueConstraintViolationException(new Error('duplicate key')));
+
+    await expect(
+      service.createUser({ username: 'alice', email: 'alice@example.com', password: 'S3cret-pass' }),
+    ).rejects.toBeInstanceOf(ConflictException);
+  });
+
+  it('should reject assigning a department outside the user organization', async () => {
+    entityManager.findOne.mockResolvedValue({ id: 'user-1', tenantId: 't1', organizationId: 'org-1' });
+    departmentsService.assertAssignable.mockRejectedValue(new BadRequestException('wrong organization'));
+
+    await expect(service.updateUser('user-1', { departmentId: 'dept-2' })).rejects.toBeInstanceOf(BadRequestException);
+    expect(departmentsService.assertAssignable).toHaveBeenCalledWith(
+      { id: 'user-1', tenantId: 't1', organizationId: 'org-1' },
+      'dept-2',
+    );
+    expect(entityManager.update).not.toHaveBeenCalled();
+  });
+
+  it('should remove the user on delete', async () => {
+    const user = { id: 'user-1' };
+    entityManager.findOne.mockResolvedValue(user);
+
+    await service.deleteUser('user-1');
+
+    expect(entityManager.remove).toHaveBeenCalledWith('postgresql', user);
+  });
+
+  it('should restore a deleted user', async () => {
+    const user = { id: 'user-1', tenantId: 't1', deletedAt: new Date(), deletedBy: 'admin-1' };
+    entityManager.findOne.mockResolvedValue(user);
+
+    const result = await service.restoreUser('user-1');
+
+    expect(entityManager.findOne).toHaveBeenCalledWith('postgresql', expect.anything(), { id: 'user-1' }, {
+      filters: { 'soft-deletable-filter': false },
+    });
+    expect(result.user).toMatchObject({ deletedAt: undefined, deletedBy: undefined });
+    expect(quotaService.assertUserQuota).toHaveBeenCalledWith('t1', { em });
+    expect(em.persistAndFlush).toHaveBeenCalledWith(user);
+  });
+
+  it('should keep a user deleted when restoring exceeds the tenant quota', async () => {
+    const deletedAt = new Date();
+    entityManager.findOne.mockResolvedValue({ id: 'user-1', tenantId: 't1', deletedAt });
+    quotaService.assertUserQuota.mockRejectedValue(new ForbiddenException({ code: 'QUOTA_EXCEEDED' }));
+
+    await expect(service.restoreUser('user-1')).rejects.toBeInstanceOf(ForbiddenException);
+    expect(em.persistAndFlush).not.toHaveBeenCalled();
+  });
+
+  it('should check the target tenant quota in the write transaction when moving a user', async () => {
+    const user = { id: 'user-1', tenantId: 't1' };
+    entityManager.findOne.mockResolvedValueOnce(user).mockResolvedValue(null);
+
+    await service.updateUser('user-1', { tenantId: 't2' });
+
+    expect(quotaService.assertUserQuota).toHaveBeenCalledWith('t2', { em });
+    expect(em.persistAndFlush).toHaveBeenCalledWith(expect.objectContaining({ id: 'user-1', tenantId: 't2' }));
+    expect(entityManager.update).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to restore a user that is not deleted', async () => {
+    entityManager.findOne.mockResolvedValue({ id: 'user-1' });
+
+    await expect(service.restoreUser('user-1')).rejects.toBeInstanceOf(ConflictException);
+    expect(entityManager.update).not.toHaveBeenCalled();
+  });
+
+  it('should reject passwords that violate the password policy', async () => {
+    entityManager.findOne.mockResolvedValue(null);
+
+    await expect(
+      service.createUser({ username: 'alice', email: 'alice@example.com', password: 'alice2024' }),
+    ).rejects.toMatchObject({
+      response: {
+        code: 'PASSWORD_POLICY_VIOLATION',
+        violations: ['Password must contain an uppercase letter', 'Password must not contain the username or email'],
+      },
+    });
+    expect(em.create).not.toHaveBeenCalled();
+  });
+
+  describe('password management', () => {
+    let user: Record<string, unknown>;
+
+    beforeEach(async () => {
+      user = { id: 'user-1', username: 'alice', email: 'alice@example.com', passwordHash: await hash('S3cret-pass', 4) };
+      entityManager.findOne.mockResolvedValue(user);
+    });
+
+    it('should only let users change their own password', async () => {
+      await expect(
+        service.changePassword('user-2', 'user-1', { currentPassword: 'S3cret-pass', newPassword: 'N3w-secret' }),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+    });
+
+    it('should require the current password', async () => {
+      await expect(
+        service.changePassword('user-1', 'user-1', { currentPassword: 'wrong-pass', newPassword: 'N3w-secret' }),
+      ).rejects.toMatchObject({ response: { code: 'INVALID_CURRENT_PASSWORD' } });
+      expect(entityManager.update).not.toHaveBeenCalled();
+    });
+
+    it('should store the new hash and revoke existing sessions', async () => {
+      await service.changePassword('user-1', 'user-1', { currentPassword: 'S3cret-pass', newPassword: 'N3w-secret' });
+
+      expect(await compare('N3w-secret', user['passwordHash'] as string)).toBe(true);
+      expect(entityManager.update).toHaveBeenCalledWith('postgresql', user);
+      expect(authService.revokeAllSessions).toHaveBeenCalledWith('user-1');
+    });
+
+    it('should generate a temporary password on admin reset', async () => {
+      const result = await service.resetPassword('user-1');
+
+      expect(result.temporaryPassword).toMatch(/^(?=.*[A-Z])(?=.*[a-z])(?=.*\d).{16}$/);
+      expect(await compare(result.temporaryPassword as string, user['passwordHash'] as string)).toBe(true);
+      expect(authService.revokeAllSessions).toHaveBeenCalledWith('user-1');
+    });
+  });
 });
@@ -1,7 +1,40 @@
-import { Injectable } from '@nestjs/common';
-// import { InjectRepository } from '@mikro-orm/nestjs';
-// import { EntityRepository } from '@mikro-orm/core';
-// import { User } from '@hl8/database';
+import { BadRequestException, ConflictException, ForbiddenException, Injectable, NotFoundException } from '@nestjs/common';
+import { UniqueConstraintViolationException, wrap } from '@mikro-orm/core';
+import { ErrorCode } from '@hl8/constants';
+import {
+  ChangePasswordDto,
+  CreateUserDto,
+  ResetUserPasswordDto,
+  UpdateUserDto,
+  UserQueryDto,
+} from '@hl8/contracts';
+import {
+  assertVersion,
+  EntityManagerService,
+  getTenantScopeId,
+  isSoftDeleted,
+  ListQuerySpec,
+  User,
+  UserStatus,
+  withDeleted,
+} from '@hl8/database';
+import { AuthService } from '../auth/auth.service';
+import { PasswordService } from '../auth/password.service';
+import { VerificationService } from '../auth/verification.service';
+import { DepartmentsService } from '../departments/departments.service';
+import { QuotaService } from '../tenants/quota.service';
+
+/**
+ * 用户列表查询规格
+ *
+ * @description 用户列表允许的过滤、排序与搜索字段
+ */
+const USER_LIST_SPEC: ListQuerySpec<User> = {
+  filters: { type: 'enum', status: 'enum', tenantId: 'uuid', organizationId: 'uuid', createdAt: 'date' },
+  sortable: ['username', 'email', 'createdAt', 'lastLoginAt'],
+  searchable: ['username', 'email'],
+  defaultSort: 'createdAt:desc',
+};
 
 /**
  * 用户管理服务
@@ -9,73 +42,96 @@ import { Injectable } from '@nestjs/common';
  * 提供用户的创建、配置、权限管理等功能
  * 支持多种用户类型的统一管理
  *
+ * ## 业务规则
+ * - 用户名与邮箱全局唯一，冲突时返回 409
+ * - 用户不存在时返回 404
+ * - 密码仅以哈希形式存储在 passwordHash 中，设置前需满足密码强度策略
+ * - 用户只能修改自己的密码且需提供当前密码；管理员重置密码不校验当前密码
+ * - 修改或重置密码后吊销该用户的全部会话
+ * - 删除为软删除，已删除用户默认不出现在查询结果中，可由管理员恢复
+ * - 以 PENDING 状态创建的用户会收到邮箱验证邮件，验证后激活
+ * - 分配部门时，部门必须与用户属于同一租户和组织
+ * - 创建租户用户或将用户移入其他租户前校验租户的用户配额
+ *
  * @description 用户管理服务，负责用户相关的业务逻辑
  * @since 1.0.0
  */
 @Injectable()
 export class UsersService {
-  // constructor(
-  //   @InjectRepository(User)
-  //   private readonly userRepository: EntityRepository<User>,
-  // ) {}
+  constructor(
+    private readonly entityManager: EntityManagerService,
+    private readonly departmentsService: DepartmentsService,
+    private readonly passwordService: PasswordService,
+    private readonly authService: AuthService,
+    private readonly verificationService: VerificationService,
+    private readonly quotaService: QuotaService,
+  ) {}
+
   /**
    * 获取所有用户
    *
-   * @description 获取用户列表
-   * @returns 用户列表
+   * @description 分页获取用户列表，默认按创建时间倒序，支持按类型、状态、租户、组织与创建时间过滤，
+   * 以及按用户名与邮箱搜索；includeDeleted 为 true 时包含已删除用户
+   * @param query - 查询条件
+   * @returns 用户列表及分页信息
    */
-  async getUsers() {
-    // 模拟数据
-    const mockUsers = [
-      {
-        id: '1',
-        username: 'admin',
-        email: 'admin@example.com',
-        type: 'platform_user',
-        status: 'active',
-        tenantId: null,
-        role: 'admin',
-        createdAt: new Date(),
-      },
-      {
-        id: '2',
-        username: 'user1',
-        email: 'user1@example.com',
-        type: 'tenant_user',
-        status: 'active',
-        tenantId: 'tenant-1',
-        role: 'user',
-        createdAt: new Date(),
-      }
-    ];
-    
-    return { 
-      message: 'Users retrieved successfully', 
-      users: mockUsers
+  async getUsers(query: UserQueryDto = {}) {
+    const { items: users, ...page } = await this.entityManager.findPage(
+      'postgresql',
+      User,
+      query,
+      USER_LIST_SPEC,
+      {},
+      withDeleted(query.includeDeleted === true),
+    );
+
+    return {
+      message: 'Users retrieved successfully',
+      users,
+      ...page,
     };
   }
 
   /**
    * 创建新用户
    *
-   * @description 创建新的用户实例
+   * @description 校验用户名与邮箱唯一性后创建用户，密码经哈希后存储；待验证用户创建后发送验证邮件。
+   * 未指定租户时用户归属当前租户，用户配额在创建事务内锁定租户后校验
    * @param userData - 用户数据
    * @returns 创建的用户信息
+   * @throws {BadRequestException} 密码不满足强度策略
+   * @throws {ConflictException} 用户名或邮箱已存在
+   * @throws {BadRequestException} 部门不属于用户所在的租户与组织
+   * @throws {ForbiddenException} 超出租户的用户配额
    */
-  async createUser(userData: any) {
-    // 模拟创建用户
-    const newUser = {
-      id: Date.now().toString(),
-      username: userData.username,
-      email: userData.email,
-      type: userData.type || 'platform_user',
-      status: userData.status || 'active',
-      createdAt: new Date(),
-    };
-    
-    return { 
-      message: 'User created successfully', 
-      user: newUser
+  async createUser(userData: CreateUserDto) {
+    this.passwordService.assertStrength(userData.password, userData);
+    await this.assertUniqueIdentity(userData.username, userData.email);
+    const tenantId = userData.tenantId ?? getTenantScopeId();
+    if (userData.departmentId) {
+      await this.departmentsService.assertAssignable({ ...userData, tenantId }, userData.departmentId);
+    }
+
+    const { password, ...fields } = userData;
+    const passwordHash = await this.passwordService.hash(password);
+
+    const user = await this.persist(() =>
+      this.entityManager.transaction('postgresql', async (em) => {
+        if (tenantId) {
+          await this.quotaService.assertUserQuota(tenantId, { em });
+        }
+        const created = em.create(User, { ...fields, tenantId, passwordHash });
+        await em.persistAndFlush(created);
+        return created;
+      }),
+    );
+    if (user.status === UserStatus.PENDING) {
+      await this.verificationService.sendEmailVerification(user);
+    }
+
+    return {
+      message: 'User created successfully',
+      user,
     };
   }
 
@@ -85,66 +141,261 @@ export class UsersService {
    * @description 根据用户ID获取用户详细信息
    * @param userId - 用户ID
    * @returns 用户信息
+   * @throws {NotFoundException} 用户不存在
    */
   async getUser(userId: string) {
-    // 模拟获取用户
-    const mockUser = {
-      id: userId,
-      username: 'user' + userId,
-      email: `user${userId}@example.com`,
-      type: 'platform_user',
-      status: 'active',
-      tenantId: null,
-      role: 'user',
-      permissions: [],
-      profile: {},
-      lastLoginAt: new Date(),
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
-    
-    return { 
-      message: 'User retrieved successfully', 
-      user: mockUser
+    const user = await this.findUserOrFail(userId);
+
+    return {
+      message: 'User retrieved successfully',
+      user,
     };
   }
 
   /**
    * 更新用户信息
    *
-   * @description 更新用户的配置信息
+   * @description 更新用户的配置信息，修改用户名或邮箱时重新校验唯一性；
+   * 转入其他租户时在锁定目标租户行的事务内校验配额并写入
    * @param userId - 用户ID
    * @param updateData - 更新数据
+   * @param expectedVersion - 客户端期望的用户版本，未指定时不校验
    * @returns 更新结果
+   * @throws {NotFoundException} 用户不存在
+   * @throws {EntityVersionConflictError} 用户版本与期望版本不一致，或更新期间被其他请求修改
+   * @throws {ConflictException} 用户名或邮箱已被其他用户占用
+   * @throws {BadRequestException} 部门不属于用户所在的租户与组织
+   * @throws {ForbiddenException} 超出目标租户的用户配额
    */
-  async updateUser(userId: string, updateData: any) {
-    // 模拟更新用户
-    const updatedUser = {
-      id: userId,
-      username: updateData.username || 'user' + userId,
-      email: updateData.email || `user${userId}@example.com`,
-      status: updateData.status || 'active',
-      updatedAt: new Date(),
-    };
-    
-    return { 
-      message: 'User updated successfully', 
-      user: updatedUser
+  async updateUser(userId: string, updateData: UpdateUserDto, expectedVersion?: number) {
+    const user = await this.findUserOrFail(userId);
+    assertVersion(user, expectedVersion);
+
+    if (updateData.username || updateData.email) {
+      await this.assertUniqueIdentity(updateData.username, updateData.email, user.id);
+    }
+    const targetTenantId = updateData.tenantId !== user.tenantId ? updateData.tenantId : undefined;
+
+    const departmentId = updateData.departmentId ?? user.departmentId;
+    if (departmentId && (updateData.departmentId || updateData.tenantId || updateData.organizationId)) {
+      await this.departmentsService.assertAssignable(
+        {
+          id: user.id,
+          tenantId: updateData.tenantId ?? user.tenantId,
+          organizationId: updateData.organizationId ?? user.organizationId,
+        },
+        departmentId,
+      );
+    }
+
+    wrap(user).assign(updateData);
+    const updatedUser = await this.persist(() =>
+      targetTenantId
+        ? this.entityManager.transaction('postgresql', async (em) => {
+            // 转入其他租户时在锁定目标租户行的同一事务内校验配额并写入
+            await this.quotaService.assertUserQuota(targetTenantId, { em });
+            await em.persistAndFlush(user);
+            return user;
+          })
+        : this.entityManager.update('postgresql', user),
+    );
+
+    return {
+      message: 'User updated successfully',
+      user: updatedUser,
     };
   }
 
   /**
    * 删除用户
    *
-   * @description 删除指定的用户
+   * @description 软删除指定的用户，记录删除时间与删除人
    * @param userId - 用户ID
    * @returns 删除结果
+   * @throws {NotFoundException} 用户不存在
    */
   async deleteUser(userId: string) {
-    // 模拟删除用户
-    return { 
-      message: 'User deleted successfully', 
-      userId 
+    const user = await this.findUserOrFail(userId);
+    await this.entityManager.remove('postgresql', user);
+
+    return {
+      message: 'User deleted successfully',
+      userId,
+    };
+  }
+
+  /**
+   * 恢复用户
+   *
+   * @description 在锁定租户行的事务内校验用户配额后清除删除标记
+   * @param userId - 用户ID
+   * @returns 恢复结果
+   * @throws {NotFoundException} 用户不存在
+   * @throws {ConflictException} 用户未被删除
+   * @throws {ForbiddenException} 超出租户的用户配额
+   */
+  async restoreUser(userId: string) {
+    const user = await this.entityManager.findOne('postgresql', User, { id: userId }, withDeleted());
+    if (!user) {
+      throw new NotFoundException(`User ${userId} not found`);
+    }
+    if (!isSoftDeleted(user)) {
+      throw new ConflictException(`User ${userId} is not deleted`);
+    }
+    const restoredUser = await this.entityManager.transaction('postgresql', async (em) => {
+      if (user.tenantId) {
+        await this.quotaService.assertUserQuota(user.tenantId, { em });
+      }
+      user.deletedAt = undefined;
+      user.deletedBy = undefined;
+      await em.persistAndFlush(user);
+      return user;
+    });
+
+    return {
+      message: 'User restored successfully',
+      user: restoredUser,
     };
   }
+
+  /**
+   * 修改密码
+   *
+   * @description 用户修改自己的密码，需提供当前密码，成功后吊销该用户的全部会话
+   * @param actorId - 当前用户ID
+   * @param userId - 目标用户ID
+   * @param passwordData - 当前密码与新密码
+   * @returns 修改结果
+   * @throws {ForbiddenException} 修改的不是自己的密码
+   * @throws {NotFoundException} 用户不存在
+   * @throws {BadRequestException} 当前密码错误、新密码与当前密码相同或不满足强度策略
+   */
+  async changePassword(actorId: string, userId: string, passwordData: ChangePasswordDto) {
+    if (actorId !== userId) {
+      throw new ForbiddenException('Users can only change their own password');
+    }
+
+    const user = await this.findUserOrFail(userId);
+    if (!(await this.passwordService.verify(passwordData.currentPassword, user.passwordHash))) {
+      throw new BadRequestException({
+        code: ErrorCode.INVALID_CURRENT_PASSWORD,
+        message: 'Current password is incorrect',
+      });
+    }
+    if (passwordData.newPassword === passwordData.currentPassword) {
+      throw new BadRequestException({
+        code: ErrorCode.PASSWORD_POLICY_VIOLATION,
+        message: 'New password must differ from the current password',
+      });
+    }
+
+    await this.setPassword(user, passwordData.newPassword);
+
+    return {
+      message: 'Password changed successfully',
+      userId,
+    };
+  }
+
+  /**
+   * 重置密码
+   *
+   * @description 管理员重置用户密码，未提供新密码时生成临时密码并在响应中返回一次，
+   * 成功后吊销该用户的全部会话
+   * @param userId - 用户ID
+   * @param passwordData - 新密码
+   * @returns 重置结果，生成临时密码时包含 temporaryPassword
+   * @throws {NotFoundException} 用户不存在
+   * @throws {BadRequestException} 新密码不满足强度策略
+   */
+  async resetPassword(userId: string, passwordData: ResetUserPasswordDto = {}) {
+    const user = await this.findUserOrFail(userId);
+    const temporaryPassword = passwordData.newPassword ? undefined : this.passwordService.generateTemporaryPassword();
+
+    await this.setPassword(user, passwordData.newPassword ?? (temporaryPassword as string));
+
+    return {
+      message: 'Password reset successfully',
+      userId,
+      ...(temporaryPassword ? { temporaryPassword } : {}),
+    };
+  }
+
+  /**
+   * 设置用户密码
+   *
+   * @description 校验强度后保存新密码哈希，并吊销该用户的全部会话
+   * @param user - 用户实体
+   * @param password - 新密码
+   * @throws {BadRequestException} 新密码不满足强度策略
+   */
+  private async setPassword(user: User, password: string): Promise<void> {
+    this.passwordService.assertStrength(password, user);
+    user.passwordHash = await this.passwordService.hash(password);
+    await this.entityManager.update('postgresql', user);
+    await this.authService.revokeAllSessions(user.id);
+  }
+
+  /**
+   * 查找用户，不存在时抛出异常
+   *
+   * @param userId - 用户ID
+   * @returns 用户实体
+   * @throws {NotFoundException} 用户不存在
+   */
+  private async findUserOrFail(userId: string): Promise<User> {
+    const user = await this.entityManager.findOne('postgresql', User, { id: userId });
+    if (!user) {
+      throw new NotFoundException(`User ${userId} not found`);
+    }
+    return user;
+  }
+
+  /**
+   * 校验用户名与邮箱唯一性
+   *
+   * @description 查询是否已有其他用户占用给定的用户名或邮箱，已删除的用户仍占用其用户名与邮箱
+   * @param username - 用户名
+   * @param email - 邮箱
+   * @param excludeId - 需要排除的用户ID（更新时为当前用户）
+   * @throws {ConflictException} 用户名或邮箱已存在
+   */
+  private async assertUniqueIdentity(username?: string, email?: string, excludeId?: string): Promise<void> {
+    const conditions = [
+      ...(username ? [{ username }] : []),
+      ...(email ? [{ email }] : []),
+    ];
+
+    // 用户名与邮箱全局唯一，跨所有租户校验
+    const existing = await this.entityManager.withoutTenantScope(() =>
+      this.entityManager.findOne('postgresql', User, {
+        $or: conditions,
+        ...(excludeId ? { id: { $ne: excludeId } } : {}),
+      }, withDeleted()),
+    );
+
+    if (existing) {
+      const field = username && existing.username === username ? 'username' : 'email';
+      throw new ConflictException(`User with this ${field} already exists`);
+    }
+  }
+
+  /**
+   * 执行持久化操作
+   *
+   * @description 并发写入时数据库唯一约束仍可能触发，统一转换为 409
+   * @param operation - 持久化操作
+   * @returns 操作结果
+   * @throws {ConflictException} 违反唯一约束
+   */
+  private async persist<T>(operation: () => Promise<T>): Promise<T> {
+    try {
+      return await operation();
+    } catch (error) {
+      if (error instanceof UniqueConstraintViolationException) {
+        throw new ConflictException('User with this username or email already exists');
+      }
+      throw error;
+    }
+  }
 }
@@ -0,0 +1,3 @@
+export * from './public.decorator';
+export * from './require-permissions.decorator';
+export * from './roles.decorator';
@@ -1,15 +1,17 @@
-// import { CustomDecorator, SetMetadata } from '@nestjs/common';
-// import { PUBLIC_METHOD_METADATA } from '@hl8/constants';
+import { CustomDecorator, SetMetadata } from '@nestjs/common';
+import { PUBLIC_METHOD_METADATA } from '@hl8/constants';
 
-// /**
-//  * Decorator that assigns metadata to the class/function using the
-//  * specified `PUBLIC_METHOD_METADATA`.
-//  * *
-//  * This metadata can be reflected using the `Reflector` class.
-//  *
-//  * Example: `@Public()`
-//  *
-//  *
-//  * @publicApi
-//  */
-// export const Public = (): CustomDecorator => SetMetadata(PUBLIC_METHOD_METADATA, true);
+/**
+ * 公开接口装饰器
+ *
+ * @description 为处理器或控制器写入 `PUBLIC_METHOD_METADATA` 元数据，
+ * 全局认证守卫读取该元数据后跳过认证。标注在控制器上时对其全部处理器生效
+ *
+ * @example
+ * ```typescript
+ * @Public()
+ * @Post('login')
+ * login(@Body() loginDto: LoginDto) {}
+ * ```
+ */
+export const Public = (): CustomDecorator => SetMetadata(PUBLIC_METHOD_METADATA, true);
@@ -0,0 +1,18 @@
+import { CustomDecorator, SetMetadata } from '@nestjs/common';
+import { PERMISSIONS_METADATA } from '@hl8/constants';
+
+/**
+ * 权限要求装饰器
+ *
+ * @description 为处理器或控制器写入 `PERMISSIONS_METADATA` 元数据，当前用户需拥有全部权限。
+ * 权限中的 `{param}` 占位符在鉴权时以路由参数替换，如 `tenant:{id}:admin`
+ *
+ * @example
+ * ```typescript
+ * @RequirePermissions('users:update')
+ * @Put(':id')
+ * updateUser(@Param('id') id: string) {}
+ * ```
+ */
+export const RequirePermissions = (...permissions: string[]): CustomDecorator =>
+  SetMetadata(PERMISSIONS_METADATA, permissions);
@@ -0,0 +1,17 @@
+import { CustomDecorator, SetMetadata } from '@nestjs/common';
+import { ROLES_METADATA } from '@hl8/constants';
+
+/**
+ * 角色要求装饰器
+ *
+ * @description 为处理器或控制器写入 `ROLES_METADATA` 元数据，
+ * 当前用户拥有其中任一角色即可访问。处理器上的声明覆盖控制器上的声明
+ *
+ * @example
+ * ```typescript
+ * @Roles('admin', 'owner')
+ * @Delete(':id')
+ * deleteUser(@Param('id') id: string) {}
+ * ```
+ */
+export const Roles = (...roles: string[]): CustomDecorator => SetMetadata(ROLES_METADATA, roles);
@@ -0,0 +1,15 @@
+/**
+ * 审计动作枚举
+ *
+ * @description 审计日志记录的实体变更类型
+ */
+export enum AuditAction {
+  CREATE = 'create',
+  UPDATE = 'update',
+  /** 彻底删除 */
+  DELETE = 'delete',
+  /** 软删除，deletedAt 由空变为非空 */
+  SOFT_DELETE = 'soft_delete',
+  /** 恢复软删除，deletedAt 由非空变为空 */
+  RESTORE = 'restore',
+}
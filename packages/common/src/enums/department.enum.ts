@@ -0,0 +1,9 @@
+/**
+ * 部门状态枚举
+ *
+ * @description 定义部门的各种状态
+ */
+export enum DepartmentStatus {
+  ACTIVE = 'active',
+  INACTIVE = 'inactive',
+}
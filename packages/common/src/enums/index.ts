@@ -0,0 +1,6 @@
+export * from './user.enum';
+export * from './tenant.enum';
+export * from './organization.enum';
+export * from './department.enum';
+export * from './verification.enum';
+export * from './audit.enum';
@@ -0,0 +1,24 @@
+/**
+ * 组织类型枚举
+ *
+ * @description 定义系统中支持的组织类型
+ */
+export enum OrganizationType {
+  COMMITTEE = 'committee',
+  PROJECT_TEAM = 'project_team',
+  QUALITY_GROUP = 'quality_group',
+  PERFORMANCE_GROUP = 'performance_group',
+  DEPARTMENT = 'department',
+}
+
+/**
+ * 组织状态枚举
+ *
+ * @description 定义组织的各种状态
+ */
+export enum OrganizationStatus {
+  ACTIVE = 'active',
+  INACTIVE = 'inactive',
+  SUSPENDED = 'suspended',
+  DISSOLVED = 'dissolved',
+}
@@ -0,0 +1,24 @@
+/**
+ * 租户类型枚举
+ *
+ * @description 定义系统中支持的租户类型
+ */
+export enum TenantType {
+  ENTERPRISE = 'enterprise',
+  COMMUNITY = 'community',
+  TEAM = 'team',
+  PERSONAL = 'personal',
+}
+
+/**
+ * 租户状态枚举
+ *
+ * @description 定义租户的各种状态
+ */
+export enum TenantStatus {
+  ACTIVE = 'active',
+  INACTIVE = 'inactive',
+  SUSPENDED = 'suspended',
+  EXPIRED = 'expired',
+  DELETED = 'deleted',
+}
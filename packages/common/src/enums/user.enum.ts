@@ -0,0 +1,23 @@
+/**
+ * 用户类型枚举
+ *
+ * @description 定义系统中支持的用户类型
+ */
+export enum UserType {
+  PLATFORM_USER = 'platform_user',
+  TENANT_USER = 'tenant_user',
+  SYSTEM_USER = 'system_user',
+}
+
+/**
+ * 用户状态枚举
+ *
+ * @description 定义用户的各种状态
+ */
+export enum UserStatus {
+  ACTIVE = 'active',
+  INACTIVE = 'inactive',
+  PENDING = 'pending',
+  SUSPENDED = 'suspended',
+  DELETED = 'deleted',
+}
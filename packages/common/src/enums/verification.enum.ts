@@ -0,0 +1,9 @@
+/**
+ * 验证令牌用途枚举
+ *
+ * @description 区分邮件中一次性验证令牌的用途，一种用途的令牌不能用于另一种用途
+ */
+export enum VerificationTokenPurpose {
+  EMAIL_VERIFICATION = 'email_verification',
+  PASSWORD_RESET = 'password_reset',
+}
@@ -1,2 +1,10 @@
+export * from './decorators';
+export * from './enums';
+export * from './types/api-response';
+export * from './types/auth-principal';
 export * from './types/shared-types';
+export * from './utils/list-query';
 export * from './utils/mixins';
+export * from './utils/permissions';
+export * from './utils/query-string';
+export * from './utils/validation-errors';
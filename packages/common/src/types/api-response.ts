@@ -0,0 +1,49 @@
+/**
+ * 响应元信息
+ *
+ * @description 成功响应中与业务数据无关的信息；列表接口额外携带分页信息
+ */
+export interface ApiResponseMeta {
+  /** 请求ID，与日志中的请求ID一致 */
+  requestId?: string;
+  /** 操作结果说明 */
+  message?: string;
+  /** 满足过滤条件的总数，仅列表接口返回 */
+  total?: number;
+  /** 每页条数，仅列表接口返回 */
+  limit?: number;
+  /** 当前页码，仅 offset 分页返回 */
+  page?: number;
+  /** 下一页游标，仅列表接口返回 */
+  nextCursor?: string | null;
+  /** 是否还有后续数据，仅列表接口返回 */
+  hasMore?: boolean;
+}
+
+/**
+ * 成功响应
+ *
+ * @description 所有接口成功时的统一响应结构
+ */
+export interface ApiResponse<T = unknown> {
+  data: T;
+  meta: ApiResponseMeta;
+}
+
+/**
+ * 错误响应
+ *
+ * @description 所有接口失败时的统一响应结构，code 取自 `ErrorCode`
+ */
+export interface ApiErrorResponse {
+  error: {
+    /** 业务错误码 */
+    code: string;
+    /** 错误说明 */
+    message: string;
+    /** 错误详情，如字段级校验错误 */
+    details?: Record<string, unknown>;
+    /** 请求ID，便于按请求检索日志 */
+    requestId?: string;
+  };
+}
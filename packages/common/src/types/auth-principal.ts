@@ -0,0 +1,25 @@
+import { UserType } from '../enums/user.enum';
+
+/**
+ * 认证主体
+ *
+ * @description 全局认证守卫校验访问令牌后挂载到 `request.user` 的当前用户身份
+ */
+export interface AuthPrincipal {
+  /** 用户ID */
+  userId: string;
+  /** 用户名 */
+  username: string;
+  /** 用户类型 */
+  type: UserType;
+  /** 所属租户ID */
+  tenantId?: string;
+  /** 角色列表 */
+  roles: string[];
+  /** 权限列表，支持通配符 */
+  permissions: string[];
+  /** 模拟登录的平台操作员ID，仅模拟令牌携带 */
+  impersonatedBy?: string;
+  /** 模拟会话ID，仅模拟令牌携带 */
+  impersonationId?: string;
+}
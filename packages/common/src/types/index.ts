@@ -1 +1,3 @@
+export * from './api-response';
 export * from './shared-types';
+export * from './auth-principal';
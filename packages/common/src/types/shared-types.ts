@@ -44,6 +44,10 @@ export interface ApplicationPluginConfig {
   /** 数据库配置 */
   database?: {
     mikroOrm?: any;
+    softDelete?: {
+      retentionPeriod?: number;
+      purgeInterval?: number;
+    };
   };
   
   /** 认证配置 */
@@ -52,7 +56,62 @@ export interface ApplicationPluginConfig {
     jwtExpirationTime?: number;
     jwtRefreshSecret?: string;
     jwtRefreshExpirationTime?: number;
+    jwtVerificationSecret?: string;
+    jwtVerificationExpirationTime?: number;
+    magicCodeExpirationTime?: number;
+    magicCodeMaxAttempts?: number;
+    invitationExpirationTime?: number;
+    impersonationExpirationTime?: number;
+    /** 没有当前操作人时 createdBy 与 updatedBy 使用的系统用户ID */
+    systemUserId?: string;
     passwordSaltRounds?: number;
+    passwordPolicy?: {
+      minLength?: number;
+      requireUppercase?: boolean;
+      requireLowercase?: boolean;
+      requireDigit?: boolean;
+      requireSymbol?: boolean;
+      /** 弱密码黑名单文件，每行一个密码，# 开头为注释 */
+      denylistPath?: string;
+    };
+  };
+  
+  /** 多租户配置 */
+  tenancy?: {
+    baseDomain?: string;
+    cacheTtl?: number;
+    defaultPlan?: string;
+    /** 套餐目录，键为套餐名称 */
+    plans?: Record<
+      string,
+      {
+        maxUsers?: number;
+        maxStorage?: number;
+        maxOrganizations?: number;
+        features?: string[];
+      }
+    >;
+    /** 订阅到期处理，时间单位为秒 */
+    subscription?: {
+      checkInterval?: number;
+      renewalPeriod?: number;
+      gracePeriod?: number;
+    };
+  };
+  
+  /** 定时任务配置 */
+  scheduler?: {
+    enabled?: boolean;
+    /** 任务锁的租约时长（秒） */
+    lockTtl?: number;
+  };
+  
+  /** 邮件配置 */
+  mail?: {
+    /** 邮件传输方式：file 写入 outputDir，memory 仅保存在进程内存中 */
+    transport?: string;
+    from?: string;
+    outputDir?: string;
   };
   
   /** 资源文件配置 */
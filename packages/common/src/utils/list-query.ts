@@ -0,0 +1,92 @@
+/**
+ * 列表默认每页条数
+ */
+export const DEFAULT_LIST_LIMIT = 20;
+
+/**
+ * 列表每页条数上限
+ */
+export const MAX_LIST_LIMIT = 100;
+
+/**
+ * 排序参数格式
+ *
+ * @description `field:asc,other:desc`，方向省略时为升序
+ */
+export const SORT_PATTERN = /^[A-Za-z][A-Za-z0-9]*(:(asc|desc))?(,[A-Za-z][A-Za-z0-9]*(:(asc|desc))?)*$/;
+
+/**
+ * 排序方向
+ */
+export type SortDirection = 'asc' | 'desc';
+
+/**
+ * 排序项
+ *
+ * @description 排序参数中的单个字段与方向
+ */
+export interface SortField {
+  field: string;
+  direction: SortDirection;
+}
+
+/**
+ * 列表分页结果
+ *
+ * @description 列表接口的分页信息；offset 模式下返回 page，
+ * 两种模式在仍有后续数据时都会返回 nextCursor
+ */
+export interface ListPage<T> {
+  /** 当前页数据 */
+  items: T[];
+  /** 满足过滤条件的总数 */
+  total: number;
+  /** 每页条数 */
+  limit: number;
+  /** 当前页码，仅 offset 模式返回 */
+  page?: number;
+  /** 下一页游标，没有后续数据时为 null */
+  nextCursor: string | null;
+  /** 是否还有后续数据 */
+  hasMore: boolean;
+}
+
+/**
+ * 解析排序参数
+ *
+ * @param sort - 排序参数，如 `name:asc,createdAt:desc`
+ * @returns 排序项列表，参数为空时返回空数组
+ *
+ * @example
+ * ```typescript
+ * parseSort('name,createdAt:desc');
+ * // [{ field: 'name', direction: 'asc' }, { field: 'createdAt', direction: 'desc' }]
+ * ```
+ */
+export function parseSort(sort?: string): SortField[] {
+  return (sort ?? '')
+    .split(',')
+    .filter(Boolean)
+    .map((part) => {
+      const [field, direction] = part.split(':');
+      return { field, direction: direction === 'desc' ? 'desc' : 'asc' };
+    });
+}
+
+/**
+ * 拆分逗号分隔的列表参数
+ *
+ * @description 查询参数 `status=active,suspended` 与重复参数 `status=active&status=suspended` 均拆分为数组
+ * @param value - 原始参数值
+ * @returns 去除空项后的字符串数组，非字符串输入原样返回
+ */
+export function splitList(value: unknown): unknown {
+  const values = Array.isArray(value) ? value : [value];
+  if (!values.every((item) => typeof item === 'string')) {
+    return value;
+  }
+  return values
+    .flatMap((item: string) => item.split(','))
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
@@ -0,0 +1,32 @@
+import { findMatchingPermission, matchesPermission } from './permissions';
+
+describe('matchesPermission', () => {
+  it('should match identical permissions', () => {
+    expect(matchesPermission('users:read', 'users:read')).toBe(true);
+    expect(matchesPermission('users:read', 'users:update')).toBe(false);
+  });
+
+  it('should treat a trailing wildcard as any remaining segments', () => {
+    expect(matchesPermission('users:*', 'users:read')).toBe(true);
+    expect(matchesPermission('users:*', 'users:profile:update')).toBe(true);
+    expect(matchesPermission('users:*', 'users')).toBe(false);
+    expect(matchesPermission('*', 'tenant:123:admin')).toBe(true);
+  });
+
+  it('should treat an inner wildcard as exactly one segment', () => {
+    expect(matchesPermission('tenant:*:admin', 'tenant:123:admin')).toBe(true);
+    expect(matchesPermission('tenant:*:admin', 'tenant:123:member')).toBe(false);
+    expect(matchesPermission('tenant:*:admin', 'tenant:123:admin:extra')).toBe(false);
+  });
+
+  it('should not let a shorter grant cover a longer requirement', () => {
+    expect(matchesPermission('tenant:123', 'tenant:123:admin')).toBe(false);
+  });
+});
+
+describe('findMatchingPermission', () => {
+  it('should return the first covering grant', () => {
+    expect(findMatchingPermission(['orgs:read', 'tenant:*:admin'], 'tenant:9:admin')).toBe('tenant:*:admin');
+    expect(findMatchingPermission(['orgs:read'], 'tenant:9:admin')).toBeUndefined();
+  });
+});
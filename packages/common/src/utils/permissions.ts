@@ -0,0 +1,58 @@
+/**
+ * 权限分段分隔符
+ */
+const PERMISSION_SEPARATOR = ':';
+
+/**
+ * 权限通配符
+ */
+const PERMISSION_WILDCARD = '*';
+
+/**
+ * 判断已授予的权限是否覆盖所需权限
+ *
+ * @description 权限以 `:` 分段。授予权限中的 `*` 匹配单个分段；
+ * 位于末尾时匹配其后任意数量（至少一个）的分段，单独的 `*` 匹配所有权限
+ * @param granted - 已授予的权限，如 `users:*`、`tenant:*:admin`
+ * @param required - 所需权限，如 `users:read`、`tenant:123:admin`
+ * @returns 是否覆盖
+ *
+ * @example
+ * ```typescript
+ * matchesPermission('users:*', 'users:read'); // true
+ * matchesPermission('users:*', 'users'); // false
+ * matchesPermission('tenant:*:admin', 'tenant:123:admin'); // true
+ * ```
+ */
+export function matchesPermission(granted: string, required: string): boolean {
+  const grantedSegments = granted.split(PERMISSION_SEPARATOR);
+  const requiredSegments = required.split(PERMISSION_SEPARATOR);
+
+  for (let index = 0; index < grantedSegments.length; index++) {
+    const segment = grantedSegments[index];
+    const isLast = index === grantedSegments.length - 1;
+
+    if (segment === PERMISSION_WILDCARD && isLast) {
+      return requiredSegments.length > index;
+    }
+    if (index >= requiredSegments.length) {
+      return false;
+    }
+    if (segment !== PERMISSION_WILDCARD && segment !== requiredSegments[index]) {
+      return false;
+    }
+  }
+
+  return grantedSegments.length === requiredSegments.length;
+}
+
+/**
+ * 查找覆盖所需权限的授予权限
+ *
+ * @param granted - 已授予的权限列表
+ * @param required - 所需权限
+ * @returns 第一个覆盖所需权限的授予权限，未找到时返回 undefined
+ */
+export function findMatchingPermission(granted: string[], required: string): string | undefined {
+  return granted.find((permission) => matchesPermission(permission, required));
+}
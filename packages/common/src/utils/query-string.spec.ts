@@ -0,0 +1,21 @@
+import { parseQueryString } from './query-string';
+
+describe('parseQueryString', () => {
+  it('should parse plain and repeated parameters', () => {
+    expect({ ...parseQueryString('q=alice&status=active&status=suspended') }).toEqual({
+      q: 'alice',
+      status: ['active', 'suspended'],
+    });
+  });
+
+  it('should nest bracketed operators one level deep', () => {
+    const query = parseQueryString('createdAt%5Bgte%5D=2024-01-01&createdAt[lt]=2024-02-01&sort=name:asc');
+
+    expect({ ...(query['createdAt'] as object) }).toEqual({ gte: '2024-01-01', lt: '2024-02-01' });
+    expect(query['sort']).toBe('name:asc');
+  });
+
+  it('should keep keys with unsupported bracket syntax verbatim', () => {
+    expect(Object.keys(parseQueryString('a[b][c]=1&__proto__[x]=1'))).toEqual(['a[b][c]', '__proto__']);
+  });
+});
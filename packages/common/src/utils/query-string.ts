@@ -0,0 +1,66 @@
+/**
+ * 嵌套查询参数格式
+ *
+ * @description 匹配 `field[operator]` 形式的参数名
+ */
+const NESTED_KEY_PATTERN = /^([^[\]]+)\[([^[\]]+)\]$/;
+
+/**
+ * 解析查询字符串
+ *
+ * @description 在 URLSearchParams 的基础上支持一层方括号嵌套与重复参数，
+ * 如 `createdAt[gte]=2024-01-01&status=active&status=suspended`
+ * 解析为 `{ createdAt: { gte: '2024-01-01' }, status: ['active', 'suspended'] }`
+ * @param query - 不含 `?` 的查询字符串
+ * @returns 解析结果
+ *
+ * @example
+ * ```typescript
+ * new FastifyAdapter({ querystringParser: parseQueryString });
+ * ```
+ */
+export function parseQueryString(query: string): Record<string, unknown> {
+  const result: Record<string, unknown> = Object.create(null);
+
+  for (const [key, value] of new URLSearchParams(query)) {
+    const nested = NESTED_KEY_PATTERN.exec(key);
+    if (!nested) {
+      appendValue(result, key, value);
+      continue;
+    }
+
+    const [, field, operator] = nested;
+    const current = result[field];
+    const target = isRecord(current) ? current : Object.create(null);
+    appendValue(target, operator, value);
+    result[field] = target;
+  }
+
+  return result;
+}
+
+/**
+ * 追加参数值，重复出现的参数合并为数组
+ *
+ * @param target - 目标对象
+ * @param key - 参数名
+ * @param value - 参数值
+ */
+function appendValue(target: Record<string, unknown>, key: string, value: string): void {
+  const current = target[key];
+  if (current === undefined) {
+    target[key] = value;
+  } else {
+    target[key] = Array.isArray(current) ? [...current, value] : [current, value];
+  }
+}
+
+/**
+ * 判断是否为普通对象
+ *
+ * @param value - 待判断的值
+ * @returns 是否为普通对象
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
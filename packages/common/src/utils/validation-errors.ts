@@ -0,0 +1,38 @@
+import type { ValidationError } from 'class-validator';
+
+/**
+ * 字段级校验错误详情
+ *
+ * @description 描述单个字段未通过的校验规则
+ */
+export interface ValidationErrorDetail {
+  /** 字段路径，嵌套字段以点号分隔，如 `profile.contact.email` */
+  field: string;
+  /** 未通过的校验规则及对应错误消息 */
+  constraints: Record<string, string>;
+}
+
+/**
+ * 展开 class-validator 校验错误
+ *
+ * @description 将嵌套的 ValidationError 树展开为字段级错误列表，
+ * 便于客户端将错误定位到具体表单字段
+ * @param errors - class-validator 返回的校验错误
+ * @param parentPath - 父级字段路径
+ * @returns 字段级错误列表
+ *
+ * @example
+ * ```typescript
+ * new ValidationPipe({
+ *   exceptionFactory: (errors) =>
+ *     new BadRequestException({ message: 'Validation failed', errors: flattenValidationErrors(errors) }),
+ * });
+ * ```
+ */
+export function flattenValidationErrors(errors: ValidationError[], parentPath = ''): ValidationErrorDetail[] {
+  return errors.flatMap((error) => {
+    const field = parentPath ? `${parentPath}.${error.property}` : error.property;
+    const own = error.constraints ? [{ field, constraints: error.constraints }] : [];
+    return [...own, ...flattenValidationErrors(error.children ?? [], field)];
+  });
+}
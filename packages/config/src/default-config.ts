@@ -115,6 +115,11 @@ class ApplicationConfigService {
       // 数据库配置
       database: {
         mikroOrm: dbMikroOrmConnectionConfig,
+        // 软删除数据保留
+        softDelete: {
+          retentionPeriod: parseInt(process.env.SOFT_DELETE_RETENTION_PERIOD || '2592000'), // 30天，超过后彻底删除
+          purgeInterval: parseInt(process.env.SOFT_DELETE_PURGE_INTERVAL || '86400'), // 1天
+        },
       },
 
       // 认证配置
@@ -123,7 +128,68 @@ class ApplicationConfigService {
         jwtExpirationTime: parseInt(process.env.JWT_TOKEN_EXPIRATION_TIME || '86400'), // 1天
         jwtRefreshSecret: process.env.JWT_REFRESH_TOKEN_SECRET || 'refreshSecretKey',
         jwtRefreshExpirationTime: parseInt(process.env.JWT_REFRESH_TOKEN_EXPIRATION_TIME || '604800'), // 7天
+        jwtVerificationSecret: process.env.JWT_VERIFICATION_TOKEN_SECRET || 'verificationSecretKey',
+        jwtVerificationExpirationTime: parseInt(process.env.JWT_VERIFICATION_TOKEN_EXPIRATION_TIME || '86400'), // 1天
+        magicCodeExpirationTime: parseInt(process.env.MAGIC_CODE_EXPIRATION_TIME || '600'), // 10分钟
+        magicCodeMaxAttempts: parseInt(process.env.MAGIC_CODE_MAX_ATTEMPTS || '5'),
+        invitationExpirationTime: parseInt(process.env.INVITATION_EXPIRATION_TIME || '604800'), // 7天
+        impersonationExpirationTime: parseInt(process.env.IMPERSONATION_EXPIRATION_TIME || '900'), // 15分钟
+        systemUserId: process.env.SYSTEM_USER_ID || '', // 后台任务与迁移写入数据时记录的操作人（UUID），必须配置，未配置时应用启动失败
         passwordSaltRounds: parseInt(process.env.USER_PASSWORD_BCRYPT_SALT_ROUNDS || '12'),
+        // 密码强度策略
+        passwordPolicy: {
+          minLength: parseInt(process.env.PASSWORD_MIN_LENGTH || '8'),
+          requireUppercase: process.env.PASSWORD_REQUIRE_UPPERCASE !== 'false',
+          requireLowercase: process.env.PASSWORD_REQUIRE_LOWERCASE !== 'false',
+          requireDigit: process.env.PASSWORD_REQUIRE_DIGIT !== 'false',
+          requireSymbol: process.env.PASSWORD_REQUIRE_SYMBOL === 'true',
+          denylistPath: process.env.PASSWORD_DENYLIST_PATH || path.join(this.assetPath, 'password-denylist.txt'),
+        },
+      },
+
+      // 多租户配置
+      tenancy: {
+        baseDomain: process.env.TENANT_BASE_DOMAIN || 'localhost',
+        cacheTtl: parseInt(process.env.TENANT_CACHE_TTL || '60'), // 60秒
+        // 未订阅或订阅了未知套餐的租户使用的套餐
+        defaultPlan: process.env.TENANT_DEFAULT_PLAN || 'free',
+        // 套餐目录，未声明的限额表示不限制，租户 config 中的同名限额优先
+        plans: {
+          free: {
+            maxUsers: 5,
+            maxStorage: 1024 * 1024 * 1024, // 1GB
+            maxOrganizations: 1,
+            features: [],
+          },
+          team: {
+            maxUsers: 50,
+            maxStorage: 50 * 1024 * 1024 * 1024, // 50GB
+            maxOrganizations: 20,
+            features: ['magicLogin', 'invitations'],
+          },
+          enterprise: {
+            features: ['magicLogin', 'invitations', 'auditLog', 'impersonation'],
+          },
+        },
+        // 订阅到期处理
+        subscription: {
+          checkInterval: parseInt(process.env.SUBSCRIPTION_CHECK_INTERVAL || '3600'), // 1小时
+          renewalPeriod: parseInt(process.env.SUBSCRIPTION_RENEWAL_PERIOD || '2592000'), // 30天
+          gracePeriod: parseInt(process.env.SUBSCRIPTION_GRACE_PERIOD || '604800'), // 7天
+        },
+      },
+
+      // 定时任务配置
+      scheduler: {
+        enabled: process.env.SCHEDULER_ENABLED !== 'false',
+        lockTtl: parseInt(process.env.SCHEDULER_LOCK_TTL || '300'), // 5分钟
+      },
+
+      // 邮件配置
+      mail: {
+        transport: process.env.MAIL_TRANSPORT || 'file',
+        from: process.env.MAIL_FROM || 'HL8 SAAS <no-reply@hl8.local>',
+        outputDir: process.env.MAIL_OUTPUT_DIR || path.join(process.cwd(), 'tmp', 'mail'),
       },
 
       // 资源文件配置
@@ -142,7 +208,7 @@ class ApplicationConfigService {
       // 功能开关
       features: {
         multiTenant: process.env.FEATURE_MULTI_TENANT === 'true' || true,
-        userRegistration: process.env.FEATURE_USER_REGISTRATION === 'true' || true,
+        userRegistration: process.env.FEATURE_USER_REGISTRATION !== 'false',
         emailPasswordLogin: process.env.FEATURE_EMAIL_PASSWORD_LOGIN === 'true' || true,
         magicLogin: process.env.FEATURE_MAGIC_LOGIN === 'true' || false,
       },
@@ -100,6 +100,16 @@ export class ConfigService {
     return this.get('auth');
   }
 
+  /**
+   * 获取多租户配置
+   *
+   * @description 获取租户解析相关配置
+   * @returns {Object} 多租户配置对象
+   */
+  getTenancyConfig() {
+    return this.get('tenancy');
+  }
+
   /**
    * 获取日志配置
    *
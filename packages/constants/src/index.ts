@@ -1,3 +1,5 @@
 export * from './lib/api';
+export * from './lib/auth';
 export * from './lib/code';
+export * from './lib/error-code';
 export * from './lib/logger';
@@ -0,0 +1,38 @@
+/**
+ * 认证相关常量定义
+ *
+ * @description 定义认证与授权中使用的元数据键
+ * 由装饰器写入、由全局守卫通过 Reflector 读取
+ *
+ * @fileoverview 认证常量定义文件
+ * @since 1.0.0
+ */
+
+/**
+ * 公开接口元数据键
+ *
+ * @description 标记处理器或控制器无需认证即可访问
+ *
+ * @example
+ * ```typescript
+ * const isPublic = reflector.getAllAndOverride<boolean>(PUBLIC_METHOD_METADATA, [
+ *   context.getHandler(),
+ *   context.getClass(),
+ * ]);
+ * ```
+ */
+export const PUBLIC_METHOD_METADATA = 'isPublic';
+
+/**
+ * 角色要求元数据键
+ *
+ * @description 记录访问处理器所需的角色，满足其一即可
+ */
+export const ROLES_METADATA = 'roles';
+
+/**
+ * 权限要求元数据键
+ *
+ * @description 记录访问处理器所需的权限，需全部满足
+ */
+export const PERMISSIONS_METADATA = 'permissions';
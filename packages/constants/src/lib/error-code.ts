@@ -0,0 +1,78 @@
+/**
+ * 业务错误码定义
+ *
+ * @description 定义接口返回的业务错误码，客户端据此区分同一 HTTP 状态码下的不同错误
+ *
+ * @fileoverview 业务错误码定义文件
+ * @since 1.0.0
+ */
+
+/**
+ * 业务错误码
+ *
+ * @description 错误码与 HTTP 状态码相互独立，命名采用 `<领域>_<原因>` 形式
+ *
+ * @example
+ * ```typescript
+ * throw new ForbiddenException({ code: ErrorCode.TENANT_SUSPENDED, message: 'Tenant is suspended' });
+ * ```
+ */
+export const ErrorCode = {
+  /** 请求参数校验失败 */
+  VALIDATION_FAILED: 'VALIDATION_FAILED',
+  /** 请求不合法 */
+  BAD_REQUEST: 'BAD_REQUEST',
+  /** 未认证或凭证无效 */
+  UNAUTHORIZED: 'UNAUTHORIZED',
+  /** 无权访问 */
+  FORBIDDEN: 'FORBIDDEN',
+  /** 资源不存在 */
+  NOT_FOUND: 'NOT_FOUND',
+  /** 资源状态冲突 */
+  CONFLICT: 'CONFLICT',
+  /** 功能未启用 */
+  FEATURE_DISABLED: 'FEATURE_DISABLED',
+  /** 请求过于频繁 */
+  TOO_MANY_REQUESTS: 'TOO_MANY_REQUESTS',
+  /** 服务器内部错误 */
+  INTERNAL_ERROR: 'INTERNAL_ERROR',
+  /** 违反唯一约束，如邮箱或编码重复 */
+  UNIQUE_CONSTRAINT_VIOLATION: 'UNIQUE_CONSTRAINT_VIOLATION',
+  /** 违反外键约束，如引用的数据不存在或仍被引用 */
+  FOREIGN_KEY_CONSTRAINT_VIOLATION: 'FOREIGN_KEY_CONSTRAINT_VIOLATION',
+  /** 实体不存在 */
+  ENTITY_NOT_FOUND: 'ENTITY_NOT_FOUND',
+  /** 实体已被其他请求修改，请求携带的版本与当前版本不一致 */
+  ENTITY_VERSION_MISMATCH: 'ENTITY_VERSION_MISMATCH',
+  /** 缺少访问所需的角色或权限 */
+  ACCESS_DENIED: 'ACCESS_DENIED',
+  /** 密码不满足强度策略 */
+  PASSWORD_POLICY_VIOLATION: 'PASSWORD_POLICY_VIOLATION',
+  /** 修改密码时当前密码错误 */
+  INVALID_CURRENT_PASSWORD: 'INVALID_CURRENT_PASSWORD',
+  /** 验证令牌无效、已使用或已过期 */
+  INVALID_VERIFICATION_TOKEN: 'INVALID_VERIFICATION_TOKEN',
+  /** 邀请无效、已接受、已吊销或已过期 */
+  INVALID_INVITATION: 'INVALID_INVITATION',
+  /** 超出租户套餐或配置的配额 */
+  QUOTA_EXCEEDED: 'QUOTA_EXCEEDED',
+  /** 租户不存在 */
+  TENANT_NOT_FOUND: 'TENANT_NOT_FOUND',
+  /** 租户已暂停 */
+  TENANT_SUSPENDED: 'TENANT_SUSPENDED',
+  /** 租户订阅已过期 */
+  TENANT_EXPIRED: 'TENANT_EXPIRED',
+  /** 租户已删除 */
+  TENANT_DELETED: 'TENANT_DELETED',
+  /** 请求解析出的租户与访问令牌所属租户不一致 */
+  TENANT_MISMATCH: 'TENANT_MISMATCH',
+  /** 租户当前状态不允许该状态变更 */
+  INVALID_TENANT_TRANSITION: 'INVALID_TENANT_TRANSITION',
+  /** 当前账户不允许发起模拟登录或目标不允许被模拟 */
+  IMPERSONATION_FORBIDDEN: 'IMPERSONATION_FORBIDDEN',
+} as const;
+
+/**
+ * 业务错误码类型
+ */
+export type ErrorCode = (typeof ErrorCode)[keyof typeof ErrorCode];
@@ -1 +1,11 @@
 export * from './lib/contracts.js';
+export * from './lib/shared/contact.dto.js';
+export * from './lib/shared/list-query.dto.js';
+export * from './lib/auth/index.js';
+export * from './lib/users/index.js';
+export * from './lib/tenants/index.js';
+export * from './lib/organizations/index.js';
+export * from './lib/departments/index.js';
+export * from './lib/invitations/index.js';
+export * from './lib/impersonation/index.js';
+export * from './lib/audit-logs/index.js';
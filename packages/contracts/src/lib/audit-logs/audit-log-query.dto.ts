@@ -0,0 +1,49 @@
+import { Type } from 'class-transformer';
+import { IsEnum, IsIn, IsOptional, IsUUID, ValidateNested } from 'class-validator';
+import { AuditAction } from '@hl8/common';
+import { CommaSeparated, DateRangeDto, ListQueryDto } from '../shared/list-query.dto.js';
+
+/**
+ * 记录审计日志的实体名称
+ */
+export const AUDITED_ENTITY_NAMES = ['User', 'Tenant', 'Organization'];
+
+/**
+ * 审计日志列表查询数据传输对象
+ *
+ * @description 审计日志列表接口的查询参数，所有条件之间为“与”关系，列表型条件的多个取值之间为“或”关系
+ */
+export class AuditLogQueryDto extends ListQueryDto {
+  /** 按实体过滤，多个实体以逗号分隔 */
+  @IsOptional()
+  @CommaSeparated()
+  @IsIn(AUDITED_ENTITY_NAMES, { each: true })
+  entity?: string[];
+
+  /** 按实体ID过滤 */
+  @IsOptional()
+  @IsUUID()
+  entityId?: string;
+
+  /** 按审计动作过滤，多个动作以逗号分隔 */
+  @IsOptional()
+  @CommaSeparated()
+  @IsEnum(AuditAction, { each: true })
+  action?: AuditAction[];
+
+  /** 按操作人过滤 */
+  @IsOptional()
+  @IsUUID()
+  actorId?: string;
+
+  /** 按租户过滤 */
+  @IsOptional()
+  @IsUUID()
+  tenantId?: string;
+
+  /** 按记录时间范围过滤 */
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => DateRangeDto)
+  createdAt?: DateRangeDto;
+}
@@ -0,0 +1,29 @@
+import { IsArray, IsOptional, IsString, IsUUID } from 'class-validator';
+
+/**
+ * 访问决策解释数据传输对象
+ *
+ * @description 解释访问决策接口的请求体，用于排查用户为何被允许或拒绝访问
+ */
+export class ExplainAccessDto {
+  /** 被检查的用户ID */
+  @IsUUID()
+  userId!: string;
+
+  /** 可接受的角色，满足其一即可 */
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  roles?: string[];
+
+  /** 所需权限，需全部满足 */
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  permissions?: string[];
+
+  /** 目标租户ID */
+  @IsOptional()
+  @IsUUID()
+  tenantId?: string;
+}
@@ -0,0 +1,13 @@
+import { IsEmail, MaxLength } from 'class-validator';
+
+/**
+ * 忘记密码数据传输对象
+ *
+ * @description 申请密码重置邮件接口的请求体
+ */
+export class ForgotPasswordDto {
+  /** 账户邮箱 */
+  @IsEmail()
+  @MaxLength(255)
+  email!: string;
+}
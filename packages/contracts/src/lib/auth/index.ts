@@ -0,0 +1,10 @@
+export * from './login.dto.js';
+export * from './refresh-token.dto.js';
+export * from './logout.dto.js';
+export * from './explain-access.dto.js';
+export * from './forgot-password.dto.js';
+export * from './reset-password.dto.js';
+export * from './verify-email.dto.js';
+export * from './resend-verification.dto.js';
+export * from './magic-login.dto.js';
+export * from './register.dto.js';
@@ -0,0 +1,20 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+/**
+ * 登录数据传输对象
+ *
+ * @description 用户名/邮箱加密码登录接口的请求体
+ */
+export class LoginDto {
+  /** 用户名或邮箱 */
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  identifier!: string;
+
+  /** 明文密码 */
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(128)
+  password!: string;
+}
@@ -0,0 +1,13 @@
+import { IsJWT, IsOptional } from 'class-validator';
+
+/**
+ * 登出数据传输对象
+ *
+ * @description 登出接口的请求体，未提供刷新令牌时吊销当前用户的全部会话
+ */
+export class LogoutDto {
+  /** 需要吊销的刷新令牌 */
+  @IsOptional()
+  @IsJWT()
+  refreshToken?: string;
+}
@@ -0,0 +1,30 @@
+import { IsEmail, Matches, MaxLength } from 'class-validator';
+
+/**
+ * 申请魔法登录码数据传输对象
+ *
+ * @description 申请通过邮件发送一次性登录码接口的请求体
+ */
+export class MagicLoginRequestDto {
+  /** 账户邮箱 */
+  @IsEmail()
+  @MaxLength(255)
+  email!: string;
+}
+
+/**
+ * 魔法登录码登录数据传输对象
+ *
+ * @description 使用邮件中的一次性登录码登录接口的请求体
+ */
+export class MagicLoginVerifyDto {
+  /** 账户邮箱 */
+  @IsEmail()
+  @MaxLength(255)
+  email!: string;
+
+  /** 登录码，不区分大小写 */
+  @MaxLength(32)
+  @Matches(/^[A-Za-z0-9]+$/, { message: 'code may only contain letters and numbers' })
+  code!: string;
+}
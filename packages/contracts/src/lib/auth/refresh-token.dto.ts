@@ -0,0 +1,12 @@
+import { IsJWT } from 'class-validator';
+
+/**
+ * 刷新令牌数据传输对象
+ *
+ * @description 刷新访问令牌接口的请求体
+ */
+export class RefreshTokenDto {
+  /** 登录或上一次刷新时签发的刷新令牌 */
+  @IsJWT()
+  refreshToken!: string;
+}
@@ -0,0 +1,77 @@
+import { Type } from 'class-transformer';
+import {
+  IsEmail,
+  IsIn,
+  IsOptional,
+  IsString,
+  Length,
+  Matches,
+  MaxLength,
+  MinLength,
+  ValidateNested,
+} from 'class-validator';
+import { TenantType } from '@hl8/common';
+
+/**
+ * 自助注册可创建的租户类型
+ */
+export const REGISTRABLE_TENANT_TYPES = [TenantType.PERSONAL, TenantType.TEAM] as const;
+
+/**
+ * 注册时创建的租户数据传输对象
+ *
+ * @description 自助注册时新建租户的信息，注册用户成为该租户的管理员
+ */
+export class RegisterTenantDto {
+  /** 租户名称 */
+  @IsString()
+  @Length(1, 100)
+  name!: string;
+
+  /** 租户类型，仅允许个人或团队，默认为个人 */
+  @IsOptional()
+  @IsIn(REGISTRABLE_TENANT_TYPES)
+  type?: (typeof REGISTRABLE_TENANT_TYPES)[number];
+}
+
+/**
+ * 自助注册数据传输对象
+ *
+ * @description 自助注册接口的请求体，tenant 与 invitationToken 二选一：
+ * 提供 tenant 时创建新租户，提供 invitationToken 时通过邀请加入已有租户，均未提供时以用户名创建个人租户
+ *
+ * ## 校验规则
+ * - 用户名 3-50 个字符，仅允许字母、数字、下划线、点和连字符
+ * - 邮箱必须为合法邮箱格式
+ * - 密码 8-128 个字符，服务端仅存储其哈希值
+ */
+export class RegisterDto {
+  /** 用户名，全局唯一 */
+  @IsString()
+  @Length(3, 50)
+  @Matches(/^[a-zA-Z0-9_.-]+$/, { message: 'username may only contain letters, numbers, "_", "." and "-"' })
+  username!: string;
+
+  /** 邮箱，全局唯一 */
+  @IsEmail()
+  @MaxLength(255)
+  email!: string;
+
+  /** 明文密码 */
+  @IsString()
+  @MinLength(8)
+  @MaxLength(128)
+  password!: string;
+
+  /** 新建的租户 */
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => RegisterTenantDto)
+  tenant?: RegisterTenantDto;
+
+  /** 邀请令牌，取自邀请链接 */
+  @IsOptional()
+  @IsString()
+  @MaxLength(128)
+  invitationToken?: string;
+}
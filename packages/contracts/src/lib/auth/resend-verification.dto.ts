@@ -0,0 +1,13 @@
+import { IsEmail, MaxLength } from 'class-validator';
+
+/**
+ * 重发验证邮件数据传输对象
+ *
+ * @description 重新发送邮箱验证邮件接口的请求体
+ */
+export class ResendVerificationDto {
+  /** 账户邮箱 */
+  @IsEmail()
+  @MaxLength(255)
+  email!: string;
+}
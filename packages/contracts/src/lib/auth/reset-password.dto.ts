@@ -0,0 +1,18 @@
+import { IsJWT, IsString, MaxLength, MinLength } from 'class-validator';
+
+/**
+ * 重置密码数据传输对象
+ *
+ * @description 使用密码重置邮件中的令牌设置新密码接口的请求体
+ */
+export class ResetPasswordDto {
+  /** 密码重置令牌 */
+  @IsJWT()
+  token!: string;
+
+  /** 新密码 */
+  @IsString()
+  @MinLength(8)
+  @MaxLength(128)
+  newPassword!: string;
+}
@@ -0,0 +1,12 @@
+import { IsJWT } from 'class-validator';
+
+/**
+ * 邮箱验证数据传输对象
+ *
+ * @description 使用邮箱验证邮件中的令牌完成验证接口的请求体
+ */
+export class VerifyEmailDto {
+  /** 邮箱验证令牌 */
+  @IsJWT()
+  token!: string;
+}
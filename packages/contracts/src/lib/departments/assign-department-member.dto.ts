@@ -0,0 +1,12 @@
+import { IsUUID } from 'class-validator';
+
+/**
+ * 分配部门成员数据传输对象
+ *
+ * @description 将用户加入部门接口的请求体
+ */
+export class AssignDepartmentMemberDto {
+  /** 用户ID */
+  @IsUUID()
+  userId!: string;
+}
@@ -0,0 +1,45 @@
+import { IsEnum, IsOptional, IsString, IsUUID, Length, MaxLength } from 'class-validator';
+import { DepartmentStatus } from '@hl8/common';
+
+/**
+ * 创建部门数据传输对象
+ *
+ * @description 创建部门接口的请求体，所属租户取自组织，无需单独传入
+ */
+export class CreateDepartmentDto {
+  /** 部门名称 */
+  @IsString()
+  @Length(1, 100)
+  name!: string;
+
+  /** 部门编码 */
+  @IsOptional()
+  @IsString()
+  @Length(1, 50)
+  code?: string;
+
+  /** 部门描述 */
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  description?: string;
+
+  /** 部门状态 */
+  @IsOptional()
+  @IsEnum(DepartmentStatus)
+  status?: DepartmentStatus;
+
+  /** 所属组织ID */
+  @IsUUID()
+  organizationId!: string;
+
+  /** 父部门ID，为空时创建顶级部门 */
+  @IsOptional()
+  @IsUUID()
+  parentId?: string;
+
+  /** 部门负责人用户ID */
+  @IsOptional()
+  @IsUUID()
+  headId?: string;
+}
@@ -0,0 +1,29 @@
+import { IsEnum, IsOptional, IsUUID } from 'class-validator';
+import { DepartmentStatus } from '@hl8/common';
+
+/**
+ * 部门列表查询数据传输对象
+ *
+ * @description 部门列表接口的查询参数，所有条件之间为“与”关系
+ */
+export class DepartmentQueryDto {
+  /** 按租户过滤 */
+  @IsOptional()
+  @IsUUID()
+  tenantId?: string;
+
+  /** 按组织过滤 */
+  @IsOptional()
+  @IsUUID()
+  organizationId?: string;
+
+  /** 按父部门过滤 */
+  @IsOptional()
+  @IsUUID()
+  parentId?: string;
+
+  /** 按部门状态过滤 */
+  @IsOptional()
+  @IsEnum(DepartmentStatus)
+  status?: DepartmentStatus;
+}
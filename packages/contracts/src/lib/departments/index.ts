@@ -0,0 +1,4 @@
+export * from './create-department.dto.js';
+export * from './update-department.dto.js';
+export * from './department-query.dto.js';
+export * from './assign-department-member.dto.js';
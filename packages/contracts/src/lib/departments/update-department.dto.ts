@@ -0,0 +1,37 @@
+import { IsEnum, IsOptional, IsString, IsUUID, Length, MaxLength } from 'class-validator';
+import { DepartmentStatus } from '@hl8/common';
+
+/**
+ * 更新部门数据传输对象
+ *
+ * @description 更新部门接口的请求体，所有字段可选；所属组织与父部门不可在此修改
+ */
+export class UpdateDepartmentDto {
+  /** 部门名称 */
+  @IsOptional()
+  @IsString()
+  @Length(1, 100)
+  name?: string;
+
+  /** 部门编码 */
+  @IsOptional()
+  @IsString()
+  @Length(1, 50)
+  code?: string;
+
+  /** 部门描述 */
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  description?: string;
+
+  /** 部门状态 */
+  @IsOptional()
+  @IsEnum(DepartmentStatus)
+  status?: DepartmentStatus;
+
+  /** 部门负责人用户ID */
+  @IsOptional()
+  @IsUUID()
+  headId?: string;
+}
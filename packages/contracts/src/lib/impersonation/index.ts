@@ -0,0 +1 @@
+export * from './start-impersonation.dto.js';
@@ -0,0 +1,24 @@
+import { IsNotEmpty, IsOptional, IsString, IsUUID, MaxLength } from 'class-validator';
+
+/**
+ * 发起模拟登录数据传输对象
+ *
+ * @description 平台操作员发起模拟登录接口的请求体，租户与用户至少指定其一
+ */
+export class StartImpersonationDto {
+  /** 目标租户ID，只指定租户时操作员以自身身份进入该租户 */
+  @IsOptional()
+  @IsUUID()
+  tenantId?: string;
+
+  /** 目标用户ID，须为租户用户 */
+  @IsOptional()
+  @IsUUID()
+  userId?: string;
+
+  /** 模拟原因，如工单编号 */
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason!: string;
+}
@@ -0,0 +1,27 @@
+import { IsOptional, IsString, Length, Matches, MaxLength, MinLength } from 'class-validator';
+
+/**
+ * 接受邀请数据传输对象
+ *
+ * @description 接受邀请接口的请求体：受邀邮箱已注册时以密码确认身份，
+ * 未注册时使用 username 与 password 创建账户
+ */
+export class AcceptInvitationDto {
+  /** 邀请令牌，取自邀请链接 */
+  @IsString()
+  @MaxLength(128)
+  token!: string;
+
+  /** 新账户的用户名，受邀邮箱未注册时必填 */
+  @IsOptional()
+  @IsString()
+  @Length(3, 50)
+  @Matches(/^[a-zA-Z0-9_.-]+$/, { message: 'username may only contain letters, numbers, "_", "." and "-"' })
+  username?: string;
+
+  /** 已有账户的密码，或新账户的明文密码 */
+  @IsString()
+  @MinLength(8)
+  @MaxLength(128)
+  password!: string;
+}
@@ -0,0 +1,24 @@
+import { IsEmail, IsOptional, IsString, IsUUID, Length, MaxLength } from 'class-validator';
+
+/**
+ * 创建邀请数据传输对象
+ *
+ * @description 邀请邮箱加入租户接口的请求体，可同时指定加入的组织与角色
+ */
+export class CreateInvitationDto {
+  /** 受邀邮箱 */
+  @IsEmail()
+  @MaxLength(255)
+  email!: string;
+
+  /** 加入的组织ID，须属于该租户 */
+  @IsOptional()
+  @IsUUID()
+  organizationId?: string;
+
+  /** 授予的角色，默认为 user */
+  @IsOptional()
+  @IsString()
+  @Length(1, 50)
+  role?: string;
+}
@@ -0,0 +1,3 @@
+export * from './create-invitation.dto.js';
+export * from './invitation-query.dto.js';
+export * from './accept-invitation.dto.js';
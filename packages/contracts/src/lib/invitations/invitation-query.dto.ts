@@ -0,0 +1,15 @@
+import { Transform } from 'class-transformer';
+import { IsBoolean, IsOptional } from 'class-validator';
+
+/**
+ * 邀请列表查询数据传输对象
+ *
+ * @description 邀请列表接口的查询参数，默认只返回待接受的邀请
+ */
+export class InvitationQueryDto {
+  /** 是否包含已接受、已吊销与已过期的邀请 */
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true' || value === '1')
+  @IsBoolean()
+  includeInactive?: boolean;
+}
@@ -0,0 +1,59 @@
+import { Type } from 'class-transformer';
+import { IsEnum, IsOptional, IsString, IsUUID, Length, MaxLength, ValidateNested } from 'class-validator';
+import { OrganizationStatus, OrganizationType } from '@hl8/common';
+import { OrganizationConfigDto } from './organization-config.dto.js';
+import { OrganizationProfileDto } from './organization-profile.dto.js';
+
+/**
+ * 创建组织数据传输对象
+ *
+ * @description 创建组织接口的请求体，字段映射到 Organization 实体
+ */
+export class CreateOrganizationDto {
+  /** 组织名称 */
+  @IsString()
+  @Length(1, 100)
+  name!: string;
+
+  /** 组织描述 */
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  description?: string;
+
+  /** 组织类型 */
+  @IsOptional()
+  @IsEnum(OrganizationType)
+  type?: OrganizationType;
+
+  /** 组织状态 */
+  @IsOptional()
+  @IsEnum(OrganizationStatus)
+  status?: OrganizationStatus;
+
+  /** 所属租户ID */
+  @IsUUID()
+  tenantId!: string;
+
+  /** 父组织ID，为空时创建根组织 */
+  @IsOptional()
+  @IsUUID()
+  parentId?: string;
+
+  /** 组织配置 */
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => OrganizationConfigDto)
+  config?: OrganizationConfigDto;
+
+  /** 组织资料 */
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => OrganizationProfileDto)
+  profile?: OrganizationProfileDto;
+
+  /** 组织负责人用户ID */
+  @IsOptional()
+  @IsUUID()
+  leaderId?: string;
+}
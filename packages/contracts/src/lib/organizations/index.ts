@@ -0,0 +1,6 @@
+export * from './create-organization.dto.js';
+export * from './update-organization.dto.js';
+export * from './move-organization.dto.js';
+export * from './organization-config.dto.js';
+export * from './organization-profile.dto.js';
+export * from './organization-query.dto.js';
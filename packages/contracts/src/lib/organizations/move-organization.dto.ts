@@ -0,0 +1,13 @@
+import { IsOptional, IsUUID } from 'class-validator';
+
+/**
+ * 移动组织数据传输对象
+ *
+ * @description 移动组织接口的请求体，parentId 为空或 null 时移动为根组织
+ */
+export class MoveOrganizationDto {
+  /** 新的父组织ID */
+  @IsOptional()
+  @IsUUID()
+  parentId?: string | null;
+}
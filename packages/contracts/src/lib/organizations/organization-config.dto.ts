@@ -0,0 +1,25 @@
+import { IsArray, IsInt, IsObject, IsOptional, IsString, Min } from 'class-validator';
+
+/**
+ * 组织配置数据传输对象
+ *
+ * @description 对应 Organization.config JSON 字段
+ */
+export class OrganizationConfigDto {
+  /** 最大成员数 */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxMembers?: number;
+
+  /** 组织权限列表 */
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  permissions?: string[];
+
+  /** 自定义设置 */
+  @IsOptional()
+  @IsObject()
+  settings?: Record<string, unknown>;
+}
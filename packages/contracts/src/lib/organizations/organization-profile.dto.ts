@@ -0,0 +1,26 @@
+import { Type } from 'class-transformer';
+import { IsOptional, IsUrl, ValidateNested } from 'class-validator';
+import { ContactDto } from '../shared/contact.dto.js';
+
+/**
+ * 组织资料数据传输对象
+ *
+ * @description 对应 Organization.profile JSON 字段
+ */
+export class OrganizationProfileDto {
+  /** 组织标志地址 */
+  @IsOptional()
+  @IsUrl()
+  logo?: string;
+
+  /** 组织网站 */
+  @IsOptional()
+  @IsUrl()
+  website?: string;
+
+  /** 联系方式 */
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ContactDto)
+  contact?: ContactDto;
+}
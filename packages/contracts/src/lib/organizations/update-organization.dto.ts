@@ -0,0 +1,51 @@
+import { Type } from 'class-transformer';
+import { IsEnum, IsOptional, IsString, IsUUID, Length, MaxLength, ValidateNested } from 'class-validator';
+import { OrganizationStatus, OrganizationType } from '@hl8/common';
+import { OrganizationConfigDto } from './organization-config.dto.js';
+import { OrganizationProfileDto } from './organization-profile.dto.js';
+
+/**
+ * 更新组织数据传输对象
+ *
+ * @description 更新组织接口的请求体，所有字段可选；所属租户、父组织与创建者不可在此修改，移动组织请使用 MoveOrganizationDto
+ */
+export class UpdateOrganizationDto {
+  /** 组织名称 */
+  @IsOptional()
+  @IsString()
+  @Length(1, 100)
+  name?: string;
+
+  /** 组织描述 */
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  description?: string;
+
+  /** 组织类型 */
+  @IsOptional()
+  @IsEnum(OrganizationType)
+  type?: OrganizationType;
+
+  /** 组织状态 */
+  @IsOptional()
+  @IsEnum(OrganizationStatus)
+  status?: OrganizationStatus;
+
+  /** 组织配置 */
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => OrganizationConfigDto)
+  config?: OrganizationConfigDto;
+
+  /** 组织资料 */
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => OrganizationProfileDto)
+  profile?: OrganizationProfileDto;
+
+  /** 组织负责人用户ID */
+  @IsOptional()
+  @IsUUID()
+  leaderId?: string;
+}
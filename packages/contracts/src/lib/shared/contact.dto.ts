@@ -0,0 +1,25 @@
+import { IsEmail, IsOptional, IsString, MaxLength } from 'class-validator';
+
+/**
+ * 联系方式数据传输对象
+ *
+ * @description 租户与组织资料中共用的联系方式结构
+ */
+export class ContactDto {
+  /** 联系邮箱 */
+  @IsOptional()
+  @IsEmail()
+  email?: string;
+
+  /** 联系电话 */
+  @IsOptional()
+  @IsString()
+  @MaxLength(30)
+  phone?: string;
+
+  /** 联系地址 */
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  address?: string;
+}
@@ -0,0 +1,77 @@
+import { Transform, Type } from 'class-transformer';
+import { IsDateString, IsInt, IsOptional, IsString, Matches, Max, MaxLength, Min } from 'class-validator';
+import { MAX_LIST_LIMIT, SORT_PATTERN, splitList } from '@hl8/common';
+
+/**
+ * 逗号分隔列表参数
+ *
+ * @description 将 `status=active,suspended` 形式的查询参数转换为数组，配合 `{ each: true }` 校验每一项
+ * @returns 属性装饰器
+ */
+export const CommaSeparated = () => Transform(({ value }) => splitList(value));
+
+/**
+ * 时间范围过滤数据传输对象
+ *
+ * @description 对应 `createdAt[gte]=...&createdAt[lt]=...` 形式的查询参数
+ */
+export class DateRangeDto {
+  /** 不早于 */
+  @IsOptional()
+  @IsDateString()
+  gte?: string;
+
+  /** 晚于 */
+  @IsOptional()
+  @IsDateString()
+  gt?: string;
+
+  /** 不晚于 */
+  @IsOptional()
+  @IsDateString()
+  lte?: string;
+
+  /** 早于 */
+  @IsOptional()
+  @IsDateString()
+  lt?: string;
+}
+
+/**
+ * 列表查询数据传输对象
+ *
+ * @description 列表接口共用的分页、排序与搜索参数；传入 cursor 时使用游标分页并忽略 page
+ */
+export class ListQueryDto {
+  /** 页码，从 1 开始 */
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  /** 每页条数 */
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_LIST_LIMIT)
+  limit?: number;
+
+  /** 游标，取自上一页响应的 nextCursor */
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  cursor?: string;
+
+  /** 排序，如 `name:asc,createdAt:desc` */
+  @IsOptional()
+  @Matches(SORT_PATTERN, { message: 'sort must look like field:asc,other:desc' })
+  sort?: string;
+
+  /** 文本搜索关键字 */
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  q?: string;
+}
@@ -0,0 +1,39 @@
+import 'reflect-metadata';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { flattenValidationErrors } from '@hl8/common';
+import { CreateTenantDto } from './create-tenant.dto.js';
+import { TenantQueryDto } from './tenant-query.dto.js';
+
+describe('CreateTenantDto', () => {
+  it('should convert subscription dates from ISO strings', async () => {
+    const dto = plainToInstance(CreateTenantDto, {
+      name: 'Acme',
+      domain: 'acme.example.com',
+      subscription: { plan: 'pro', endDate: '2030-01-01T00:00:00.000Z' },
+    });
+
+    expect(await validate(dto)).toHaveLength(0);
+    expect(dto.subscription?.endDate).toBeInstanceOf(Date);
+  });
+
+  it('should report nested contact errors with their full path', async () => {
+    const dto = plainToInstance(CreateTenantDto, {
+      name: 'Acme',
+      domain: 'not a domain',
+      subdomain: 'acme.example.com',
+      profile: { contact: { email: 'nope' } },
+      config: { maxUsers: 0 },
+    });
+
+    const fields = flattenValidationErrors(await validate(dto)).map((detail) => detail.field);
+    expect(fields).toEqual(expect.arrayContaining(['domain', 'subdomain', 'profile.contact.email', 'config.maxUsers']));
+  });
+});
+
+describe('TenantQueryDto', () => {
+  it('should parse includeDeleted from a query string value', () => {
+    expect(plainToInstance(TenantQueryDto, { includeDeleted: 'true' }).includeDeleted).toBe(true);
+    expect(plainToInstance(TenantQueryDto, { includeDeleted: 'false' }).includeDeleted).toBe(false);
+  });
+});
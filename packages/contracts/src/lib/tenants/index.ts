@@ -0,0 +1,7 @@
+export * from './create-tenant.dto.js';
+export * from './update-tenant.dto.js';
+export * from './tenant-config.dto.js';
+export * from './tenant-profile.dto.js';
+export * from './tenant-subscription.dto.js';
+export * from './tenant-query.dto.js';
+export * from './tenant-lifecycle.dto.js';
@@ -0,0 +1,37 @@
+import { IsArray, IsInt, IsObject, IsOptional, IsString, Min } from 'class-validator';
+
+/**
+ * 租户配置数据传输对象
+ *
+ * @description 对应 Tenant.config JSON 字段
+ */
+export class TenantConfigDto {
+  /** 最大用户数 */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxUsers?: number;
+
+  /** 最大存储空间（字节） */
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  maxStorage?: number;
+
+  /** 最大组织数 */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxOrganizations?: number;
+
+  /** 启用的功能列表 */
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  features?: string[];
+
+  /** 自定义设置 */
+  @IsOptional()
+  @IsObject()
+  settings?: Record<string, unknown>;
+}
@@ -0,0 +1,52 @@
+import { Type } from 'class-transformer';
+import { IsDate, IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+
+/**
+ * 租户状态变更数据传输对象
+ *
+ * @description 启用、停用、恢复等租户生命周期接口的请求体，原因记录在状态变更历史中
+ */
+export class TenantStatusChangeDto {
+  /** 变更原因 */
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
+
+/**
+ * 暂停租户数据传输对象
+ *
+ * @description 暂停租户接口的请求体，必须说明暂停原因
+ */
+export class SuspendTenantDto {
+  /** 暂停原因 */
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason!: string;
+}
+
+/**
+ * 续订租户数据传输对象
+ *
+ * @description 续订租户订阅接口的请求体，已过期的租户续订后恢复为活跃状态
+ */
+export class RenewTenantDto {
+  /** 新的订阅结束日期，ISO 8601 字符串 */
+  @Type(() => Date)
+  @IsDate()
+  endDate!: Date;
+
+  /** 续订的套餐，未提供时沿用当前套餐 */
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  plan?: string;
+
+  /** 续订原因 */
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
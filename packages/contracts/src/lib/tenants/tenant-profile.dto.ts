@@ -0,0 +1,32 @@
+import { Type } from 'class-transformer';
+import { IsOptional, IsString, IsUrl, MaxLength, ValidateNested } from 'class-validator';
+import { ContactDto } from '../shared/contact.dto.js';
+
+/**
+ * 租户资料数据传输对象
+ *
+ * @description 对应 Tenant.profile JSON 字段
+ */
+export class TenantProfileDto {
+  /** 租户简介 */
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  description?: string;
+
+  /** 租户标志地址 */
+  @IsOptional()
+  @IsUrl()
+  logo?: string;
+
+  /** 租户网站 */
+  @IsOptional()
+  @IsUrl()
+  website?: string;
+
+  /** 联系方式 */
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ContactDto)
+  contact?: ContactDto;
+}
@@ -0,0 +1,35 @@
+import { Transform, Type } from 'class-transformer';
+import { IsBoolean, IsEnum, IsOptional, ValidateNested } from 'class-validator';
+import { TenantStatus, TenantType } from '@hl8/common';
+import { CommaSeparated, DateRangeDto, ListQueryDto } from '../shared/list-query.dto.js';
+
+/**
+ * 租户列表查询数据传输对象
+ *
+ * @description 租户列表接口的查询参数，已删除租户默认不返回；q 在租户名称与域名中搜索
+ */
+export class TenantQueryDto extends ListQueryDto {
+  /** 按租户类型过滤，多个类型以逗号分隔 */
+  @IsOptional()
+  @CommaSeparated()
+  @IsEnum(TenantType, { each: true })
+  type?: TenantType[];
+
+  /** 按租户状态过滤，多个状态以逗号分隔 */
+  @IsOptional()
+  @CommaSeparated()
+  @IsEnum(TenantStatus, { each: true })
+  status?: TenantStatus[];
+
+  /** 按创建时间范围过滤 */
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => DateRangeDto)
+  createdAt?: DateRangeDto;
+
+  /** 是否包含已删除租户，仅管理员可用 */
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true' || value === '1')
+  @IsBoolean()
+  includeDeleted?: boolean;
+}
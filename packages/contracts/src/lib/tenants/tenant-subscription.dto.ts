@@ -0,0 +1,32 @@
+import { Type } from 'class-transformer';
+import { IsBoolean, IsDate, IsOptional, IsString, MaxLength } from 'class-validator';
+
+/**
+ * 租户订阅数据传输对象
+ *
+ * @description 对应 Tenant.subscription JSON 字段，日期以 ISO 8601 字符串传入
+ */
+export class TenantSubscriptionDto {
+  /** 订阅计划 */
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  plan?: string;
+
+  /** 订阅开始日期 */
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  startDate?: Date;
+
+  /** 订阅结束日期 */
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  endDate?: Date;
+
+  /** 是否自动续订 */
+  @IsOptional()
+  @IsBoolean()
+  autoRenew?: boolean;
+}
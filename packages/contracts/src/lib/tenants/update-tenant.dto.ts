@@ -0,0 +1,60 @@
+import { Type } from 'class-transformer';
+import { IsEnum, IsFQDN, IsOptional, IsString, IsUUID, Length, Matches, MaxLength, ValidateNested } from 'class-validator';
+import { TenantType } from '@hl8/common';
+import { TenantConfigDto } from './tenant-config.dto.js';
+import { TenantProfileDto } from './tenant-profile.dto.js';
+import { TenantSubscriptionDto } from './tenant-subscription.dto.js';
+
+/**
+ * 更新租户数据传输对象
+ *
+ * @description 更新租户接口的请求体，所有字段可选，创建者不可修改；状态只能通过租户生命周期接口变更
+ */
+export class UpdateTenantDto {
+  /** 租户名称 */
+  @IsOptional()
+  @IsString()
+  @Length(1, 100)
+  name?: string;
+
+  /** 租户域名，全局唯一 */
+  @IsOptional()
+  @IsFQDN()
+  @MaxLength(255)
+  domain?: string;
+
+  /** 平台基础域名下的子域名，如 `acme` 对应 `acme.<基础域名>`，全局唯一 */
+  @IsOptional()
+  @Matches(/^[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/, {
+    message: 'subdomain must be a single lowercase DNS label of letters, numbers and "-"',
+  })
+  subdomain?: string;
+
+  /** 租户类型 */
+  @IsOptional()
+  @IsEnum(TenantType)
+  type?: TenantType;
+
+  /** 租户配置 */
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => TenantConfigDto)
+  config?: TenantConfigDto;
+
+  /** 租户资料 */
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => TenantProfileDto)
+  profile?: TenantProfileDto;
+
+  /** 订阅信息 */
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => TenantSubscriptionDto)
+  subscription?: TenantSubscriptionDto;
+
+  /** 租户管理员用户ID */
+  @IsOptional()
+  @IsUUID()
+  adminId?: string;
+}
@@ -0,0 +1,20 @@
+import { IsNotEmpty, IsString, MaxLength, MinLength } from 'class-validator';
+
+/**
+ * 修改密码数据传输对象
+ *
+ * @description 用户修改自己密码接口的请求体，新密码还需满足服务端的密码强度策略
+ */
+export class ChangePasswordDto {
+  /** 当前密码 */
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(128)
+  currentPassword!: string;
+
+  /** 新密码 */
+  @IsString()
+  @MinLength(8)
+  @MaxLength(128)
+  newPassword!: string;
+}
@@ -0,0 +1,35 @@
+import 'reflect-metadata';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { flattenValidationErrors } from '@hl8/common';
+import { CreateUserDto } from './create-user.dto.js';
+
+describe('CreateUserDto', () => {
+  const validate$ = (plain: object) => validate(plainToInstance(CreateUserDto, plain));
+
+  it('should accept a valid payload', async () => {
+    const errors = await validate$({
+      username: 'alice',
+      email: 'alice@example.com',
+      password: 'S3cret-pass',
+      profile: { firstName: 'Alice', timezone: 'Asia/Shanghai' },
+    });
+
+    expect(errors).toHaveLength(0);
+  });
+
+  it('should report field-level errors including nested fields', async () => {
+    const errors = await validate$({
+      username: 'a',
+      email: 'not-an-email',
+      password: 'short',
+      type: 'robot',
+      profile: { avatar: 'not a url' },
+    });
+
+    const fields = flattenValidationErrors(errors).map((detail) => detail.field);
+    expect(fields).toEqual(
+      expect.arrayContaining(['username', 'email', 'password', 'type', 'profile.avatar']),
+    );
+  });
+});
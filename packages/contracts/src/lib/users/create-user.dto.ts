@@ -0,0 +1,88 @@
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsEmail,
+  IsEnum,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Length,
+  Matches,
+  MaxLength,
+  MinLength,
+  ValidateNested,
+} from 'class-validator';
+import { UserStatus, UserType } from '@hl8/common';
+import { UserProfileDto } from './user-profile.dto.js';
+
+/**
+ * 创建用户数据传输对象
+ *
+ * @description 创建用户接口的请求体，字段映射到 User 实体
+ *
+ * ## 校验规则
+ * - 用户名 3-50 个字符，仅允许字母、数字、下划线、点和连字符
+ * - 邮箱必须为合法邮箱格式
+ * - 密码 8-128 个字符，服务端仅存储其哈希值
+ */
+export class CreateUserDto {
+  /** 用户名，全局唯一 */
+  @IsString()
+  @Length(3, 50)
+  @Matches(/^[a-zA-Z0-9_.-]+$/, { message: 'username may only contain letters, numbers, "_", "." and "-"' })
+  username!: string;
+
+  /** 邮箱，全局唯一 */
+  @IsEmail()
+  @MaxLength(255)
+  email!: string;
+
+  /** 明文密码 */
+  @IsString()
+  @MinLength(8)
+  @MaxLength(128)
+  password!: string;
+
+  /** 用户类型 */
+  @IsOptional()
+  @IsEnum(UserType)
+  type?: UserType;
+
+  /** 用户状态 */
+  @IsOptional()
+  @IsEnum(UserStatus)
+  status?: UserStatus;
+
+  /** 所属租户ID */
+  @IsOptional()
+  @IsUUID()
+  tenantId?: string;
+
+  /** 所属组织ID */
+  @IsOptional()
+  @IsUUID()
+  organizationId?: string;
+
+  /** 所属部门ID */
+  @IsOptional()
+  @IsUUID()
+  departmentId?: string;
+
+  /** 用户角色 */
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  role?: string;
+
+  /** 用户权限列表 */
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  permissions?: string[];
+
+  /** 用户资料 */
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => UserProfileDto)
+  profile?: UserProfileDto;
+}
@@ -0,0 +1,6 @@
+export * from './create-user.dto.js';
+export * from './update-user.dto.js';
+export * from './user-profile.dto.js';
+export * from './user-query.dto.js';
+export * from './change-password.dto.js';
+export * from './reset-user-password.dto.js';
@@ -0,0 +1,15 @@
+import { IsOptional, IsString, MaxLength, MinLength } from 'class-validator';
+
+/**
+ * 重置用户密码数据传输对象
+ *
+ * @description 管理员重置用户密码接口的请求体，未提供新密码时由服务端生成临时密码
+ */
+export class ResetUserPasswordDto {
+  /** 新密码 */
+  @IsOptional()
+  @IsString()
+  @MinLength(8)
+  @MaxLength(128)
+  newPassword?: string;
+}
@@ -0,0 +1,78 @@
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsEmail,
+  IsEnum,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Length,
+  Matches,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { UserStatus, UserType } from '@hl8/common';
+import { UserProfileDto } from './user-profile.dto.js';
+
+/**
+ * 更新用户数据传输对象
+ *
+ * @description 更新用户接口的请求体，所有字段可选，密码不在此处修改
+ */
+export class UpdateUserDto {
+  /** 用户名，全局唯一 */
+  @IsOptional()
+  @IsString()
+  @Length(3, 50)
+  @Matches(/^[a-zA-Z0-9_.-]+$/, { message: 'username may only contain letters, numbers, "_", "." and "-"' })
+  username?: string;
+
+  /** 邮箱，全局唯一 */
+  @IsOptional()
+  @IsEmail()
+  @MaxLength(255)
+  email?: string;
+
+  /** 用户类型 */
+  @IsOptional()
+  @IsEnum(UserType)
+  type?: UserType;
+
+  /** 用户状态 */
+  @IsOptional()
+  @IsEnum(UserStatus)
+  status?: UserStatus;
+
+  /** 所属租户ID */
+  @IsOptional()
+  @IsUUID()
+  tenantId?: string;
+
+  /** 所属组织ID */
+  @IsOptional()
+  @IsUUID()
+  organizationId?: string;
+
+  /** 所属部门ID */
+  @IsOptional()
+  @IsUUID()
+  departmentId?: string;
+
+  /** 用户角色 */
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  role?: string;
+
+  /** 用户权限列表 */
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  permissions?: string[];
+
+  /** 用户资料 */
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => UserProfileDto)
+  profile?: UserProfileDto;
+}
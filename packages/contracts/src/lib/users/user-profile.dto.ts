@@ -0,0 +1,43 @@
+import { IsOptional, IsString, IsUrl, MaxLength } from 'class-validator';
+
+/**
+ * 用户资料数据传输对象
+ *
+ * @description 对应 User.profile JSON 字段
+ */
+export class UserProfileDto {
+  /** 名 */
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  firstName?: string;
+
+  /** 姓 */
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  lastName?: string;
+
+  /** 电话 */
+  @IsOptional()
+  @IsString()
+  @MaxLength(30)
+  phone?: string;
+
+  /** 头像地址 */
+  @IsOptional()
+  @IsUrl()
+  avatar?: string;
+
+  /** 时区，如 Asia/Shanghai */
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  timezone?: string;
+
+  /** 语言，如 zh-CN */
+  @IsOptional()
+  @IsString()
+  @MaxLength(10)
+  language?: string;
+}
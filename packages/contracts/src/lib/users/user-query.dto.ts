@@ -0,0 +1,46 @@
+import { Transform, Type } from 'class-transformer';
+import { IsBoolean, IsEnum, IsOptional, IsUUID, ValidateNested } from 'class-validator';
+import { UserStatus, UserType } from '@hl8/common';
+import { CommaSeparated, DateRangeDto, ListQueryDto } from '../shared/list-query.dto.js';
+
+/**
+ * 用户列表查询数据传输对象
+ *
+ * @description 用户列表接口的查询参数，所有条件之间为“与”关系，列表型条件的多个取值之间为“或”关系；
+ * q 在用户名与邮箱中搜索
+ */
+export class UserQueryDto extends ListQueryDto {
+  /** 按用户类型过滤，多个类型以逗号分隔 */
+  @IsOptional()
+  @CommaSeparated()
+  @IsEnum(UserType, { each: true })
+  type?: UserType[];
+
+  /** 按用户状态过滤，多个状态以逗号分隔 */
+  @IsOptional()
+  @CommaSeparated()
+  @IsEnum(UserStatus, { each: true })
+  status?: UserStatus[];
+
+  /** 按租户过滤 */
+  @IsOptional()
+  @IsUUID()
+  tenantId?: string;
+
+  /** 按组织过滤 */
+  @IsOptional()
+  @IsUUID()
+  organizationId?: string;
+
+  /** 按创建时间范围过滤 */
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => DateRangeDto)
+  createdAt?: DateRangeDto;
+
+  /** 是否包含已删除用户，仅管理员可用 */
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true' || value === '1')
+  @IsBoolean()
+  includeDeleted?: boolean;
+}
@@ -0,0 +1,127 @@
+import { Entity, Enum, PrimaryKey, Property, SerializedPrimaryKey, Index } from '@mikro-orm/core';
+import { ObjectId } from '@mikro-orm/mongodb';
+import { AuditAction } from '@hl8/common';
+
+// 枚举定义在 @hl8/common 中，与前端共享，此处重新导出以保持兼容
+export { AuditAction };
+
+/**
+ * 审计字段变更
+ *
+ * @description 单个属性变更前后的值，创建时只有 after，删除时只有 before
+ */
+export interface AuditChange {
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * 审计日志实体
+ *
+ * 存储在 MongoDB 中，记录 User、Tenant、Organization 的每一次创建、更新与删除，只追加不修改
+ * 操作人、请求ID与 IP 取自日志请求上下文，后台任务产生的变更没有操作人
+ *
+ * @description 审计日志实体，存储变更的实体、操作人、租户、字段差异与请求信息
+ * @since 1.0.0
+ */
+@Entity({ collection: 'audit_logs' })
+@Index({ properties: ['tenantId', 'createdAt'] })
+@Index({ properties: ['entity', 'entityId'] })
+@Index({ properties: ['actorId', 'createdAt'] })
+export class AuditLog {
+  /**
+   * 文档主键
+   *
+   * @description MongoDB 文档ID
+   */
+  @PrimaryKey()
+  _id!: ObjectId;
+
+  /**
+   * 审计日志唯一标识符
+   *
+   * @description 文档ID的字符串形式
+   */
+  @SerializedPrimaryKey()
+  id!: string;
+
+  /**
+   * 审计动作
+   *
+   * @description 实体变更类型
+   */
+  @Enum(() => AuditAction)
+  action!: AuditAction;
+
+  /**
+   * 实体名称
+   *
+   * @description 发生变更的实体类名，如 User、Tenant、Organization
+   */
+  @Property()
+  entity!: string;
+
+  /**
+   * 实体ID
+   *
+   * @description 发生变更的实体主键
+   */
+  @Property()
+  entityId!: string;
+
+  /**
+   * 租户ID
+   *
+   * @description 变更实体所属的租户ID，租户实体为其自身ID
+   */
+  @Property({ nullable: true })
+  tenantId?: string;
+
+  /**
+   * 操作人ID
+   *
+   * @description 发起变更的用户ID，为空表示由系统触发
+   */
+  @Property({ nullable: true })
+  actorId?: string;
+
+  /**
+   * 模拟操作员ID
+   *
+   * @description 变更通过模拟令牌发起时代为操作的平台操作员ID
+   */
+  @Property({ nullable: true })
+  impersonatedBy?: string;
+
+  /**
+   * 字段差异
+   *
+   * @description 以属性名为键的变更前后值，敏感属性以占位符代替
+   */
+  @Property({ type: 'json' })
+  changes!: Record<string, AuditChange>;
+
+  /**
+   * 请求ID
+   *
+   * @description 发起变更的请求ID
+   */
+  @Property({ nullable: true })
+  requestId?: string;
+
+  /**
+   * 客户端IP
+   *
+   * @description 发起变更的请求来源 IP
+   */
+  @Property({ nullable: true })
+  ip?: string;
+
+  /**
+   * 记录时间
+   *
+   * @description 变更提交的时间
+   */
+  @Property()
+  createdAt: Date = new Date();
+}
@@ -0,0 +1,139 @@
+import { randomUUID } from 'crypto';
+import { Entity, Filter, PrimaryKey, Property, Enum, Index, ManyToOne, OptionalProps } from '@mikro-orm/core';
+import { DepartmentStatus } from '@hl8/common';
+import { TENANT_FILTER, tenantScopeCondition } from '../lib/tenant-scope';
+import { Organization } from './organization.entity';
+
+// 枚举定义在 @hl8/common 中，与前端共享，此处重新导出以保持兼容
+export { DepartmentStatus };
+
+/**
+ * 部门实体
+ *
+ * 表示组织内的部门，部门之间可以嵌套
+ * 成员通过 User.departmentId 关联到部门
+ *
+ * @description 部门实体，存储部门的基本信息、层级关系与负责人
+ * @since 1.0.0
+ */
+@Entity({ tableName: 'departments' })
+@Index({ properties: ['tenantId'] })
+@Index({ properties: ['organizationId'] })
+@Filter({ name: TENANT_FILTER, cond: tenantScopeCondition(), default: true })
+export class Department {
+  /** 有默认值的属性，创建时无需指定 */
+  [OptionalProps]?: 'status' | 'level' | 'createdAt' | 'updatedAt';
+
+  /**
+   * 部门唯一标识符
+   *
+   * @description 部门的唯一ID，使用 UUID
+   */
+  @PrimaryKey({ type: 'uuid' })
+  id: string = randomUUID();
+
+  /**
+   * 部门名称
+   *
+   * @description 部门的显示名称
+   */
+  @Property({ type: 'varchar', length: 100 })
+  name!: string;
+
+  /**
+   * 部门编码
+   *
+   * @description 部门的业务编码，在组织内唯一
+   */
+  @Property({ type: 'varchar', length: 50, nullable: true })
+  code?: string;
+
+  /**
+   * 部门描述
+   *
+   * @description 部门的详细描述
+   */
+  @Property({ type: 'text', nullable: true })
+  description?: string;
+
+  /**
+   * 部门状态
+   *
+   * @description 部门状态：活跃、停用
+   */
+  @Enum(() => DepartmentStatus)
+  @Property({ type: 'enum' })
+  status: DepartmentStatus = DepartmentStatus.ACTIVE;
+
+  /**
+   * 租户ID
+   *
+   * @description 部门所属的租户ID，与所属组织的租户一致
+   */
+  @Property({ type: 'uuid' })
+  tenantId!: string;
+
+  /**
+   * 所属组织
+   *
+   * @description 部门所属的组织，与 organizationId 共用 organization_id 列，由 organizationId 负责持久化
+   */
+  @ManyToOne(() => Organization, { persist: false })
+  organization!: Organization;
+
+  /**
+   * 组织ID
+   *
+   * @description 部门所属的组织ID
+   */
+  @Property({ type: 'uuid' })
+  organizationId!: string;
+
+  /**
+   * 父部门ID
+   *
+   * @description 部门的上级部门ID，为空时为组织下的顶级部门
+   */
+  @Property({ type: 'uuid', nullable: true })
+  parentId?: string;
+
+  /**
+   * 部门层级
+   *
+   * @description 部门在层级结构中的层级，顶级部门为 0
+   */
+  @Property({ type: 'int', default: 0 })
+  level = 0;
+
+  /**
+   * 部门路径
+   *
+   * @description 部门在层级结构中的路径，如 /dept1/dept2
+   */
+  @Property({ type: 'varchar', length: 500, nullable: true })
+  path?: string;
+
+  /**
+   * 部门负责人ID
+   *
+   * @description 部门负责人的用户ID，负责人必须与部门属于同一租户与组织
+   */
+  @Property({ type: 'uuid', nullable: true })
+  headId?: string;
+
+  /**
+   * 创建时间
+   *
+   * @description 部门创建的时间
+   */
+  @Property({ type: 'timestamp', defaultRaw: 'CURRENT_TIMESTAMP' })
+  createdAt: Date = new Date();
+
+  /**
+   * 更新时间
+   *
+   * @description 部门信息最后更新的时间
+   */
+  @Property({ type: 'timestamp', defaultRaw: 'CURRENT_TIMESTAMP', onUpdate: () => new Date() })
+  updatedAt: Date = new Date();
+}
@@ -0,0 +1,83 @@
+import { randomUUID } from 'crypto';
+import { Entity, Filter, PrimaryKey, Property, Index, OptionalProps } from '@mikro-orm/core';
+import { TENANT_FILTER, tenantScopeCondition } from '../lib/tenant-scope';
+
+/**
+ * 模拟审计记录实体
+ *
+ * 使用模拟令牌发出的每个请求对应一条记录，只追加不修改
+ *
+ * @description 模拟审计记录实体，存储模拟会话中请求的操作员、方法与路径
+ * @since 1.0.0
+ */
+@Entity({ tableName: 'impersonation_audit_entries' })
+@Index({ properties: ['sessionId', 'createdAt'] })
+@Filter({ name: TENANT_FILTER, cond: tenantScopeCondition(), default: true })
+export class ImpersonationAuditEntry {
+  /** 有默认值的属性，创建时无需指定 */
+  [OptionalProps]?: 'createdAt';
+
+  /**
+   * 记录唯一标识符
+   *
+   * @description 审计记录的唯一ID
+   */
+  @PrimaryKey({ type: 'uuid' })
+  id: string = randomUUID();
+
+  /**
+   * 会话ID
+   *
+   * @description 请求所属的模拟会话ID
+   */
+  @Property({ type: 'uuid' })
+  sessionId!: string;
+
+  /**
+   * 租户ID
+   *
+   * @description 被模拟的租户ID
+   */
+  @Property({ type: 'uuid' })
+  tenantId!: string;
+
+  /**
+   * 操作员ID
+   *
+   * @description 代为发出请求的平台操作员ID
+   */
+  @Property({ type: 'uuid' })
+  impersonatedBy!: string;
+
+  /**
+   * 请求身份
+   *
+   * @description 请求以其身份执行的用户ID
+   */
+  @Property({ type: 'uuid' })
+  userId!: string;
+
+  /**
+   * 请求方法
+   *
+   * @description HTTP 请求方法
+   */
+  @Property({ type: 'varchar', length: 10 })
+  method!: string;
+
+  /**
+   * 请求路径
+   *
+   * @description 请求的 URL 路径，包含查询字符串
+   */
+  @Property({ type: 'varchar', length: 2048 })
+  path!: string;
+
+  /**
+   * 请求时间
+   *
+   * @description 请求发出的时间
+   */
+  @Property({ type: 'timestamp', defaultRaw: 'CURRENT_TIMESTAMP' })
+  createdAt: Date = new Date();
+}
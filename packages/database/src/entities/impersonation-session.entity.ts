@@ -0,0 +1,85 @@
+import { randomUUID } from 'crypto';
+import { Entity, Filter, PrimaryKey, Property, Index, OptionalProps } from '@mikro-orm/core';
+import { TENANT_FILTER, tenantScopeCondition } from '../lib/tenant-scope';
+
+/**
+ * 模拟会话实体
+ *
+ * 记录平台操作员进入客户租户排查问题时发起的模拟登录
+ * 模拟令牌只在会话有效期内且会话未结束时可用
+ *
+ * @description 模拟会话实体，存储操作员、目标租户与用户、原因及会话的起止时间
+ * @since 1.0.0
+ */
+@Entity({ tableName: 'impersonation_sessions' })
+@Index({ properties: ['tenantId', 'createdAt'] })
+@Index({ properties: ['operatorId'] })
+@Filter({ name: TENANT_FILTER, cond: tenantScopeCondition(), default: true })
+export class ImpersonationSession {
+  /** 有默认值的属性，创建时无需指定 */
+  [OptionalProps]?: 'createdAt';
+
+  /**
+   * 会话唯一标识符
+   *
+   * @description 模拟会话的唯一ID，写入模拟令牌
+   */
+  @PrimaryKey({ type: 'uuid' })
+  id: string = randomUUID();
+
+  /**
+   * 租户ID
+   *
+   * @description 被模拟的租户ID
+   */
+  @Property({ type: 'uuid' })
+  tenantId!: string;
+
+  /**
+   * 目标用户ID
+   *
+   * @description 被模拟的用户ID，只指定租户时为租户管理员
+   */
+  @Property({ type: 'uuid', nullable: true })
+  targetUserId?: string;
+
+  /**
+   * 操作员ID
+   *
+   * @description 发起模拟登录的平台用户或系统用户ID
+   */
+  @Property({ type: 'uuid' })
+  operatorId!: string;
+
+  /**
+   * 模拟原因
+   *
+   * @description 操作员填写的排查原因，如工单编号
+   */
+  @Property({ type: 'varchar', length: 500 })
+  reason!: string;
+
+  /**
+   * 过期时间
+   *
+   * @description 模拟令牌的过期时间
+   */
+  @Property({ type: 'timestamp' })
+  expiresAt!: Date;
+
+  /**
+   * 结束时间
+   *
+   * @description 会话被主动结束的时间，为空表示未主动结束
+   */
+  @Property({ type: 'timestamp', nullable: true })
+  endedAt?: Date;
+
+  /**
+   * 创建时间
+   *
+   * @description 会话发起的时间
+   */
+  @Property({ type: 'timestamp', defaultRaw: 'CURRENT_TIMESTAMP' })
+  createdAt: Date = new Date();
+}
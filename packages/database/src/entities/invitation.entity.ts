@@ -0,0 +1,117 @@
+import { randomUUID } from 'crypto';
+import { Entity, Filter, PrimaryKey, Property, Index, OptionalProps } from '@mikro-orm/core';
+import { TENANT_FILTER, tenantScopeCondition } from '../lib/tenant-scope';
+
+/**
+ * 邀请实体
+ *
+ * 记录租户向邮箱发出的加入邀请，只存储邀请令牌的哈希
+ * 邀请被接受、吊销或过期后即失效
+ *
+ * @description 邀请实体，存储邀请的目标租户、组织、角色与状态
+ * @since 1.0.0
+ */
+@Entity({ tableName: 'invitations' })
+@Index({ properties: ['tenantId'] })
+@Index({ properties: ['email'] })
+@Filter({ name: TENANT_FILTER, cond: tenantScopeCondition(), default: true })
+export class Invitation {
+  /** 有默认值的属性，创建时无需指定 */
+  [OptionalProps]?: 'role' | 'createdAt';
+
+  /**
+   * 邀请唯一标识符
+   *
+   * @description 邀请的唯一ID
+   */
+  @PrimaryKey({ type: 'uuid' })
+  id: string = randomUUID();
+
+  /**
+   * 租户ID
+   *
+   * @description 受邀加入的租户ID
+   */
+  @Property({ type: 'uuid' })
+  tenantId!: string;
+
+  /**
+   * 组织ID
+   *
+   * @description 受邀加入的组织ID，为空表示只加入租户
+   */
+  @Property({ type: 'uuid', nullable: true })
+  organizationId?: string;
+
+  /**
+   * 受邀邮箱
+   *
+   * @description 接收邀请的邮箱，接受邀请的用户邮箱必须与之一致
+   */
+  @Property({ type: 'varchar', length: 255 })
+  email!: string;
+
+  /**
+   * 角色
+   *
+   * @description 接受邀请后授予用户的角色
+   */
+  @Property({ type: 'varchar', length: 50, default: 'user' })
+  role = 'user';
+
+  /**
+   * 邀请令牌哈希
+   *
+   * @description 邀请令牌的 SHA-256 哈希，明文只出现在邀请链接中
+   */
+  @Property({ type: 'varchar', length: 64, unique: true, hidden: true })
+  tokenHash!: string;
+
+  /**
+   * 邀请人ID
+   *
+   * @description 发出邀请的用户ID
+   */
+  @Property({ type: 'uuid', nullable: true })
+  invitedBy?: string;
+
+  /**
+   * 过期时间
+   *
+   * @description 邀请的过期时间
+   */
+  @Property({ type: 'timestamp' })
+  expiresAt!: Date;
+
+  /**
+   * 接受时间
+   *
+   * @description 邀请被接受的时间，为空表示尚未接受
+   */
+  @Property({ type: 'timestamp', nullable: true })
+  acceptedAt?: Date;
+
+  /**
+   * 接受者ID
+   *
+   * @description 接受邀请的用户ID
+   */
+  @Property({ type: 'uuid', nullable: true })
+  acceptedBy?: string;
+
+  /**
+   * 吊销时间
+   *
+   * @description 邀请被吊销的时间，为空表示未吊销
+   */
+  @Property({ type: 'timestamp', nullable: true })
+  revokedAt?: Date;
+
+  /**
+   * 创建时间
+   *
+   * @description 邀请发出的时间
+   */
+  @Property({ type: 'timestamp', defaultRaw: 'CURRENT_TIMESTAMP' })
+  createdAt: Date = new Date();
+}
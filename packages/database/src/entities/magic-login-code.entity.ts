@@ -0,0 +1,82 @@
+import { randomUUID } from 'crypto';
+import { Entity, PrimaryKey, Property, Index, OptionalProps } from '@mikro-orm/core';
+
+/**
+ * 魔法登录码实体
+ *
+ * 记录通过邮件发出的一次性登录码，只存储登录码的哈希
+ * 登录码使用后、重新申请后或错误次数达到上限后即失效
+ *
+ * @description 魔法登录码实体，存储登录码的签发、校验次数与使用状态
+ * @since 1.0.0
+ */
+@Entity({ tableName: 'magic_login_codes' })
+@Index({ properties: ['userId'] })
+export class MagicLoginCode {
+  /** 有默认值的属性，创建时无需指定 */
+  [OptionalProps]?: 'attempts' | 'createdAt';
+
+  /**
+   * 登录码唯一标识符
+   *
+   * @description 登录码记录的唯一ID，同时参与登录码哈希
+   */
+  @PrimaryKey({ type: 'uuid' })
+  id: string = randomUUID();
+
+  /**
+   * 用户ID
+   *
+   * @description 登录码所属的用户ID
+   */
+  @Property({ type: 'uuid' })
+  userId!: string;
+
+  /**
+   * 登录码哈希
+   *
+   * @description 登录码的 SHA-256 哈希，明文只出现在邮件中
+   */
+  @Property({ type: 'varchar', length: 64, hidden: true })
+  codeHash!: string;
+
+  /**
+   * 校验失败次数
+   *
+   * @description 输入错误登录码的次数，达到上限后登录码被吊销
+   */
+  @Property({ type: 'int', default: 0 })
+  attempts = 0;
+
+  /**
+   * 过期时间
+   *
+   * @description 登录码的过期时间
+   */
+  @Property({ type: 'timestamp' })
+  expiresAt!: Date;
+
+  /**
+   * 使用时间
+   *
+   * @description 登录码被成功使用的时间，为空表示尚未使用
+   */
+  @Property({ type: 'timestamp', nullable: true })
+  usedAt?: Date;
+
+  /**
+   * 吊销时间
+   *
+   * @description 重新申请登录码或错误次数达到上限时登录码被吊销的时间
+   */
+  @Property({ type: 'timestamp', nullable: true })
+  revokedAt?: Date;
+
+  /**
+   * 创建时间
+   *
+   * @description 登录码签发的时间
+   */
+  @Property({ type: 'timestamp', defaultRaw: 'CURRENT_TIMESTAMP' })
+  createdAt: Date = new Date();
+}
@@ -1,7 +1,13 @@
-import { Entity, PrimaryKey, Property, Enum, Index, ManyToOne, OneToMany, Collection } from '@mikro-orm/core';
-import { EntityId } from '@hl8/common';
+import { randomUUID } from 'crypto';
+import { Entity, Filter, PrimaryKey, Property, Enum, Index, ManyToOne, OneToMany, Collection, OptionalProps } from '@mikro-orm/core';
+import { OrganizationType, OrganizationStatus } from '@hl8/common';
+import { SoftDeletable } from 'mikro-orm-soft-delete';
+import { TENANT_FILTER, tenantScopeCondition } from '../lib/tenant-scope';
 import { Tenant } from './tenant.entity';
 
+// 枚举定义在 @hl8/common 中，与前端共享，此处重新导出以保持兼容
+export { OrganizationType, OrganizationStatus };
+
 /**
  * 组织实体
  *
@@ -11,17 +17,22 @@ import { Tenant } from './tenant.entity';
  * @description 组织实体，存储组织的基本信息和层级关系
  * @since 1.0.0
  */
+@SoftDeletable(() => Organization, 'deletedAt', () => new Date())
 @Entity({ tableName: 'organizations' })
 @Index({ properties: ['name'] })
 @Index({ properties: ['tenantId'] })
+@Filter({ name: TENANT_FILTER, cond: tenantScopeCondition(), default: true })
 export class Organization {
+  /** 有默认值的属性、由操作人订阅者填充的属性与由 ORM 维护的版本号，创建时无需指定 */
+  [OptionalProps]?: 'type' | 'status' | 'level' | 'createdAt' | 'updatedAt' | 'createdBy' | 'updatedBy' | 'version';
+
   /**
    * 组织唯一标识符
    *
-   * @description 组织的唯一ID，使用 EntityId 类型
+   * @description 组织的唯一ID，使用 UUID
    */
   @PrimaryKey({ type: 'uuid' })
-  id: EntityId = EntityId.generate();
+  id: string = randomUUID();
 
   /**
    * 组织名称
@@ -60,9 +71,9 @@ export class Organization {
   /**
    * 所属租户
    *
-   * @description 组织所属的租户
+   * @description 组织所属的租户，与 tenantId 共用 tenant_id 列，由 tenantId 负责持久化
    */
-  @ManyToOne(() => Tenant)
+  @ManyToOne(() => Tenant, { persist: false })
   tenant!: Tenant;
 
   /**
@@ -71,7 +82,7 @@ export class Organization {
    * @description 组织所属的租户ID
    */
   @Property({ type: 'uuid' })
-  tenantId!: EntityId;
+  tenantId!: string;
 
   /**
    * 父组织ID
@@ -79,7 +90,7 @@ export class Organization {
    * @description 组织的父级组织ID，支持层级结构
    */
   @Property({ type: 'uuid', nullable: true })
-  parentId?: EntityId;
+  parentId?: string;
 
   /**
    * 组织层级
@@ -131,15 +142,23 @@ export class Organization {
    * @description 组织负责人的用户ID
    */
   @Property({ type: 'uuid', nullable: true })
-  leaderId?: EntityId;
+  leaderId?: string;
 
   /**
    * 创建者ID
    *
-   * @description 创建该组织的用户ID
+   * @description 创建该组织的用户ID，由操作人订阅者填充
+   */
+  @Property({ type: 'uuid' })
+  createdBy!: string;
+
+  /**
+   * 最后修改人ID
+   *
+   * @description 最后修改该组织的用户ID，由操作人订阅者填充
    */
   @Property({ type: 'uuid' })
-  createdBy!: EntityId;
+  updatedBy!: string;
 
   /**
    * 创建时间
@@ -156,29 +175,28 @@ export class Organization {
    */
   @Property({ type: 'timestamp', defaultRaw: 'CURRENT_TIMESTAMP', onUpdate: () => new Date() })
   updatedAt: Date = new Date();
-}
 
-/**
- * 组织类型枚举
- *
- * @description 定义系统中支持的组织类型
- */
-export enum OrganizationType {
-  COMMITTEE = 'committee',
-  PROJECT_TEAM = 'project_team',
-  QUALITY_GROUP = 'quality_group',
-  PERFORMANCE_GROUP = 'performance_group',
-  DEPARTMENT = 'department',
-}
+  /**
+   * 版本号
+   *
+   * @description 乐观锁版本号，创建时为 1，每次更新加一；接口以其作为 ETag，并据此校验 If-Match
+   */
+  @Property({ version: true })
+  version!: number;
 
-/**
- * 组织状态枚举
- *
- * @description 定义组织的各种状态
- */
-export enum OrganizationStatus {
-  ACTIVE = 'active',
-  INACTIVE = 'inactive',
-  SUSPENDED = 'suspended',
-  DISSOLVED = 'dissolved',
+  /**
+   * 删除时间
+   *
+   * @description 组织被软删除的时间，为空表示未删除；已删除的组织默认不出现在查询结果中
+   */
+  @Property({ type: 'timestamp', nullable: true })
+  deletedAt?: Date;
+
+  /**
+   * 删除人ID
+   *
+   * @description 删除该组织的用户ID，由操作人订阅者填充
+   */
+  @Property({ type: 'uuid', nullable: true })
+  deletedBy?: string;
 }
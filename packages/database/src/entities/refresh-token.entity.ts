@@ -0,0 +1,75 @@
+import { randomUUID } from 'crypto';
+import { Entity, PrimaryKey, Property, Index, OptionalProps } from '@mikro-orm/core';
+
+/**
+ * 刷新令牌实体
+ *
+ * 记录签发过的刷新令牌，支持令牌轮换与重用检测
+ * 同一次登录派生出的令牌属于同一令牌族，检测到重用时整族吊销
+ *
+ * @description 刷新令牌实体，存储刷新令牌的签发与吊销状态
+ * @since 1.0.0
+ */
+@Entity({ tableName: 'refresh_tokens' })
+@Index({ properties: ['userId'] })
+@Index({ properties: ['familyId'] })
+export class RefreshToken {
+  /** 有默认值的属性，创建时无需指定 */
+  [OptionalProps]?: 'createdAt';
+
+  /**
+   * 令牌唯一标识符
+   *
+   * @description 刷新令牌的唯一ID，同时作为 JWT 的 jti 声明
+   */
+  @PrimaryKey({ type: 'uuid' })
+  id: string = randomUUID();
+
+  /**
+   * 用户ID
+   *
+   * @description 令牌所属的用户ID
+   */
+  @Property({ type: 'uuid' })
+  userId!: string;
+
+  /**
+   * 令牌族ID
+   *
+   * @description 同一次登录轮换产生的令牌共享同一族ID
+   */
+  @Property({ type: 'uuid' })
+  familyId!: string;
+
+  /**
+   * 过期时间
+   *
+   * @description 刷新令牌的过期时间
+   */
+  @Property({ type: 'timestamp' })
+  expiresAt!: Date;
+
+  /**
+   * 吊销时间
+   *
+   * @description 令牌被轮换、登出或因重用被吊销的时间，为空表示仍有效
+   */
+  @Property({ type: 'timestamp', nullable: true })
+  revokedAt?: Date;
+
+  /**
+   * 替换令牌ID
+   *
+   * @description 轮换时签发的新令牌ID
+   */
+  @Property({ type: 'uuid', nullable: true })
+  replacedById?: string;
+
+  /**
+   * 创建时间
+   *
+   * @description 令牌签发的时间
+   */
+  @Property({ type: 'timestamp', defaultRaw: 'CURRENT_TIMESTAMP' })
+  createdAt: Date = new Date();
+}
@@ -0,0 +1,37 @@
+import { Entity, PrimaryKey, Property } from '@mikro-orm/core';
+
+/**
+ * 调度锁实体
+ *
+ * 每个定时任务一行，记录当前持有锁的实例与锁的到期时间
+ * 多个 API 实例同时运行时，只有取得锁的实例执行该任务
+ *
+ * @description 调度锁实体，存储定时任务的租约锁
+ * @since 1.0.0
+ */
+@Entity({ tableName: 'scheduler_locks' })
+export class SchedulerLock {
+  /**
+   * 任务名称
+   *
+   * @description 定时任务的唯一名称，同时作为锁的主键
+   */
+  @PrimaryKey({ type: 'varchar', length: 100 })
+  name!: string;
+
+  /**
+   * 持有者
+   *
+   * @description 持有锁的实例标识
+   */
+  @Property({ type: 'varchar', length: 255 })
+  owner!: string;
+
+  /**
+   * 锁到期时间
+   *
+   * @description 超过该时间后其他实例可以抢占锁，避免持有者崩溃后任务永久停止
+   */
+  @Property({ type: 'timestamp' })
+  lockedUntil!: Date;
+}
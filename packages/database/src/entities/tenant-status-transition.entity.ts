@@ -0,0 +1,86 @@
+import { randomUUID } from 'crypto';
+import { Entity, Enum, PrimaryKey, Property, Index, OptionalProps } from '@mikro-orm/core';
+import { TenantStatus } from '@hl8/common';
+
+/**
+ * 租户状态变更实体
+ *
+ * 记录租户生命周期中的每一次状态变更，只追加不修改
+ * 租户创建时写入动作为 create、变更前状态为空的初始记录
+ * 由平台管理员触发的变更记录操作人，由定时任务触发的变更操作人为空
+ *
+ * @description 租户状态变更实体，存储变更动作、前后状态、原因、操作人与时间
+ * @since 1.0.0
+ */
+@Entity({ tableName: 'tenant_status_transitions' })
+@Index({ properties: ['tenantId', 'createdAt'] })
+export class TenantStatusTransition {
+  /** 有默认值的属性，创建时无需指定 */
+  [OptionalProps]?: 'createdAt';
+
+  /**
+   * 变更记录唯一标识符
+   *
+   * @description 变更记录的唯一ID
+   */
+  @PrimaryKey({ type: 'uuid' })
+  id: string = randomUUID();
+
+  /**
+   * 租户ID
+   *
+   * @description 发生状态变更的租户ID
+   */
+  @Property({ type: 'uuid' })
+  tenantId!: string;
+
+  /**
+   * 变更动作
+   *
+   * @description 触发变更的生命周期动作，如 create、suspend、resume、expire
+   */
+  @Property({ type: 'varchar', length: 20 })
+  action!: string;
+
+  /**
+   * 变更前状态
+   *
+   * @description 变更前的租户状态，租户创建的初始记录为空
+   */
+  @Enum(() => TenantStatus)
+  @Property({ type: 'enum', nullable: true })
+  fromStatus?: TenantStatus;
+
+  /**
+   * 变更后状态
+   *
+   * @description 变更后的租户状态
+   */
+  @Enum(() => TenantStatus)
+  @Property({ type: 'enum' })
+  toStatus!: TenantStatus;
+
+  /**
+   * 变更原因
+   *
+   * @description 操作人填写或定时任务生成的变更原因
+   */
+  @Property({ type: 'varchar', length: 500, nullable: true })
+  reason?: string;
+
+  /**
+   * 操作人ID
+   *
+   * @description 执行变更的用户ID，为空表示由系统触发
+   */
+  @Property({ type: 'uuid', nullable: true })
+  performedBy?: string;
+
+  /**
+   * 变更时间
+   *
+   * @description 状态变更发生的时间
+   */
+  @Property({ type: 'timestamp', defaultRaw: 'CURRENT_TIMESTAMP' })
+  createdAt: Date = new Date();
+}
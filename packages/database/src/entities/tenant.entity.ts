@@ -1,5 +1,10 @@
-import { Entity, PrimaryKey, Property, Enum, Index } from '@mikro-orm/core';
-import { EntityId } from '@hl8/common';
+import { randomUUID } from 'crypto';
+import { BigIntType, Entity, PrimaryKey, Property, Enum, Index, OptionalProps } from '@mikro-orm/core';
+import { TenantType, TenantStatus } from '@hl8/common';
+import { SoftDeletable } from 'mikro-orm-soft-delete';
+
+// 枚举定义在 @hl8/common 中，与前端共享，此处重新导出以保持兼容
+export { TenantType, TenantStatus };
 
 /**
  * 租户实体
@@ -10,17 +15,21 @@ import { EntityId } from '@hl8/common';
  * @description 租户实体，存储租户的基本信息和配置
  * @since 1.0.0
  */
+@SoftDeletable(() => Tenant, 'deletedAt', () => new Date())
 @Entity({ tableName: 'tenants' })
 @Index({ properties: ['name'] })
 @Index({ properties: ['domain'] })
 export class Tenant {
+  /** 有默认值的属性、由操作人订阅者填充的属性与由 ORM 维护的版本号，创建时无需指定 */
+  [OptionalProps]?: 'type' | 'status' | 'storageUsed' | 'createdAt' | 'updatedAt' | 'createdBy' | 'updatedBy' | 'version';
+
   /**
    * 租户唯一标识符
    *
-   * @description 租户的唯一ID，使用 EntityId 类型
+   * @description 租户的唯一ID，使用 UUID
    */
   @PrimaryKey({ type: 'uuid' })
-  id: EntityId = EntityId.generate();
+  id: string = randomUUID();
 
   /**
    * 租户名称
@@ -38,6 +47,14 @@ export class Tenant {
   @Property({ type: 'varchar', length: 255, unique: true, nullable: true })
   domain?: string;
 
+  /**
+   * 租户子域名
+   *
+   * @description 平台基础域名下的子域名标签，如 `acme` 对应 `acme.<基础域名>`
+   */
+  @Property({ type: 'varchar', length: 63, unique: true, nullable: true })
+  subdomain?: string;
+
   /**
    * 租户类型
    *
@@ -65,6 +82,7 @@ export class Tenant {
   config?: {
     maxUsers?: number;
     maxStorage?: number;
+    maxOrganizations?: number;
     features?: string[];
     settings?: Record<string, any>;
   };
@@ -89,7 +107,7 @@ export class Tenant {
   /**
    * 订阅信息
    *
-   * @description 租户的订阅信息，JSON格式存储
+   * @description 租户的订阅信息，JSON格式存储；graceWarnedAt 为订阅到期后发出宽限期提醒的时间
    */
   @Property({ type: 'json', nullable: true })
   subscription?: {
@@ -97,15 +115,32 @@ export class Tenant {
     startDate?: Date;
     endDate?: Date;
     autoRenew?: boolean;
+    graceWarnedAt?: Date;
   };
 
+  /**
+   * 已用存储空间
+   *
+   * @description 租户已占用的存储空间（字节），由配额服务在上传与删除文件时维护
+   */
+  @Property({ type: new BigIntType('number'), default: 0 })
+  storageUsed = 0;
+
   /**
    * 创建者ID
    *
-   * @description 创建该租户的用户ID
+   * @description 创建该租户的用户ID，由操作人订阅者填充
+   */
+  @Property({ type: 'uuid' })
+  createdBy!: string;
+
+  /**
+   * 最后修改人ID
+   *
+   * @description 最后修改该租户的用户ID，由操作人订阅者填充
    */
   @Property({ type: 'uuid' })
-  createdBy!: EntityId;
+  updatedBy!: string;
 
   /**
    * 管理员ID
@@ -113,7 +148,7 @@ export class Tenant {
    * @description 租户管理员的用户ID
    */
   @Property({ type: 'uuid', nullable: true })
-  adminId?: EntityId;
+  adminId?: string;
 
   /**
    * 创建时间
@@ -130,29 +165,28 @@ export class Tenant {
    */
   @Property({ type: 'timestamp', defaultRaw: 'CURRENT_TIMESTAMP', onUpdate: () => new Date() })
   updatedAt: Date = new Date();
-}
 
-/**
- * 租户类型枚举
- *
- * @description 定义系统中支持的租户类型
- */
-export enum TenantType {
-  ENTERPRISE = 'enterprise',
-  COMMUNITY = 'community',
-  TEAM = 'team',
-  PERSONAL = 'personal',
-}
+  /**
+   * 版本号
+   *
+   * @description 乐观锁版本号，创建时为 1，每次更新加一；接口以其作为 ETag，并据此校验 If-Match
+   */
+  @Property({ version: true })
+  version!: number;
 
-/**
- * 租户状态枚举
- *
- * @description 定义租户的各种状态
- */
-export enum TenantStatus {
-  ACTIVE = 'active',
-  INACTIVE = 'inactive',
-  SUSPENDED = 'suspended',
-  EXPIRED = 'expired',
-  DELETED = 'deleted',
+  /**
+   * 删除时间
+   *
+   * @description 租户被软删除的时间，为空表示未删除；已删除的租户默认不出现在查询结果中
+   */
+  @Property({ type: 'timestamp', nullable: true })
+  deletedAt?: Date;
+
+  /**
+   * 删除人ID
+   *
+   * @description 删除该租户的用户ID，由操作人订阅者填充
+   */
+  @Property({ type: 'uuid', nullable: true })
+  deletedBy?: string;
 }
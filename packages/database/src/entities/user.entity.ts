@@ -1,5 +1,11 @@
-import { Entity, PrimaryKey, Property, Enum, Index } from '@mikro-orm/core';
-import { EntityId } from '@hl8/common';
+import { randomUUID } from 'crypto';
+import { Entity, Filter, PrimaryKey, Property, Enum, Index, OptionalProps } from '@mikro-orm/core';
+import { UserType, UserStatus } from '@hl8/common';
+import { SoftDeletable } from 'mikro-orm-soft-delete';
+import { TENANT_FILTER, tenantScopeCondition } from '../lib/tenant-scope';
+
+// 枚举定义在 @hl8/common 中，与前端共享，此处重新导出以保持兼容
+export { UserType, UserStatus };
 
 /**
  * 用户实体
@@ -10,17 +16,22 @@ import { EntityId } from '@hl8/common';
  * @description 用户实体，存储用户的基本信息和状态
  * @since 1.0.0
  */
+@SoftDeletable(() => User, 'deletedAt', () => new Date())
 @Entity({ tableName: 'users' })
 @Index({ properties: ['email'] })
 @Index({ properties: ['tenantId'] })
+@Filter({ name: TENANT_FILTER, cond: tenantScopeCondition(), default: true })
 export class User {
+  /** 有默认值的属性、由操作人订阅者填充的属性与由 ORM 维护的版本号，创建时无需指定 */
+  [OptionalProps]?: 'type' | 'status' | 'role' | 'createdAt' | 'updatedAt' | 'createdBy' | 'updatedBy' | 'version';
+
   /**
    * 用户唯一标识符
    *
-   * @description 用户的唯一ID，使用 EntityId 类型
+   * @description 用户的唯一ID，使用 UUID
    */
   @PrimaryKey({ type: 'uuid' })
-  id: EntityId = EntityId.generate();
+  id: string = randomUUID();
 
   /**
    * 用户名
@@ -41,9 +52,9 @@ export class User {
   /**
    * 密码哈希
    *
-   * @description 用户密码的哈希值，不存储明文密码
+   * @description 用户密码的哈希值，不存储明文密码，序列化时隐藏
    */
-  @Property({ type: 'varchar', length: 255 })
+  @Property({ type: 'varchar', length: 255, hidden: true })
   passwordHash!: string;
 
   /**
@@ -70,7 +81,7 @@ export class User {
    * @description 用户所属的租户ID，支持多租户架构
    */
   @Property({ type: 'uuid', nullable: true })
-  tenantId?: EntityId;
+  tenantId?: string;
 
   /**
    * 组织ID
@@ -78,7 +89,7 @@ export class User {
    * @description 用户所属的组织ID
    */
   @Property({ type: 'uuid', nullable: true })
-  organizationId?: EntityId;
+  organizationId?: string;
 
   /**
    * 部门ID
@@ -86,7 +97,7 @@ export class User {
    * @description 用户所属的部门ID
    */
   @Property({ type: 'uuid', nullable: true })
-  departmentId?: EntityId;
+  departmentId?: string;
 
   /**
    * 用户角色
@@ -127,6 +138,30 @@ export class User {
   @Property({ type: 'timestamp', nullable: true })
   lastLoginAt?: Date;
 
+  /**
+   * 邮箱验证时间
+   *
+   * @description 用户通过邮件完成邮箱验证的时间，为空表示邮箱尚未验证
+   */
+  @Property({ type: 'timestamp', nullable: true })
+  emailVerifiedAt?: Date;
+
+  /**
+   * 创建者ID
+   *
+   * @description 创建该用户的用户ID，自助注册时为用户自身，由操作人订阅者填充
+   */
+  @Property({ type: 'uuid' })
+  createdBy!: string;
+
+  /**
+   * 最后修改人ID
+   *
+   * @description 最后修改该用户的用户ID，由操作人订阅者填充
+   */
+  @Property({ type: 'uuid' })
+  updatedBy!: string;
+
   /**
    * 创建时间
    *
@@ -142,28 +177,28 @@ export class User {
    */
   @Property({ type: 'timestamp', defaultRaw: 'CURRENT_TIMESTAMP', onUpdate: () => new Date() })
   updatedAt: Date = new Date();
-}
 
-/**
- * 用户类型枚举
- *
- * @description 定义系统中支持的用户类型
- */
-export enum UserType {
-  PLATFORM_USER = 'platform_user',
-  TENANT_USER = 'tenant_user',
-  SYSTEM_USER = 'system_user',
-}
+  /**
+   * 版本号
+   *
+   * @description 乐观锁版本号，创建时为 1，每次更新加一；接口以其作为 ETag，并据此校验 If-Match
+   */
+  @Property({ version: true })
+  version!: number;
 
-/**
- * 用户状态枚举
- *
- * @description 定义用户的各种状态
- */
-export enum UserStatus {
-  ACTIVE = 'active',
-  INACTIVE = 'inactive',
-  PENDING = 'pending',
-  SUSPENDED = 'suspended',
-  DELETED = 'deleted',
+  /**
+   * 删除时间
+   *
+   * @description 用户被软删除的时间，为空表示未删除；已删除的用户默认不出现在查询结果中
+   */
+  @Property({ type: 'timestamp', nullable: true })
+  deletedAt?: Date;
+
+  /**
+   * 删除人ID
+   *
+   * @description 删除该用户的用户ID，由操作人订阅者填充
+   */
+  @Property({ type: 'uuid', nullable: true })
+  deletedBy?: string;
 }
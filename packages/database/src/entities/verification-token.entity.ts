@@ -0,0 +1,78 @@
+import { randomUUID } from 'crypto';
+import { Entity, Enum, PrimaryKey, Property, Index, OptionalProps } from '@mikro-orm/core';
+import { VerificationTokenPurpose } from '@hl8/common';
+
+export { VerificationTokenPurpose };
+
+/**
+ * 验证令牌实体
+ *
+ * 记录通过邮件发出的一次性令牌，用于邮箱验证与密码重置
+ * 令牌使用后或同一用户重新申请同类令牌后即失效
+ *
+ * @description 验证令牌实体，存储验证令牌的签发、使用与吊销状态
+ * @since 1.0.0
+ */
+@Entity({ tableName: 'verification_tokens' })
+@Index({ properties: ['userId', 'purpose'] })
+export class VerificationToken {
+  /** 有默认值的属性，创建时无需指定 */
+  [OptionalProps]?: 'createdAt';
+
+  /**
+   * 令牌唯一标识符
+   *
+   * @description 验证令牌的唯一ID，同时作为 JWT 的 jti 声明
+   */
+  @PrimaryKey({ type: 'uuid' })
+  id: string = randomUUID();
+
+  /**
+   * 用户ID
+   *
+   * @description 令牌所属的用户ID
+   */
+  @Property({ type: 'uuid' })
+  userId!: string;
+
+  /**
+   * 令牌用途
+   *
+   * @description 邮箱验证或密码重置
+   */
+  @Enum(() => VerificationTokenPurpose)
+  @Property({ type: 'enum' })
+  purpose!: VerificationTokenPurpose;
+
+  /**
+   * 过期时间
+   *
+   * @description 验证令牌的过期时间
+   */
+  @Property({ type: 'timestamp' })
+  expiresAt!: Date;
+
+  /**
+   * 使用时间
+   *
+   * @description 令牌被成功使用的时间，为空表示尚未使用
+   */
+  @Property({ type: 'timestamp', nullable: true })
+  usedAt?: Date;
+
+  /**
+   * 吊销时间
+   *
+   * @description 用户重新申请同类令牌时旧令牌被吊销的时间
+   */
+  @Property({ type: 'timestamp', nullable: true })
+  revokedAt?: Date;
+
+  /**
+   * 创建时间
+   *
+   * @description 令牌签发的时间
+   */
+  @Property({ type: 'timestamp', defaultRaw: 'CURRENT_TIMESTAMP' })
+  createdAt: Date = new Date();
+}
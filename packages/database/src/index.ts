@@ -25,7 +25,37 @@ export * from './lib/database.helper';
 // 导出实体管理器
 export * from './lib/entity-manager';
 
+// 导出列表查询
+export * from './lib/list-query';
+
+// 导出租户上下文
+export * from './lib/tenant-context';
+export * from './lib/tenant-scope';
+
+// 导出审计追踪
+export * from './lib/audit-trail';
+
+// 导出操作人上下文
+export * from './lib/actor-context';
+export * from './lib/actor-stamp';
+
+// 导出软删除
+export * from './lib/soft-delete';
+
+// 导出乐观锁
+export * from './lib/optimistic-lock';
+
 // 导出实体
 export * from './entities/user.entity';
 export * from './entities/tenant.entity';
-export * from './entities/organization.entity';
\ No newline at end of file
+export * from './entities/organization.entity';
+export * from './entities/department.entity';
+export * from './entities/refresh-token.entity';
+export * from './entities/verification-token.entity';
+export * from './entities/magic-login-code.entity';
+export * from './entities/invitation.entity';
+export * from './entities/scheduler-lock.entity';
+export * from './entities/tenant-status-transition.entity';
+export * from './entities/impersonation-session.entity';
+export * from './entities/impersonation-audit-entry.entity';
+export * from './entities/audit-log.entity';
\ No newline at end of file
@@ -0,0 +1,35 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * 操作人存储
+ *
+ * @description 基于 AsyncLocalStorage，在一次请求或一次显式调用的异步调用链内共享操作人ID
+ */
+const actorStorage = new AsyncLocalStorage<string>();
+
+/**
+ * 以指定操作人执行回调
+ *
+ * @description 回调及其派生的全部异步操作中写入的实体，createdBy 与 updatedBy 均记录为该操作人。
+ * 已认证请求由认证模块自动绑定当前用户；登录、注册等公开流程需以自身用户显式绑定
+ * @param actorId - 操作人用户ID
+ * @param callback - 回调函数
+ * @returns 回调返回值
+ *
+ * @example
+ * ```typescript
+ * await runWithActor(user.id, () => em.flush());
+ * ```
+ */
+export function runWithActor<T>(actorId: string, callback: () => T): T {
+	return actorStorage.run(actorId, callback);
+}
+
+/**
+ * 获取当前操作人ID
+ *
+ * @returns 当前操作人ID，不在操作人作用域内时返回 undefined
+ */
+export function getCurrentActorId(): string | undefined {
+	return actorStorage.getStore();
+}
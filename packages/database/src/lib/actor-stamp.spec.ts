@@ -0,0 +1,118 @@
+import { MikroORM } from '@mikro-orm/postgresql';
+import type { EntityManager } from '@mikro-orm/postgresql';
+import { Department } from '../entities/department.entity';
+import { Organization } from '../entities/organization.entity';
+import { RefreshToken } from '../entities/refresh-token.entity';
+import { Tenant } from '../entities/tenant.entity';
+import { User } from '../entities/user.entity';
+import { runWithActor } from './actor-context';
+import { ActorStampSubscriber, assertSystemUserId, MissingActorError } from './actor-stamp';
+
+const ALICE_ID = '6f1d2c3b-8a4e-4f5a-9b6c-7d8e9f0a1b2c';
+const BOB_ID = '0a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d';
+const SYSTEM_USER_ID = '00000000-0000-4000-8000-000000000001';
+
+/**
+ * 操作人填充测试
+ *
+ * @description 不连接数据库，截获驱动写入后验证订阅者填充的创建人与最后修改人
+ */
+describe('ActorStampSubscriber', () => {
+  let orm: MikroORM;
+  let nativeUpdate: jest.SpyInstance;
+
+  beforeAll(async () => {
+    // 锁文件中 @mikro-orm/mongodb 与 core 的补丁版本不一致，测试只用到 PostgreSQL 驱动
+    process.env['MIKRO_ORM_ALLOW_VERSION_MISMATCH'] = 'true';
+    orm = await MikroORM.init({
+      dbName: 'actor_stamp_test',
+      entities: [User, Tenant, Organization, Department, RefreshToken],
+      connect: false,
+      allowGlobalContext: true,
+      implicitTransactions: false,
+    });
+  });
+
+  afterAll(async () => {
+    await orm.close();
+  });
+
+  beforeEach(() => {
+    const driver = orm.em.getDriver();
+    jest.spyOn(driver, 'nativeInsertMany').mockResolvedValue({ affectedRows: 1, rows: [] } as never);
+    jest.spyOn(driver, 'nativeInsert').mockResolvedValue({ affectedRows: 1, rows: [] } as never);
+    nativeUpdate = jest.spyOn(driver, 'nativeUpdate').mockResolvedValue({ affectedRows: 1, rows: [] } as never);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const forkWith = (systemUserId?: string): EntityManager => {
+    const em = orm.em.fork({ cloneEventManager: true });
+    em.getEventManager().registerSubscriber(new ActorStampSubscriber(systemUserId));
+    return em;
+  };
+
+  const newTenant = () => Object.assign(new Tenant(), { name: 'Acme' });
+
+  it('should stamp created entities with the current actor', async () => {
+    const em = forkWith(SYSTEM_USER_ID);
+    const tenant = newTenant();
+
+    await runWithActor(ALICE_ID, () => em.persistAndFlush(tenant));
+
+    expect(tenant).toMatchObject({ createdBy: ALICE_ID, updatedBy: ALICE_ID });
+  });
+
+  it('should keep the creator and stamp the modifier on update', async () => {
+    const em = forkWith();
+    const tenant = newTenant();
+    await runWithActor(ALICE_ID, () => em.persistAndFlush(tenant));
+
+    tenant.name = 'Acme Inc';
+    await runWithActor(BOB_ID, () => em.flush());
+
+    expect(tenant).toMatchObject({ createdBy: ALICE_ID, updatedBy: BOB_ID });
+    expect(nativeUpdate).toHaveBeenCalledWith(
+      'Tenant',
+      { id: tenant.id },
+      expect.objectContaining({ name: 'Acme Inc', updatedBy: BOB_ID }),
+      expect.anything(),
+    );
+  });
+
+  it('should fall back to the system user outside an actor scope', async () => {
+    const em = forkWith(SYSTEM_USER_ID);
+    const user = Object.assign(new User(), { username: 'alice', email: 'alice@example.com', passwordHash: 'hash' });
+
+    await em.persistAndFlush(user);
+
+    expect(user).toMatchObject({ createdBy: SYSTEM_USER_ID, updatedBy: SYSTEM_USER_ID });
+  });
+
+  it('should refuse to write stamped entities without any actor', async () => {
+    const em = forkWith();
+
+    await expect(em.persistAndFlush(newTenant())).rejects.toBeInstanceOf(MissingActorError);
+  });
+
+  it('should leave entities without actor properties untouched', async () => {
+    const em = forkWith();
+    const token = Object.assign(new RefreshToken(), {
+      userId: ALICE_ID,
+      familyId: BOB_ID,
+      tokenHash: 'hash',
+      expiresAt: new Date(),
+    });
+
+    await expect(em.persistAndFlush(token)).resolves.toBeUndefined();
+  });
+
+  it('should require a UUID system user at startup', () => {
+    expect(assertSystemUserId(SYSTEM_USER_ID)).toBe(SYSTEM_USER_ID);
+    for (const value of [undefined, '', 'system']) {
+      expect(() => assertSystemUserId(value)).toThrow('auth.systemUserId must be a UUID');
+    }
+  });
+});
@@ -0,0 +1,113 @@
+import { InternalServerErrorException } from '@nestjs/common';
+import type { EventArgs, EventSubscriber } from '@mikro-orm/core';
+import { getCurrentActorId } from './actor-context';
+
+/**
+ * 缺少操作人异常
+ *
+ * @description 写入带 createdBy 或 updatedBy 的实体时，既没有当前操作人也没有配置系统用户时抛出
+ */
+export class MissingActorError extends InternalServerErrorException {
+	constructor(entityName: string) {
+		super(`Cannot write ${entityName} without an actor: no authenticated user in the current context and no system user configured`);
+	}
+}
+
+/**
+ * UUID 格式
+ */
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * 校验系统用户ID配置
+ *
+ * @description 应用启动时调用。后台任务与迁移依赖系统用户作为操作人，未配置时在启动阶段失败，
+ * 而不是等到任务运行时才抛出 MissingActorError
+ * @param systemUserId - `auth.systemUserId` 配置值
+ * @returns 系统用户ID
+ * @throws {Error} 未配置或不是 UUID
+ */
+export function assertSystemUserId(systemUserId: string | undefined): string {
+	if (!systemUserId || !UUID_PATTERN.test(systemUserId)) {
+		throw new Error(
+			`auth.systemUserId must be a UUID, got "${systemUserId ?? ''}": set SYSTEM_USER_ID to the user recorded as the actor of background jobs and migrations`,
+		);
+	}
+	return systemUserId;
+}
+
+/**
+ * 带操作人属性的实体
+ *
+ * @description 带 createdBy、updatedBy 或 deletedBy 属性的实体
+ */
+type ActorStampedEntity = { createdBy?: string; updatedBy?: string; deletedAt?: Date; deletedBy?: string };
+
+/**
+ * 操作人订阅者
+ *
+ * 写入带 createdBy 或 updatedBy 属性的实体时，从当前异步上下文填入操作人
+ *
+ * ## 规则
+ * - 创建时未指定的 createdBy 与 updatedBy 填入操作人
+ * - 更新时 updatedBy 总是改为操作人
+ * - 软删除在 flush 时转换为写入 deletedAt 的更新，此时 deletedBy 同样填入操作人
+ * - 操作人取自 runWithActor 绑定的用户，不在操作人作用域内（如后台任务与迁移）时使用配置的系统用户
+ * - 两者都没有时抛出 MissingActorError，不写入无法追溯的数据
+ *
+ * @description 操作人订阅者，负责创建人与最后修改人的填充
+ * @since 1.0.0
+ */
+export class ActorStampSubscriber implements EventSubscriber<ActorStampedEntity> {
+	/**
+	 * @param systemUserId - 没有当前操作人时使用的系统用户ID，为空表示不允许回退
+	 */
+	constructor(private readonly systemUserId?: string) {}
+
+	/**
+	 * 创建前填充创建人与最后修改人
+	 *
+	 * @param args - 事件参数
+	 * @throws {MissingActorError} 没有可用的操作人
+	 */
+	beforeCreate(args: EventArgs<ActorStampedEntity>): void {
+		const { properties } = args.meta;
+		if (properties.createdBy) {
+			args.entity.createdBy ??= this.resolveActor(args);
+		}
+		if (properties.updatedBy) {
+			args.entity.updatedBy ??= this.resolveActor(args);
+		}
+	}
+
+	/**
+	 * 更新前填充最后修改人与删除人
+	 *
+	 * @param args - 事件参数
+	 * @throws {MissingActorError} 没有可用的操作人
+	 */
+	beforeUpdate(args: EventArgs<ActorStampedEntity>): void {
+		const { properties } = args.meta;
+		if (properties.updatedBy) {
+			args.entity.updatedBy = this.resolveActor(args);
+		}
+		if (properties.deletedBy && args.entity.deletedAt && args.changeSet?.payload.deletedAt) {
+			args.entity.deletedBy = this.resolveActor(args);
+		}
+	}
+
+	/**
+	 * 解析当前操作人
+	 *
+	 * @param args - 事件参数
+	 * @returns 操作人ID
+	 * @throws {MissingActorError} 没有可用的操作人
+	 */
+	private resolveActor(args: EventArgs<ActorStampedEntity>): string {
+		const actorId = getCurrentActorId() ?? this.systemUserId;
+		if (!actorId) {
+			throw new MissingActorError(args.meta.className);
+		}
+		return actorId;
+	}
+}
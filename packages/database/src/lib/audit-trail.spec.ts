@@ -0,0 +1,213 @@
+import { MikroORM } from '@mikro-orm/postgresql';
+import type { EntityManager } from '@mikro-orm/postgresql';
+import type { FlushEventArgs, Transaction, TransactionEventArgs } from '@mikro-orm/core';
+import { getCurrentRequestContext } from '@hl8/logger';
+import { Department } from '../entities/department.entity';
+import { Organization } from '../entities/organization.entity';
+import { RefreshToken } from '../entities/refresh-token.entity';
+import { Tenant } from '../entities/tenant.entity';
+import { User } from '../entities/user.entity';
+import { runWithActor } from './actor-context';
+import { ActorStampSubscriber } from './actor-stamp';
+import { AuditLogData, AuditTrailSubscriber } from './audit-trail';
+import { ConnectionManager } from './connection-manager';
+
+// 日志包在加载时会初始化 pino，单元测试中以轻量替身隔离，请求上下文由各用例设置
+jest.mock('./connection-manager', () => ({ ConnectionManager: class ConnectionManager {} }));
+jest.mock('@hl8/logger', () => ({
+  getCurrentRequestContext: jest.fn(() => null),
+}));
+
+const ACME_ID = '6f1d2c3b-8a4e-4f5a-9b6c-7d8e9f0a1b2c';
+const ADMIN_ID = '0a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d';
+
+/**
+ * 审计追踪测试
+ *
+ * @description 不连接数据库，截获驱动写入后验证订阅者生成并写入 MongoDB 的审计日志
+ */
+describe('AuditTrailSubscriber', () => {
+  let orm: MikroORM;
+  let em: EntityManager;
+  let subscriber: AuditTrailSubscriber;
+  let written: AuditLogData[];
+
+  beforeAll(async () => {
+    // 锁文件中 @mikro-orm/mongodb 与 core 的补丁版本不一致，测试只用到 PostgreSQL 驱动
+    process.env['MIKRO_ORM_ALLOW_VERSION_MISMATCH'] = 'true';
+    orm = await MikroORM.init({
+      dbName: 'audit_trail_test',
+      entities: [User, Tenant, Organization, Department, RefreshToken],
+      subscribers: [new ActorStampSubscriber(ADMIN_ID)],
+      connect: false,
+      allowGlobalContext: true,
+      implicitTransactions: false,
+    });
+
+    const mongoEm = {
+      create: jest.fn((_entity, data) => data),
+      persist: jest.fn((log) => written.push(log)),
+      flush: jest.fn(async () => undefined),
+    };
+    const connectionManager = {
+      getPostgresConnection: () => orm.em,
+      getMongoConnection: () => ({ fork: () => mongoEm }),
+    };
+    subscriber = new AuditTrailSubscriber(connectionManager as unknown as ConnectionManager);
+    subscriber.onModuleInit();
+  });
+
+  afterAll(async () => {
+    await orm.close();
+  });
+
+  beforeEach(() => {
+    const driver = orm.em.getDriver();
+    jest.spyOn(driver, 'nativeInsertMany').mockResolvedValue({ affectedRows: 1, rows: [] } as never);
+    jest.spyOn(driver, 'nativeInsert').mockResolvedValue({ affectedRows: 1, rows: [] } as never);
+    jest.spyOn(driver, 'nativeUpdate').mockResolvedValue({ affectedRows: 1, rows: [] } as never);
+    jest.spyOn(driver, 'nativeDelete').mockResolvedValue({ affectedRows: 1, rows: [] } as never);
+
+    written = [];
+    em = orm.em.fork();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.mocked(getCurrentRequestContext).mockReturnValue(null);
+  });
+
+  const newUser = () =>
+    Object.assign(new User(), {
+      username: 'alice',
+      email: 'alice@example.com',
+      passwordHash: 'hash',
+      tenantId: ACME_ID,
+    });
+
+  it('should record created entities with the actor from the actor context and the request from the logger context', async () => {
+    jest.mocked(getCurrentRequestContext).mockReturnValue({
+      requestId: 'req-1',
+      userId: 'logger-user',
+      metadata: { ip: '10.0.0.1' },
+    });
+    const user = newUser();
+
+    await runWithActor(ADMIN_ID, () => em.persistAndFlush(user));
+
+    expect(written).toEqual([
+      expect.objectContaining({
+        action: 'create',
+        entity: 'User',
+        entityId: user.id,
+        tenantId: ACME_ID,
+        actorId: ADMIN_ID,
+        requestId: 'req-1',
+        ip: '10.0.0.1',
+      }),
+    ]);
+    expect(written[0].changes['username']).toEqual({ after: 'alice' });
+    expect(written[0].changes['passwordHash']).toEqual({ after: '[REDACTED]' });
+  });
+
+  it('should record only changed properties of updated entities', async () => {
+    const user = newUser();
+    await em.persistAndFlush(user);
+    written.length = 0;
+
+    user.email = 'alice@acme.example';
+    await em.flush();
+
+    expect(written).toHaveLength(1);
+    expect(written[0]).toMatchObject({ action: 'update', entityId: user.id, actorId: undefined });
+    expect(Object.keys(written[0].changes).sort()).toEqual(['email', 'updatedAt']);
+    expect(written[0].changes['email']).toEqual({ before: 'alice@example.com', after: 'alice@acme.example' });
+  });
+
+  it('should record the last known state of deleted entities', async () => {
+    const user = newUser();
+    await em.persistAndFlush(user);
+    written.length = 0;
+
+    await em.removeAndFlush(user);
+
+    expect(written).toHaveLength(1);
+    expect(written[0]).toMatchObject({ action: 'delete', entity: 'User', entityId: user.id });
+    expect(written[0].changes['username']).toEqual({ before: 'alice' });
+    expect(written[0].changes['passwordHash']).toEqual({ before: '[REDACTED]' });
+  });
+
+  it('should record soft deletes and restores instead of plain updates', async () => {
+    const user = newUser();
+    await em.persistAndFlush(user);
+    written.length = 0;
+
+    user.deletedAt = new Date();
+    await em.flush();
+    user.deletedAt = undefined;
+    await em.flush();
+
+    expect(written.map((log) => log.action)).toEqual(['soft_delete', 'restore']);
+    expect(written[0].changes['deletedAt']).toEqual({ before: undefined, after: expect.any(Date) });
+  });
+
+  it('should record hard deletes that bypass the unit of work when asked', async () => {
+    const user = newUser();
+    const token = Object.assign(new RefreshToken(), { userId: user.id, familyId: ACME_ID, tokenHash: 'hash' });
+
+    await subscriber.recordDeletes(em, [user, token]);
+
+    expect(written).toEqual([expect.objectContaining({ action: 'delete', entity: 'User', entityId: user.id, tenantId: ACME_ID })]);
+    expect(written[0].changes['username']).toEqual({ before: 'alice' });
+    expect(written[0].changes['passwordHash']).toEqual({ before: '[REDACTED]' });
+  });
+
+  it('should use the tenant itself as the tenant of tenant changes and ignore other entities', async () => {
+    const tenant = Object.assign(new Tenant(), { name: 'Acme', createdBy: ADMIN_ID });
+    const token = Object.assign(new RefreshToken(), {
+      userId: ADMIN_ID,
+      familyId: ACME_ID,
+      tokenHash: 'hash',
+      expiresAt: new Date(),
+    });
+
+    await em.persistAndFlush([tenant, token]);
+
+    expect(written).toEqual([expect.objectContaining({ entity: 'Tenant', entityId: tenant.id, tenantId: tenant.id })]);
+  });
+
+  const flushInTransaction = async (transaction: Transaction) => {
+    const uow = em.getUnitOfWork();
+    uow.computeChangeSets();
+    const flushArgs = {
+      em: { isInTransaction: () => true, getTransactionContext: () => transaction },
+      uow,
+    } as unknown as FlushEventArgs;
+
+    subscriber.onFlush(flushArgs);
+    await subscriber.afterFlush(flushArgs);
+  };
+
+  it('should hold logs flushed inside a transaction until it commits', async () => {
+    const transaction = {} as Transaction;
+    const user = newUser();
+    em.persist(user);
+
+    await flushInTransaction(transaction);
+    expect(written).toHaveLength(0);
+
+    await subscriber.afterTransactionCommit({ transaction } as TransactionEventArgs);
+    expect(written).toEqual([expect.objectContaining({ action: 'create', entityId: user.id })]);
+  });
+
+  it('should drop logs of rolled back transactions', async () => {
+    const transaction = {} as Transaction;
+    em.persist(newUser());
+
+    await flushInTransaction(transaction);
+    subscriber.afterTransactionRollback({ transaction } as TransactionEventArgs);
+    await subscriber.afterTransactionCommit({ transaction } as TransactionEventArgs);
+
+    expect(written).toHaveLength(0);
+  });
+});
@@ -0,0 +1,298 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ChangeSetType, helper } from '@mikro-orm/core';
+import type {
+	AnyEntity,
+	ChangeSet,
+	EntityData,
+	EntityManager,
+	EventSubscriber,
+	FlushEventArgs,
+	Transaction,
+	TransactionEventArgs,
+	UnitOfWork,
+} from '@mikro-orm/core';
+import { getCurrentRequestContext } from '@hl8/logger';
+import { AuditAction, AuditChange, AuditLog } from '../entities/audit-log.entity';
+import { getCurrentActorId } from './actor-context';
+import { ConnectionManager } from './connection-manager';
+
+/**
+ * 记录审计日志的实体
+ */
+export const AUDITED_ENTITIES = ['User', 'Tenant', 'Organization'];
+
+/**
+ * 不写入审计日志原值的属性
+ */
+const REDACTED_PROPERTIES = ['passwordHash'];
+
+/**
+ * 敏感属性的占位符
+ */
+const REDACTED_VALUE = '[REDACTED]';
+
+/**
+ * 审计日志数据
+ *
+ * @description 由一次实体变更生成、尚未写入 MongoDB 的审计日志
+ */
+export type AuditLogData = Omit<AuditLog, '_id' | 'id'>;
+
+/**
+ * 变更类型与审计动作的映射
+ */
+const AUDIT_ACTIONS: Record<ChangeSetType, AuditAction> = {
+	[ChangeSetType.CREATE]: AuditAction.CREATE,
+	[ChangeSetType.UPDATE]: AuditAction.UPDATE,
+	[ChangeSetType.UPDATE_EARLY]: AuditAction.UPDATE,
+	[ChangeSetType.DELETE]: AuditAction.DELETE,
+	[ChangeSetType.DELETE_EARLY]: AuditAction.DELETE,
+};
+
+/**
+ * 审计追踪订阅者
+ *
+ * 订阅 PostgreSQL 连接的 flush 事件，将 User、Tenant、Organization 的变更写入 MongoDB 的 `audit_logs` 集合
+ *
+ * ## 规则
+ * - flush 计算出变更集后生成审计日志：创建记录全部属性，更新记录变化的属性，删除记录删除前的属性
+ * - deletedAt 由空变为非空的更新记录为软删除，由非空变为空的更新记录为恢复
+ * - 操作人与 ActorStampSubscriber 一致取自操作人上下文；模拟操作员、请求ID与 IP 取自日志请求上下文，不在请求作用域内时为空
+ * - 不在事务中的 flush 完成后立即写入；事务中的 flush 等事务提交后写入，事务回滚则丢弃
+ * - nativeDelete 等绕过工作单元的彻底删除不触发 flush，由调用方通过 recordDeletes 显式记录
+ * - 审计日志写入失败只记录错误，不影响已提交的业务变更
+ *
+ * @description 审计追踪订阅者，负责实体变更的审计日志生成与写入
+ * @since 1.0.0
+ */
+@Injectable()
+export class AuditTrailSubscriber implements EventSubscriber, OnModuleInit {
+	private readonly logger = new Logger(AuditTrailSubscriber.name);
+
+	/** flush 中已生成、等待 flush 完成的审计日志 */
+	private readonly flushing = new WeakMap<UnitOfWork, AuditLogData[]>();
+
+	/** 事务中已 flush、等待事务提交的审计日志 */
+	private readonly committing = new WeakMap<Transaction, AuditLogData[]>();
+
+	constructor(private readonly connectionManager: ConnectionManager) {}
+
+	/**
+	 * 模块初始化
+	 *
+	 * @description 向 PostgreSQL 连接注册订阅者
+	 */
+	onModuleInit(): void {
+		this.connectionManager.getPostgresConnection().getEventManager().registerSubscriber(this);
+	}
+
+	/**
+	 * 变更集计算完成后生成审计日志
+	 *
+	 * @description 变更写入数据库前快照变更前后的值，此时删除的实体仍保留原始数据
+	 * @param args - flush 事件参数
+	 */
+	onFlush({ uow }: FlushEventArgs): void {
+		const logs = uow
+			.getChangeSets()
+			.filter((changeSet) => AUDITED_ENTITIES.includes(changeSet.name))
+			.map((changeSet) => buildAuditLog(changeSet, changeSet.originalEntity ?? uow.getOriginalEntityData(changeSet.entity)));
+		if (logs.length > 0) {
+			this.flushing.set(uow, logs);
+		}
+	}
+
+	/**
+	 * flush 完成后写入或暂存审计日志
+	 *
+	 * @param args - flush 事件参数
+	 */
+	async afterFlush({ em, uow }: FlushEventArgs): Promise<void> {
+		const logs = this.flushing.get(uow);
+		if (!logs) {
+			return;
+		}
+		this.flushing.delete(uow);
+
+		await this.enqueue(em, logs);
+	}
+
+	/**
+	 * 记录绕过工作单元的彻底删除
+	 *
+	 * @description 以 nativeDelete 彻底删除前加载实体并调用，按删除前的属性生成删除审计日志；
+	 * 与 flush 相同，事务中调用时等事务提交后写入，事务回滚则丢弃
+	 * @param em - 执行删除的实体管理器
+	 * @param entities - 将被删除的已加载实体，非审计实体被忽略
+	 */
+	async recordDeletes(em: EntityManager, entities: AnyEntity[]): Promise<void> {
+		const logs = entities
+			.filter((entity) => AUDITED_ENTITIES.includes(helper(entity).__meta.className))
+			.map((entity) =>
+				auditLogOf(AuditAction.DELETE, helper(entity).__meta.className, entity, {}, helper(entity).toPOJO()),
+			);
+		if (logs.length > 0) {
+			await this.enqueue(em, logs);
+		}
+	}
+
+	/**
+	 * 事务提交后写入暂存的审计日志
+	 *
+	 * @param args - 事务事件参数
+	 */
+	async afterTransactionCommit({ transaction }: TransactionEventArgs): Promise<void> {
+		const logs = transaction && this.committing.get(transaction);
+		if (!logs) {
+			return;
+		}
+		this.committing.delete(transaction);
+		await this.write(logs);
+	}
+
+	/**
+	 * 事务回滚后丢弃暂存的审计日志
+	 *
+	 * @param args - 事务事件参数
+	 */
+	afterTransactionRollback({ transaction }: TransactionEventArgs): void {
+		if (transaction) {
+			this.committing.delete(transaction);
+		}
+	}
+
+	/**
+	 * 立即写入审计日志，处于事务中时暂存至事务提交
+	 *
+	 * @param em - 实体管理器
+	 * @param logs - 审计日志数据
+	 */
+	private async enqueue(em: EntityManager, logs: AuditLogData[]): Promise<void> {
+		const transaction = em.isInTransaction() ? em.getTransactionContext<Transaction>() : undefined;
+		if (transaction) {
+			this.committing.set(transaction, [...(this.committing.get(transaction) ?? []), ...logs]);
+			return;
+		}
+		await this.write(logs);
+	}
+
+	/**
+	 * 写入审计日志
+	 *
+	 * @param logs - 审计日志数据
+	 */
+	private async write(logs: AuditLogData[]): Promise<void> {
+		try {
+			const em = this.connectionManager.getMongoConnection().fork();
+			for (const log of logs) {
+				em.persist(em.create(AuditLog, log));
+			}
+			await em.flush();
+		} catch (error) {
+			this.logger.error(`审计日志写入失败: ${logs.length} 条`, error);
+		}
+	}
+}
+
+/**
+ * 由变更集生成审计日志
+ *
+ * @param changeSet - 变更集
+ * @param original - 变更前的实体数据，创建时为空
+ * @returns 审计日志数据
+ */
+export function buildAuditLog(changeSet: ChangeSet<AnyEntity>, original?: EntityData<AnyEntity>): AuditLogData {
+	return auditLogOf(auditAction(changeSet, original), changeSet.name, changeSet.entity, changeSet.payload, original);
+}
+
+/**
+ * 变更集对应的审计动作
+ *
+ * @description 软删除与恢复在数据库层面是对 deletedAt 的更新，按 deletedAt 的变化单独区分
+ * @param changeSet - 变更集
+ * @param original - 变更前的实体数据
+ * @returns 审计动作
+ */
+function auditAction(changeSet: ChangeSet<AnyEntity>, original: EntityData<AnyEntity> = {}): AuditAction {
+	const action = AUDIT_ACTIONS[changeSet.type];
+	if (action !== AuditAction.UPDATE || !('deletedAt' in changeSet.payload)) {
+		return action;
+	}
+
+	const wasDeleted = original['deletedAt'] != null;
+	const isDeleted = changeSet.payload['deletedAt'] != null;
+	if (!wasDeleted && isDeleted) {
+		return AuditAction.SOFT_DELETE;
+	}
+	return wasDeleted && !isDeleted ? AuditAction.RESTORE : action;
+}
+
+/**
+ * 生成审计日志
+ *
+ * @param action - 审计动作
+ * @param entityName - 实体名称
+ * @param entity - 变更的实体
+ * @param payload - 写入的属性，删除时为空
+ * @param original - 变更前的实体数据，创建时为空
+ * @returns 审计日志数据
+ */
+function auditLogOf(
+	action: AuditAction,
+	entityName: string,
+	entity: AnyEntity,
+	payload: Record<string, unknown>,
+	original?: EntityData<AnyEntity>,
+): AuditLogData {
+	const entityId = helper(entity).getSerializedPrimaryKey() ?? '';
+	const requestContext = getCurrentRequestContext();
+
+	return {
+		action,
+		entity: entityName,
+		entityId,
+		tenantId: entityName === 'Tenant' ? entityId : (entity as { tenantId?: string }).tenantId,
+		actorId: getCurrentActorId(),
+		impersonatedBy: requestContext?.impersonatedBy,
+		changes: diff(action, payload, original),
+		requestId: requestContext?.requestId,
+		ip: requestContext?.metadata?.ip,
+		createdAt: new Date(),
+	};
+}
+
+/**
+ * 计算属性差异
+ *
+ * @param action - 审计动作
+ * @param payload - 变更集写入的属性
+ * @param original - 变更前的实体数据
+ * @returns 以属性名为键的变更前后值
+ */
+function diff(action: AuditAction, payload: Record<string, unknown>, original: Record<string, unknown> = {}) {
+	const changes: Record<string, AuditChange> = {};
+	const source = action === AuditAction.DELETE ? original : payload;
+
+	for (const key of Object.keys(source)) {
+		const change: AuditChange = {};
+		if (action !== AuditAction.CREATE) {
+			change.before = redact(key, original[key]);
+		}
+		if (action !== AuditAction.DELETE) {
+			change.after = redact(key, payload[key]);
+		}
+		changes[key] = change;
+	}
+	return changes;
+}
+
+/**
+ * 隐藏敏感属性的值
+ *
+ * @param key - 属性名
+ * @param value - 属性值
+ * @returns 敏感属性返回占位符，其余原样返回
+ */
+function redact(key: string, value: unknown): unknown {
+	return REDACTED_PROPERTIES.includes(key) && value !== undefined ? REDACTED_VALUE : value;
+}
@@ -6,6 +6,19 @@ import { EntityManagerService } from './entity-manager';
 import { User } from '../entities/user.entity';
 import { Tenant } from '../entities/tenant.entity';
 import { Organization } from '../entities/organization.entity';
+import { RefreshToken } from '../entities/refresh-token.entity';
+import { Department } from '../entities/department.entity';
+import { VerificationToken } from '../entities/verification-token.entity';
+import { MagicLoginCode } from '../entities/magic-login-code.entity';
+import { Invitation } from '../entities/invitation.entity';
+import { SchedulerLock } from '../entities/scheduler-lock.entity';
+import { TenantStatusTransition } from '../entities/tenant-status-transition.entity';
+import { ImpersonationSession } from '../entities/impersonation-session.entity';
+import { ImpersonationAuditEntry } from '../entities/impersonation-audit-entry.entity';
+import { AuditLog } from '../entities/audit-log.entity';
+import { TenantScopeSubscriber } from './tenant-scope';
+import { AuditTrailSubscriber } from './audit-trail';
+import { ActorStampSubscriber, assertSystemUserId } from './actor-stamp';
 
 /**
  * 数据库管理模块
@@ -30,6 +43,8 @@ import { Organization } from '../entities/organization.entity';
  * - 实体注册
  * - 实体关系管理
  * - 实体生命周期管理
+ * - User、Tenant、Organization 的变更写入 MongoDB 审计日志
+ * - 创建人与最后修改人取自当前操作人，后台任务回退到配置的系统用户
  * 
  * ### 迁移管理
  * - 数据库迁移
@@ -63,8 +78,12 @@ import { Organization } from '../entities/organization.entity';
 				const postgresConfig = configService.getConfigValue('database.postgresql');
 				return {
 					...postgresConfig,
-					entities: [User, Tenant, Organization],
-					entitiesTs: [User, Tenant, Organization],
+					entities: [User, Tenant, Organization, Department, RefreshToken, VerificationToken, MagicLoginCode, Invitation, SchedulerLock, TenantStatusTransition, ImpersonationSession, ImpersonationAuditEntry],
+					entitiesTs: [User, Tenant, Organization, Department, RefreshToken, VerificationToken, MagicLoginCode, Invitation, SchedulerLock, TenantStatusTransition, ImpersonationSession, ImpersonationAuditEntry],
+					subscribers: [
+						new TenantScopeSubscriber(),
+						new ActorStampSubscriber(assertSystemUserId(configService.get<string>('auth.systemUserId'))),
+					],
 					migrations: {
 						path: postgresConfig.migrations?.path || './dist/migrations/postgresql',
 						pattern: /^[\w-]+\d+\.(ts|js)$/,
@@ -89,8 +108,8 @@ import { Organization } from '../entities/organization.entity';
 				const mongoConfig = configService.getConfigValue('database.mongodb');
 				return {
 					...mongoConfig,
-					entities: mongoConfig.entities || [],
-					entitiesTs: mongoConfig.entitiesTs || [],
+					entities: [AuditLog],
+					entitiesTs: [AuditLog],
 					migrations: {
 						path: mongoConfig.migrations?.path || './dist/migrations/mongodb',
 						pattern: /^[\w-]+\d+\.(ts|js)$/,
@@ -107,11 +126,13 @@ import { Organization } from '../entities/organization.entity';
 	],
 	providers: [
 		ConnectionManager,
-		EntityManagerService
+		EntityManagerService,
+		AuditTrailSubscriber
 	],
 	exports: [
 		ConnectionManager,
 		EntityManagerService,
+		AuditTrailSubscriber,
 		MikroOrmModule
 	]
 })
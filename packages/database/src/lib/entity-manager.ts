@@ -1,7 +1,11 @@
 import { Injectable } from '@nestjs/common';
-import { EntityManager, EntityRepository, FilterQuery, FindOptions, CountOptions } from '@mikro-orm/core';
+import { EntityManager, EntityRepository, FilterQuery, FindOptions, CountOptions, OptimisticLockError, wrap } from '@mikro-orm/core';
 import { ConnectionManager } from './connection-manager';
 import { Logger } from '@hl8/logger';
+import type { ListPage } from '@hl8/common';
+import { EntityVersionConflictError } from './optimistic-lock';
+import { withoutTenantScope } from './tenant-context';
+import { buildListQuery, combineConditions, ListQueryParams, ListQuerySpec } from './list-query';
 
 /**
  * 实体管理器服务
@@ -26,7 +30,7 @@ import { Logger } from '@hl8/logger';
  * 
  * ### 查询构建
  * - 条件查询
- * - 分页查询
+ * - 分页查询（页码与游标）
  * - 排序查询
  * - 关联查询
  * 
@@ -35,6 +39,12 @@ import { Logger } from '@hl8/logger';
  * - 回滚机制
  * - 嵌套事务
  * 
+ * ### 租户隔离
+ * - 查询自动附加当前租户过滤条件，不在租户作用域内时拒绝查询
+ * - 创建时自动填入当前租户
+ * - 跨租户写入会被拒绝
+ * - 通过 withoutTenantScope 显式跨租户操作
+ * 
  * @example
  * ```typescript
  * import { EntityManagerService } from '@hl8/database';
@@ -166,10 +176,11 @@ export class EntityManagerService {
 	/**
 	 * 更新实体
 	 * 
-	 * @description 更新指定实体
+	 * @description 更新指定实体，带版本号的实体仅在数据库中的版本未变化时写入
 	 * @param database 数据库类型
 	 * @param entity 实体实例
 	 * @returns 更新后的实体
+	 * @throws {EntityVersionConflictError} 实体在读取后被其他请求修改
 	 * 
 	 * @example
 	 * ```typescript
@@ -187,6 +198,9 @@ export class EntityManagerService {
 			this.logger.debug(`实体已更新: ${entity.constructor.name}`, { database });
 			return entity;
 		} catch (error) {
+			if (error instanceof OptimisticLockError) {
+				throw await this.toVersionConflict(this.getEntityManager(database), entity as object);
+			}
 			this.logger.error(`更新实体失败: ${entity.constructor.name}`, error);
 			throw error;
 		}
@@ -253,6 +267,54 @@ export class EntityManagerService {
 		}
 	}
 
+	/**
+	 * 分页查询实体
+	 * 
+	 * @description 按列表查询规格翻译分页、排序、过滤与搜索参数后查询，并统计总数
+	 * @param database 数据库类型
+	 * @param entityClass 实体类
+	 * @param params 列表查询参数
+	 * @param spec 列表查询规格
+	 * @param where 额外的查询条件，与参数生成的条件取“与”
+	 * @param options 过滤器选项，如 `withDeleted()` 包含已删除数据
+	 * @returns 分页结果
+	 * 
+	 * @example
+	 * ```typescript
+	 * const page = await this.entityManager.findPage('postgresql', User, query, USER_LIST_SPEC);
+	 * ```
+	 */
+	async findPage<T extends object>(
+		database: 'postgresql' | 'mongodb',
+		entityClass: new () => T,
+		params: ListQueryParams,
+		spec: ListQuerySpec<T>,
+		where: FilterQuery<T> = {},
+		options?: Pick<FindOptions<T>, 'filters'>
+	): Promise<ListPage<T>> {
+		const plan = buildListQuery(params, spec);
+		const filter = combineConditions<T>([where, plan.where]);
+
+		const total = await this.count(database, entityClass, filter, options);
+		const rows = await this.find(
+			database,
+			entityClass,
+			plan.cursorWhere ? combineConditions<T>([filter, plan.cursorWhere]) : filter,
+			{ ...options, orderBy: plan.orderBy, limit: plan.limit + 1, offset: plan.offset }
+		);
+
+		const hasMore = rows.length > plan.limit;
+		const items = rows.slice(0, plan.limit);
+		return {
+			items,
+			total,
+			limit: plan.limit,
+			page: plan.page,
+			nextCursor: hasMore ? plan.cursorFor(items[items.length - 1]) : null,
+			hasMore,
+		};
+	}
+
 	/**
 	 * 执行事务
 	 * 
@@ -307,6 +369,51 @@ export class EntityManagerService {
 		return this.getEntityManager(database).getRepository(entityClass);
 	}
 
+	/**
+	 * 跳过租户作用域执行回调
+	 * 
+	 * @description 回调内的查询不附加租户过滤条件、写入不校验租户归属，仅供平台管理员等跨租户场景显式使用
+	 * @param callback 回调函数
+	 * @returns 回调返回值
+	 * 
+	 * @example
+	 * ```typescript
+	 * const users = await this.entityManager.withoutTenantScope(() =>
+	 *   this.entityManager.find('postgresql', User, {})
+	 * );
+	 * ```
+	 */
+	withoutTenantScope<T>(callback: () => Promise<T>): Promise<T> {
+		this.logger.debug('跳过租户作用域执行');
+		return withoutTenantScope(callback);
+	}
+
+	/**
+	 * 构造实体版本冲突异常
+	 * 
+	 * @description 在新的上下文中按主键重新读取实体的当前版本，不受身份映射与过滤器影响；
+	 * 实体未声明版本属性或已不存在时异常中不含当前版本
+	 * @param em EntityManager实例
+	 * @param entity 实体实例
+	 * @returns 实体版本冲突异常
+	 * @private
+	 */
+	private async toVersionConflict(em: EntityManager, entity: object): Promise<EntityVersionConflictError> {
+		const entityName = entity.constructor.name;
+		this.logger.debug(`实体版本冲突: ${entityName}`);
+
+		const meta = em.getMetadata().find(entityName);
+		if (!meta?.versionProperty) {
+			return new EntityVersionConflictError(entityName);
+		}
+
+		const current = await em.fork().findOne(meta.className, wrap(entity, true).getPrimaryKey() as never, { filters: false });
+		return new EntityVersionConflictError(
+			entityName,
+			current ? (current as Record<string, number>)[meta.versionProperty] : undefined
+		);
+	}
+
 	/**
 	 * 获取EntityManager实例
 	 * 
@@ -0,0 +1,168 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConnectionManager } from './connection-manager';
+import { EntityManagerService } from './entity-manager';
+import { buildListQuery, ListQuerySpec } from './list-query';
+
+// 日志包与配置包在加载时会初始化 pino 与连接配置，单元测试中以轻量替身隔离
+jest.mock('./connection-manager', () => ({ ConnectionManager: class ConnectionManager {} }));
+jest.mock('@hl8/logger', () => ({
+  Logger: jest.fn().mockImplementation(() => ({ debug: jest.fn(), error: jest.fn() })),
+}));
+
+interface Account {
+  id: string;
+  name: string;
+  email: string;
+  status: string;
+  createdAt: Date;
+}
+
+const ACCOUNT_LIST_SPEC: ListQuerySpec<Account> = {
+  filters: { status: 'enum', createdAt: 'date' },
+  sortable: ['name', 'createdAt'],
+  searchable: ['name', 'email'],
+  defaultSort: 'createdAt:desc',
+};
+
+describe('buildListQuery', () => {
+  it('should translate allow-listed filters, ranges and search', () => {
+    const plan = buildListQuery(
+      {
+        status: ['active', 'suspended'],
+        createdAt: { gte: '2024-01-01T00:00:00.000Z' },
+        q: '50%_off',
+        role: 'admin',
+      } as object,
+      ACCOUNT_LIST_SPEC,
+    );
+
+    expect(plan.where).toEqual({
+      $and: [
+        { status: { $in: ['active', 'suspended'] } },
+        { createdAt: { $gte: new Date('2024-01-01T00:00:00.000Z') } },
+        { $or: [{ name: { $ilike: '%50\\%\\_off%' } }, { email: { $ilike: '%50\\%\\_off%' } }] },
+      ],
+    });
+  });
+
+  it('should never turn parameter values into operators', () => {
+    expect(buildListQuery({ status: '{"$ne":null}' } as object, ACCOUNT_LIST_SPEC).where).toEqual({
+      status: '{"$ne":null}',
+    });
+    expect(() => buildListQuery({ status: { $ne: null } } as object, ACCOUNT_LIST_SPEC)).toThrow(BadRequestException);
+    expect(() => buildListQuery({ createdAt: { $ne: 'x' } } as object, ACCOUNT_LIST_SPEC)).toThrow(BadRequestException);
+  });
+
+  it('should only sort by allow-listed fields and add an id tie-breaker', () => {
+    const plan = buildListQuery({ sort: 'name:asc,createdAt:desc', page: 3, limit: 10 }, ACCOUNT_LIST_SPEC);
+
+    expect(plan.orderBy).toEqual([
+      { name: 'ASC NULLS LAST' },
+      { createdAt: 'DESC NULLS LAST' },
+      { id: 'ASC NULLS LAST' },
+    ]);
+    expect(plan).toMatchObject({ limit: 10, page: 3, offset: 20 });
+    expect(() => buildListQuery({ sort: 'passwordHash:asc' }, ACCOUNT_LIST_SPEC)).toThrow('Cannot sort by passwordHash');
+  });
+
+  it('should resume after the cursor of the previous page', () => {
+    const first = buildListQuery({ sort: 'name' }, ACCOUNT_LIST_SPEC);
+    const cursor = first.cursorFor({ id: 'a-2', name: 'Bob' } as Account);
+
+    const next = buildListQuery({ sort: 'name', cursor }, ACCOUNT_LIST_SPEC);
+
+    expect(next.offset).toBeUndefined();
+    expect(next.cursorWhere).toEqual({
+      $or: [{ $or: [{ name: { $gt: 'Bob' } }, { name: null }] }, { name: 'Bob', id: { $gt: 'a-2' } }],
+    });
+    expect(
+      buildListQuery({ sort: 'name', cursor: first.cursorFor({ id: 'a-3', name: null } as unknown as Account) }, ACCOUNT_LIST_SPEC)
+        .cursorWhere,
+    ).toEqual({ $or: [{ name: null, id: { $gt: 'a-3' } }] });
+    expect(() => buildListQuery({ sort: 'createdAt', cursor }, ACCOUNT_LIST_SPEC)).toThrow(
+      'Invalid cursor for the requested sort',
+    );
+    expect(() => buildListQuery({ cursor: 'not-a-cursor' }, ACCOUNT_LIST_SPEC)).toThrow(BadRequestException);
+  });
+});
+
+describe('EntityManagerService.findPage', () => {
+  const rows = [
+    { id: '1', name: 'Ann' },
+    { id: '2', name: 'Bob' },
+    { id: '3', name: 'Cid' },
+  ];
+
+  it('should report the total, a next cursor and whether more rows exist', async () => {
+    const em = { find: jest.fn().mockResolvedValue(rows), count: jest.fn().mockResolvedValue(7) };
+    const service = new EntityManagerService({ getPostgresConnection: () => em } as unknown as ConnectionManager);
+    class AccountEntity {}
+
+    const spec = ACCOUNT_LIST_SPEC as unknown as ListQuerySpec<AccountEntity>;
+
+    const page = await service.findPage('postgresql', AccountEntity, { limit: 2, sort: 'name' }, spec, { status: 'active' });
+
+    expect(em.count).toHaveBeenCalledWith(AccountEntity, { status: 'active' }, undefined);
+    expect(em.find).toHaveBeenCalledWith(AccountEntity, { status: 'active' }, expect.objectContaining({ limit: 3, offset: 0 }));
+    expect(page).toMatchObject({ items: rows.slice(0, 2), total: 7, limit: 2, page: 1, hasMore: true });
+    expect(buildListQuery({ sort: 'name', cursor: page.nextCursor as string }, ACCOUNT_LIST_SPEC).cursorWhere).toEqual({
+      $or: [{ $or: [{ name: { $gt: 'Bob' } }, { name: null }] }, { name: 'Bob', id: { $gt: '2' } }],
+    });
+  });
+
+  it('should page through rows whose sort field is null without skipping or repeating any', async () => {
+    type Row = Record<string, unknown>;
+    const accounts: Row[] = [
+      { id: '1', name: 'Bob' },
+      { id: '2', name: null },
+      { id: '3', name: 'Ann' },
+      { id: '4', name: null },
+      { id: '5', name: 'Bob' },
+      { id: '6', name: null },
+    ];
+
+    // 按 PostgreSQL 的语义在内存中执行查询：与空值比较不成立，空值按 NULLS LAST 排序
+    const matches = (row: Row, where: Row): boolean =>
+      Object.entries(where).every(([key, condition]) => {
+        if (key === '$or') return (condition as Row[]).some((item) => matches(row, item));
+        if (key === '$and') return (condition as Row[]).every((item) => matches(row, item));
+        const value = row[key] as string | null;
+        if (condition === null) return value === null;
+        if (typeof condition !== 'object') return value === condition;
+        const { $gt, $lt } = condition as { $gt?: string; $lt?: string };
+        return value !== null && ($gt === undefined || value > $gt) && ($lt === undefined || value < $lt);
+      });
+    const compare = (orderBy: Row[]) => (a: Row, b: Row) => {
+      for (const order of orderBy) {
+        const [[field, direction]] = Object.entries(order);
+        const [left, right] = [a[field] as string | null, b[field] as string | null];
+        if (left === right) continue;
+        if (left === null) return 1;
+        if (right === null) return -1;
+        return (left < right ? -1 : 1) * (String(direction).startsWith('DESC') ? -1 : 1);
+      }
+      return 0;
+    };
+    const em = {
+      count: jest.fn(async () => accounts.length),
+      find: jest.fn(async (_entity, where: Row, options: { orderBy: Row[]; limit: number }) =>
+        accounts.filter((row) => matches(row, where)).sort(compare(options.orderBy)).slice(0, options.limit),
+      ),
+    };
+    const service = new EntityManagerService({ getPostgresConnection: () => em } as unknown as ConnectionManager);
+    class AccountEntity {}
+    const spec = ACCOUNT_LIST_SPEC as unknown as ListQuerySpec<AccountEntity>;
+
+    for (const sort of ['name:asc', 'name:desc']) {
+      const seen: unknown[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await service.findPage('postgresql', AccountEntity, { limit: 2, sort, cursor }, spec);
+        seen.push(...page.items.map((item) => (item as Row)['id']));
+        cursor = page.nextCursor ?? undefined;
+      } while (cursor);
+
+      expect(seen).toEqual(sort === 'name:asc' ? ['3', '1', '5', '2', '4', '6'] : ['1', '5', '3', '2', '4', '6']);
+    }
+  });
+});
@@ -0,0 +1,332 @@
+import { BadRequestException } from '@nestjs/common';
+import { QueryOrder } from '@mikro-orm/core';
+import type { EntityKey, FilterQuery, QueryOrderMap } from '@mikro-orm/core';
+import { DEFAULT_LIST_LIMIT, MAX_LIST_LIMIT, parseSort } from '@hl8/common';
+import type { SortField } from '@hl8/common';
+
+/**
+ * 可过滤字段类型
+ *
+ * @description 决定查询参数如何转换为过滤条件：
+ * string/uuid/enum 支持单值与多值，date/number 额外支持 gte/gt/lte/lt 范围，boolean 仅支持单值
+ */
+export type ListFilterType = 'string' | 'uuid' | 'enum' | 'date' | 'number' | 'boolean';
+
+/**
+ * 列表查询规格
+ *
+ * @description 实体列表允许的过滤、排序与搜索字段。不在规格中的字段一律不会进入查询条件
+ */
+export interface ListQuerySpec<T> {
+	/** 可过滤字段及其类型 */
+	filters: Partial<Record<EntityKey<T>, ListFilterType>>;
+	/** 可排序字段 */
+	sortable: EntityKey<T>[];
+	/** q 参数搜索的字段，使用不区分大小写的模糊匹配 */
+	searchable?: EntityKey<T>[];
+	/** 默认排序，格式同 sort 参数 */
+	defaultSort: string;
+}
+
+/**
+ * 列表查询参数
+ *
+ * @description 由列表查询 DTO 校验后的参数，过滤字段以字段名为键，只有规格中声明的字段会被读取
+ */
+export interface ListQueryParams {
+	page?: number;
+	limit?: number;
+	cursor?: string;
+	sort?: string;
+	q?: string;
+}
+
+/**
+ * 列表查询计划
+ *
+ * @description 由查询参数翻译得到的 MikroORM 查询条件与选项
+ */
+export interface ListQueryPlan<T> {
+	/** 过滤与搜索条件，用于统计总数 */
+	where: FilterQuery<T>;
+	/** 游标条件，仅游标分页时存在 */
+	cursorWhere?: FilterQuery<T>;
+	/** 排序，空值总是排在最后，末尾总是以 id 兜底，保证顺序稳定 */
+	orderBy: QueryOrderMap<T>[];
+	/** 每页条数 */
+	limit: number;
+	/** 偏移量，仅 offset 分页时存在 */
+	offset?: number;
+	/** 页码，仅 offset 分页时存在 */
+	page?: number;
+	/** 根据当前页最后一条数据生成下一页游标 */
+	cursorFor(item: T): string;
+}
+
+/**
+ * 范围运算符映射
+ */
+const RANGE_OPERATORS: Record<string, string> = {
+	gte: '$gte',
+	gt: '$gt',
+	lte: '$lte',
+	lt: '$lt',
+};
+
+/**
+ * 支持范围过滤的字段类型
+ */
+const RANGE_FILTER_TYPES: ListFilterType[] = ['date', 'number'];
+
+/**
+ * 游标内容
+ *
+ * @description s 为生成游标时的排序签名，v 为排序字段的取值
+ */
+interface CursorPayload {
+	s: string;
+	v: unknown[];
+}
+
+/**
+ * 翻译列表查询参数
+ *
+ * @description 按规格中的白名单将分页、排序、过滤与搜索参数翻译为 MikroORM 查询条件，
+ * 参数值只会作为字面量进入查询，不会被解释为运算符
+ * @param params - 列表查询参数
+ * @param spec - 列表查询规格
+ * @returns 列表查询计划
+ * @throws {BadRequestException} 排序字段不允许、过滤值非法或游标无效
+ *
+ * @example
+ * ```typescript
+ * const plan = buildListQuery({ status: ['active'], sort: 'name:asc', limit: 10 }, USER_LIST_SPEC);
+ * ```
+ */
+export function buildListQuery<T>(params: ListQueryParams, spec: ListQuerySpec<T>): ListQueryPlan<T> {
+	const limit = Math.min(params.limit ?? DEFAULT_LIST_LIMIT, MAX_LIST_LIMIT);
+	const sortFields = resolveSort(params.sort || spec.defaultSort, spec);
+	const sortSignature = sortFields.map(({ field, direction }) => `${field}:${direction}`).join(',');
+
+	const conditions = [...buildFilters(params, spec), ...buildSearch(params.q, spec)];
+	const plan: ListQueryPlan<T> = {
+		where: combineConditions<T>(conditions),
+		orderBy: sortFields.map(
+			({ field, direction }) =>
+				({
+					[field]: direction === 'asc' ? QueryOrder.ASC_NULLS_LAST : QueryOrder.DESC_NULLS_LAST,
+				}) as QueryOrderMap<T>
+		),
+		limit,
+		cursorFor: (item) => {
+			const record = item as Record<string, unknown>;
+			const payload: CursorPayload = { s: sortSignature, v: sortFields.map(({ field }) => record[field]) };
+			return Buffer.from(JSON.stringify(payload)).toString('base64url');
+		},
+	};
+
+	if (params.cursor) {
+		plan.cursorWhere = buildCursorCondition<T>(params.cursor, sortFields, sortSignature);
+	} else {
+		plan.page = params.page ?? 1;
+		plan.offset = (plan.page - 1) * limit;
+	}
+
+	return plan;
+}
+
+/**
+ * 合并查询条件
+ *
+ * @param conditions - 查询条件，空条件会被忽略
+ * @returns 合并后的查询条件
+ */
+export function combineConditions<T>(conditions: FilterQuery<T>[]): FilterQuery<T> {
+	const nonEmpty = conditions.filter((condition) => Object.keys(condition as object).length > 0);
+	if (nonEmpty.length <= 1) {
+		return nonEmpty[0] ?? {};
+	}
+	return { $and: nonEmpty } as FilterQuery<T>;
+}
+
+/**
+ * 解析并校验排序
+ *
+ * @param sort - 排序参数
+ * @param spec - 列表查询规格
+ * @returns 排序项列表，末尾追加 id 兜底
+ * @throws {BadRequestException} 排序字段不允许
+ */
+function resolveSort<T>(sort: string, spec: ListQuerySpec<T>): SortField[] {
+	const fields = parseSort(sort);
+	for (const { field } of fields) {
+		if (!(spec.sortable as string[]).includes(field)) {
+			throw new BadRequestException(`Cannot sort by ${field}`);
+		}
+	}
+	return fields.some(({ field }) => field === 'id') ? fields : [...fields, { field: 'id', direction: 'asc' }];
+}
+
+/**
+ * 构建字段过滤条件
+ *
+ * @param params - 列表查询参数
+ * @param spec - 列表查询规格
+ * @returns 字段过滤条件
+ * @throws {BadRequestException} 过滤值非法
+ */
+function buildFilters<T>(params: ListQueryParams, spec: ListQuerySpec<T>): FilterQuery<T>[] {
+	const conditions: FilterQuery<T>[] = [];
+
+	for (const [field, type] of Object.entries(spec.filters) as [string, ListFilterType][]) {
+		const value = (params as Record<string, unknown>)[field];
+		if (value === undefined || value === null || value === '') {
+			continue;
+		}
+
+		if (Array.isArray(value)) {
+			if (type === 'boolean') {
+				throw new BadRequestException(`Filter ${field} accepts a single value`);
+			}
+			conditions.push({ [field]: { $in: value.map((item) => toLiteral(field, type, item)) } } as FilterQuery<T>);
+		} else if (typeof value === 'object') {
+			conditions.push({ [field]: buildRange(field, type, value as Record<string, unknown>) } as FilterQuery<T>);
+		} else {
+			conditions.push({ [field]: toLiteral(field, type, value) } as FilterQuery<T>);
+		}
+	}
+
+	return conditions;
+}
+
+/**
+ * 构建范围过滤条件
+ *
+ * @param field - 字段名
+ * @param type - 字段类型
+ * @param range - 范围参数，如 `{ gte: '2024-01-01' }`
+ * @returns 范围条件
+ * @throws {BadRequestException} 字段不支持范围过滤或运算符未知
+ */
+function buildRange(field: string, type: ListFilterType, range: Record<string, unknown>): Record<string, unknown> {
+	if (!RANGE_FILTER_TYPES.includes(type)) {
+		throw new BadRequestException(`Filter ${field} does not support ranges`);
+	}
+
+	const condition: Record<string, unknown> = {};
+	for (const [operator, value] of Object.entries(range)) {
+		if (value === undefined) {
+			continue;
+		}
+		const mapped = RANGE_OPERATORS[operator];
+		if (!mapped) {
+			throw new BadRequestException(`Unknown operator ${operator} for filter ${field}`);
+		}
+		condition[mapped] = toLiteral(field, type, value);
+	}
+	return condition;
+}
+
+/**
+ * 将参数值转换为字面量
+ *
+ * @param field - 字段名
+ * @param type - 字段类型
+ * @param value - 参数值
+ * @returns 字面量
+ * @throws {BadRequestException} 参数值不是合法的标量
+ */
+function toLiteral(field: string, type: ListFilterType, value: unknown): string | number | boolean | Date {
+	if (typeof value === 'object' && !(value instanceof Date)) {
+		throw new BadRequestException(`Invalid value for filter ${field}`);
+	}
+
+	switch (type) {
+		case 'date': {
+			const date = value instanceof Date ? value : new Date(String(value));
+			if (Number.isNaN(date.getTime())) {
+				throw new BadRequestException(`Invalid date for filter ${field}`);
+			}
+			return date;
+		}
+		case 'number': {
+			const number = Number(value);
+			if (!Number.isFinite(number)) {
+				throw new BadRequestException(`Invalid number for filter ${field}`);
+			}
+			return number;
+		}
+		case 'boolean':
+			return value === true || value === 'true' || value === '1';
+		default:
+			return String(value);
+	}
+}
+
+/**
+ * 构建文本搜索条件
+ *
+ * @param q - 搜索关键字
+ * @param spec - 列表查询规格
+ * @returns 搜索条件，任一可搜索字段匹配即可
+ */
+function buildSearch<T>(q: string | undefined, spec: ListQuerySpec<T>): FilterQuery<T>[] {
+	const keyword = q?.trim();
+	if (!keyword || !spec.searchable?.length) {
+		return [];
+	}
+
+	const pattern = `%${keyword.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+	return [{ $or: spec.searchable.map((field) => ({ [field]: { $ilike: pattern } })) } as FilterQuery<T>];
+}
+
+/**
+ * 构建游标条件
+ *
+ * @description 基于排序字段的键集分页：取排序在游标之后的数据。空值排在最后，
+ * 游标值非空时其后还包括该字段为空的数据，游标值为空时只能在后续排序字段上继续
+ * @param cursor - 游标
+ * @param sortFields - 排序项列表
+ * @param sortSignature - 当前排序签名
+ * @returns 游标条件
+ * @throws {BadRequestException} 游标无效或与当前排序不一致
+ */
+function buildCursorCondition<T>(cursor: string, sortFields: SortField[], sortSignature: string): FilterQuery<T> {
+	let payload: CursorPayload;
+	try {
+		payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+	} catch {
+		throw new BadRequestException('Invalid cursor');
+	}
+
+	const values = payload?.v;
+	if (
+		payload?.s !== sortSignature ||
+		!Array.isArray(values) ||
+		values.length !== sortFields.length ||
+		values.some((value) => value !== null && typeof value === 'object')
+	) {
+		throw new BadRequestException('Invalid cursor for the requested sort');
+	}
+
+	const clauses = sortFields.flatMap(({ field, direction }, index) => {
+		if (values[index] === null) {
+			return [];
+		}
+
+		// 前序字段取值相同，游标值为空时条件为 IS NULL
+		const clause: Record<string, unknown> = {};
+		sortFields.slice(0, index).forEach((previous, previousIndex) => {
+			clause[previous.field] = values[previousIndex];
+		});
+		const after = { [field]: { [direction === 'asc' ? '$gt' : '$lt']: values[index] } };
+		if (field === 'id') {
+			Object.assign(clause, after);
+		} else {
+			clause['$or'] = [after, { [field]: null }];
+		}
+		return [clause];
+	});
+
+	return { $or: clauses } as FilterQuery<T>;
+}
@@ -0,0 +1,103 @@
+import { randomUUID } from 'crypto';
+import { MikroORM } from '@mikro-orm/postgresql';
+import type { EntityManager } from '@mikro-orm/postgresql';
+import { Department } from '../entities/department.entity';
+import { Organization } from '../entities/organization.entity';
+import { RefreshToken } from '../entities/refresh-token.entity';
+import { Tenant } from '../entities/tenant.entity';
+import { User } from '../entities/user.entity';
+import type { ConnectionManager } from './connection-manager';
+import { EntityManagerService } from './entity-manager';
+import { assertVersion, EntityVersionConflictError } from './optimistic-lock';
+
+// 日志包与配置包在加载时会初始化 pino 与连接配置，单元测试中以轻量替身隔离
+jest.mock('./connection-manager', () => ({ ConnectionManager: class ConnectionManager {} }));
+jest.mock('@hl8/logger', () => ({
+  Logger: jest.fn().mockImplementation(() => ({ debug: jest.fn(), error: jest.fn() })),
+}));
+
+/**
+ * 乐观锁测试
+ *
+ * @description 不连接数据库，截获驱动收到的写入，验证版本号的递增、版本条件与冲突异常
+ */
+describe('Optimistic locking', () => {
+  let orm: MikroORM;
+  let em: EntityManager;
+  let service: EntityManagerService;
+  let nativeUpdate: jest.SpyInstance;
+  let driverFind: jest.SpyInstance;
+
+  beforeAll(async () => {
+    // 锁文件中 @mikro-orm/mongodb 与 core 的补丁版本不一致，测试只用到 PostgreSQL 驱动
+    process.env['MIKRO_ORM_ALLOW_VERSION_MISMATCH'] = 'true';
+    orm = await MikroORM.init({
+      dbName: 'optimistic_lock_test',
+      entities: [User, Tenant, Organization, Department, RefreshToken],
+      connect: false,
+      allowGlobalContext: true,
+      implicitTransactions: false,
+    });
+  });
+
+  afterAll(async () => {
+    await orm.close();
+  });
+
+  beforeEach(() => {
+    const driver = orm.em.getDriver();
+    // 版本列由数据库以默认值 1 初始化，并通过 RETURNING 回填
+    const inserted = { affectedRows: 1, row: { version: 1 }, rows: [{ version: 1 }] };
+    jest.spyOn(driver, 'nativeInsertMany').mockResolvedValue(inserted as never);
+    jest.spyOn(driver, 'nativeInsert').mockResolvedValue(inserted as never);
+    nativeUpdate = jest.spyOn(driver, 'nativeUpdate').mockResolvedValue({ affectedRows: 1, rows: [] } as never);
+    driverFind = jest.spyOn(driver, 'find').mockResolvedValue([]);
+    em = orm.em.fork();
+    service = new EntityManagerService({ getPostgresConnection: () => em } as unknown as ConnectionManager);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const persistedTenant = async () => {
+    const tenant = Object.assign(new Tenant(), { name: 'Acme', createdBy: randomUUID(), updatedBy: randomUUID() });
+    await em.persistAndFlush(tenant);
+    return tenant;
+  };
+
+  it('should start at version 1 and only update the version that was read', async () => {
+    const tenant = await persistedTenant();
+    expect(tenant.version).toBe(1);
+
+    tenant.name = 'Acme Inc';
+    await service.update('postgresql', tenant);
+
+    expect(nativeUpdate).toHaveBeenCalledWith(
+      'Tenant',
+      { id: tenant.id, version: 1 },
+      expect.objectContaining({ name: 'Acme Inc' }),
+      expect.anything(),
+    );
+  });
+
+  it('should raise a version conflict with the current version when the row changed meanwhile', async () => {
+    const tenant = await persistedTenant();
+    nativeUpdate.mockResolvedValue({ affectedRows: 0, rows: [] });
+    driverFind.mockResolvedValue([{ id: tenant.id, version: 3 }]);
+
+    tenant.name = 'Acme Inc';
+    const update = service.update('postgresql', tenant);
+
+    await expect(update).rejects.toBeInstanceOf(EntityVersionConflictError);
+    await expect(update).rejects.toMatchObject({ currentVersion: 3, response: { currentVersion: 3 } });
+  });
+
+  it('should compare the expected version only when one is given', () => {
+    const tenant = Object.assign(new Tenant(), { version: 2 });
+
+    expect(() => assertVersion(tenant)).not.toThrow();
+    expect(() => assertVersion(tenant, 2)).not.toThrow();
+    expect(() => assertVersion(tenant, 1)).toThrow(EntityVersionConflictError);
+  });
+});
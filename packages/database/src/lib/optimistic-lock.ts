@@ -0,0 +1,43 @@
+import { PreconditionFailedException } from '@nestjs/common';
+
+/**
+ * 带版本号的实体
+ *
+ * @description 以 `@Property({ version: true })` 声明了 version 属性的实体
+ */
+export type VersionedEntity = { version: number };
+
+/**
+ * 实体版本冲突异常
+ *
+ * @description 客户端提交的版本与实体当前版本不一致，或实体在读取后被其他请求修改时抛出，
+ * 响应中的 currentVersion 为实体当前版本，实体已不存在时为空
+ */
+export class EntityVersionConflictError extends PreconditionFailedException {
+	constructor(
+		readonly entityName: string,
+		readonly currentVersion?: number
+	) {
+		super({ message: `${entityName} has been modified by another request`, currentVersion });
+	}
+}
+
+/**
+ * 校验实体版本
+ *
+ * @description 未指定期望版本时不做校验，与未携带 If-Match 的请求保持兼容
+ * @param entity - 实体
+ * @param expectedVersion - 客户端期望的版本
+ * @throws {EntityVersionConflictError} 实体当前版本与期望版本不一致
+ *
+ * @example
+ * ```typescript
+ * const tenant = await this.findTenantOrFail(tenantId);
+ * assertVersion(tenant, expectedVersion);
+ * ```
+ */
+export function assertVersion(entity: VersionedEntity, expectedVersion?: number): void {
+	if (expectedVersion !== undefined && entity.version !== expectedVersion) {
+		throw new EntityVersionConflictError(entity.constructor.name, entity.version);
+	}
+}
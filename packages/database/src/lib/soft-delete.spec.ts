@@ -0,0 +1,118 @@
+import { MikroORM } from '@mikro-orm/postgresql';
+import type { EntityManager } from '@mikro-orm/postgresql';
+import { SoftDeleteHandler } from 'mikro-orm-soft-delete';
+import { Department } from '../entities/department.entity';
+import { Organization } from '../entities/organization.entity';
+import { RefreshToken } from '../entities/refresh-token.entity';
+import { Tenant } from '../entities/tenant.entity';
+import { User } from '../entities/user.entity';
+import { runWithActor } from './actor-context';
+import { ActorStampSubscriber } from './actor-stamp';
+import { isSoftDeleted, withDeleted } from './soft-delete';
+import { runWithTenantContext, withoutTenantScope } from './tenant-context';
+
+const ACME_ID = '6f1d2c3b-8a4e-4f5a-9b6c-7d8e9f0a1b2c';
+const ADMIN_ID = '0a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d';
+
+/**
+ * 软删除测试
+ *
+ * @description 不连接数据库，截获驱动收到的写入与查询条件，验证软删除处理器、删除人填充与软删除过滤器
+ */
+describe('Soft delete', () => {
+  let orm: MikroORM;
+  let em: EntityManager;
+  let driverFind: jest.SpyInstance;
+  let nativeUpdate: jest.SpyInstance;
+  let nativeDelete: jest.SpyInstance;
+
+  beforeAll(async () => {
+    // 锁文件中 @mikro-orm/mongodb 与 core 的补丁版本不一致，测试只用到 PostgreSQL 驱动
+    process.env['MIKRO_ORM_ALLOW_VERSION_MISMATCH'] = 'true';
+    orm = await MikroORM.init({
+      dbName: 'soft_delete_test',
+      entities: [User, Tenant, Organization, Department, RefreshToken],
+      extensions: [SoftDeleteHandler],
+      subscribers: [new ActorStampSubscriber()],
+      connect: false,
+      allowGlobalContext: true,
+      implicitTransactions: false,
+    });
+  });
+
+  afterAll(async () => {
+    await orm.close();
+  });
+
+  beforeEach(() => {
+    const driver = orm.em.getDriver();
+    jest.spyOn(driver, 'nativeInsertMany').mockResolvedValue({ affectedRows: 1, rows: [] } as never);
+    jest.spyOn(driver, 'nativeInsert').mockResolvedValue({ affectedRows: 1, rows: [] } as never);
+    nativeUpdate = jest.spyOn(driver, 'nativeUpdate').mockResolvedValue({ affectedRows: 1, rows: [] } as never);
+    nativeDelete = jest.spyOn(driver, 'nativeDelete').mockResolvedValue({ affectedRows: 1, rows: [] } as never);
+    driverFind = jest.spyOn(driver, 'find').mockResolvedValue([]);
+    em = orm.em.fork();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const persistedUser = async () => {
+    const user = Object.assign(new User(), {
+      username: 'alice',
+      email: 'alice@example.com',
+      passwordHash: 'hash',
+      tenantId: ACME_ID,
+    });
+    await runWithActor(ADMIN_ID, () => em.persistAndFlush(user));
+    return user;
+  };
+
+  it('should turn removals into updates stamped with the deleting actor', async () => {
+    const user = await persistedUser();
+
+    await runWithActor(ADMIN_ID, () => em.removeAndFlush(user));
+
+    expect(nativeDelete).not.toHaveBeenCalled();
+    expect(nativeUpdate).toHaveBeenCalledWith(
+      'User',
+      { id: user.id },
+      expect.objectContaining({ deletedAt: expect.any(Date), deletedBy: ADMIN_ID }),
+      expect.anything(),
+    );
+    expect(isSoftDeleted(user)).toBe(true);
+  });
+
+  it('should clear the deletion marks on restore', async () => {
+    const user = await persistedUser();
+    await runWithActor(ADMIN_ID, () => em.removeAndFlush(user));
+    nativeUpdate.mockClear();
+
+    user.deletedAt = undefined;
+    user.deletedBy = undefined;
+    await runWithActor(ADMIN_ID, () => em.flush());
+
+    // 驱动将 undefined 写为 NULL
+    const [entityName, where, payload] = nativeUpdate.mock.calls[0];
+    expect([entityName, where]).toEqual(['User', { id: user.id }]);
+    expect(payload).toHaveProperty('deletedAt', undefined);
+    expect(payload).toHaveProperty('deletedBy', undefined);
+    expect(isSoftDeleted(user)).toBe(false);
+  });
+
+  it('should exclude deleted rows from queries by default', async () => {
+    await withoutTenantScope(() => em.find(Organization, {}));
+
+    expect(driverFind.mock.calls[0][1]).toEqual({ deletedAt: null });
+  });
+
+  it('should only lift the soft delete filter when deleted rows are requested', async () => {
+    await runWithTenantContext({ tenant: { id: ACME_ID } as Tenant, resolvedBy: 'header' }, () =>
+      em.find(User, {}, withDeleted()),
+    );
+
+    expect(driverFind.mock.calls[0][1]).toEqual({ tenantId: ACME_ID });
+    expect(withDeleted(false)).toEqual({});
+  });
+});
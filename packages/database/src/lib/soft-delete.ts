@@ -0,0 +1,43 @@
+import type { FilterOptions } from '@mikro-orm/core';
+import { SOFT_DELETABLE_FILTER } from 'mikro-orm-soft-delete';
+
+/**
+ * 软删除过滤器名称
+ *
+ * @description mikro-orm-soft-delete 为 `@SoftDeletable` 实体注册的默认过滤器，查询时排除 deletedAt 不为空的行，
+ * 可通过 `filters: { [SOFT_DELETE_FILTER]: false }` 在单次查询中关闭
+ */
+export const SOFT_DELETE_FILTER = SOFT_DELETABLE_FILTER;
+
+/**
+ * 软删除实体
+ *
+ * @description 带 deletedAt 与 deletedBy 属性的实体
+ */
+export type SoftDeletableEntity = { deletedAt?: Date; deletedBy?: string };
+
+/**
+ * 包含已删除数据的查询选项
+ *
+ * @description 只关闭软删除过滤器，租户过滤器等其他默认过滤器仍然生效
+ * @param include - 是否包含已删除数据，为 false 时返回空选项；传入 undefined 时按默认值 true 处理
+ * @returns 可直接传给 findOne、find、count 与 findPage 的查询选项
+ *
+ * @example
+ * ```typescript
+ * const user = await this.entityManager.findOne('postgresql', User, { id }, withDeleted());
+ * ```
+ */
+export function withDeleted(include = true): { filters?: FilterOptions } {
+	return include ? { filters: { [SOFT_DELETE_FILTER]: false } } : {};
+}
+
+/**
+ * 判断实体是否已被软删除
+ *
+ * @param entity - 实体
+ * @returns 已删除返回 true
+ */
+export function isSoftDeleted(entity: SoftDeletableEntity): boolean {
+	return entity.deletedAt !== undefined && entity.deletedAt !== null;
+}
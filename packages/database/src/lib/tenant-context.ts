@@ -0,0 +1,111 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { Tenant } from '../entities/tenant.entity';
+
+/**
+ * 租户上下文
+ *
+ * @description 当前请求所属租户及其解析来源
+ */
+export interface TenantContext {
+	/** 当前租户 */
+	tenant: Tenant;
+	/** 解析来源，如 domain、subdomain、header、token */
+	resolvedBy: string;
+}
+
+/**
+ * 租户上下文存储
+ *
+ * @description 基于 AsyncLocalStorage，在一次请求的异步调用链内共享租户上下文
+ */
+const tenantStorage = new AsyncLocalStorage<TenantContext>();
+
+/**
+ * 租户作用域豁免标记存储
+ *
+ * @description 标记当前异步调用链是否显式跳过租户数据隔离
+ */
+const scopeBypassStorage = new AsyncLocalStorage<boolean>();
+
+/**
+ * 在租户上下文中执行回调
+ *
+ * @description 回调及其派生的全部异步操作均可通过 getCurrentTenant 读取租户
+ * @param context - 租户上下文
+ * @param callback - 回调函数
+ * @returns 回调返回值
+ *
+ * @example
+ * ```typescript
+ * runWithTenantContext({ tenant, resolvedBy: 'header' }, () => next());
+ * ```
+ */
+export function runWithTenantContext<T>(context: TenantContext, callback: () => T): T {
+	return tenantStorage.run(context, callback);
+}
+
+/**
+ * 获取当前租户上下文
+ *
+ * @returns 当前租户上下文，不在租户作用域内时返回 undefined
+ */
+export function getCurrentTenantContext(): TenantContext | undefined {
+	return tenantStorage.getStore();
+}
+
+/**
+ * 获取当前租户
+ *
+ * @returns 当前租户，不在租户作用域内时返回 undefined
+ */
+export function getCurrentTenant(): Tenant | undefined {
+	return tenantStorage.getStore()?.tenant;
+}
+
+/**
+ * 获取当前租户ID
+ *
+ * @returns 当前租户ID，不在租户作用域内时返回 undefined
+ */
+export function getCurrentTenantId(): string | undefined {
+	return tenantStorage.getStore()?.tenant.id;
+}
+
+/**
+ * 跳过租户作用域执行回调
+ *
+ * @description 供平台管理员等需要跨租户读写的场景显式使用，回调内的查询不再附加租户过滤条件，
+ * 写入也不再校验租户归属
+ * @param callback - 回调函数
+ * @returns 回调返回值
+ *
+ * @example
+ * ```typescript
+ * const users = await withoutTenantScope(() => em.find(User, {}));
+ * ```
+ */
+export function withoutTenantScope<T>(callback: () => T): T {
+	return scopeBypassStorage.run(true, callback);
+}
+
+/**
+ * 是否显式跳过了租户作用域
+ *
+ * @returns 处于 withoutTenantScope 回调内时返回 true
+ */
+export function isTenantScopeBypassed(): boolean {
+	return scopeBypassStorage.getStore() === true;
+}
+
+/**
+ * 获取当前生效的租户作用域
+ *
+ * @description 数据隔离使用的租户ID，处于 withoutTenantScope 回调内时返回 undefined
+ * @returns 租户ID，不受租户作用域约束时返回 undefined
+ */
+export function getTenantScopeId(): string | undefined {
+	if (scopeBypassStorage.getStore()) {
+		return undefined;
+	}
+	return getCurrentTenantId();
+}
@@ -0,0 +1,143 @@
+import { MikroORM } from '@mikro-orm/postgresql';
+import type { EntityManager } from '@mikro-orm/postgresql';
+import type { EventArgs } from '@mikro-orm/core';
+import { Department } from '../entities/department.entity';
+import { Organization } from '../entities/organization.entity';
+import { RefreshToken } from '../entities/refresh-token.entity';
+import { Tenant } from '../entities/tenant.entity';
+import { User } from '../entities/user.entity';
+import { ConnectionManager } from './connection-manager';
+import { EntityManagerService } from './entity-manager';
+import { runWithTenantContext, withoutTenantScope } from './tenant-context';
+import { MissingTenantScopeError, TenantScopeSubscriber, TenantScopeViolationError } from './tenant-scope';
+
+// 日志包与配置包在加载时会初始化 pino 与连接配置，单元测试中以轻量替身隔离
+jest.mock('./connection-manager', () => ({ ConnectionManager: class ConnectionManager {} }));
+jest.mock('@hl8/logger', () => ({
+  Logger: jest.fn().mockImplementation(() => ({ debug: jest.fn(), error: jest.fn() })),
+}));
+
+const ACME_ID = '6f1d2c3b-8a4e-4f5a-9b6c-7d8e9f0a1b2c';
+const GLOBEX_ID = '0a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d';
+
+/**
+ * 租户数据隔离测试
+ *
+ * @description 不连接数据库，通过截获驱动收到的查询条件验证租户过滤器与写入校验
+ */
+describe('Tenant scope', () => {
+  let orm: MikroORM;
+  let em: EntityManager;
+  let service: EntityManagerService;
+  let driverFind: jest.SpyInstance;
+  let driverCount: jest.SpyInstance;
+
+  const inTenant = <T>(tenantId: string, callback: () => T) =>
+    runWithTenantContext({ tenant: { id: tenantId } as Tenant, resolvedBy: 'header' }, callback);
+
+  beforeAll(async () => {
+    // 锁文件中 @mikro-orm/mongodb 与 core 的补丁版本不一致，测试只用到 PostgreSQL 驱动
+    process.env['MIKRO_ORM_ALLOW_VERSION_MISMATCH'] = 'true';
+    orm = await MikroORM.init({
+      dbName: 'tenant_scope_test',
+      entities: [User, Tenant, Organization, Department, RefreshToken],
+      subscribers: [new TenantScopeSubscriber()],
+      connect: false,
+      allowGlobalContext: true,
+    });
+  });
+
+  afterAll(async () => {
+    await orm.close();
+  });
+
+  beforeEach(() => {
+    driverFind = jest.spyOn(orm.em.getDriver(), 'find').mockResolvedValue([]);
+    driverCount = jest.spyOn(orm.em.getDriver(), 'count').mockResolvedValue(0);
+    em = orm.em.fork();
+    const connectionManager = { getPostgresConnection: () => em };
+    service = new EntityManagerService(connectionManager as unknown as ConnectionManager);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const lastWhere = (spy: jest.SpyInstance) => JSON.stringify(spy.mock.calls.at(-1)?.[1] ?? {});
+
+  describe('reads', () => {
+    it('should restrict queries to the current tenant', async () => {
+      await inTenant(ACME_ID, () => service.find('postgresql', User, { username: 'alice' }));
+
+      expect(lastWhere(driverFind)).toContain(ACME_ID);
+      expect(lastWhere(driverFind)).toContain('alice');
+    });
+
+    it('should not let an explicit tenant condition escape the scope', async () => {
+      await inTenant(ACME_ID, () => service.findOne('postgresql', Organization, { tenantId: GLOBEX_ID }));
+
+      expect(lastWhere(driverFind)).toContain(ACME_ID);
+      expect(lastWhere(driverFind)).toContain(GLOBEX_ID);
+    });
+
+    it('should scope counts and queries inside transactions', async () => {
+      jest.spyOn(em, 'transactional').mockImplementation(async (callback) => callback(em.fork()));
+
+      await inTenant(ACME_ID, async () => {
+        await service.count('postgresql', User, {});
+        await service.transaction('postgresql', (trx) => trx.find(Organization, {}));
+      });
+
+      expect(lastWhere(driverCount)).toContain(ACME_ID);
+      expect(lastWhere(driverFind)).toContain(ACME_ID);
+    });
+
+    it('should refuse to query outside a tenant unless the scope is lifted explicitly', async () => {
+      await expect(service.find('postgresql', User, {})).rejects.toBeInstanceOf(MissingTenantScopeError);
+      await expect(em.count(Organization, {})).rejects.toThrow('Organization cannot be queried outside a tenant scope');
+      expect(driverFind).not.toHaveBeenCalled();
+
+      await service.withoutTenantScope(() => service.find('postgresql', User, {}));
+      expect(lastWhere(driverFind)).not.toContain('tenant');
+
+      await inTenant(ACME_ID, () =>
+        service.withoutTenantScope(() => service.find('postgresql', User, {})),
+      );
+      expect(lastWhere(driverFind)).not.toContain(ACME_ID);
+    });
+  });
+
+  describe('writes', () => {
+    const subscriber = new TenantScopeSubscriber();
+    const argsFor = (entity: object) =>
+      ({ entity, meta: orm.getMetadata().get(User.name) }) as unknown as EventArgs<{ tenantId?: string }>;
+
+    it('should stamp the current tenant on created entities', () => {
+      const user: Partial<User> = { username: 'alice' };
+
+      inTenant(ACME_ID, () => subscriber.beforeCreate(argsFor(user)));
+
+      expect(user.tenantId).toBe(ACME_ID);
+    });
+
+    it('should reject creating, updating or deleting data of another tenant', () => {
+      const foreign = { username: 'bob', tenantId: GLOBEX_ID };
+
+      inTenant(ACME_ID, () => {
+        expect(() => subscriber.beforeCreate(argsFor(foreign))).toThrow(TenantScopeViolationError);
+        expect(() => subscriber.beforeUpdate(argsFor(foreign))).toThrow(TenantScopeViolationError);
+        expect(() => subscriber.beforeDelete(argsFor(foreign))).toThrow(TenantScopeViolationError);
+      });
+    });
+
+    it('should allow cross-tenant writes only inside withoutTenantScope', () => {
+      const foreign = { username: 'bob', tenantId: GLOBEX_ID };
+
+      inTenant(ACME_ID, () =>
+        withoutTenantScope(() => {
+          expect(() => subscriber.beforeUpdate(argsFor(foreign))).not.toThrow();
+        }),
+      );
+    });
+  });
+});
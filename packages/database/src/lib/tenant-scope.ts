@@ -0,0 +1,143 @@
+import { ForbiddenException } from '@nestjs/common';
+import { Utils } from '@mikro-orm/core';
+import type { EntityName, EventArgs, EventSubscriber, FilterQuery } from '@mikro-orm/core';
+import { getCurrentTenantId, getTenantScopeId, isTenantScopeBypassed } from './tenant-context';
+
+/**
+ * 租户过滤器名称
+ *
+ * @description 租户数据隔离使用的 MikroORM 过滤器名称，可通过 `filters: { tenant: false }` 在单次查询中关闭
+ */
+export const TENANT_FILTER = 'tenant';
+
+/**
+ * 缺少租户作用域异常
+ *
+ * @description 既不在租户上下文中、也未通过 withoutTenantScope 显式跨租户时查询租户隔离实体抛出，
+ * 避免租户解析失败的请求读到所有租户的数据
+ */
+export class MissingTenantScopeError extends ForbiddenException {
+	constructor(entityName: string) {
+		super(`${entityName} cannot be queried outside a tenant scope`);
+	}
+}
+
+/**
+ * 创建租户过滤条件
+ *
+ * @description 过滤条件在每次查询时从当前租户作用域读取租户ID；处于 withoutTenantScope 回调内时不附加任何条件，
+ * 二者皆无时拒绝查询，跨租户的任务与平台管理操作须显式使用 withoutTenantScope
+ * @param field - 实体上保存租户ID的属性名
+ * @returns MikroORM 过滤器条件函数
+ * @throws {MissingTenantScopeError} 查询时不在租户作用域内
+ *
+ * @example
+ * ```typescript
+ * @Filter({ name: TENANT_FILTER, cond: tenantScopeCondition(), default: true })
+ * export class User {}
+ * ```
+ */
+export function tenantScopeCondition(field = 'tenantId'): () => FilterQuery<object> {
+	// 以剩余参数声明，条件函数的 length 为 0，MikroORM 才不会要求调用方为过滤器传入 args
+	return (...params: unknown[]) => {
+		if (isTenantScopeBypassed()) {
+			return {};
+		}
+
+		const tenantId = getCurrentTenantId();
+		if (!tenantId) {
+			const entityName = params[4] as EntityName<object> | undefined;
+			throw new MissingTenantScopeError(entityName ? Utils.className(entityName) : 'Entity');
+		}
+		return { [field]: tenantId };
+	};
+}
+
+/**
+ * 租户越权异常
+ *
+ * @description 在租户作用域内写入属于其他租户的数据时抛出
+ */
+export class TenantScopeViolationError extends ForbiddenException {
+	constructor(entityName: string, tenantId: string, scopeTenantId: string) {
+		super(`${entityName} belongs to tenant ${tenantId}, not the current tenant ${scopeTenantId}`);
+	}
+}
+
+/**
+ * 租户隔离实体
+ *
+ * @description 带 tenantId 属性的实体
+ */
+type TenantScopedEntity = { tenantId?: string };
+
+/**
+ * 租户作用域订阅者
+ *
+ * 与租户过滤器配合，保证在租户作用域内的写入同样无法越过租户边界
+ *
+ * ## 规则
+ * - 创建带 tenantId 属性的实体时，未指定租户则自动填入当前租户
+ * - 创建、更新、删除属于其他租户的实体时抛出 TenantScopeViolationError
+ * - 不在租户作用域内或处于 withoutTenantScope 回调内时不做任何处理
+ *
+ * @description 租户作用域订阅者，负责写入时的租户填充与校验
+ * @since 1.0.0
+ */
+export class TenantScopeSubscriber implements EventSubscriber<TenantScopedEntity> {
+	/**
+	 * 创建前填充并校验租户
+	 *
+	 * @param args - 事件参数
+	 * @throws {TenantScopeViolationError} 实体属于其他租户
+	 */
+	beforeCreate(args: EventArgs<TenantScopedEntity>): void {
+		const scopeTenantId = getTenantScopeId();
+		if (!scopeTenantId || !args.meta.properties.tenantId) {
+			return;
+		}
+
+		args.entity.tenantId ??= scopeTenantId;
+		this.assertInScope(args, scopeTenantId);
+	}
+
+	/**
+	 * 更新前校验租户
+	 *
+	 * @param args - 事件参数
+	 * @throws {TenantScopeViolationError} 实体属于其他租户
+	 */
+	beforeUpdate(args: EventArgs<TenantScopedEntity>): void {
+		const scopeTenantId = getTenantScopeId();
+		if (scopeTenantId && args.meta.properties.tenantId) {
+			this.assertInScope(args, scopeTenantId);
+		}
+	}
+
+	/**
+	 * 删除前校验租户
+	 *
+	 * @param args - 事件参数
+	 * @throws {TenantScopeViolationError} 实体属于其他租户
+	 */
+	beforeDelete(args: EventArgs<TenantScopedEntity>): void {
+		const scopeTenantId = getTenantScopeId();
+		if (scopeTenantId && args.meta.properties.tenantId) {
+			this.assertInScope(args, scopeTenantId);
+		}
+	}
+
+	/**
+	 * 校验实体属于当前租户
+	 *
+	 * @param args - 事件参数
+	 * @param scopeTenantId - 当前租户ID
+	 * @throws {TenantScopeViolationError} 实体属于其他租户
+	 */
+	private assertInScope(args: EventArgs<TenantScopedEntity>, scopeTenantId: string): void {
+		const { tenantId } = args.entity;
+		if (tenantId !== scopeTenantId) {
+			throw new TenantScopeViolationError(args.meta.className, tenantId ?? 'none', scopeTenantId);
+		}
+	}
+}
@@ -110,6 +110,7 @@ export class PinoLogger implements LoggerInterface {
               requestId: context.requestId,
               userId: context.userId,
               traceId: context.traceId,
+              impersonatedBy: context.impersonatedBy,
               ...context.metadata,
             };
           }
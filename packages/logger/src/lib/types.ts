@@ -188,6 +188,8 @@ export interface RequestContext {
   traceId?: string;
   /** 会话ID */
   sessionId?: string;
+  /** 模拟登录的平台操作员ID，仅模拟请求携带 */
+  impersonatedBy?: string;
   /** 自定义上下文数据 */
   metadata?: RequestMetadata;
 }
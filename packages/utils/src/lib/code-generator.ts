@@ -1,9 +1,14 @@
+import { randomInt } from 'crypto';
+
 // 临时定义常量，避免跨包依赖
 const ALPHA_NUMERIC_CODE_LENGTH = 6;
 
 /**
  * Generates a random alphanumeric code.
  *
+ * Characters are picked with a cryptographically secure random generator,
+ * so the code can be used as a one-time login or verification code.
+ *
  * @param length - The length of the code. Default is `ALPHA_NUMERIC_CODE_LENGTH` (6).
  * @returns A randomly generated alphanumeric code.
  */
@@ -12,8 +17,7 @@ export function generateAlphaNumericCode(length: number = ALPHA_NUMERIC_CODE_LEN
 	let code = '';
 
 	for (let i = 0; i < length; i++) {
-		const index = Math.floor(Math.random() * characters.length);
-		code += characters[index];
+		code += characters[randomInt(characters.length)];
 	}
 
 	return code;